@@ -7,14 +7,20 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate, useLocation, useNavigate } from "react-router-dom";
 import { ReservationProvider } from "@/context/ReservationContext";
 import { AuthProvider, useAuth } from "@/context/AuthContext";
+import { SettingsProvider } from "@/context/SettingsContext";
 import Index from "./pages/Index";
 import CalendarPage from "./pages/CalendarPage";
 import ReservationPage from "./pages/ReservationPage";
 import AdminPage from "./pages/AdminPage";
+import AdminReportPage from "./pages/AdminReportPage";
 import LoginPage from "./pages/LoginPage";
 import AuthPage from "./pages/AuthPage";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
 import ConfirmReservationPage from "./pages/ConfirmReservationPage";
+import ClaimWaitlistPage from "./pages/ClaimWaitlistPage";
+import MyReservationsPage from "./pages/MyReservationsPage";
+import HandoverPage from "./pages/HandoverPage";
+import Report from "./pages/Report";
 import NotFound from "./pages/NotFound";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -36,7 +42,8 @@ const RouteHandler = () => {
 
       // IMPORTANT: Check for password recovery FIRST before any other checks
       // This prevents auto-login during password reset flow
-      if (location.hash.includes('type=recovery')) {
+      // Invitation links (type=invite) also land on the set-password form
+      if (location.hash.includes('type=recovery') || location.hash.includes('type=invite')) {
 
         if (!location.pathname.includes('reset-password')) {
           navigate('/auth/reset-password' + location.hash, { replace: true });
@@ -178,7 +185,12 @@ const AppRoutes = () => {
         <Route path="/calendario" element={<CalendarPage />} />
         <Route path="/nueva-reserva" element={<ReservationPage />} />
         <Route path="/confirmar-reserva" element={<ConfirmReservationPage />} />
+        <Route path="/reclamar-reserva" element={<ClaimWaitlistPage />} />
+        <Route path="/reportar" element={<Report />} />
+        <Route path="/mis-reservas" element={<MyReservationsPage />} />
+        <Route path="/guardia" element={<HandoverPage />} />
         <Route path="/admin" element={<AdminPage />} />
+        <Route path="/admin/informe" element={<AdminReportPage />} />
         <Route path="/login" element={<LoginPage />} />
         <Route path="/auth/*" element={<AuthPage />} />
         <Route path="/reset-password" element={<ResetPasswordPage />} />
@@ -204,11 +216,13 @@ const App = () => (
       />
       <BrowserRouter>
         <AuthProvider>
-          <ReservationProvider>
-            <MotionConfig reducedMotion="user">
-              <AppRoutes />
-            </MotionConfig>
-          </ReservationProvider>
+          <SettingsProvider>
+            <ReservationProvider>
+              <MotionConfig reducedMotion="user">
+                <AppRoutes />
+              </MotionConfig>
+            </ReservationProvider>
+          </SettingsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
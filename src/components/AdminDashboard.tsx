@@ -1,29 +1,77 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CalendarDays, Download, Plus } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
-import { logger } from '@/utils/logger';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import BlockDateForm from './admin/BlockDateForm';
+import BlockRulesManager from './admin/BlockRulesManager';
+import BlockImportDialog from './admin/BlockImportDialog';
+import AdminReservationDialog from './admin/AdminReservationDialog';
 import ReservationsList from './admin/ReservationsList';
 import PendingReservationsList from './admin/PendingReservationsList';
+import OperatingHoursSettings from './admin/OperatingHoursSettings';
+import CapacityRulesSettings from './admin/CapacityRulesSettings';
+import BookingPoliciesSettings from './admin/BookingPoliciesSettings';
+import ReminderSettings from './admin/ReminderSettings';
+import ReportsList from './admin/ReportsList';
+import WaitlistList from './admin/WaitlistList';
+import EmailOutboxList from './admin/EmailOutboxList';
+import ChangeRequestsList from './admin/ChangeRequestsList';
+import ExportDialog from './admin/ExportDialog';
+import StatisticsPanel from './admin/StatisticsPanel';
+import UsersManagement from './admin/UsersManagement';
+import {
+  cancelWaitlistEntry,
+  getEmailOutbox,
+  getPendingChangeRequests,
+  getReports,
+  getWaitlistEntries,
+  resendOutboxEmail,
+  updateReport
+} from '@/lib/supabase';
+import { Report, ReportStatus } from '@/types/report';
+import { WaitlistEntry } from '@/types/waitlist';
+import { EmailOutboxEntry } from '@/types/email';
+import { Reservation, ReservationChangeRequest } from '@/types/reservation';
+import { ExportStatus } from '@/types/export';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { fechaToDate } from '@/lib/dates';
+
+// Statuses preselected in the export dialog for each tab
+const TAB_EXPORT_STATUSES: Record<string, ExportStatus[]> = {
+  approved: ['approved', 'blocked'],
+  cancelled: ['cancelled'],
+  pending: ['pending'],
+  all: ['approved', 'pending', 'cancelled', 'rejected', 'blocked']
+};
 
 const AdminDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { isAdmin } = useAuth();
+  const { hasPermission } = useAuth();
+  const canViewAdmin = hasPermission('admin.view');
   const sb: any = supabase;
   const [reservations, setReservations] = useState<any[]>([]);
   const [pendingReservations, setPendingReservations] = useState<any[]>([]);
+  const [autoApprovedReservations, setAutoApprovedReservations] = useState<any[]>([]);
   const [cancelledReservations, setCancelledReservations] = useState<any[]>([]);
   const [blockedDates, setBlockedDates] = useState<any[]>([]);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [emailOutbox, setEmailOutbox] = useState<EmailOutboxEntry[]>([]);
+  const [changeRequests, setChangeRequests] = useState<(ReservationChangeRequest & { reservation: Reservation })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('approved');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showReservationDialog, setShowReservationDialog] = useState(false);
   
   useEffect(() => {
-    if (!isAdmin) {
+    if (!canViewAdmin) {
       navigate('/login');
       return;
     }
@@ -32,6 +80,10 @@ const AdminDashboard: React.FC = () => {
     fetchCancelledReservations();
     fetchPendingReservations();
     fetchBlockedDates();
+    fetchReports();
+    fetchWaitlist();
+    fetchChangeRequests();
+    fetchEmailOutbox();
     
     // Subscribe to reservation changes
     const reservationsChannel = sb
@@ -42,6 +94,7 @@ const AdminDashboard: React.FC = () => {
           fetchReservations();
           fetchCancelledReservations();
           fetchPendingReservations();
+          fetchChangeRequests();
         }
       )
       .subscribe();
@@ -57,11 +110,47 @@ const AdminDashboard: React.FC = () => {
       )
       .subscribe();
 
+    // Subscribe to new or updated reports
+    const reportsChannel = sb
+      .channel('reports_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'reports' }, 
+        () => {
+          fetchReports();
+        }
+      )
+      .subscribe();
+
+    // Subscribe to waitlist changes (new entries, offers sent or claimed)
+    const waitlistChannel = sb
+      .channel('waitlist_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'waitlist_entries' }, 
+        () => {
+          fetchWaitlist();
+        }
+      )
+      .subscribe();
+
+    // Subscribe to change requests sent by users
+    const changeRequestsChannel = sb
+      .channel('change_requests_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'reservation_change_requests' }, 
+        () => {
+          fetchChangeRequests();
+        }
+      )
+      .subscribe();
+
     return () => {
       sb.removeChannel(reservationsChannel);
       sb.removeChannel(blockedDatesChannel);
+      sb.removeChannel(reportsChannel);
+      sb.removeChannel(waitlistChannel);
+      sb.removeChannel(changeRequestsChannel);
     };
-  }, [isAdmin, navigate]);
+  }, [canViewAdmin, navigate]);
 
   const fetchReservations = async () => {
     try {
@@ -77,12 +166,7 @@ const AdminDashboard: React.FC = () => {
 
       if (data) {
         const formattedReservations = data.map(item => {
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+          const dateObj = fechaToDate(item.fecha);
           
           return {
             ...item,
@@ -116,11 +200,7 @@ const AdminDashboard: React.FC = () => {
 
       if (data) {
         const formattedReservations = data.map(item => {
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1;
-          const day = parseInt(parts[2], 10);
-          const dateObj = new Date(year, month, day, 12, 0, 0);
+          const dateObj = fechaToDate(item.fecha);
 
           return {
             ...item,
@@ -153,12 +233,7 @@ const AdminDashboard: React.FC = () => {
 
       if (data) {
         const formattedReservations = data.map(item => {
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+          const dateObj = fechaToDate(item.fecha);
           
           return {
             ...item,
@@ -171,6 +246,24 @@ const AdminDashboard: React.FC = () => {
         });
         setPendingReservations(formattedReservations);
       }
+
+      // Upcoming reservations approved by a capacity rule, so admins can review them
+      const { data: autoApproved, error: autoApprovedError } = await sb
+        .from('reservations')
+        .select('*')
+        .eq('status', 'approved')
+        .not('auto_approval_rule_name', 'is', null)
+        .gte('fecha', format(new Date(), 'yyyy-MM-dd'))
+        .order('fecha', { ascending: true });
+
+      if (autoApprovedError) throw autoApprovedError;
+
+      setAutoApprovedReservations((autoApproved || []).map(item => ({
+        ...item,
+        fecha: fechaToDate(item.fecha),
+        createdAt: new Date(item.created_at),
+        updated_at: item.updated_at ? new Date(item.updated_at) : undefined
+      })));
     } catch (error) {
 
       toast.error('Error al cargar las reservas pendientes');
@@ -193,18 +286,77 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const handleApproveReservation = async (id: string) => {
+  const fetchReports = async () => {
     try {
-      // Get reservation details first
-      const { data: reservation, error: fetchError } = await sb
-        .from('reservations')
-        .select('*')
-        .eq('id', id)
-        .single();
+      setReports(await getReports());
+    } catch (error) {
+      toast.error('Error al cargar las incidencias');
+    }
+  };
+
+  const handleUpdateReport = async (report: Report, changes: { status: ReportStatus; reply?: string }) => {
+    try {
+      await updateReport(report, changes);
+      toast.success('Incidencia actualizada exitosamente');
+      fetchReports();
+    } catch (error) {
+      toast.error('Error al actualizar la incidencia');
+    }
+  };
 
-      if (fetchError) throw fetchError;
+  const fetchWaitlist = async () => {
+    try {
+      setWaitlistEntries(await getWaitlistEntries());
+    } catch (error) {
+      toast.error('Error al cargar la lista de espera');
+    }
+  };
 
-      // Update reservation status
+  const fetchChangeRequests = async () => {
+    try {
+      setChangeRequests(await getPendingChangeRequests());
+    } catch (error) {
+      toast.error('Error al cargar las solicitudes de cambio');
+    }
+  };
+
+  const fetchEmailOutbox = async () => {
+    // The outbox is only readable with reservations.manage
+    if (!hasPermission('reservations.manage')) return;
+    try {
+      setEmailOutbox(await getEmailOutbox());
+    } catch (error) {
+      toast.error('Error al cargar los correos no entregados');
+    }
+  };
+
+  const handleResendEmail = async (entry: EmailOutboxEntry) => {
+    try {
+      const status = await resendOutboxEmail(entry.id);
+      if (status === 'sent') {
+        toast.success(`Correo reenviado a ${entry.recipient}`);
+      } else {
+        toast.warning('No se pudo enviar el correo todavía, se seguirá reintentando');
+      }
+      fetchEmailOutbox();
+    } catch (error) {
+      toast.error('Error al reenviar el correo');
+    }
+  };
+
+  const handleRemoveWaitlistEntry = async (entry: WaitlistEntry) => {
+    try {
+      await cancelWaitlistEntry(entry.id);
+      toast.success(`${entry.responsable} fue quitado de la lista de espera`);
+      fetchWaitlist();
+    } catch (error) {
+      toast.error('Error al quitar de la lista de espera');
+    }
+  };
+
+  const handleApproveReservation = async (id: string) => {
+    try {
+      // The approval email is enqueued by a trigger on the status change
       const { error } = await sb
         .from('reservations')
         .update({ 
@@ -214,31 +366,6 @@ const AdminDashboard: React.FC = () => {
         
       if (error) throw error;
 
-      // Send approval email
-      if (reservation) {
-        try {
-          await sb.functions.invoke('send-email', {
-            body: {
-              type: 'reservation-approved',
-              recipient: reservation.email,
-              reservation: {
-                id: reservation.id,
-                responsable: reservation.responsable,
-                email: reservation.email,
-                motivo: reservation.motivo,
-                fecha: reservation.fecha,
-                inicio: reservation.inicio,
-                fin: reservation.fin,
-                personas: reservation.personas
-              }
-            }
-          });
-        } catch (emailError) {
-          logger.error('Error sending approval email', emailError);
-          // Don't fail the approval if email fails
-        }
-      }
-      
       toast.success('Reserva aprobada exitosamente');
       fetchReservations();
       fetchPendingReservations();
@@ -250,16 +377,8 @@ const AdminDashboard: React.FC = () => {
 
   const handleRejectReservation = async (id: string, adminNotes?: string) => {
     try {
-      // Get reservation details first
-      const { data: reservation, error: fetchError } = await sb
-        .from('reservations')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Mark reservation as rejected (soft) and store admin notes
+      // Mark reservation as rejected (soft) and store admin notes; the
+      // rejection email, with the notes as its reason, comes from a trigger
       let adminId: string | null = null;
       try {
         const { data: userData } = await sb.auth.getUser();
@@ -275,32 +394,6 @@ const AdminDashboard: React.FC = () => {
 
       if (error) throw error;
 
-      // Send rejection email
-      if (reservation) {
-        try {
-          await sb.functions.invoke('send-email', {
-            body: {
-              type: 'reservation-rejected',
-              recipient: reservation.email,
-              reservation: {
-                id: reservation.id,
-                responsable: reservation.responsable,
-                email: reservation.email,
-                motivo: reservation.motivo,
-                fecha: reservation.fecha,
-                inicio: reservation.inicio,
-                fin: reservation.fin,
-                personas: reservation.personas
-              },
-              reason: adminNotes || 'No se proporcionó un motivo específico'
-            }
-          });
-        } catch (emailError) {
-          logger.error('Error sending rejection email', emailError);
-          // Don't fail the rejection if email fails
-        }
-      }
-      
       toast.success('Reserva rechazada exitosamente');
       fetchPendingReservations();
     } catch (error) {
@@ -309,34 +402,156 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  const fetchPendingSeriesOccurrences = async (seriesId: string) => {
+    const { data, error } = await sb
+      .from('reservations')
+      .select('*')
+      .eq('series_id', seriesId)
+      .eq('status', 'pending')
+      .eq('confirmed', true)
+      .order('fecha', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const handleApproveSeries = async (seriesId: string) => {
+    try {
+      const occurrences = await fetchPendingSeriesOccurrences(seriesId);
+      if (occurrences.length === 0) return;
+
+      // A single UPDATE, so the trigger sends one email for the whole series
+      const { error } = await sb
+        .from('reservations')
+        .update({ status: 'approved' })
+        .in('id', occurrences.map(item => item.id));
+
+      if (error) throw error;
+
+      toast.success(`Serie aprobada (${occurrences.length} reservas)`);
+      fetchReservations();
+      fetchPendingReservations();
+    } catch (error) {
+      toast.error('Error al aprobar la serie');
+    }
+  };
+
+  const handleRejectSeries = async (seriesId: string, adminNotes?: string) => {
+    try {
+      const occurrences = await fetchPendingSeriesOccurrences(seriesId);
+      if (occurrences.length === 0) return;
+
+      let adminId: string | null = null;
+      try {
+        const { data: userData } = await sb.auth.getUser();
+        adminId = userData?.user?.id || null;
+      } catch (e) {
+        // ignore
+      }
+
+      const { error } = await sb
+        .from('reservations')
+        .update({ status: 'rejected', admin_notes: adminNotes || null, updated_by: adminId })
+        .in('id', occurrences.map(item => item.id));
+
+      if (error) throw error;
+
+      toast.success(`Serie rechazada (${occurrences.length} reservas)`);
+      fetchPendingReservations();
+    } catch (error) {
+      toast.error('Error al rechazar la serie');
+    }
+  };
+
+  const openReportsCount = reports.filter(report => report.status === 'open').length;
+  const pendingCount = pendingReservations.length + changeRequests.length;
+  const undeliveredCount = emailOutbox.filter(entry => entry.status === 'failed' || entry.status === 'bounced').length;
+  const waitingCount = waitlistEntries.filter(entry => entry.status === 'waiting' || entry.status === 'notified').length;
+
   return (
     <div className="container mx-auto p-4">
       <Card className="shadow-md">
-        <CardHeader>
-          <CardTitle className="text-2xl">Panel de Administración</CardTitle>
-          <CardDescription>Gestione las reservas y bloqueos del Quincho</CardDescription>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-2xl">Panel de Administración</CardTitle>
+            <CardDescription>Gestione las reservas y bloqueos del Quincho</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {hasPermission('reservations.manage') && (
+              <Button onClick={() => setShowReservationDialog(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nueva reserva
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShowExportDialog(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Exportar
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Side - Calendar View and Block Controls */}
             <div className="space-y-4 col-span-1">
-              <BlockDateForm onBlockSuccess={fetchBlockedDates} />
+              {hasPermission('blocks.manage') && (
+                <>
+                  <BlockDateForm onBlockSuccess={fetchBlockedDates} />
+                  <Button variant="outline" className="w-full" onClick={() => setShowImportDialog(true)}>
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    Importar feriados y calendario académico
+                  </Button>
+                  <BlockRulesManager />
+                </>
+              )}
             </div>
 
             {/* Right Side - Bookings List and Blocked Dates */}
             <div className="lg:col-span-2">
               <Tabs defaultValue="approved" onValueChange={setActiveTab}>
-                <TabsList className="w-full mb-4">
+                <TabsList className="w-full mb-4 flex-wrap h-auto">
                   <TabsTrigger value="approved">Reservas Aprobadas</TabsTrigger>
                   <TabsTrigger value="cancelled">Reservas Canceladas</TabsTrigger>
                   <TabsTrigger value="pending" className="relative">
                     Reservas Pendientes
-                    {pendingReservations.length > 0 && (
+                    {pendingCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-fiuna-red text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                        {pendingCount}
+                      </span>
+                    )}
+                  </TabsTrigger>
+                  <TabsTrigger value="reports" className="relative">
+                    Incidencias
+                    {openReportsCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-fiuna-red text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                        {openReportsCount}
+                      </span>
+                    )}
+                  </TabsTrigger>
+                  <TabsTrigger value="waitlist" className="relative">
+                    Lista de espera
+                    {waitingCount > 0 && (
                       <span className="absolute -top-1 -right-1 bg-fiuna-red text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                        {pendingReservations.length}
+                        {waitingCount}
                       </span>
                     )}
                   </TabsTrigger>
+                  {hasPermission('reservations.manage') && (
+                    <TabsTrigger value="emails" className="relative">
+                      Correos
+                      {undeliveredCount > 0 && (
+                        <span className="absolute -top-1 -right-1 bg-fiuna-red text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                          {undeliveredCount}
+                        </span>
+                      )}
+                    </TabsTrigger>
+                  )}
+                  <TabsTrigger value="statistics">Estadísticas</TabsTrigger>
+                  {hasPermission('settings.manage') && (
+                    <TabsTrigger value="settings">Configuración</TabsTrigger>
+                  )}
+                  {hasPermission('users.manage') && (
+                    <TabsTrigger value="users">Usuarios</TabsTrigger>
+                  )}
                 </TabsList>
                 
                 <TabsContent value="approved">
@@ -365,18 +580,96 @@ const AdminDashboard: React.FC = () => {
                 </TabsContent>
                 
                 <TabsContent value="pending">
+                  <ChangeRequestsList
+                    changeRequests={changeRequests}
+                    onResolved={() => {
+                      fetchChangeRequests();
+                      fetchReservations();
+                      fetchPendingReservations();
+                    }}
+                  />
                   <PendingReservationsList
                     pendingReservations={pendingReservations}
+                    autoApprovedReservations={autoApprovedReservations}
                     onApprove={handleApproveReservation}
                     onReject={handleRejectReservation}
+                    onApproveSeries={handleApproveSeries}
+                    onRejectSeries={handleRejectSeries}
                     isLoading={isLoading && activeTab === 'pending'}
                   />
                 </TabsContent>
+
+                <TabsContent value="reports">
+                  <ReportsList
+                    reports={reports}
+                    onUpdate={handleUpdateReport}
+                    isLoading={isLoading && activeTab === 'reports'}
+                  />
+                </TabsContent>
+
+                <TabsContent value="waitlist">
+                  <WaitlistList
+                    entries={waitlistEntries}
+                    onRemove={handleRemoveWaitlistEntry}
+                    isLoading={isLoading && activeTab === 'waitlist'}
+                  />
+                </TabsContent>
+
+                {hasPermission('reservations.manage') && (
+                  <TabsContent value="emails">
+                    <EmailOutboxList
+                      entries={emailOutbox}
+                      onResend={handleResendEmail}
+                      onRefresh={fetchEmailOutbox}
+                      isLoading={isLoading && activeTab === 'emails'}
+                    />
+                  </TabsContent>
+                )}
+
+                <TabsContent value="statistics">
+                  <StatisticsPanel />
+                </TabsContent>
+
+                {hasPermission('settings.manage') && (
+                  <TabsContent value="settings">
+                    <OperatingHoursSettings />
+                    <CapacityRulesSettings />
+                    <BookingPoliciesSettings />
+                    <ReminderSettings />
+                  </TabsContent>
+                )}
+
+                {hasPermission('users.manage') && (
+                  <TabsContent value="users">
+                    <UsersManagement />
+                  </TabsContent>
+                )}
               </Tabs>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <ExportDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        initialStatuses={TAB_EXPORT_STATUSES[activeTab] || TAB_EXPORT_STATUSES.all}
+      />
+
+      <BlockImportDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImported={fetchBlockedDates}
+      />
+
+      <AdminReservationDialog
+        isOpen={showReservationDialog}
+        onClose={() => setShowReservationDialog(false)}
+        onCreated={() => {
+          fetchReservations();
+          fetchPendingReservations();
+        }}
+      />
     </div>
   );
 };
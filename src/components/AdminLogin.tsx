@@ -27,30 +27,12 @@ const AdminLogin = ({ onClose }: AdminLoginProps) => {
       const result = await loginAdmin(email, password);
       
       if (result?.user) {
-        // Store auth state in localStorage for persistence
-        try {
-
-          localStorage.setItem('adminLoggedIn', 'true');
-          localStorage.setItem('adminEmail', email);
-          
-          // Store the session token if available
-          if (result.session && result.session.access_token) {
-            localStorage.setItem('adminToken', result.session.access_token);
-            
-            // If expiry is available, store it
-            if (result.session.expires_at) {
-              localStorage.setItem('adminTokenExpiry', result.session.expires_at.toString());
-            }
-          }
-          
-          toast.success('Inicio de sesión exitoso');
-          // Use replace: true to prevent back navigation issues
-          navigate('/admin', { replace: true });
-          onClose();
-        } catch (storageError) {
-
-          toast.error('Error guardando el estado de la sesión');
-        }
+        // The Supabase session is persisted by the client; AuthContext
+        // loads the role and permissions from it
+        toast.success('Inicio de sesión exitoso');
+        // Use replace: true to prevent back navigation issues
+        navigate('/admin', { replace: true });
+        onClose();
       } else {
 
         toast.error('Credenciales incorrectas');
@@ -4,6 +4,7 @@ import { es } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { ViewType, Reservation } from '@/lib/types';
 import { getReservations } from '@/lib/supabase';
+import { isBeforeQuinchoToday } from '@/lib/dates';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, Plus } from 'lucide-react';
 import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
@@ -36,9 +37,9 @@ const Calendar = () => {
       const data = await getReservations();
       const filteredData = data?.map(reservation => ({
         ...reservation,
-        responsable: reservation.responsable === 'Admin' ? reservation.responsable : 'Reservado',
-        email: reservation.responsable === 'Admin' ? reservation.email : '',
-        cantidadPersonas: reservation.responsable === 'Admin' ? reservation.cantidadPersonas : 0
+        responsable: 'Reservado',
+        email: '',
+        cantidadPersonas: 0
       })) || [];
       
       setReservations(filteredData);
@@ -129,7 +130,7 @@ const Calendar = () => {
         formattedDate = format(day, dateFormat);
         const cloneDay = day;
         const dayReservations = getReservationsForDay(cloneDay);
-        const isPastDay = isBefore(day, new Date().setHours(0, 0, 0, 0));
+        const isPastDay = isBeforeQuinchoToday(day);
         
         days.push(
           <div
@@ -368,9 +369,6 @@ const Calendar = () => {
                       </div>
                       <div className="flex-1">
                         <div className="font-medium">{reservation.motivo}</div>
-                        {reservation.responsable === 'Admin' && (
-                          <div className="text-sm text-gray-600">Bloqueado por administración</div>
-                        )}
                       </div>
                     </div>
                   ))}
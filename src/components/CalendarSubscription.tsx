@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Copy, RefreshCw } from 'lucide-react';
+import { getPersonalCalendarFeedUrl, PUBLIC_CALENDAR_FEED_URL } from '@/lib/supabase';
+import { logger } from '@/utils/logger';
+
+// Feed URLs to subscribe from Google Calendar, Thunderbird, Outlook, etc.
+const CalendarSubscription: React.FC = () => {
+  const [personalUrl, setPersonalUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPersonalUrl = async (regenerate: boolean) => {
+    try {
+      setIsLoading(true);
+      setPersonalUrl(await getPersonalCalendarFeedUrl(regenerate));
+      if (regenerate) {
+        toast.success('Se generó un nuevo enlace. El anterior dejó de funcionar.');
+      }
+    } catch (error) {
+      logger.error('Error loading calendar feed URL', error);
+      toast.error('No se pudo obtener el enlace del calendario');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Enlace copiado');
+    } catch (error) {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Suscribirse desde su calendario</CardTitle>
+        <CardDescription>
+          Agregue estos enlaces como calendario por URL en Google Calendar, Thunderbird u Outlook.
+          Los cambios y cancelaciones se actualizan solos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="personal-feed">Mis reservas (enlace privado, no lo comparta)</Label>
+          {personalUrl ? (
+            <div className="flex gap-2">
+              <Input id="personal-feed" value={personalUrl} readOnly />
+              <Button variant="outline" size="icon" onClick={() => copyUrl(personalUrl)} title="Copiar">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => loadPersonalUrl(true)}
+                disabled={isLoading}
+                title="Generar un nuevo enlace"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div>
+              <Button variant="outline" onClick={() => loadPersonalUrl(false)} disabled={isLoading}>
+                {isLoading ? 'Cargando...' : 'Mostrar mi enlace'}
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="public-feed">Ocupación del quincho (público, sin datos personales)</Label>
+          <div className="flex gap-2">
+            <Input id="public-feed" value={PUBLIC_CALENDAR_FEED_URL} readOnly />
+            <Button variant="outline" size="icon" onClick={() => copyUrl(PUBLIC_CALENDAR_FEED_URL)} title="Copiar">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarSubscription;
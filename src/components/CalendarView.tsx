@@ -3,6 +3,7 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useReservations } from '@/context/ReservationContext';
 import { useAuth } from '@/context/AuthContext';
+import { useSettings } from '@/context/SettingsContext';
 import CalendarHeader from '@/components/calendar/CalendarHeader';
 import CalendarViewContent from '@/components/calendar/CalendarViewContent';
 import ReservationLegend from '@/components/calendar/ReservationLegend';
@@ -17,6 +18,7 @@ const CalendarView: React.FC = () => {
   const navigate = useNavigate();
   const { isAdmin } = useAuth();
   const { reservations, isDateBlocked, isTimeSlotAvailable, isLoading, dataInitialized } = useReservations();
+  const { operatingHours } = useSettings();
   
   // Use the extracted hooks
   const { 
@@ -52,7 +54,7 @@ const CalendarView: React.FC = () => {
 
   // Delegate to the extracted utility function
   const onTimeSlotClick = (date: Date, time: string) => {
-    handleTimeSlotClick(date, time, navigate);
+    handleTimeSlotClick(date, time, navigate, operatingHours);
   };
 
   // Handle the case when data is still initializing
@@ -26,9 +26,7 @@ const Footer = () => {
           </Link>
         </div>
         <Link 
-          to="https://forms.gle/bErcqTbTmQKzM4xR9" 
-          target="_blank" 
-          rel="noopener noreferrer"
+          to="/reportar" 
           className="flex items-center hover:text-gray-700 transition-colors"
         >
           <Bug className="h-4 w-4 mr-1" />
@@ -7,7 +7,7 @@ import { LogOut } from 'lucide-react';
 
 const Header: React.FC = () => {
   const location = useLocation();
-  const { isLoggedIn, isAdmin, logout } = useAuth();
+  const { isLoggedIn, hasPermission, logout } = useAuth();
 
   return (
     <header className="bg-white shadow-sm py-4 px-6">
@@ -26,13 +26,27 @@ const Header: React.FC = () => {
             Reservar
           </Link>
           
-          {isLoggedIn && isAdmin ? (
+          {isLoggedIn && (
+            <Link to="/mis-reservas" className={`text-gray-600 hover:text-fiuna-red ${location.pathname === '/mis-reservas' ? 'font-semibold text-fiuna-red' : ''}`}>
+              Mis reservas
+            </Link>
+          )}
+          
+          {hasPermission('handovers.record') && (
+            <Link to="/guardia" className={`text-gray-600 hover:text-fiuna-red ${location.pathname === '/guardia' ? 'font-semibold text-fiuna-red' : ''}`}>
+              Llaves
+            </Link>
+          )}
+          
+          {isLoggedIn ? (
             <>
-              <Link to="/admin">
-                <Button size="sm" variant="outline" className="mr-2">
-                  Panel Admin
-                </Button>
-              </Link>
+              {hasPermission('admin.view') && (
+                <Link to="/admin">
+                  <Button size="sm" variant="outline" className="mr-2">
+                    Panel Admin
+                  </Button>
+                </Link>
+              )}
               <Button 
                 size="sm" 
                 variant="ghost" 
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Clock, MessageSquare, Users, XCircle } from 'lucide-react';
+import { cancelOwnReservation, getMyReservations } from '@/lib/supabase';
+import { supabase } from '@/integrations/supabase/client';
+import { ChangeRequestStatus, OwnReservation, ReservationStatus } from '@/types/reservation';
+import { getChangeDiff } from '@/utils/changeRequestUtils';
+import { logger } from '@/utils/logger';
+import ChangeRequestDialog from '@/components/reservation/ChangeRequestDialog';
+import { fechaToDate } from '@/lib/dates';
+
+type ReservationGroup = 'upcoming' | 'pending' | 'past' | 'cancelled';
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: 'Pendiente',
+  approved: 'Aprobada',
+  rejected: 'Rechazada',
+  cancelled: 'Cancelada'
+};
+
+const STATUS_STYLES: Record<ReservationStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const CHANGE_REQUEST_LABELS: Record<ChangeRequestStatus, string> = {
+  pending: 'En revisión',
+  accepted: 'Aceptada',
+  rejected: 'Rechazada'
+};
+
+const EMPTY_MESSAGES: Record<ReservationGroup, string> = {
+  upcoming: 'No tiene reservas aprobadas próximas',
+  pending: 'No tiene solicitudes pendientes de aprobación',
+  past: 'No tiene reservas pasadas',
+  cancelled: 'No tiene reservas canceladas ni rechazadas'
+};
+
+const getGroup = (reservation: OwnReservation): ReservationGroup => {
+  if (reservation.status === 'cancelled' || reservation.status === 'rejected') {
+    return 'cancelled';
+  }
+  if (isBefore(reservation.fecha, startOfDay(new Date()))) {
+    return 'past';
+  }
+  return reservation.status === 'approved' ? 'upcoming' : 'pending';
+};
+
+const MyReservations: React.FC = () => {
+  const [reservations, setReservations] = useState<OwnReservation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cancelTarget, setCancelTarget] = useState<OwnReservation | null>(null);
+  const [changeTarget, setChangeTarget] = useState<OwnReservation | null>(null);
+  const [dialogText, setDialogText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReservations = async () => {
+    try {
+      setReservations(await getMyReservations());
+    } catch (error) {
+      logger.error('Error loading own reservations', error);
+      toast.error('Error al cargar sus reservas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReservations();
+
+    // Reflect approvals, rejections and cancellations made by admins
+    const channel = supabase
+      .channel('my_reservations_changes')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'reservations' },
+        () => {
+          fetchReservations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const closeDialogs = () => {
+    setCancelTarget(null);
+    setChangeTarget(null);
+    setDialogText('');
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+    if (!dialogText.trim()) {
+      toast.error('Indique el motivo de la cancelación');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await cancelOwnReservation(cancelTarget, dialogText.trim());
+      toast.success('Reserva cancelada exitosamente');
+      closeDialogs();
+      fetchReservations();
+    } catch (error) {
+      logger.error('Error cancelling own reservation', error);
+      toast.error('No se pudo cancelar la reserva. Por favor, inténtelo de nuevo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const grouped: Record<ReservationGroup, OwnReservation[]> = {
+    upcoming: [],
+    pending: [],
+    past: [],
+    cancelled: []
+  };
+  reservations.forEach(reservation => grouped[getGroup(reservation)].push(reservation));
+  // Most recent first for the history tabs
+  grouped.past.reverse();
+  grouped.cancelled.reverse();
+
+  const renderReservation = (reservation: OwnReservation) => {
+    const group = getGroup(reservation);
+    const canManage = group === 'upcoming' || group === 'pending';
+    const hasPendingChange = reservation.changeRequests.some(request => request.status === 'pending');
+
+    return (
+      <Card key={reservation.id} className="overflow-hidden shadow-sm border border-gray-200">
+        <CardHeader className="p-3 bg-gray-50 border-b">
+          <div className="flex justify-between items-start gap-2">
+            <div>
+              <CardTitle className="text-base font-medium">
+                {reservation.motivo}
+                <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[reservation.status]}`}>
+                  {STATUS_LABELS[reservation.status]}
+                </span>
+              </CardTitle>
+              <CardDescription className="text-xs mt-1 capitalize">
+                {format(reservation.fecha, "EEEE d 'de' MMMM, yyyy", { locale: es })}
+              </CardDescription>
+            </div>
+            {canManage && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => setChangeTarget(reservation)}
+                  disabled={hasPendingChange}
+                >
+                  Solicitar cambio
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-red-600 hover:text-red-700"
+                  onClick={() => setCancelTarget(reservation)}
+                >
+                  Cancelar
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-3 text-sm space-y-2">
+          <div className="flex gap-4 text-gray-600">
+            <span className="flex items-center">
+              <Clock className="h-4 w-4 mr-1" />
+              {reservation.inicio} - {reservation.fin}
+            </span>
+            <span className="flex items-center">
+              <Users className="h-4 w-4 mr-1" />
+              {reservation.personas}
+            </span>
+          </div>
+
+          {reservation.confirmed === false && reservation.status === 'pending' && (
+            <p className="text-amber-700">
+              Todavía no confirmó esta solicitud. Revise su correo para confirmarla.
+            </p>
+          )}
+
+          {reservation.admin_notes && !reservation.cancellation && (
+            <p>
+              <span className="font-medium">
+                {reservation.status === 'rejected' ? 'Motivo del rechazo:' : 'Nota de la administración:'}
+              </span>{' '}
+              {reservation.admin_notes}
+            </p>
+          )}
+
+          {reservation.cancellation && (
+            <div className="rounded border border-gray-200 bg-gray-50 p-2">
+              <p className="flex items-center font-medium">
+                <XCircle className="h-4 w-4 mr-1 text-gray-500" />
+                Cancelada {reservation.cancellation.byOwner ? 'por usted' : 'por la administración'} el{' '}
+                {format(reservation.cancellation.createdAt, "d 'de' MMMM, yyyy HH:mm", { locale: es })}
+              </p>
+              {reservation.cancellation.reason && (
+                <p className="mt-1 text-gray-600">Motivo: {reservation.cancellation.reason}</p>
+              )}
+            </div>
+          )}
+
+          {reservation.changeRequests.map(request => (
+            <div key={request.id} className="rounded border border-gray-200 p-2">
+              <p className="flex items-center font-medium">
+                <MessageSquare className="h-4 w-4 mr-1 text-gray-500" />
+                Solicitud de cambio ({CHANGE_REQUEST_LABELS[request.status]}) -{' '}
+                {format(request.createdAt, 'dd/MM/yyyy', { locale: es })}
+              </p>
+              {getChangeDiff(request, request.previous_values
+                ? { ...request.previous_values, fecha: fechaToDate(request.previous_values.fecha) }
+                : reservation
+              ).map(row => (
+                <p key={row.label} className="mt-1 text-gray-600">
+                  <span className="font-medium">{row.label}:</span> {row.from} → {row.to}
+                </p>
+              ))}
+              {request.message && (
+                <p className="mt-1 text-gray-600 whitespace-pre-wrap">{request.message}</p>
+              )}
+              {request.admin_response && (
+                <p className="mt-1"><span className="font-medium">Respuesta:</span> {request.admin_response}</p>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Tabs defaultValue="upcoming">
+        <TabsList className="w-full mb-4">
+          <TabsTrigger value="upcoming">Próximas ({grouped.upcoming.length})</TabsTrigger>
+          <TabsTrigger value="pending">Pendientes ({grouped.pending.length})</TabsTrigger>
+          <TabsTrigger value="past">Pasadas ({grouped.past.length})</TabsTrigger>
+          <TabsTrigger value="cancelled">Canceladas ({grouped.cancelled.length})</TabsTrigger>
+        </TabsList>
+        {(Object.keys(grouped) as ReservationGroup[]).map(group => (
+          <TabsContent key={group} value={group}>
+            <div className="space-y-3">
+              {grouped[group].length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{EMPTY_MESSAGES[group]}</p>
+              ) : (
+                grouped[group].map(renderReservation)
+              )}
+            </div>
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      <Dialog open={cancelTarget !== null} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancelar reserva</DialogTitle>
+            <DialogDescription>
+              {cancelTarget && `${format(cancelTarget.fecha, "d 'de' MMMM, yyyy", { locale: es })}, ${cancelTarget.inicio} - ${cancelTarget.fin}. Esta acción no se puede deshacer.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Motivo de la cancelación *</Label>
+            <Textarea
+              id="cancel-reason"
+              placeholder="Indique por qué cancela la reserva"
+              value={dialogText}
+              onChange={(e) => setDialogText(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={isSaving}>
+              Volver
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isSaving}>
+              {isSaving ? 'Cancelando...' : 'Cancelar reserva'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ChangeRequestDialog
+        reservation={changeTarget}
+        onClose={closeDialogs}
+        onSubmitted={fetchReservations}
+      />
+    </>
+  );
+};
+
+export default MyReservations;
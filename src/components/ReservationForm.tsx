@@ -6,6 +6,12 @@ import FormField from '@/components/reservation/FormField';
 import DatePicker from '@/components/reservation/DatePicker';
 import TimeSelector from '@/components/reservation/TimeSelector';
 import FormFooter from '@/components/reservation/FormFooter';
+import RecurrenceSelector from '@/components/reservation/RecurrenceSelector';
+import WaitlistDialog from '@/components/reservation/WaitlistDialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/context/AuthContext';
 import { useReservationForm } from '@/hooks/useReservationForm';
 import { 
   Select,
@@ -28,11 +34,14 @@ const ReservationForm: React.FC<ReservationFormProps> = ({
   initialEndTime
 }) => {
   const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const [isWaitlistOpen, setIsWaitlistOpen] = React.useState(false);
   const { 
     formState, 
     timeOptions, 
     handleSubmit,
     disabledDays,
+    recurrencePreview,
     isSubmitting,
     submissionSuccess
   } = useReservationForm(initialDate, initialStartTime, initialEndTime);
@@ -54,6 +63,22 @@ const ReservationForm: React.FC<ReservationFormProps> = ({
     setPersonas,
     affiliation,
     setAffiliation,
+    documentation,
+    setDocumentation,
+    documentationRequirements,
+    maxPersonas,
+    isRecurring,
+    setIsRecurring,
+    recurrenceInterval,
+    setRecurrenceInterval,
+    recurrenceEndType,
+    setRecurrenceEndType,
+    recurrenceCount,
+    setRecurrenceCount,
+    recurrenceUntil,
+    setRecurrenceUntil,
+    overridePolicies,
+    setOverridePolicies,
     formErrors
   } = formState;
 
@@ -74,6 +99,24 @@ const ReservationForm: React.FC<ReservationFormProps> = ({
         <CardContent className="pt-6">
           <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-6">
           <div className="space-y-4">
+            {hasPermission('reservations.manage') && (
+              <div className="rounded-md border border-gray-200 bg-gray-50 p-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="override-policies"
+                    checked={overridePolicies}
+                    onCheckedChange={(checked) => setOverridePolicies(checked === true)}
+                  />
+                  <Label htmlFor="override-policies" className="cursor-pointer">
+                    Reservar en nombre de otra persona sin aplicar las políticas de reserva
+                  </Label>
+                </div>
+                <p className="mt-1 pl-6 text-xs text-gray-500">
+                  Omite la anticipación mínima, el horizonte de reserva, los cupos por persona y la penalización por inasistencia.
+                </p>
+              </div>
+            )}
+
             <FormField
               id="responsable"
               label="Responsable de la reserva *"
@@ -166,22 +209,78 @@ const ReservationForm: React.FC<ReservationFormProps> = ({
               />
             </div>
 
+            <p className="text-sm text-gray-600">
+              ¿El horario que necesita ya está ocupado?{' '}
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-fiuna-red"
+                onClick={() => setIsWaitlistOpen(true)}
+              >
+                Únase a la lista de espera
+              </Button>
+            </p>
+
             <FormField
               id="personas"
               label="Cantidad de personas *"
               value={personas}
               onChange={(e) => setPersonas(e.target.value)}
               error={formErrors.personas}
-              placeholder="Número de asistentes"
+              placeholder={`Número de asistentes (máximo ${maxPersonas})`}
               type="number"
               min={1}
             />
+
+            {documentationRequirements.length > 0 && (
+              <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
+                <p className="text-sm text-amber-800">
+                  Para esta reserva se requiere:
+                </p>
+                <ul className="list-disc pl-5 text-sm text-amber-800">
+                  {documentationRequirements.map(requirement => (
+                    <li key={requirement}>{requirement}</li>
+                  ))}
+                </ul>
+                <FormField
+                  id="documentation"
+                  label="Información requerida *"
+                  value={documentation}
+                  onChange={(e) => setDocumentation(e.target.value)}
+                  error={formErrors.documentation}
+                  placeholder="Ej.: nombre y correo del docente responsable"
+                  multiline={true}
+                  rows={2}
+                />
+              </div>
+            )}
+
+            <RecurrenceSelector
+              isRecurring={isRecurring}
+              onRecurringChange={setIsRecurring}
+              interval={recurrenceInterval}
+              onIntervalChange={setRecurrenceInterval}
+              endType={recurrenceEndType}
+              onEndTypeChange={setRecurrenceEndType}
+              count={recurrenceCount}
+              onCountChange={setRecurrenceCount}
+              until={recurrenceUntil}
+              onUntilChange={setRecurrenceUntil}
+              startDate={fecha}
+              preview={recurrencePreview}
+              error={formErrors.recurrence}
+            />
           </div>
         </form>
       </CardContent>
       <CardFooter className="bg-gray-50 border-t border-gray-200 rounded-b-lg flex justify-center">
         <FormFooter onSubmit={handleSubmit} />
       </CardFooter>
+      <WaitlistDialog
+        open={isWaitlistOpen}
+        onOpenChange={setIsWaitlistOpen}
+        initialValues={{ responsable, email, motivo, personas, affiliation, fecha, inicio, fin }}
+      />
     </Card>
   );
 };
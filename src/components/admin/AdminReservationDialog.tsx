@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { isBefore, startOfDay } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FormField from '@/components/reservation/FormField';
+import DatePicker from '@/components/reservation/DatePicker';
+import TimeSelector from '@/components/reservation/TimeSelector';
+import { createAdminReservation } from '@/lib/supabase';
+import { bookingContactSchema, getFieldErrors } from '@/lib/validation';
+import { useReservations } from '@/context/ReservationContext';
+import { useSettings } from '@/context/SettingsContext';
+import { useTimeSlotAvailability } from '@/hooks/reservation/useTimeSlotAvailability';
+import { RESERVATION_ERROR_MESSAGES } from '@/hooks/reservation/useReservationSubmit';
+import { AFFILIATIONS, getDocumentationRequirements } from '@/utils/capacityUtils';
+import { getBookingPolicyMessage, isBeyondHorizon, violatesLeadTime } from '@/utils/bookingPolicyUtils';
+import { getDaySchedule } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+import { dateToFecha } from '@/lib/dates';
+
+interface AdminReservationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const AdminReservationDialog: React.FC<AdminReservationDialogProps> = ({ isOpen, onClose, onCreated }) => {
+  const { reservations, isTimeSlotAvailable } = useReservations();
+  const { operatingHours, maxPersonas, capacityRules, bookingPolicies } = useSettings();
+  const [responsable, setResponsable] = useState('');
+  const [email, setEmail] = useState('');
+  const [motivo, setMotivo] = useState('');
+  const [affiliation, setAffiliation] = useState('');
+  const [personas, setPersonas] = useState('');
+  const [documentation, setDocumentation] = useState('');
+  const [fecha, setFecha] = useState<Date | undefined>(undefined);
+  const [inicio, setInicio] = useState('');
+  const [fin, setFin] = useState('');
+  const [status, setStatus] = useState<'approved' | 'pending'>('approved');
+  const [overridePolicies, setOverridePolicies] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setResponsable('');
+      setEmail('');
+      setMotivo('');
+      setAffiliation('');
+      setPersonas('');
+      setDocumentation('');
+      setFecha(undefined);
+      setInicio('');
+      setFin('');
+      setStatus('approved');
+      setOverridePolicies(false);
+      setOverrideReason('');
+      setErrors({});
+    }
+  }, [isOpen]);
+
+  const { availableTimes, availableEndTimes, updateAvailableEndTimes } = useTimeSlotAvailability(
+    fecha,
+    inicio,
+    setInicio,
+    fin,
+    setFin,
+    reservations,
+    isTimeSlotAvailable,
+    overridePolicies
+  );
+
+  const documentationRequirements = getDocumentationRequirements(capacityRules, Number(personas), affiliation);
+
+  const disabledDays = (date: Date) =>
+    isBefore(date, startOfDay(new Date())) ||
+    getDaySchedule(operatingHours, date).closed ||
+    (!overridePolicies && isBeyondHorizon(bookingPolicies, date));
+
+  const validate = () => {
+    const contact = bookingContactSchema.safeParse({ responsable, email, motivo, personas, affiliation, documentation });
+    const newErrors: Record<string, string> = contact.success ? {} : getFieldErrors(contact.error);
+
+    if (!newErrors.personas && Number(personas) > maxPersonas) {
+      newErrors.personas = `La capacidad máxima del quincho es de ${maxPersonas} personas`;
+    }
+    if (documentationRequirements.length > 0 && !documentation.trim()) {
+      newErrors.documentation = 'Complete la información requerida';
+    }
+    if (!affiliation) newErrors.affiliation = 'Seleccione el vínculo con la facultad';
+    if (!fecha) newErrors.fecha = 'Seleccione una fecha';
+    if (!inicio) newErrors.inicio = 'Seleccione la hora de inicio';
+    if (!fin) newErrors.fin = 'Seleccione la hora de fin';
+
+    if (fecha && inicio && !overridePolicies && violatesLeadTime(bookingPolicies, fecha, inicio)) {
+      newErrors.inicio = getBookingPolicyMessage('LEAD_TIME', bookingPolicies)!;
+    }
+    if (overridePolicies && !overrideReason.trim()) {
+      newErrors.overrideReason = 'Indique por qué se omiten las políticas de reserva';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validate() || !fecha) return;
+
+    try {
+      setIsSubmitting(true);
+      const created = await createAdminReservation({
+        responsable,
+        email,
+        motivo,
+        fecha: dateToFecha(fecha),
+        inicio,
+        fin,
+        personas: Number(personas),
+        affiliation,
+        documentation: documentationRequirements.length > 0 ? documentation : null,
+        approve: status === 'approved',
+        overridePolicies,
+        overrideReason
+      });
+
+      toast.success(created.status === 'approved'
+        ? `Reserva aprobada. Se envió el detalle a ${created.email}`
+        : 'Reserva creada y pendiente de aprobación');
+      onCreated();
+      onClose();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      logger.error('Error creating reservation on behalf of requester', error);
+      if (code === 'OVERRIDE_REASON_REQUIRED') {
+        setErrors({ overrideReason: 'Indique por qué se omiten las políticas de reserva' });
+        return;
+      }
+      toast.error(
+        RESERVATION_ERROR_MESSAGES[code] ||
+          getBookingPolicyMessage(code, bookingPolicies) ||
+          'Error al crear la reserva'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nueva reserva</DialogTitle>
+          <DialogDescription>
+            Para solicitudes recibidas por teléfono o en persona. La reserva queda confirmada sin enviar el enlace de confirmación.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <FormField
+            id="admin-reservation-responsable"
+            label="Responsable *"
+            value={responsable}
+            onChange={(e) => setResponsable(e.target.value)}
+            error={errors.responsable}
+            placeholder="Nombre completo"
+          />
+          <FormField
+            id="admin-reservation-email"
+            label="Correo electrónico *"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            error={errors.email}
+            placeholder="correo@ejemplo.com"
+            type="email"
+          />
+          <FormField
+            id="admin-reservation-motivo"
+            label="Motivo *"
+            value={motivo}
+            onChange={(e) => setMotivo(e.target.value)}
+            error={errors.motivo}
+            multiline={true}
+            rows={2}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-reservation-affiliation">Vínculo con la facultad *</Label>
+              <Select value={affiliation} onValueChange={setAffiliation}>
+                <SelectTrigger id="admin-reservation-affiliation">
+                  <SelectValue placeholder="Seleccione el vínculo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AFFILIATIONS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.affiliation && <p className="text-sm text-red-600">{errors.affiliation}</p>}
+            </div>
+            <FormField
+              id="admin-reservation-personas"
+              label="Cantidad de personas *"
+              value={personas}
+              onChange={(e) => setPersonas(e.target.value)}
+              error={errors.personas}
+              placeholder={`Máximo ${maxPersonas}`}
+              type="number"
+              min={1}
+            />
+          </div>
+
+          {documentationRequirements.length > 0 && (
+            <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
+              <ul className="list-disc pl-5 text-sm text-amber-800">
+                {documentationRequirements.map(requirement => (
+                  <li key={requirement}>{requirement}</li>
+                ))}
+              </ul>
+              <FormField
+                id="admin-reservation-documentation"
+                label="Información requerida *"
+                value={documentation}
+                onChange={(e) => setDocumentation(e.target.value)}
+                error={errors.documentation}
+                multiline={true}
+                rows={2}
+              />
+            </div>
+          )}
+
+          <DatePicker
+            id="admin-reservation-fecha"
+            label="Fecha *"
+            value={fecha}
+            onChange={setFecha}
+            disabledDays={disabledDays}
+            error={errors.fecha}
+            noAvailableTimes={fecha !== undefined && availableTimes.length === 0}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TimeSelector
+              id="admin-reservation-inicio"
+              label="Inicio *"
+              value={inicio}
+              onChange={(value) => {
+                setInicio(value);
+                setFin('');
+                updateAvailableEndTimes(value);
+              }}
+              options={availableTimes}
+              disabled={!fecha || availableTimes.length === 0}
+              error={errors.inicio}
+            />
+            <TimeSelector
+              id="admin-reservation-fin"
+              label="Fin *"
+              value={fin}
+              onChange={setFin}
+              options={availableEndTimes}
+              disabled={!inicio || availableEndTimes.length === 0}
+              error={errors.fin}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="admin-reservation-status">Estado</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as 'approved' | 'pending')}>
+              <SelectTrigger id="admin-reservation-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="approved">Aprobada (se envía el correo de aprobación)</SelectItem>
+                <SelectItem value="pending">Pendiente de aprobación</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 rounded-md border border-gray-200 p-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="admin-reservation-override"
+                checked={overridePolicies}
+                onCheckedChange={(checked) => {
+                  setOverridePolicies(checked === true);
+                  setErrors({});
+                }}
+              />
+              <Label htmlFor="admin-reservation-override" className="cursor-pointer">
+                Omitir las políticas de reserva
+              </Label>
+            </div>
+            <p className="pl-6 text-xs text-gray-500">
+              Anticipación mínima, horizonte de reserva, cupos por persona y penalización por inasistencia.
+            </p>
+            {overridePolicies && (
+              <FormField
+                id="admin-reservation-override-reason"
+                label="Justificación *"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                error={errors.overrideReason}
+                placeholder="Ej.: evento institucional autorizado por el decanato"
+                multiline={true}
+                rows={2}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Creando...' : 'Crear reserva'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdminReservationDialog;
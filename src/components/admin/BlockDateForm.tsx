@@ -5,25 +5,15 @@ import { es } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
+import { blockDates } from '@/lib/supabase';
 import { CalendarX } from 'lucide-react';
-
-// Generate time options from 7:00 to 22:00
-const timeOptions = (() => {
-  const options = [];
-  for (let hour = 7; hour <= 22; hour++) {
-    const hourString = hour.toString().padStart(2, '0');
-    options.push(`${hourString}:00`);
-    if (hour < 22) {
-      options.push(`${hourString}:30`);
-    }
-  }
-  return options;
-})();
+import { useSettings } from '@/context/SettingsContext';
+import { getGridTimeOptions } from '@/utils/timeUtils';
 
 interface BlockDateFormProps {
   onBlockSuccess: () => void;
@@ -35,6 +25,11 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
   const [blockStartTime, setBlockStartTime] = useState('');
   const [blockEndTime, setBlockEndTime] = useState('');
   const [blockReason, setBlockReason] = useState('');
+  const [wholeDay, setWholeDay] = useState(false);
+  const { operatingHours } = useSettings();
+
+  // A block can span several weekdays, so offer the widest configured range
+  const timeOptions = getGridTimeOptions(operatingHours);
 
   const resetBlockForm = () => {
     setStartDate(undefined);
@@ -42,6 +37,7 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
     setBlockStartTime('');
     setBlockEndTime('');
     setBlockReason('');
+    setWholeDay(false);
   };
 
   const handleBlock = async () => {
@@ -50,7 +46,7 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
       return;
     }
     
-    if (!blockStartTime || !blockEndTime) {
+    if (!wholeDay && (!blockStartTime || !blockEndTime)) {
       toast.error('Debe seleccionar horarios de inicio y fin');
       return;
     }
@@ -74,28 +70,22 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
         }
       }
       
-      // Create a blocked date entry for each date in the range
-      for (const date of datesToBlock) {
-        const blockData = {
-          fecha: format(date, 'yyyy-MM-dd'),
-          motivo: blockReason || 'Bloqueo administrativo',
-          start_time: blockStartTime,
-          end_time: blockEndTime
-        };
-
-        const { error } = await supabase
-          .from('blocked_dates')
-          .insert(blockData);
-
-        if (error) throw error;
-      }
+      // One row per date, grouped; reservations in the period are cancelled
+      // and notified by the database
+      await blockDates({
+        dates: datesToBlock.map(date => format(date, 'yyyy-MM-dd')),
+        startTime: wholeDay ? null : blockStartTime,
+        endTime: wholeDay ? null : blockEndTime,
+        reason: blockReason
+      });
 
-      toast.success('Periodo bloqueado exitosamente');
+      toast.success('Periodo bloqueado exitosamente. Las reservas afectadas fueron canceladas y notificadas.');
       resetBlockForm();
       onBlockSuccess();
     } catch (error) {
-
-      toast.error('Error al bloquear el periodo');
+      toast.error(error instanceof Error && error.message === 'INVALID_INPUT'
+        ? 'El motivo no puede superar los 2000 caracteres'
+        : 'Error al bloquear el periodo');
     }
   };
 
@@ -132,47 +122,60 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
             </div>
 
             <div className="space-y-2">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>Hora inicio</Label>
-                  <Select
-                    value={blockStartTime}
-                    onValueChange={setBlockStartTime}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccione hora" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {timeOptions.map(time => (
-                        <SelectItem key={`start-${time}`} value={time}>
-                          {time}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Hora fin</Label>
-                  <Select
-                    value={blockEndTime}
-                    onValueChange={setBlockEndTime}
-                    disabled={!blockStartTime}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccione hora" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {timeOptions
-                        .filter(time => !blockStartTime || time > blockStartTime)
-                        .map(time => (
-                          <SelectItem key={`end-${time}`} value={time}>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="block-whole-day"
+                  checked={wholeDay}
+                  onCheckedChange={(checked) => setWholeDay(checked === true)}
+                />
+                <Label htmlFor="block-whole-day" className="cursor-pointer">
+                  Bloquear el día completo
+                </Label>
+              </div>
+
+              {!wholeDay && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Hora inicio</Label>
+                    <Select
+                      value={blockStartTime}
+                      onValueChange={setBlockStartTime}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione hora" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeOptions.map(time => (
+                          <SelectItem key={`start-${time}`} value={time}>
                             {time}
                           </SelectItem>
                         ))}
-                    </SelectContent>
-                  </Select>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Hora fin</Label>
+                    <Select
+                      value={blockEndTime}
+                      onValueChange={setBlockEndTime}
+                      disabled={!blockStartTime}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione hora" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeOptions
+                          .filter(time => !blockStartTime || time > blockStartTime)
+                          .map(time => (
+                            <SelectItem key={`end-${time}`} value={time}>
+                              {time}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="space-y-2">
                 <Label>Motivo (opcional)</Label>
@@ -185,7 +188,7 @@ const BlockDateForm: React.FC<BlockDateFormProps> = ({ onBlockSuccess }) => {
 
               <Button 
                 className="w-full mt-4" 
-                disabled={!startDate || !blockStartTime || !blockEndTime}
+                disabled={!startDate || (!wholeDay && (!blockStartTime || !blockEndTime))}
                 onClick={handleBlock}
               >
                 <CalendarX className="mr-2 h-4 w-4" />
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { importBlockedDates, previewBlockImport } from '@/lib/supabase';
+import { BlockImportEntry, BlockImportPreview } from '@/types/blockImport';
+import { getParaguayHolidays } from '@/utils/holidayUtils';
+import { parseAcademicCalendar } from '@/utils/academicCalendarUtils';
+import { logger } from '@/utils/logger';
+import { fechaToDate } from '@/lib/dates';
+
+interface BlockImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const formatDay = (date: string) => format(fechaToDate(date), "EEE d 'de' MMM yyyy", { locale: es });
+
+const describeEntryDates = (entry: BlockImportEntry) => {
+  const days = entry.startDate === entry.endDate
+    ? formatDay(entry.startDate)
+    : `${formatDay(entry.startDate)} al ${formatDay(entry.endDate)}`;
+  return entry.startTime && entry.endTime ? `${days}, ${entry.startTime} a ${entry.endTime}` : days;
+};
+
+const BlockImportDialog: React.FC<BlockImportDialogProps> = ({ isOpen, onClose, onImported }) => {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(String(currentYear));
+  const [previews, setPreviews] = useState<BlockImportPreview[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPreviews([]);
+      setSelected(new Set());
+    }
+  }, [isOpen]);
+
+  const loadPreview = async (entries: BlockImportEntry[]) => {
+    try {
+      setIsLoading(true);
+      const result = await previewBlockImport(entries);
+      setPreviews(result);
+      setSelected(new Set(result.filter(preview => preview.newDates.length > 0).map(preview => preview.entry.key)));
+    } catch (error) {
+      logger.error('Error previewing block import', error);
+      toast.error('No se pudo revisar la importación');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadHolidays = () => {
+    loadPreview(getParaguayHolidays(Number(year)));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { entries, skipped } = parseAcademicCalendar(file.name, await file.text());
+      if (entries.length === 0) {
+        toast.error('El archivo no contiene eventos que se puedan importar');
+        return;
+      }
+      if (skipped > 0) {
+        toast.warning(`${skipped} ${skipped === 1 ? 'evento no se pudo leer y fue omitido' : 'eventos no se pudieron leer y fueron omitidos'}`);
+      }
+      loadPreview(entries);
+    } catch (error) {
+      logger.error('Error reading academic calendar', error);
+      toast.error(error instanceof Error && error.message === 'UNSUPPORTED_FILE'
+        ? 'Formato no soportado. Use un archivo .ics o .csv'
+        : 'No se pudo leer el archivo');
+    }
+  };
+
+  const toggleEntry = (key: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const selectedPreviews = previews.filter(preview => selected.has(preview.entry.key));
+  const conflictCount = selectedPreviews.reduce((total, preview) => total + preview.conflicts.length, 0);
+
+  const handleImport = async () => {
+    try {
+      setIsImporting(true);
+      const added = await importBlockedDates(selectedPreviews.map(preview => preview.entry));
+      toast.success(added === 0
+        ? 'Todos los días ya estaban importados'
+        : `${added} ${added === 1 ? 'día bloqueado' : 'días bloqueados'}`);
+      onImported();
+      onClose();
+    } catch (error) {
+      logger.error('Error importing blocked dates', error);
+      toast.error('Error al importar los bloqueos');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importar feriados y calendario académico</DialogTitle>
+          <DialogDescription>
+            Revise los días antes de importarlos. Los que ya fueron importados se omiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="holidays" onValueChange={() => setPreviews([])}>
+          <TabsList className="w-full">
+            <TabsTrigger value="holidays" className="flex-1">Feriados nacionales</TabsTrigger>
+            <TabsTrigger value="academic" className="flex-1">Calendario académico</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="holidays" className="space-y-2">
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>Año</Label>
+                <Select value={year} onValueChange={setYear}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[currentYear, currentYear + 1, currentYear + 2].map(option => (
+                      <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleLoadHolidays} disabled={isLoading}>
+                Ver feriados
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Los feriados trasladados por decreto deben bloquearse manualmente.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="academic" className="space-y-2">
+            <Label htmlFor="academic-calendar-file">Archivo (.ics o .csv)</Label>
+            <Input
+              id="academic-calendar-file"
+              type="file"
+              accept=".ics,.csv,text/calendar,text/csv"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-gray-500">
+              CSV: fecha_inicio, fecha_fin, motivo y opcionalmente hora_inicio, hora_fin.
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        {previews.length > 0 && (
+          <div className="max-h-72 overflow-y-auto space-y-2 border-t pt-2">
+            {previews.map(preview => {
+              const alreadyImported = preview.newDates.length === 0;
+              return (
+                <div key={preview.entry.key} className="flex items-start gap-3 rounded-md border p-2">
+                  <Checkbox
+                    id={`import-${preview.entry.key}`}
+                    checked={selected.has(preview.entry.key)}
+                    disabled={alreadyImported}
+                    onCheckedChange={(checked) => toggleEntry(preview.entry.key, checked === true)}
+                  />
+                  <Label htmlFor={`import-${preview.entry.key}`} className="flex-1 cursor-pointer font-normal">
+                    <span className="block font-medium">{preview.entry.motivo}</span>
+                    <span className="block text-xs text-gray-600 capitalize">{describeEntryDates(preview.entry)}</span>
+                    {alreadyImported && <span className="block text-xs text-gray-500">Ya importado</span>}
+                    {preview.conflicts.length > 0 && (
+                      <span className="block text-xs text-red-600">
+                        Cancela {preview.conflicts.length} {preview.conflicts.length === 1 ? 'reserva' : 'reservas'}:{' '}
+                        {preview.conflicts.map(conflict => `${conflict.responsable} (${conflict.fecha} ${conflict.inicio})`).join(', ')}
+                      </span>
+                    )}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancelar</Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || selectedPreviews.length === 0}
+            variant={conflictCount > 0 ? 'destructive' : 'default'}
+          >
+            {conflictCount > 0
+              ? `Importar ${selectedPreviews.length} y cancelar ${conflictCount} ${conflictCount === 1 ? 'reserva' : 'reservas'}`
+              : `Importar ${selectedPreviews.length}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlockImportDialog;
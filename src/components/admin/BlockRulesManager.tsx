@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+  AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Repeat, Trash2 } from 'lucide-react';
+import { createBlockRule, deleteBlockRule, getBlockRules, previewBlockRule, setBlockRuleActive } from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { BlockRule, BlockRuleCategory, BlockRuleConflict, BlockRuleFrequency, NewBlockRule } from '@/types/blockRule';
+import { BLOCK_RULE_CATEGORY_LABELS, describeBlockRule, validateBlockRule } from '@/utils/blockRuleUtils';
+import { WEEKDAY_NAMES, getGridTimeOptions } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+import { fechaToDate } from '@/lib/dates';
+
+// Show Monday first, like the calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const MONTHS = Array.from({ length: 12 }, (_, index) =>
+  format(new Date(2000, index, 1), 'MMMM', { locale: es })
+);
+
+const FREQUENCY_LABELS: Record<BlockRuleFrequency, string> = {
+  weekly: 'Cada semana',
+  yearly: 'Cada año',
+  range: 'Período de fechas'
+};
+
+const EMPTY_RULE: NewBlockRule = {
+  motivo: '',
+  category: 'other',
+  frequency: 'weekly',
+  weekdays: [],
+  month: 1,
+  day: 1,
+  start_date: null,
+  end_date: null,
+  start_time: null,
+  end_time: null
+};
+
+const BlockRulesManager: React.FC = () => {
+  const { operatingHours } = useSettings();
+  const [rules, setRules] = useState<BlockRule[]>([]);
+  const [draft, setDraft] = useState<NewBlockRule>(EMPTY_RULE);
+  const [wholeDay, setWholeDay] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [conflicts, setConflicts] = useState<BlockRuleConflict[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const timeOptions = getGridTimeOptions(operatingHours);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await getBlockRules());
+    } catch (error) {
+      logger.error('Error loading block rules', error);
+      toast.error('Error al cargar las reglas de bloqueo');
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const updateDraft = (changes: Partial<NewBlockRule>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setErrors({});
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    const weekdays = draft.weekdays || [];
+    updateDraft({
+      weekdays: checked ? [...weekdays, weekday] : weekdays.filter(day => day !== weekday)
+    });
+  };
+
+  const currentRule = (): NewBlockRule => ({
+    ...draft,
+    start_time: wholeDay ? null : draft.start_time,
+    end_time: wholeDay ? null : draft.end_time
+  });
+
+  // Saving always goes through the preview of the reservations it would cancel
+  const handlePreview = async () => {
+    const rule = currentRule();
+    const validationErrors = validateBlockRule(rule);
+    if (!wholeDay && (!rule.start_time || !rule.end_time)) {
+      validationErrors.time = 'Seleccione la hora de inicio y de fin';
+    }
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setConflicts(await previewBlockRule(rule));
+    } catch (error) {
+      logger.error('Error previewing block rule', error);
+      toast.error('No se pudieron revisar las reservas afectadas');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsWorking(true);
+      await createBlockRule(currentRule());
+      toast.success(conflicts && conflicts.length > 0
+        ? `Regla guardada. ${conflicts.length} ${conflicts.length === 1 ? 'reserva fue cancelada y notificada' : 'reservas fueron canceladas y notificadas'}.`
+        : 'Regla guardada');
+      setDraft(EMPTY_RULE);
+      setWholeDay(true);
+      setConflicts(null);
+      fetchRules();
+    } catch (error) {
+      logger.error('Error saving block rule', error);
+      toast.error(error instanceof Error && error.message === 'INVALID_INPUT'
+        ? 'El motivo no puede superar los 2000 caracteres'
+        : 'Error al guardar la regla');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleToggle = async (rule: BlockRule, active: boolean) => {
+    try {
+      await setBlockRuleActive(rule.id, active);
+      setRules(prev => prev.map(item => item.id === rule.id ? { ...item, active } : item));
+    } catch (error) {
+      logger.error('Error updating block rule', error);
+      toast.error('Error al actualizar la regla');
+    }
+  };
+
+  const handleDelete = async (rule: BlockRule) => {
+    try {
+      await deleteBlockRule(rule.id);
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+      toast.success('Regla eliminada');
+    } catch (error) {
+      logger.error('Error deleting block rule', error);
+      toast.error('Error al eliminar la regla');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Bloqueos recurrentes</CardTitle>
+        <CardDescription>Feriados, períodos de exámenes o mantenimiento periódico</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="rule-motivo">Motivo</Label>
+          <Input
+            id="rule-motivo"
+            value={draft.motivo}
+            onChange={(e) => updateDraft({ motivo: e.target.value })}
+            placeholder="Ej.: Limpieza semanal"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Categoría</Label>
+            <Select value={draft.category} onValueChange={(value) => updateDraft({ category: value as BlockRuleCategory })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BLOCK_RULE_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Repetición</Label>
+            <Select value={draft.frequency} onValueChange={(value) => updateDraft({ frequency: value as BlockRuleFrequency })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {draft.frequency === 'weekly' && (
+          <div className="space-y-2">
+            <Label>Días</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {WEEKDAY_ORDER.map(weekday => (
+                <div key={weekday} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`rule-weekday-${weekday}`}
+                    checked={draft.weekdays?.includes(weekday) || false}
+                    onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                  />
+                  <Label htmlFor={`rule-weekday-${weekday}`} className="cursor-pointer font-normal">
+                    {WEEKDAY_NAMES[weekday]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {errors.weekdays && <p className="text-sm text-red-500">{errors.weekdays}</p>}
+          </div>
+        )}
+
+        {draft.frequency === 'yearly' && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-day">Día</Label>
+                <Input
+                  id="rule-day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={draft.day ?? ''}
+                  onChange={(e) => updateDraft({ day: e.target.value ? Number(e.target.value) : null })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Mes</Label>
+                <Select value={String(draft.month)} onValueChange={(value) => updateDraft({ month: Number(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((name, index) => (
+                      <SelectItem key={name} value={String(index + 1)} className="capitalize">{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {errors.day && <p className="text-sm text-red-500">{errors.day}</p>}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-start-date">{draft.frequency === 'range' ? 'Desde' : 'Vigente desde (opcional)'}</Label>
+              <Input
+                id="rule-start-date"
+                type="date"
+                value={draft.start_date || ''}
+                onChange={(e) => updateDraft({ start_date: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-end-date">{draft.frequency === 'range' ? 'Hasta' : 'Vigente hasta (opcional)'}</Label>
+              <Input
+                id="rule-end-date"
+                type="date"
+                value={draft.end_date || ''}
+                onChange={(e) => updateDraft({ end_date: e.target.value || null })}
+              />
+            </div>
+          </div>
+          {errors.dates && <p className="text-sm text-red-500">{errors.dates}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="rule-whole-day"
+              checked={wholeDay}
+              onCheckedChange={(checked) => {
+                setWholeDay(checked === true);
+                setErrors({});
+              }}
+            />
+            <Label htmlFor="rule-whole-day" className="cursor-pointer">
+              Todo el día
+            </Label>
+          </div>
+
+          {!wholeDay && (
+            <div className="grid grid-cols-2 gap-4">
+              <Select value={draft.start_time || ''} onValueChange={(value) => updateDraft({ start_time: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Hora inicio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeOptions.map(time => (
+                    <SelectItem key={`rule-start-${time}`} value={time}>{time}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={draft.end_time || ''}
+                onValueChange={(value) => updateDraft({ end_time: value })}
+                disabled={!draft.start_time}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Hora fin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeOptions
+                    .filter(time => !draft.start_time || time > draft.start_time)
+                    .map(time => (
+                      <SelectItem key={`rule-end-${time}`} value={time}>{time}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {errors.time && <p className="text-sm text-red-500">{errors.time}</p>}
+        </div>
+
+        <Button className="w-full" onClick={handlePreview} disabled={isWorking}>
+          <Repeat className="mr-2 h-4 w-4" />
+          Revisar y guardar regla
+        </Button>
+
+        <AlertDialog open={conflicts !== null} onOpenChange={(open) => !open && setConflicts(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>¿Guardar la regla?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {describeBlockRule(currentRule())}.{' '}
+                {conflicts && conflicts.length > 0
+                  ? `Las siguientes ${conflicts.length} reservas serán canceladas y sus responsables recibirán un correo:`
+                  : 'Ninguna reserva existente se ve afectada.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {conflicts && conflicts.length > 0 && (
+              <ul className="max-h-60 overflow-y-auto space-y-1 text-sm">
+                {conflicts.map(conflict => (
+                  <li key={conflict.id} className="rounded border border-red-200 bg-red-50 px-2 py-1">
+                    {format(fechaToDate(conflict.fecha), 'dd/MM/yyyy')} {conflict.inicio} - {conflict.fin}
+                    {' · '}{conflict.responsable} ({conflict.email})
+                  </li>
+                ))}
+              </ul>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleSave} disabled={isWorking}>
+                {conflicts && conflicts.length > 0 ? 'Guardar y cancelar reservas' : 'Guardar'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {rules.length > 0 && (
+          <div className="space-y-2 pt-2 border-t">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                <div className={rule.active ? '' : 'opacity-50'}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{rule.motivo}</span>
+                    <Badge variant="outline">{BLOCK_RULE_CATEGORY_LABELS[rule.category]}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-600">{describeBlockRule(rule)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.active}
+                    onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    aria-label={rule.active ? 'Pausar regla' : 'Activar regla'}
+                  />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" size="sm" className="h-8 w-8 p-0">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>¿Eliminar la regla?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Los días que bloquea volverán a estar disponibles. Las reservas ya canceladas no se restauran.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(rule)}>Eliminar</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlockRulesManager;
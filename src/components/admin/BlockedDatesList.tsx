@@ -8,7 +8,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Button } from '@/components/ui/button';
 import { Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
+import { unblockTimeSlot } from '@/lib/supabase';
 
 interface BlockedDate {
   id: string;
@@ -16,6 +16,7 @@ interface BlockedDate {
   motivo: string | null;
   start_time?: string;
   end_time?: string;
+  group_id?: string | null;
 }
 
 interface BlockedDatesListProps {
@@ -24,19 +25,31 @@ interface BlockedDatesListProps {
 }
 
 const BlockedDatesList: React.FC<BlockedDatesListProps> = ({ blockedDates, onDelete }) => {
-  const formatBlockDateInfo = (block: BlockedDate) => {
-    const dateStr = format(block.fecha, 'dd/MM/yyyy');
-    let blockInfo = dateStr;
+  // The days of a multi-day block share a group_id and are shown as one entry
+  const groups = blockedDates.reduce<BlockedDate[][]>((result, block) => {
+    const group = block.group_id && result.find(items => items[0].group_id === block.group_id);
+    if (group) {
+      group.push(block);
+    } else {
+      result.push([block]);
+    }
+    return result;
+  }, []);
+
+  const formatBlockDateInfo = (group: BlockedDate[]) => {
+    const block = group[0];
+    const dates = group.map(item => item.fecha).sort();
+    let blockInfo = dates.length > 1
+      ? `${format(dates[0], 'dd/MM/yyyy')} al ${format(dates[dates.length - 1], 'dd/MM/yyyy')}`
+      : format(block.fecha, 'dd/MM/yyyy');
     
     // Include time information if available
     if (block.start_time && block.end_time) {
-      blockInfo += ` de ${block.start_time} a ${block.end_time}`;
+      blockInfo += ` de ${block.start_time.substring(0, 5)} a ${block.end_time.substring(0, 5)}`;
     } else {
       // Extract time information from motivo if it contains it
       const timeMatch = block.motivo && block.motivo.match(/\((\d{2}:\d{2}) - (\d{2}:\d{2})\)/);
-      if (timeMatch) {
-        blockInfo += ` de ${timeMatch[1]} a ${timeMatch[2]}`;
-      }
+      blockInfo += timeMatch ? ` de ${timeMatch[1]} a ${timeMatch[2]}` : ' (todo el día)';
     }
     
     return blockInfo;
@@ -44,17 +57,11 @@ const BlockedDatesList: React.FC<BlockedDatesListProps> = ({ blockedDates, onDel
 
   const deleteBlockedDate = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from('blocked_dates')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await unblockTimeSlot(id, true);
 
       toast.success('Bloqueo eliminado exitosamente');
       onDelete();
     } catch (error) {
-
       toast.error('Error al eliminar el bloqueo');
     }
   };
@@ -67,11 +74,11 @@ const BlockedDatesList: React.FC<BlockedDatesListProps> = ({ blockedDates, onDel
     <div className="mb-6">
       <h3 className="text-md font-medium mb-2 text-red-700 px-3">Fechas Bloqueadas</h3>
       <div className="space-y-2">
-        {blockedDates.map(block => (
+        {groups.map(([block, ...rest]) => (
           <Card key={block.id} className="overflow-hidden shadow-sm border border-red-200 bg-red-50">
             <CardContent className="p-3 flex justify-between items-center">
               <div>
-                <p className="font-medium text-red-700">{formatBlockDateInfo(block)}</p>
+                <p className="font-medium text-red-700">{formatBlockDateInfo([block, ...rest])}</p>
                 <p className="text-sm text-red-600">{block.motivo?.replace(/\(.*\)/, '').trim() || 'No especificado'}</p>
               </div>
               <AlertDialog>
@@ -88,7 +95,9 @@ const BlockedDatesList: React.FC<BlockedDatesListProps> = ({ blockedDates, onDel
                   <AlertDialogHeader>
                     <AlertDialogTitle>¿Está seguro?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      Esto eliminará el bloqueo y permitirá que se realicen reservas para este período.
+                      {rest.length > 0
+                        ? `Esto eliminará el bloqueo de los ${rest.length + 1} días y permitirá que se realicen reservas para este período.`
+                        : 'Esto eliminará el bloqueo y permitirá que se realicen reservas para este período.'}
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
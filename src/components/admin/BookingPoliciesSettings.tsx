@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Save } from 'lucide-react';
+import { updateBookingPolicies } from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { BookingPolicies } from '@/types/settings';
+import { AFFILIATIONS } from '@/utils/capacityUtils';
+import { getMonthlyHoursLimit, validateBookingPolicies } from '@/utils/bookingPolicyUtils';
+import { logger } from '@/utils/logger';
+
+type CountField = 'minLeadHours' | 'maxHorizonDays' | 'maxActivePerEmail' | 'noShowCooldownDays';
+
+const COUNT_FIELDS: { field: CountField; label: string; unit: string }[] = [
+  { field: 'minLeadHours', label: 'Anticipación mínima', unit: 'horas' },
+  { field: 'maxHorizonDays', label: 'Reservar hasta con', unit: 'días de anticipación' },
+  { field: 'maxActivePerEmail', label: 'Reservas activas por persona', unit: 'reservas (una serie cuenta como una)' },
+  { field: 'noShowCooldownDays', label: 'Sin reservar tras una inasistencia', unit: 'días' }
+];
+
+const toNumber = (value: string) => value.trim() === '' ? 0 : Number(value);
+
+const BookingPoliciesSettings: React.FC = () => {
+  const { bookingPolicies, refreshSettings } = useSettings();
+  const [draft, setDraft] = useState<BookingPolicies>(bookingPolicies);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(bookingPolicies);
+  }, [bookingPolicies]);
+
+  const updateDraft = (changes: Partial<BookingPolicies>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setErrors({});
+  };
+
+  const updateMonthlyHours = (affiliation: string, value: string) => {
+    const monthlyHoursByAffiliation = { ...draft.monthlyHoursByAffiliation };
+    if (toNumber(value) === 0) {
+      delete monthlyHoursByAffiliation[affiliation];
+    } else {
+      monthlyHoursByAffiliation[affiliation] = toNumber(value);
+    }
+    updateDraft({ monthlyHoursByAffiliation });
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validateBookingPolicies(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateBookingPolicies(draft);
+      await refreshSettings();
+      toast.success('Políticas de reserva guardadas');
+    } catch (error) {
+      logger.error('Error saving booking policies', error);
+      toast.error('Error al guardar las políticas de reserva');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Políticas de reserva</CardTitle>
+        <CardDescription>
+          Límites que se aplican a cada solicitud. Deje 0 o vacío para no limitar. Los administradores pueden omitirlos al reservar en nombre de otra persona.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {COUNT_FIELDS.map(({ field, label, unit }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`policy-${field}`}>{label}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={`policy-${field}`}
+                  type="number"
+                  min={0}
+                  value={draft[field] || ''}
+                  onChange={(e) => updateDraft({ [field]: toNumber(e.target.value) })}
+                  placeholder="Sin límite"
+                  className="w-32"
+                />
+                <span className="text-sm text-gray-600">{unit}</span>
+              </div>
+              {errors[field] && <p className="text-red-500 text-sm">{errors[field]}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Horas por mes según el vínculo</Label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {AFFILIATIONS.map(affiliation => (
+              <div key={affiliation} className="space-y-1">
+                <Label htmlFor={`policy-hours-${affiliation}`} className="font-normal text-sm">
+                  {affiliation}
+                </Label>
+                <Input
+                  id={`policy-hours-${affiliation}`}
+                  type="number"
+                  min={0}
+                  value={draft.monthlyHoursByAffiliation[affiliation] || ''}
+                  onChange={(e) => updateMonthlyHours(affiliation, e.target.value)}
+                  placeholder="Sin límite"
+                />
+              </div>
+            ))}
+          </div>
+          {getMonthlyHoursLimit(draft, null) > 0 && (
+            <p className="text-xs text-gray-500">
+              Las reservas sin vínculo indicado tienen el límite más bajo: {getMonthlyHoursLimit(draft, null)} horas por mes.
+            </p>
+          )}
+          {errors.monthlyHours && <p className="text-red-500 text-sm">{errors.monthlyHours}</p>}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Se cuentan las reservas pendientes y aprobadas del mismo correo. Las inasistencias son las registradas en la entrega de llaves.
+        </p>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="mr-2 h-4 w-4" />
+            Guardar políticas
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BookingPoliciesSettings;
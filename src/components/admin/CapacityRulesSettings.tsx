@@ -0,0 +1,318 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+  AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import {
+  createCapacityRule,
+  deleteCapacityRule,
+  setCapacityRuleActive,
+  updateMaxPersonas
+} from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { CapacityRule, CapacityRuleKind, NewCapacityRule } from '@/types/capacity';
+import {
+  AFFILIATIONS,
+  CAPACITY_RULE_KIND_LABELS,
+  describeCapacityRule,
+  validateCapacityRule
+} from '@/utils/capacityUtils';
+import { logger } from '@/utils/logger';
+
+const EMPTY_RULE: NewCapacityRule = {
+  name: '',
+  kind: 'auto_approve',
+  affiliations: [],
+  min_personas: null,
+  max_personas: null,
+  requirement: null,
+  sort_order: 0
+};
+
+const toCount = (value: string) => value.trim() === '' ? null : Number(value);
+
+const CapacityRulesSettings: React.FC = () => {
+  const { maxPersonas, capacityRules, refreshSettings } = useSettings();
+  const [capacity, setCapacity] = useState(String(maxPersonas));
+  const [draft, setDraft] = useState<NewCapacityRule>(EMPTY_RULE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCapacity(String(maxPersonas));
+  }, [maxPersonas]);
+
+  const updateDraft = (changes: Partial<NewCapacityRule>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setErrors({});
+  };
+
+  const toggleAffiliation = (affiliation: string, checked: boolean) => {
+    updateDraft({
+      affiliations: checked
+        ? [...draft.affiliations, affiliation]
+        : draft.affiliations.filter(item => item !== affiliation)
+    });
+  };
+
+  const handleSaveCapacity = async () => {
+    const value = Number(capacity);
+    if (!Number.isInteger(value) || value < 1) {
+      setErrors({ capacity: 'Ingrese un número válido de personas' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateMaxPersonas(value);
+      await refreshSettings();
+      toast.success('Capacidad guardada');
+    } catch (error) {
+      logger.error('Error saving capacity', error);
+      toast.error('Error al guardar la capacidad');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateRule = async () => {
+    // New rules are evaluated after the existing ones
+    const rule = { ...draft, sort_order: capacityRules.length };
+    const validationErrors = validateCapacityRule(rule);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createCapacityRule(rule);
+      await refreshSettings();
+      setDraft(EMPTY_RULE);
+      toast.success('Regla guardada');
+    } catch (error) {
+      logger.error('Error saving capacity rule', error);
+      toast.error(error instanceof Error && error.message === 'INVALID_INPUT'
+        ? 'El requisito no puede superar los 2000 caracteres'
+        : 'Error al guardar la regla');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CapacityRule, active: boolean) => {
+    try {
+      await setCapacityRuleActive(rule.id, active);
+      await refreshSettings();
+    } catch (error) {
+      logger.error('Error updating capacity rule', error);
+      toast.error('Error al actualizar la regla');
+    }
+  };
+
+  const handleDelete = async (rule: CapacityRule) => {
+    try {
+      await deleteCapacityRule(rule.id);
+      await refreshSettings();
+      toast.success('Regla eliminada');
+    } catch (error) {
+      logger.error('Error deleting capacity rule', error);
+      toast.error('Error al eliminar la regla');
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Capacidad y aprobación</CardTitle>
+        <CardDescription>
+          Límite de personas, información adicional según la cantidad de asistentes y reglas de aprobación automática al confirmar una reserva.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="max-personas">Capacidad máxima (personas)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="max-personas"
+              type="number"
+              min={1}
+              value={capacity}
+              onChange={(e) => {
+                setCapacity(e.target.value);
+                setErrors({});
+              }}
+              className="w-32"
+            />
+            <Button variant="outline" onClick={handleSaveCapacity} disabled={isSaving}>
+              <Save className="mr-2 h-4 w-4" />
+              Guardar
+            </Button>
+          </div>
+          {errors.capacity && <p className="text-red-500 text-sm">{errors.capacity}</p>}
+        </div>
+
+        <div className="space-y-2">
+          {capacityRules.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay reglas configuradas. Todas las reservas requieren aprobación manual.</p>
+          ) : (
+            capacityRules.map((rule, index) => (
+              <div key={rule.id} className="flex items-start justify-between gap-2 rounded-md border p-2">
+                <div className={rule.active ? '' : 'opacity-50'}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500">{index + 1}.</span>
+                    <span className="font-medium text-sm">{rule.name}</span>
+                    <Badge variant={rule.kind === 'auto_approve' ? 'default' : 'outline'}>
+                      {CAPACITY_RULE_KIND_LABELS[rule.kind]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-600">{describeCapacityRule(rule)}</p>
+                  {rule.kind === 'documentation' && rule.requirement && (
+                    <p className="text-xs text-gray-600">Requisito: {rule.requirement}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.active}
+                    onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    aria-label={rule.active ? 'Pausar regla' : 'Activar regla'}
+                  />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" size="sm" className="h-8 w-8 p-0">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>¿Eliminar la regla?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Las reservas ya aprobadas por esta regla no se modifican.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(rule)}>Eliminar</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="capacity-rule-name">Nombre de la regla</Label>
+              <Input
+                id="capacity-rule-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Ej.: Funcionarios, grupos chicos"
+              />
+              {errors.name && <p className="text-red-500 text-sm">{errors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={draft.kind} onValueChange={(value) => updateDraft({ kind: value as CapacityRuleKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CAPACITY_RULE_KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Vínculo (ninguno marcado aplica a todos)</Label>
+            <div className="flex flex-wrap gap-4">
+              {AFFILIATIONS.map(affiliation => (
+                <div key={affiliation} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`capacity-rule-${affiliation}`}
+                    checked={draft.affiliations.includes(affiliation)}
+                    onCheckedChange={(checked) => toggleAffiliation(affiliation, checked === true)}
+                  />
+                  <Label htmlFor={`capacity-rule-${affiliation}`} className="cursor-pointer font-normal">
+                    {affiliation}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="capacity-rule-min">Desde (personas)</Label>
+                <Input
+                  id="capacity-rule-min"
+                  type="number"
+                  min={1}
+                  value={draft.min_personas ?? ''}
+                  onChange={(e) => updateDraft({ min_personas: toCount(e.target.value) })}
+                  placeholder="Sin mínimo"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="capacity-rule-max">Hasta (personas)</Label>
+                <Input
+                  id="capacity-rule-max"
+                  type="number"
+                  min={1}
+                  value={draft.max_personas ?? ''}
+                  onChange={(e) => updateDraft({ max_personas: toCount(e.target.value) })}
+                  placeholder="Sin máximo"
+                />
+              </div>
+            </div>
+            {errors.personas && <p className="text-red-500 text-sm">{errors.personas}</p>}
+          </div>
+
+          {draft.kind === 'documentation' && (
+            <div className="space-y-2">
+              <Label htmlFor="capacity-rule-requirement">Qué debe presentar el solicitante</Label>
+              <Textarea
+                id="capacity-rule-requirement"
+                value={draft.requirement || ''}
+                onChange={(e) => updateDraft({ requirement: e.target.value })}
+                placeholder="Ej.: Nombre y correo del docente responsable"
+                rows={2}
+              />
+              {errors.requirement && <p className="text-red-500 text-sm">{errors.requirement}</p>}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Una reserva que requiere documentación nunca se aprueba automáticamente. Si varias reglas de aprobación coinciden, se registra la primera de la lista.
+          </p>
+
+          <div className="flex justify-end">
+            <Button onClick={handleCreateRule} disabled={isSaving}>
+              <Plus className="mr-2 h-4 w-4" />
+              Agregar regla
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CapacityRulesSettings;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowRight } from 'lucide-react';
+import { Reservation, ReservationChangeRequest } from '@/types/reservation';
+import { getChangeDiff } from '@/utils/changeRequestUtils';
+import ReservationDetailDialog from './ReservationDetailDialog';
+
+interface ChangeRequestsListProps {
+  changeRequests: (ReservationChangeRequest & { reservation: Reservation })[];
+  onResolved: () => void;
+}
+
+// Changes proposed by users on their own reservations, waiting for an admin
+const ChangeRequestsList: React.FC<ChangeRequestsListProps> = ({ changeRequests, onResolved }) => {
+  const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
+
+  if (changeRequests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-4 border-amber-300">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Solicitudes de cambio ({changeRequests.length})</CardTitle>
+        <CardDescription>Modificaciones propuestas por los usuarios sobre sus reservas</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {changeRequests.map(request => (
+          <div
+            key={request.id}
+            className="flex flex-col sm:flex-row justify-between gap-2 rounded border border-gray-200 p-3 text-sm"
+          >
+            <div className="space-y-1">
+              <p className="font-medium">
+                {request.reservation.motivo} - {request.reservation.responsable}
+              </p>
+              {getChangeDiff(request, request.reservation).map(row => (
+                <p key={row.label} className="flex flex-wrap items-center gap-1 text-gray-600">
+                  <span className="font-medium">{row.label}:</span> {row.from}
+                  <ArrowRight className="h-3 w-3" /> {row.to}
+                </p>
+              ))}
+              <p className="text-xs text-gray-500">
+                Solicitado el {format(request.createdAt, 'dd/MM/yyyy HH:mm', { locale: es })}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 self-start"
+              onClick={() => setSelectedReservation(request.reservation)}
+            >
+              Revisar
+            </Button>
+          </div>
+        ))}
+
+        <ReservationDetailDialog
+          reservation={selectedReservation}
+          isOpen={selectedReservation !== null}
+          onClose={() => setSelectedReservation(null)}
+          onChangeResolved={onResolved}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChangeRequestsList;
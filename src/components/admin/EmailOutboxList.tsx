@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, RefreshCw, Send } from 'lucide-react';
+import { EMAIL_OUTBOX_STATUS_LABELS, EMAIL_TYPE_LABELS, EmailOutboxEntry, EmailOutboxStatus } from '@/types/email';
+import { fechaToDate } from '@/lib/dates';
+
+interface EmailOutboxListProps {
+  entries: EmailOutboxEntry[];
+  onResend: (entry: EmailOutboxEntry) => Promise<void>;
+  onRefresh: () => void;
+  isLoading: boolean;
+}
+
+const STATUS_STYLES: Record<EmailOutboxStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-red-100 text-red-800'
+};
+
+const NO_RESERVATION = 'none';
+
+const needsAttention = (entry: EmailOutboxEntry) => entry.status === 'failed' || entry.status === 'bounced';
+
+// Group emails by reservation; emails not tied to one (reports) go last
+const groupByReservation = (entries: EmailOutboxEntry[]) => {
+  const groups = new Map<string, EmailOutboxEntry[]>();
+  entries.forEach(entry => {
+    const key = entry.reservation_id || NO_RESERVATION;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    (a === NO_RESERVATION ? 1 : 0) - (b === NO_RESERVATION ? 1 : 0)
+  );
+};
+
+const describeReservation = (entry: EmailOutboxEntry) => {
+  const reservation = entry.reservation;
+  if (!reservation?.fecha) {
+    return reservation?.responsable || 'Reserva';
+  }
+  const date = format(fechaToDate(reservation.fecha), "EEEE d 'de' MMMM", { locale: es });
+  return `${reservation.responsable || 'Reserva'} · ${date}, ${reservation.inicio} - ${reservation.fin}`;
+};
+
+const EmailOutboxList: React.FC<EmailOutboxListProps> = ({ entries, onResend, onRefresh, isLoading }) => {
+  const [filter, setFilter] = useState<'problems' | 'all'>('problems');
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  const visibleEntries = entries.filter(entry => filter === 'all' || needsAttention(entry));
+  const groups = groupByReservation(visibleEntries);
+
+  const handleResend = async (entry: EmailOutboxEntry) => {
+    setResendingId(entry.id);
+    try {
+      await onResend(entry);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <CardTitle className="text-lg">Correos no entregados</CardTitle>
+          <div className="flex gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as 'problems' | 'all')}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="problems">Fallidos y rebotados</SelectItem>
+                <SelectItem value="all">Incluir reintentos</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={onRefresh} disabled={isLoading} title="Actualizar">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(100vh-300px)]">
+            <div className="space-y-3 p-2">
+              {groups.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Todos los correos fueron entregados</p>
+              ) : (
+                groups.map(([reservationId, groupEntries]) => (
+                  <Card key={reservationId} className="overflow-hidden shadow-sm border border-gray-200">
+                    <CardHeader className="p-3 bg-gray-50 border-b">
+                      <CardTitle className="text-base font-medium first-letter:capitalize">
+                        {reservationId === NO_RESERVATION ? 'Otros correos' : describeReservation(groupEntries[0])}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                      <ul className="divide-y">
+                        {groupEntries.map(entry => (
+                          <li key={entry.id} className="p-3 flex justify-between items-start gap-2">
+                            <div className="text-sm space-y-1 min-w-0">
+                              <p className="font-medium">
+                                {EMAIL_TYPE_LABELS[entry.type] || entry.type}
+                                <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                                  {EMAIL_OUTBOX_STATUS_LABELS[entry.status]}
+                                </span>
+                              </p>
+                              <p className="text-gray-600 break-all">{entry.recipient}</p>
+                              <p className="text-xs text-gray-500">
+                                Creado el {format(entry.createdAt, 'dd/MM/yyyy HH:mm', { locale: es })}
+                                {' · '}
+                                {entry.attempts} de {entry.max_attempts} intentos
+                                {entry.status === 'pending' && (
+                                  <> · próximo intento {format(entry.next_attempt_at, 'HH:mm', { locale: es })}</>
+                                )}
+                              </p>
+                              {entry.last_error && (
+                                <p className="text-xs text-red-700 flex items-start">
+                                  <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                                  <span className="break-words">{entry.last_error}</span>
+                                </p>
+                              )}
+                            </div>
+                            {needsAttention(entry) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 shrink-0"
+                                onClick={() => handleResend(entry)}
+                                disabled={resendingId === entry.id}
+                              >
+                                <Send className="h-4 w-4 mr-1" />
+                                Reenviar
+                              </Button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailOutboxList;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileSpreadsheet, FileText, Printer } from 'lucide-react';
+import { getExportRows } from '@/lib/supabase';
+import { ExportStatus } from '@/types/export';
+import { downloadCsv, downloadXlsx } from '@/utils/exportUtils';
+import { logger } from '@/utils/logger';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialStatuses: ExportStatus[];
+}
+
+const STATUS_OPTIONS: { value: ExportStatus; label: string }[] = [
+  { value: 'approved', label: 'Aprobadas' },
+  { value: 'pending', label: 'Pendientes' },
+  { value: 'cancelled', label: 'Canceladas' },
+  { value: 'rejected', label: 'Rechazadas' },
+  { value: 'blocked', label: 'Bloqueos' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, initialStatuses }) => {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [statuses, setStatuses] = useState<ExportStatus[]>(initialStatuses);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start from what the admin is looking at in the dashboard (initialStatuses
+  // must be a stable reference)
+  useEffect(() => {
+    if (isOpen) {
+      setStatuses(initialStatuses);
+    }
+  }, [isOpen, initialStatuses]);
+
+  const toggleStatus = (status: ExportStatus, checked: boolean) => {
+    setStatuses(current =>
+      checked ? [...current, status] : current.filter(item => item !== status)
+    );
+  };
+
+  const validate = () => {
+    if (!from || !to || from > to) {
+      toast.error('Seleccione un rango de fechas válido');
+      return false;
+    }
+    if (statuses.length === 0) {
+      toast.error('Seleccione al menos un estado');
+      return false;
+    }
+    return true;
+  };
+
+  const handleExport = async (fileFormat: 'csv' | 'xlsx') => {
+    if (!validate()) return;
+
+    try {
+      setIsExporting(true);
+      const rows = await getExportRows({ from, to, statuses });
+      if (rows.length === 0) {
+        toast.info('No hay registros para exportar con estos filtros');
+        return;
+      }
+
+      const fileName = `reservas-quincho_${from}_${to}`;
+      if (fileFormat === 'csv') {
+        downloadCsv(rows, fileName);
+      } else {
+        await downloadXlsx(rows, fileName);
+      }
+      toast.success(`Se exportaron ${rows.length} registros`);
+    } catch (error) {
+      logger.error('Error exporting reservations', error);
+      toast.error('Error al exportar las reservas');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePrintReport = () => {
+    if (!validate()) return;
+
+    const params = new URLSearchParams({ desde: from, hasta: to, estados: statuses.join(',') });
+    window.open(`/admin/informe?${params.toString()}`, '_blank');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar reservas</DialogTitle>
+          <DialogDescription>
+            Descargue las reservas y bloqueos del período seleccionado o genere el informe mensual para imprimir.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">Desde</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">Hasta</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Estados</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {STATUS_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={statuses.includes(option.value)}
+                    onCheckedChange={(checked) => toggleStatus(option.value, checked === true)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={handlePrintReport} disabled={isExporting}>
+            <Printer className="h-4 w-4 mr-2" />
+            Informe
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting}>
+            <FileText className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button onClick={() => handleExport('xlsx')} disabled={isExporting}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Excel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
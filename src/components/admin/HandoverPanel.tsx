@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Key, LogIn, LogOut } from 'lucide-react';
+import { checkInReservation, checkOutReservation, getHandoverPhotoUrls, handOutKey } from '@/lib/supabase';
+import { ReservationHandover } from '@/types/handover';
+import { logger } from '@/utils/logger';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5 MB, same limit as the storage bucket
+
+interface HandoverPanelProps {
+  reservationId: string;
+  handover: ReservationHandover | null;
+  canRecord: boolean; // Approved reservation and the viewer is an admin or guard
+  onChanged: () => void;
+}
+
+const formatMoment = (date: Date | null) =>
+  date ? format(date, "dd/MM/yyyy HH:mm", { locale: es }) : '—';
+
+const checklistLabel = (value: boolean | null) =>
+  value === null ? '—' : value ? 'Sí' : 'No';
+
+export const getHandoverStatus = (handover: ReservationHandover | null) => {
+  if (!handover) return { label: 'Sin registrar', className: 'bg-gray-100 text-gray-700' };
+  if (handover.no_show) return { label: 'No se presentó', className: 'bg-red-100 text-red-800' };
+  if (handover.checked_out_at) return { label: 'Finalizada', className: 'bg-green-100 text-green-800' };
+  if (handover.checked_in_at) return { label: 'En uso', className: 'bg-blue-100 text-blue-800' };
+  return { label: 'Sin registrar', className: 'bg-gray-100 text-gray-700' };
+};
+
+const HandoverPanel: React.FC<HandoverPanelProps> = ({ reservationId, handover, canRecord, onChanged }) => {
+  const [keyHandedOut, setKeyHandedOut] = useState(true);
+  const [keyReturned, setKeyReturned] = useState(true);
+  const [grillClean, setGrillClean] = useState(false);
+  const [trashRemoved, setTrashRemoved] = useState(false);
+  const [damageNoted, setDamageNoted] = useState(false);
+  const [damageNotes, setDamageNotes] = useState('');
+  const [notes, setNotes] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!handover || handover.photos.length === 0) {
+      setPhotoUrls([]);
+      return;
+    }
+
+    let cancelled = false;
+    getHandoverPhotoUrls(handover.photos)
+      .then(urls => {
+        if (!cancelled) setPhotoUrls(urls);
+      })
+      .catch(error => logger.error('Error loading handover photos', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [handover]);
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+
+    if (selected.length > MAX_PHOTOS) {
+      toast.error(`Puede adjuntar hasta ${MAX_PHOTOS} fotos`);
+      e.target.value = '';
+      return;
+    }
+
+    if (selected.some(file => !file.type.startsWith('image/') || file.size > MAX_PHOTO_SIZE)) {
+      toast.error('Solo se aceptan imágenes de hasta 5 MB');
+      e.target.value = '';
+      return;
+    }
+
+    setPhotos(selected);
+  };
+
+  const runAction = async (action: () => Promise<void>, successMessage: string, errorMessage: string) => {
+    try {
+      setIsSaving(true);
+      await action();
+      toast.success(successMessage);
+      setNotes('');
+      setPhotos([]);
+      if (photoInputRef.current) {
+        photoInputRef.current.value = '';
+      }
+      onChanged();
+    } catch (error) {
+      logger.error(errorMessage, error);
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCheckIn = () =>
+    runAction(
+      () => checkInReservation(reservationId, { keyHandedOut, notes }),
+      'Llegada registrada',
+      'Error al registrar la llegada'
+    );
+
+  const handleHandOutKey = () =>
+    runAction(() => handOutKey(reservationId), 'Entrega de llave registrada', 'Error al registrar la entrega de llave');
+
+  const handleCheckOut = () => {
+    if (!handover) return;
+    if (damageNoted && !damageNotes.trim()) {
+      toast.error('Describa los daños encontrados');
+      return;
+    }
+
+    runAction(
+      () => checkOutReservation(handover, {
+        keyReturned,
+        grillClean,
+        trashRemoved,
+        damageNoted,
+        damageNotes,
+        notes,
+        photos
+      }),
+      'Salida registrada',
+      'Error al registrar la salida'
+    );
+  };
+
+  const status = getHandoverStatus(handover);
+  const checkedIn = !!handover?.checked_in_at;
+  const checkedOut = !!handover?.checked_out_at;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="font-semibold">Entrega de llaves y estado</Label>
+        <Badge variant="outline" className={status.className}>{status.label}</Badge>
+      </div>
+
+      {handover && (checkedIn || handover.no_show) && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <dt className="text-gray-500">Llegada</dt>
+          <dd>{formatMoment(handover.checked_in_at)}</dd>
+          <dt className="text-gray-500">Llave entregada</dt>
+          <dd>{formatMoment(handover.key_handed_out_at)}</dd>
+          <dt className="text-gray-500">Salida</dt>
+          <dd>{formatMoment(handover.checked_out_at)}</dd>
+          <dt className="text-gray-500">Llave devuelta</dt>
+          <dd>{formatMoment(handover.key_returned_at)}</dd>
+          {checkedOut && (
+            <>
+              <dt className="text-gray-500">Parrilla limpia</dt>
+              <dd>{checklistLabel(handover.grill_clean)}</dd>
+              <dt className="text-gray-500">Basura retirada</dt>
+              <dd>{checklistLabel(handover.trash_removed)}</dd>
+              <dt className="text-gray-500">Daños</dt>
+              <dd>{handover.damage_noted ? handover.damage_notes || 'Sí' : 'No'}</dd>
+            </>
+          )}
+        </dl>
+      )}
+
+      {handover?.notes && (
+        <p className="text-sm whitespace-pre-wrap">
+          <span className="font-medium">Observaciones:</span> {handover.notes}
+        </p>
+      )}
+
+      {photoUrls.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {photoUrls.map(url => (
+            <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+              <img src={url} alt="Foto del estado del quincho" className="h-24 w-full object-cover rounded border" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {canRecord && !checkedIn && (
+        <div className="space-y-3 rounded-md border p-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={keyHandedOut} onCheckedChange={(checked) => setKeyHandedOut(checked === true)} />
+            Se entregó la llave
+          </label>
+          <Textarea placeholder="Observaciones (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <Button size="sm" onClick={handleCheckIn} disabled={isSaving}>
+            <LogIn className="h-4 w-4 mr-2" />
+            Registrar llegada
+          </Button>
+        </div>
+      )}
+
+      {canRecord && checkedIn && !handover?.key_handed_out_at && !checkedOut && (
+        <Button size="sm" variant="outline" onClick={handleHandOutKey} disabled={isSaving}>
+          <Key className="h-4 w-4 mr-2" />
+          Registrar entrega de llave
+        </Button>
+      )}
+
+      {canRecord && checkedIn && !checkedOut && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={keyReturned} onCheckedChange={(checked) => setKeyReturned(checked === true)} />
+              Llave devuelta
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={grillClean} onCheckedChange={(checked) => setGrillClean(checked === true)} />
+              Parrilla limpia
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={trashRemoved} onCheckedChange={(checked) => setTrashRemoved(checked === true)} />
+              Basura retirada
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={damageNoted} onCheckedChange={(checked) => setDamageNoted(checked === true)} />
+              Se encontraron daños
+            </label>
+          </div>
+          {damageNoted && (
+            <Textarea
+              placeholder="Describa los daños"
+              value={damageNotes}
+              onChange={(e) => setDamageNotes(e.target.value)}
+            />
+          )}
+          <div>
+            <Label htmlFor={`handover-photos-${reservationId}`} className="text-sm">
+              Fotos (opcional, hasta {MAX_PHOTOS})
+            </Label>
+            <Input
+              id={`handover-photos-${reservationId}`}
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotosChange}
+            />
+          </div>
+          <Textarea placeholder="Observaciones (opcional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <Button size="sm" onClick={handleCheckOut} disabled={isSaving}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Registrar salida
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HandoverPanel;
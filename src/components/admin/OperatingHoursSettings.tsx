@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Save } from 'lucide-react';
+import { updateOperatingHours } from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { DaySchedule, OperatingHours, SlotMinutes } from '@/types/settings';
+import { WEEKDAY_NAMES, generateTimeOptions, validateOperatingHours } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+
+// Show Monday first, like the calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+const OperatingHoursSettings: React.FC = () => {
+  const { operatingHours, isLoading, refreshSettings } = useSettings();
+  const [draft, setDraft] = useState<OperatingHours>(operatingHours);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the stored values change (including edits from another admin)
+  useEffect(() => {
+    setDraft(operatingHours);
+    setErrors({});
+  }, [operatingHours]);
+
+  const timeChoices = generateTimeOptions('00:00', '23:30', draft.slotMinutes);
+  const durationChoices = Array.from(
+    { length: Math.floor((24 * 60) / draft.slotMinutes) },
+    (_, index) => (index + 1) * draft.slotMinutes
+  );
+
+  const updateDay = (dayIndex: number, changes: Partial<DaySchedule>) => {
+    setDraft(prev => ({
+      ...prev,
+      days: prev.days.map((day, index) => index === dayIndex ? { ...day, ...changes } : day)
+    }));
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validateOperatingHours(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      toast.error('Revise los valores marcados antes de guardar');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateOperatingHours(draft);
+      await refreshSettings();
+      toast.success('Configuración guardada exitosamente');
+    } catch (error) {
+      logger.error('Error saving operating hours', error);
+      toast.error('Error al guardar la configuración');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Horario de atención</CardTitle>
+        <CardDescription>
+          Define los días y horarios en los que se puede reservar el Quincho. Los cambios se aplican de inmediato en el calendario.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {WEEKDAY_ORDER.map(dayIndex => {
+            const day = draft.days[dayIndex];
+            return (
+              <div key={dayIndex} className="space-y-1">
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-center">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`day-open-${dayIndex}`}
+                      checked={!day.closed}
+                      onCheckedChange={(checked) => updateDay(dayIndex, { closed: !checked })}
+                    />
+                    <Label htmlFor={`day-open-${dayIndex}`}>{WEEKDAY_NAMES[dayIndex]}</Label>
+                  </div>
+                  {day.closed ? (
+                    <p className="sm:col-span-3 text-sm text-gray-500">Cerrado</p>
+                  ) : (
+                    <>
+                      <Select value={day.open} onValueChange={(value) => updateDay(dayIndex, { open: value })}>
+                        <SelectTrigger aria-label={`Apertura ${WEEKDAY_NAMES[dayIndex]}`}>
+                          <SelectValue placeholder="Apertura" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {timeChoices.map(time => (
+                            <SelectItem key={`open-${dayIndex}-${time}`} value={time}>{time}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={day.close} onValueChange={(value) => updateDay(dayIndex, { close: value })}>
+                        <SelectTrigger aria-label={`Cierre ${WEEKDAY_NAMES[dayIndex]}`}>
+                          <SelectValue placeholder="Cierre" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {timeChoices.map(time => (
+                            <SelectItem key={`close-${dayIndex}-${time}`} value={time}>{time}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+                {errors[`day-${dayIndex}`] && (
+                  <p className="text-red-500 text-sm">{errors[`day-${dayIndex}`]}</p>
+                )}
+              </div>
+            );
+          })}
+          {errors.days && <p className="text-red-500 text-sm">{errors.days}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="slot-minutes">Intervalo de turnos</Label>
+            <Select
+              value={String(draft.slotMinutes)}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, slotMinutes: Number(value) as SlotMinutes }))}
+            >
+              <SelectTrigger id="slot-minutes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">30 minutos</SelectItem>
+                <SelectItem value="60">60 minutos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-duration">Duración mínima</Label>
+            <Select
+              value={String(draft.minDurationMinutes)}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, minDurationMinutes: Number(value) }))}
+            >
+              <SelectTrigger id="min-duration">
+                <SelectValue placeholder={formatDuration(draft.minDurationMinutes)} />
+              </SelectTrigger>
+              <SelectContent>
+                {durationChoices.map(minutes => (
+                  <SelectItem key={`min-${minutes}`} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.minDuration && <p className="text-red-500 text-sm">{errors.minDuration}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-duration">Duración máxima</Label>
+            <Select
+              value={String(draft.maxDurationMinutes)}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, maxDurationMinutes: Number(value) }))}
+            >
+              <SelectTrigger id="max-duration">
+                <SelectValue placeholder={formatDuration(draft.maxDurationMinutes)} />
+              </SelectTrigger>
+              <SelectContent>
+                {durationChoices.map(minutes => (
+                  <SelectItem key={`max-${minutes}`} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.maxDuration && <p className="text-red-500 text-sm">{errors.maxDuration}</p>}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => { setDraft(operatingHours); setErrors({}); }} disabled={isSaving}>
+            Descartar cambios
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="mr-2 h-4 w-4" />
+            {isSaving ? 'Guardando...' : 'Guardar configuración'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OperatingHoursSettings;
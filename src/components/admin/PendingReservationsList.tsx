@@ -27,21 +27,61 @@ import {
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Check, X, Search, Users, Info, Clock } from 'lucide-react';
+import { Check, X, Search, Users, Info, Clock, Repeat, FileText, Zap } from 'lucide-react';
 import { Reservation } from '@/types/reservation';
 import ReservationDetailDialog from './ReservationDetailDialog';
 
 interface PendingReservationsListProps {
   pendingReservations: Reservation[];
+  autoApprovedReservations: Reservation[]; // upcoming reservations approved by a capacity rule
   onApprove: (id: string) => Promise<void>;
   onReject: (id: string, adminNotes?: string) => Promise<void>;
+  onApproveSeries: (seriesId: string) => Promise<void>;
+  onRejectSeries: (seriesId: string, adminNotes?: string) => Promise<void>;
   isLoading: boolean;
 }
 
+// Occurrences of the same series are shown together under one header
+type PendingGroup =
+  | { kind: 'single'; reservation: Reservation }
+  | { kind: 'series'; seriesId: string; reservations: Reservation[] };
+
+const groupBySeries = (reservations: Reservation[]): PendingGroup[] => {
+  const groups: PendingGroup[] = [];
+  const seriesGroups = new Map<string, Reservation[]>();
+
+  reservations.forEach(reservation => {
+    if (!reservation.series_id) {
+      groups.push({ kind: 'single', reservation });
+      return;
+    }
+
+    const existing = seriesGroups.get(reservation.series_id);
+    if (existing) {
+      existing.push(reservation);
+      return;
+    }
+
+    const seriesReservations = [reservation];
+    seriesGroups.set(reservation.series_id, seriesReservations);
+    groups.push({ kind: 'series', seriesId: reservation.series_id, reservations: seriesReservations });
+  });
+
+  // A series with a single pending occurrence left is handled like a regular reservation
+  return groups.map(group =>
+    group.kind === 'series' && group.reservations.length === 1
+      ? { kind: 'single', reservation: group.reservations[0] }
+      : group
+  );
+};
+
 const PendingReservationsList: React.FC<PendingReservationsListProps> = ({ 
   pendingReservations, 
+  autoApprovedReservations,
   onApprove, 
   onReject,
+  onApproveSeries,
+  onRejectSeries,
   isLoading 
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -49,6 +89,7 @@ const PendingReservationsList: React.FC<PendingReservationsListProps> = ({
   const [showDetailDialog, setShowDetailDialog] = useState(false);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [rejectNotes, setRejectNotes] = useState('');
+  const [seriesRejectNotes, setSeriesRejectNotes] = useState('');
   
   const filteredReservations = pendingReservations.filter(reservation => {
     const searchTermLower = searchTerm.toLowerCase();
@@ -69,6 +110,224 @@ const PendingReservationsList: React.FC<PendingReservationsListProps> = ({
     }
   };
 
+  const renderReservationCard = (reservation: Reservation) => (
+    <Card key={reservation.id} className="overflow-hidden shadow-sm border border-gray-200">
+      <CardHeader className="p-3 bg-gray-50 border-b">
+        <div className="flex justify-between items-start">
+          <div className="flex-1">
+            <CardTitle className="text-base font-medium">
+              {reservation.motivo}
+              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                Pendiente
+              </span>
+            </CardTitle>
+            <CardDescription className="text-xs mt-1">
+              {format(reservation.fecha, 'EEEE d MMMM, yyyy', { locale: es })}
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 p-2 hidden sm:flex"
+              onClick={() => {
+                setSelectedReservation(reservation);
+                setShowDetailDialog(true);
+              }}
+            >
+              Ver detalles
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 sm:hidden"
+              onClick={() => {
+                setSelectedReservation(reservation);
+                setShowDetailDialog(true);
+              }}
+            >
+              <Info className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              className="h-8 bg-green-600 hover:bg-green-700"
+              onClick={() => onApprove(reservation.id)}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              <span className="hidden sm:inline">Aprobar</span>
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  className="h-8"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  <span className="hidden sm:inline">Rechazar</span>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>¿Desea rechazar esta reserva?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Al rechazar esta reserva, será eliminada del sistema. Opcionalmente, puede agregar un comentario para explicar el motivo del rechazo.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="py-4">
+                  <Label htmlFor="reject-notes" className="text-sm font-medium">
+                    Notas para el administrador (opcional)
+                  </Label>
+                  <Textarea
+                    id="reject-notes"
+                    placeholder="Escriba aquí la razón del rechazo..."
+                    value={rejectNotes}
+                    onChange={(e) => setRejectNotes(e.target.value)}
+                    className="mt-2"
+                  />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => onReject(reservation.id, rejectNotes)}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    Rechazar Reserva
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-3 pt-3">
+        <div className="text-sm space-y-1">
+          <div className="flex justify-between">
+            <div className="flex items-center">
+              <Clock className="h-4 w-4 mr-1 text-gray-500" />
+              <span>{reservation.inicio} - {reservation.fin}</span>
+            </div>
+            <div className="flex items-center">
+              <Users className="h-4 w-4 mr-1 text-gray-500" />
+              <span>{reservation.personas} personas</span>
+            </div>
+          </div>
+          <p><span className="font-medium">Responsable:</span> {reservation.responsable}</p>
+          <p><span className="font-medium">Email:</span> {reservation.email}</p>
+          {reservation.documentation_required && reservation.documentation_required.length > 0 && (
+            <div className="mt-2 rounded border border-amber-200 bg-amber-50 p-2">
+              <p className="flex items-center text-xs font-medium text-amber-800">
+                <FileText className="h-3 w-3 mr-1" />
+                Requiere: {reservation.documentation_required.join(' · ')}
+              </p>
+              <p className="mt-1 whitespace-pre-line">{reservation.documentation || 'No proporcionada'}</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const filteredAutoApproved = autoApprovedReservations.filter(reservation => {
+    const searchTermLower = searchTerm.toLowerCase();
+    return (
+      reservation.responsable.toLowerCase().includes(searchTermLower) ||
+      reservation.email.toLowerCase().includes(searchTermLower) ||
+      reservation.motivo.toLowerCase().includes(searchTermLower)
+    );
+  });
+
+  const renderAutoApprovedCard = (reservation: Reservation) => (
+    <div key={reservation.id} className="flex items-start justify-between gap-2 rounded-md border border-green-200 bg-green-50/60 p-3 text-sm">
+      <div>
+        <p className="font-medium">{reservation.motivo}</p>
+        <p className="text-xs text-gray-600">
+          {format(reservation.fecha, 'EEEE d MMMM, yyyy', { locale: es })} · {reservation.inicio} - {reservation.fin} · {reservation.personas} personas
+        </p>
+        <p className="text-xs text-gray-600">{reservation.responsable} ({reservation.affiliation || 'sin vínculo'})</p>
+        <p className="mt-1 flex items-center text-xs font-medium text-green-800">
+          <Zap className="h-3 w-3 mr-1" />
+          Aprobada automáticamente por la regla «{reservation.auto_approval_rule_name}»
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => {
+          setSelectedReservation(reservation);
+          setShowDetailDialog(true);
+        }}
+      >
+        <Info className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const renderSeriesGroup = (seriesId: string, seriesReservations: Reservation[]) => (
+    <div key={seriesId} className="rounded-lg border border-dashed border-amber-300 bg-amber-50/40 p-2 space-y-2">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 px-1">
+        <div className="flex items-center text-sm font-medium text-gray-700">
+          <Repeat className="h-4 w-4 mr-2 text-amber-700" />
+          Reserva recurrente · {seriesReservations.length} fechas pendientes
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="default"
+            size="sm"
+            className="h-8 bg-green-600 hover:bg-green-700"
+            onClick={() => onApproveSeries(seriesId)}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Aprobar serie
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm" className="h-8">
+                <X className="h-4 w-4 mr-1" />
+                Rechazar serie
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>¿Desea rechazar toda la serie?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Se rechazarán las {seriesReservations.length} fechas pendientes de esta reserva recurrente. Las fechas ya aprobadas no se modifican.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <div className="py-4">
+                <Label htmlFor="reject-series-notes" className="text-sm font-medium">
+                  Motivo del rechazo (opcional)
+                </Label>
+                <Textarea
+                  id="reject-series-notes"
+                  placeholder="Escriba aquí la razón del rechazo..."
+                  value={seriesRejectNotes}
+                  onChange={(e) => setSeriesRejectNotes(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={async () => {
+                    await onRejectSeries(seriesId, seriesRejectNotes);
+                    setSeriesRejectNotes('');
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Rechazar Serie
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+      {seriesReservations.map(reservation => renderReservationCard(reservation))}
+    </div>
+  );
+
   return (
     <Card>
       <CardHeader className="pb-2">
@@ -96,116 +355,19 @@ const PendingReservationsList: React.FC<PendingReservationsListProps> = ({
               {filteredReservations.length === 0 ? (
                 <p className="text-center text-gray-500 py-8">No hay reservas pendientes</p>
               ) : (
-                filteredReservations.map(reservation => (
-                  <Card key={reservation.id} className="overflow-hidden shadow-sm border border-gray-200">
-                    <CardHeader className="p-3 bg-gray-50 border-b">
-                      <div className="flex justify-between items-start">
-                        <div className="flex-1">
-                          <CardTitle className="text-base font-medium">
-                            {reservation.motivo}
-                            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
-                              Pendiente
-                            </span>
-                          </CardTitle>
-                          <CardDescription className="text-xs mt-1">
-                            {format(reservation.fecha, 'EEEE d MMMM, yyyy', { locale: es })}
-                          </CardDescription>
-                        </div>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-8 p-2 hidden sm:flex"
-                            onClick={() => {
-                              setSelectedReservation(reservation);
-                              setShowDetailDialog(true);
-                            }}
-                          >
-                            Ver detalles
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="h-8 w-8 p-0 sm:hidden"
-                            onClick={() => {
-                              setSelectedReservation(reservation);
-                              setShowDetailDialog(true);
-                            }}
-                          >
-                            <Info className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="default"
-                            size="sm"
-                            className="h-8 bg-green-600 hover:bg-green-700"
-                            onClick={() => onApprove(reservation.id)}
-                          >
-                            <Check className="h-4 w-4 mr-1" />
-                            <span className="hidden sm:inline">Aprobar</span>
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                className="h-8"
-                              >
-                                <X className="h-4 w-4 mr-1" />
-                                <span className="hidden sm:inline">Rechazar</span>
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>¿Desea rechazar esta reserva?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Al rechazar esta reserva, será eliminada del sistema. Opcionalmente, puede agregar un comentario para explicar el motivo del rechazo.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <div className="py-4">
-                                <Label htmlFor="reject-notes" className="text-sm font-medium">
-                                  Notas para el administrador (opcional)
-                                </Label>
-                                <Textarea
-                                  id="reject-notes"
-                                  placeholder="Escriba aquí la razón del rechazo..."
-                                  value={rejectNotes}
-                                  onChange={(e) => setRejectNotes(e.target.value)}
-                                  className="mt-2"
-                                />
-                              </div>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => onReject(reservation.id, rejectNotes)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  Rechazar Reserva
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="p-3 pt-3">
-                      <div className="text-sm space-y-1">
-                        <div className="flex justify-between">
-                          <div className="flex items-center">
-                            <Clock className="h-4 w-4 mr-1 text-gray-500" />
-                            <span>{reservation.inicio} - {reservation.fin}</span>
-                          </div>
-                          <div className="flex items-center">
-                            <Users className="h-4 w-4 mr-1 text-gray-500" />
-                            <span>{reservation.personas} personas</span>
-                          </div>
-                        </div>
-                        <p><span className="font-medium">Responsable:</span> {reservation.responsable}</p>
-                        <p><span className="font-medium">Email:</span> {reservation.email}</p>
-                      </div>
-                    </CardContent>
-                  </Card>
+                groupBySeries(filteredReservations).map(group => (
+                  group.kind === 'single'
+                    ? renderReservationCard(group.reservation)
+                    : renderSeriesGroup(group.seriesId, group.reservations)
                 ))
               )}
+
+              {filteredAutoApproved.length > 0 && (
+                <div className="space-y-2 pt-4">
+                  <h3 className="text-sm font-medium text-gray-700">Aprobadas automáticamente</h3>
+                  {filteredAutoApproved.map(renderAutoApprovedCard)}
+                </div>
+              )}
             </div>
           </ScrollArea>
         )}
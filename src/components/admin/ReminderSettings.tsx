@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Plus, Save, X } from 'lucide-react';
+import { getReminderSchedule, updateReminderSchedule } from '@/lib/supabase';
+import { ReminderSchedule } from '@/types/settings';
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  formatReminderLead,
+  MAX_REMINDER_HOURS,
+  validateReminderSchedule
+} from '@/utils/reminderUtils';
+import { logger } from '@/utils/logger';
+
+const toNumber = (value: string) => value.trim() === '' ? 0 : Number(value);
+
+const ReminderSettings: React.FC = () => {
+  const [draft, setDraft] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getReminderSchedule()
+      .then(setDraft)
+      .catch(error => {
+        logger.error('Error loading reminder schedule', error);
+        toast.error('Error al cargar los recordatorios');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const updateDraft = (changes: Partial<ReminderSchedule>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setErrors({});
+  };
+
+  const updateReminder = (index: number, value: string) => {
+    updateDraft({ hoursBefore: draft.hoursBefore.map((hours, i) => i === index ? toNumber(value) : hours) });
+  };
+
+  const addReminder = () => {
+    // Suggest a lead longer than the current ones
+    const longest = draft.hoursBefore.length > 0 ? Math.max(...draft.hoursBefore) : 0;
+    updateDraft({ hoursBefore: [...draft.hoursBefore, Math.min(longest + 24, MAX_REMINDER_HOURS)] });
+  };
+
+  const removeReminder = (index: number) => {
+    updateDraft({ hoursBefore: draft.hoursBefore.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validateReminderSchedule(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    const schedule = { ...draft, hoursBefore: [...draft.hoursBefore].sort((a, b) => b - a) };
+    try {
+      setIsSaving(true);
+      await updateReminderSchedule(schedule);
+      setDraft(schedule);
+      toast.success('Recordatorios guardados');
+    } catch (error) {
+      logger.error('Error saving reminder schedule', error);
+      toast.error('Error al guardar los recordatorios');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Recordatorios por correo</CardTitle>
+        <CardDescription>
+          Se envían a los responsables de las reservas aprobadas, según la hora de Paraguay. Si una reserva se aprueba tarde, solo recibe el recordatorio más próximo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Recordatorios antes del inicio</Label>
+          {draft.hoursBefore.length === 0 && (
+            <p className="text-sm text-gray-500">No se envían recordatorios.</p>
+          )}
+          {draft.hoursBefore.map((hours, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={MAX_REMINDER_HOURS}
+                value={hours || ''}
+                onChange={(e) => updateReminder(index, e.target.value)}
+                className="w-32"
+                disabled={isLoading}
+                aria-label="Horas antes del inicio"
+              />
+              <span className="text-sm text-gray-600">
+                horas antes{hours > 0 && hours % 24 === 0 ? ` (${formatReminderLead(hours)})` : ''}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => removeReminder(index)}
+                disabled={isLoading}
+                title="Quitar recordatorio"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addReminder} disabled={isLoading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar recordatorio
+          </Button>
+          {errors.hoursBefore && <p className="text-red-500 text-sm">{errors.hoursBefore}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reminder-feedback-hours">Pedido de opinión y estado de limpieza</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="reminder-feedback-hours"
+              type="number"
+              min={0}
+              max={24}
+              value={draft.feedbackHoursAfter || ''}
+              onChange={(e) => updateDraft({ feedbackHoursAfter: toNumber(e.target.value) })}
+              placeholder="No enviar"
+              className="w-32"
+              disabled={isLoading}
+            />
+            <span className="text-sm text-gray-600">horas después de finalizar</span>
+          </div>
+          {errors.feedbackHoursAfter && <p className="text-red-500 text-sm">{errors.feedbackHoursAfter}</p>}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            <Save className="mr-2 h-4 w-4" />
+            Guardar recordatorios
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ImageIcon, MessageSquare, Search } from 'lucide-react';
+import { getReportAttachmentUrls } from '@/lib/supabase';
+import {
+  REPORT_CATEGORY_LABELS,
+  REPORT_STATUS_LABELS,
+  Report,
+  ReportStatus
+} from '@/types/report';
+import { logger } from '@/utils/logger';
+
+interface ReportsListProps {
+  reports: Report[];
+  onUpdate: (report: Report, changes: { status: ReportStatus; reply?: string }) => Promise<void>;
+  isLoading: boolean;
+}
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  in_progress: 'bg-amber-100 text-amber-800',
+  resolved: 'bg-green-100 text-green-800'
+};
+
+const ReportsList: React.FC<ReportsListProps> = ({ reports, onUpdate, isLoading }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | 'all'>('all');
+  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
+  const [newStatus, setNewStatus] = useState<ReportStatus>('open');
+  const [reply, setReply] = useState('');
+  const [attachmentUrls, setAttachmentUrls] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load signed URLs for the photos of the report being managed
+  useEffect(() => {
+    if (!selectedReport || selectedReport.attachments.length === 0) {
+      setAttachmentUrls([]);
+      return;
+    }
+
+    let cancelled = false;
+    getReportAttachmentUrls(selectedReport.attachments)
+      .then(urls => {
+        if (!cancelled) setAttachmentUrls(urls);
+      })
+      .catch(error => logger.error('Error loading report attachments', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedReport]);
+
+  const filteredReports = reports.filter(report => {
+    if (statusFilter !== 'all' && report.status !== statusFilter) {
+      return false;
+    }
+    const searchTermLower = searchTerm.toLowerCase();
+    return (
+      report.name.toLowerCase().includes(searchTermLower) ||
+      report.email.toLowerCase().includes(searchTermLower) ||
+      report.description.toLowerCase().includes(searchTermLower)
+    );
+  });
+
+  const openReport = (report: Report) => {
+    setSelectedReport(report);
+    setNewStatus(report.status);
+    setReply('');
+  };
+
+  const handleSave = async () => {
+    if (!selectedReport) return;
+
+    setIsSaving(true);
+    try {
+      await onUpdate(selectedReport, { status: newStatus, reply });
+      setSelectedReport(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <CardTitle className="text-lg">Incidencias reportadas</CardTitle>
+          <div className="flex w-full sm:w-auto gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReportStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{REPORT_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative flex-1 sm:flex-none">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+              <Input
+                placeholder="Buscar incidencias..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 max-w-xs"
+              />
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(100vh-300px)]">
+            <div className="space-y-3 p-2">
+              {filteredReports.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No se encontraron incidencias</p>
+              ) : (
+                filteredReports.map(report => (
+                  <Card key={report.id} className="overflow-hidden shadow-sm border border-gray-200">
+                    <CardHeader className="p-3 bg-gray-50 border-b">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <CardTitle className="text-base font-medium">
+                            {REPORT_CATEGORY_LABELS[report.category]}
+                            <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[report.status]}`}>
+                              {REPORT_STATUS_LABELS[report.status]}
+                            </span>
+                          </CardTitle>
+                          <CardDescription className="text-xs mt-1">
+                            {format(report.createdAt, "d 'de' MMMM, yyyy HH:mm", { locale: es })}
+                          </CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" className="h-8" onClick={() => openReport(report)}>
+                          Gestionar
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="p-3 pt-3">
+                      <div className="text-sm space-y-1">
+                        <p className="line-clamp-2">{report.description}</p>
+                        <p><span className="font-medium">Reportado por:</span> {report.name} ({report.email})</p>
+                        <div className="flex gap-4 text-gray-500">
+                          {report.attachments.length > 0 && (
+                            <span className="flex items-center">
+                              <ImageIcon className="h-4 w-4 mr-1" />
+                              {report.attachments.length}
+                            </span>
+                          )}
+                          {report.admin_reply && (
+                            <span className="flex items-center">
+                              <MessageSquare className="h-4 w-4 mr-1" />
+                              Respondida
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <Dialog open={selectedReport !== null} onOpenChange={(open) => !open && setSelectedReport(null)}>
+          {selectedReport && (
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>{REPORT_CATEGORY_LABELS[selectedReport.category]}</DialogTitle>
+                <DialogDescription>
+                  Reportado por {selectedReport.name} el {format(selectedReport.createdAt, "d 'de' MMMM, yyyy", { locale: es })}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label className="font-semibold">Descripción</Label>
+                  <p className="mt-1 text-sm whitespace-pre-wrap">{selectedReport.description}</p>
+                </div>
+                <div>
+                  <Label className="font-semibold">Email</Label>
+                  <p className="mt-1 text-sm">{selectedReport.email}</p>
+                </div>
+                {selectedReport.reservation_id && (
+                  <div>
+                    <Label className="font-semibold">Reserva relacionada</Label>
+                    <p className="mt-1 text-sm font-mono">{selectedReport.reservation_id}</p>
+                  </div>
+                )}
+                {attachmentUrls.length > 0 && (
+                  <div>
+                    <Label className="font-semibold">Fotos</Label>
+                    <div className="mt-2 grid grid-cols-3 gap-2">
+                      {attachmentUrls.map(url => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          <img src={url} alt="Foto adjunta" className="h-24 w-full object-cover rounded border" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {selectedReport.admin_reply && (
+                  <div>
+                    <Label className="font-semibold">Última respuesta</Label>
+                    <p className="mt-1 text-sm whitespace-pre-wrap">{selectedReport.admin_reply}</p>
+                    {selectedReport.replied_at && (
+                      <p className="text-xs text-gray-500">
+                        {format(selectedReport.replied_at, 'dd/MM/yyyy HH:mm', { locale: es })}
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="report-status" className="font-semibold">Estado</Label>
+                  <Select value={newStatus} onValueChange={(value) => setNewStatus(value as ReportStatus)}>
+                    <SelectTrigger id="report-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{REPORT_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="report-reply" className="font-semibold">Respuesta al usuario (opcional)</Label>
+                  <Textarea
+                    id="report-reply"
+                    placeholder="Escriba aquí la respuesta que recibirá por correo..."
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Se enviará un correo al usuario si cambia el estado o si escribe una respuesta.
+                  </p>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedReport(null)} disabled={isSaving}>
+                  Cancelar
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? 'Guardando...' : 'Guardar'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          )}
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportsList;
@@ -1,28 +1,135 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Reservation } from '@/types/reservation';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, ArrowRight, CheckCircle2 } from 'lucide-react';
+import { Reservation, ReservationChangeRequest } from '@/types/reservation';
+import { ReservationHandover } from '@/types/handover';
+import HandoverPanel from './HandoverPanel';
+import {
+  acceptReservationChange,
+  checkAvailability,
+  getHandover,
+  getPendingChangeRequest,
+  isSlotBlocked,
+  rejectReservationChange
+} from '@/lib/supabase';
+import { getChangeDiff } from '@/utils/changeRequestUtils';
+import { logger } from '@/utils/logger';
+import { dateToFecha } from '@/lib/dates';
 
 interface ReservationDetailDialogProps {
   reservation: Reservation | null;
   isOpen: boolean;
   onClose: () => void;
+  onChangeResolved?: () => void;
 }
 
+const CHANGE_ERROR_MESSAGES: Record<string, string> = {
+  SLOT_TAKEN: 'El nuevo horario ya está ocupado por otra reserva',
+  SLOT_BLOCKED: 'El nuevo horario está bloqueado',
+  NOT_PENDING: 'La solicitud ya fue resuelta',
+  RESERVATION_INACTIVE: 'La reserva ya no está activa'
+};
+
 const ReservationDetailDialog: React.FC<ReservationDetailDialogProps> = ({ 
   reservation, 
   isOpen, 
-  onClose 
+  onClose,
+  onChangeResolved
 }) => {
+  const [changeRequest, setChangeRequest] = useState<ReservationChangeRequest | null>(null);
+  const [slotAvailable, setSlotAvailable] = useState<boolean | null>(null);
+  const [response, setResponse] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const [handover, setHandover] = useState<ReservationHandover | null>(null);
+
+  // Load the open change request (if any) and check the proposed slot
+  useEffect(() => {
+    setChangeRequest(null);
+    setSlotAvailable(null);
+    setResponse('');
+    if (!isOpen || !reservation) return;
+
+    let cancelled = false;
+    const loadChangeRequest = async () => {
+      try {
+        const request = await getPendingChangeRequest(reservation.id);
+        if (cancelled) return;
+        setChangeRequest(request);
+
+        if (request?.proposed_inicio && request.proposed_fin) {
+          const fecha = request.proposed_fecha || dateToFecha(reservation.fecha);
+          const [available, blocked] = await Promise.all([
+            checkAvailability(fecha, request.proposed_inicio, request.proposed_fin, reservation.id),
+            isSlotBlocked(fecha, request.proposed_inicio, request.proposed_fin)
+          ]);
+          if (!cancelled) setSlotAvailable(available && !blocked);
+        }
+      } catch (error) {
+        logger.error('Error loading change request', error);
+      }
+    };
+
+    loadChangeRequest();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, reservation]);
+
+  const loadHandover = async () => {
+    if (!reservation) return;
+    try {
+      setHandover(await getHandover(reservation.id));
+    } catch (error) {
+      logger.error('Error loading handover', error);
+    }
+  };
+
+  // Check-in/check-out history of approved reservations
+  useEffect(() => {
+    setHandover(null);
+    if (!isOpen || !reservation || reservation.status !== 'approved') return;
+
+    loadHandover();
+  }, [isOpen, reservation]);
+
+  const handleResolve = async (accept: boolean) => {
+    if (!changeRequest) return;
+
+    try {
+      setIsResolving(true);
+      if (accept) {
+        await acceptReservationChange(changeRequest, response);
+        toast.success('Cambio aplicado. Se notificó al usuario por correo.');
+      } else {
+        await rejectReservationChange(changeRequest, response);
+        toast.success('Solicitud de cambio rechazada');
+      }
+      setChangeRequest(null);
+      onChangeResolved?.();
+      onClose();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      logger.error('Error resolving change request', error);
+      toast.error(CHANGE_ERROR_MESSAGES[code] || 'Error al procesar la solicitud de cambio');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
   if (!reservation) return null;
 
+  const changeDiff = changeRequest ? getChangeDiff(changeRequest, reservation) : [];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Detalles de la Reserva</DialogTitle>
           <DialogDescription>
@@ -40,6 +147,11 @@ const ReservationDetailDialog: React.FC<ReservationDetailDialogProps> = ({
               <p className="mt-1">
                 {format(reservation.fecha, 'EEEE d MMMM, yyyy', { locale: es })}
               </p>
+              {reservation.series_id && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Parte de una reserva recurrente. Aprobar, rechazar o cancelar esta fecha no afecta al resto de la serie.
+                </p>
+              )}
             </div>
             <div>
               <Label className="font-semibold">Hora inicio</Label>
@@ -65,6 +177,30 @@ const ReservationDetailDialog: React.FC<ReservationDetailDialogProps> = ({
               <Label className="font-semibold">Email</Label>
               <p className="mt-1">{reservation.email}</p>
             </div>
+            {reservation.documentation_required && reservation.documentation_required.length > 0 && (
+              <div className="col-span-3">
+                <Label className="font-semibold">Documentación requerida</Label>
+                <p className="mt-1 text-sm text-gray-600">{reservation.documentation_required.join(' · ')}</p>
+                <p className="mt-1 whitespace-pre-line">{reservation.documentation || 'No proporcionada'}</p>
+              </div>
+            )}
+            {reservation.auto_approval_rule_name && (
+              <div className="col-span-3">
+                <Label className="font-semibold">Aprobación</Label>
+                <p className="mt-1">Aprobada automáticamente por la regla «{reservation.auto_approval_rule_name}»</p>
+              </div>
+            )}
+            {reservation.created_by_admin && (
+              <div className="col-span-3">
+                <Label className="font-semibold">Origen</Label>
+                <p className="mt-1">Creada por la administración en nombre del solicitante</p>
+                {reservation.policy_override_reason && (
+                  <p className="mt-1 text-sm text-gray-600">
+                    Políticas de reserva omitidas: {reservation.policy_override_reason}
+                  </p>
+                )}
+              </div>
+            )}
             <div className="col-span-3">
               <Label className="font-semibold">Motivo</Label>
               <p className="mt-1">
@@ -83,6 +219,74 @@ const ReservationDetailDialog: React.FC<ReservationDetailDialogProps> = ({
               </p>
             </div>
           </div>
+
+          {reservation.status === 'approved' && (
+            <div className="border-t pt-4">
+              <HandoverPanel
+                reservationId={reservation.id}
+                handover={handover}
+                canRecord={true}
+                onChanged={loadHandover}
+              />
+            </div>
+          )}
+
+          {changeRequest && (
+            <div className="space-y-3 rounded-md border border-amber-300 bg-amber-50 p-3">
+              <div>
+                <Label className="font-semibold">Cambio solicitado por el usuario</Label>
+                <p className="text-xs text-gray-500">
+                  {format(changeRequest.createdAt, 'dd/MM/yyyy HH:mm', { locale: es })}
+                </p>
+              </div>
+              {changeDiff.map(row => (
+                <div key={row.label} className="text-sm">
+                  <span className="font-medium">{row.label}:</span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="line-through text-gray-500">{row.from}</span>
+                    <ArrowRight className="h-4 w-4 text-gray-400" />
+                    <span className="font-medium">{row.to}</span>
+                  </div>
+                </div>
+              ))}
+              {changeRequest.message && (
+                <p className="text-sm whitespace-pre-wrap">
+                  <span className="font-medium">Comentario:</span> {changeRequest.message}
+                </p>
+              )}
+              {slotAvailable !== null && (
+                <p className={`flex items-center text-sm ${slotAvailable ? 'text-green-700' : 'text-red-700'}`}>
+                  {slotAvailable
+                    ? <CheckCircle2 className="h-4 w-4 mr-1" />
+                    : <AlertTriangle className="h-4 w-4 mr-1" />}
+                  {slotAvailable ? 'El nuevo horario está disponible' : 'El nuevo horario no está disponible'}
+                </p>
+              )}
+              <Textarea
+                placeholder="Respuesta para el usuario (opcional)"
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => handleResolve(false)}
+                  disabled={isResolving}
+                >
+                  Rechazar cambio
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleResolve(true)}
+                  disabled={isResolving || slotAvailable === false}
+                >
+                  Aceptar cambio
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button onClick={onClose}>Cerrar</Button>
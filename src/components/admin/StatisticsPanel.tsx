@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { getUsageStatistics } from '@/lib/supabase';
+import { StatisticsPeriod, UsageStatistics } from '@/types/statistics';
+import { WEEKDAY_NAMES } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+import { fechaToDate } from '@/lib/dates';
+
+// Show Monday first, like the calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const occupancyChartConfig: ChartConfig = {
+  occupancy: { label: 'Ocupación (%)', color: '#E30613' }
+};
+
+const affiliationChartConfig: ChartConfig = {
+  hours: { label: 'Horas', color: '#E30613' }
+};
+
+const formatNumber = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined
+    ? '—'
+    : value.toLocaleString('es-PY', { maximumFractionDigits: digits });
+
+const formatPercent = (part: number, total: number) =>
+  total > 0 ? `${formatNumber((part / total) * 100)}%` : '—';
+
+const formatPeriod = (periodStart: string, period: StatisticsPeriod) => {
+  const date = fechaToDate(periodStart);
+  return period === 'month'
+    ? format(date, 'MMM yyyy', { locale: es })
+    : format(date, "'Sem.' dd/MM", { locale: es });
+};
+
+const StatisticsPanel: React.FC = () => {
+  const [from, setFrom] = useState(format(startOfMonth(subMonths(new Date(), 5)), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [period, setPeriod] = useState<StatisticsPeriod>('month');
+  const [statistics, setStatistics] = useState<UsageStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadStatistics = async () => {
+    if (!from || !to || from > to) {
+      toast.error('Seleccione un rango de fechas válido');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setStatistics(await getUsageStatistics(from, to, period));
+    } catch (error) {
+      logger.error('Error loading usage statistics', error);
+      toast.error('Error al cargar las estadísticas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatistics();
+    // Dates are applied with the "Actualizar" button, the period right away
+  }, [period]);
+
+  const renderSummary = (stats: UsageStatistics) => {
+    const counts = stats.status_counts;
+    // Requests that reached the admin (confirmed by email)
+    const decided = counts.total - counts.unconfirmed - counts.expired;
+    const bookedHours = stats.occupancy.reduce((sum, point) => sum + point.booked_hours, 0);
+    const availableHours = stats.occupancy.reduce((sum, point) => sum + point.available_hours, 0);
+
+    const items: [string, string][] = [
+      ['Ocupación', formatPercent(bookedHours, availableHours)],
+      ['Horas reservadas', formatNumber(bookedHours)],
+      ['Aprobación', formatPercent(counts.approved, decided)],
+      ['Rechazo', formatPercent(counts.rejected, decided)],
+      ['Cancelación', formatPercent(counts.cancelled, decided)],
+      ['Sin confirmar', formatPercent(counts.unconfirmed + counts.expired, counts.total)],
+      ['No se presentaron', stats.no_show ? formatPercent(stats.no_show.no_shows, stats.no_show.checked_in + stats.no_show.no_shows) : '—'],
+      ['Anticipación media', stats.lead_time_days.average === null ? '—' : `${formatNumber(stats.lead_time_days.average)} días`]
+    ];
+
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+        {items.map(([label, value]) => (
+          <div key={label} className="border border-gray-200 rounded p-3">
+            <p className="text-2xl font-bold">{value}</p>
+            <p className="text-xs text-gray-500">{label}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderHeatmap = (stats: UsageStatistics) => {
+    if (stats.heatmap.length === 0) {
+      return <p className="text-sm text-gray-500">No hay reservas aprobadas en el período.</p>;
+    }
+
+    const counts = new Map(stats.heatmap.map(cell => [`${cell.dow}-${cell.hour}`, cell.reservations]));
+    const max = Math.max(...stats.heatmap.map(cell => cell.reservations));
+    const firstHour = Math.min(...stats.heatmap.map(cell => cell.hour));
+    const lastHour = Math.max(...stats.heatmap.map(cell => cell.hour));
+    const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, index) => firstHour + index);
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th></th>
+              {hours.map(hour => (
+                <th key={hour} className="font-normal text-gray-500 px-1">{String(hour).padStart(2, '0')}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {WEEKDAY_ORDER.map(dow => (
+              <tr key={dow}>
+                <td className="pr-2 text-gray-600 whitespace-nowrap">{WEEKDAY_NAMES[dow].slice(0, 3)}</td>
+                {hours.map(hour => {
+                  const value = counts.get(`${dow}-${hour}`) || 0;
+                  return (
+                    <td
+                      key={hour}
+                      title={`${WEEKDAY_NAMES[dow]} ${String(hour).padStart(2, '0')}:00 - ${value} reservas`}
+                      className="h-6 w-7 rounded text-center"
+                      style={{ backgroundColor: value > 0 ? `rgba(227, 6, 19, ${0.15 + 0.85 * (value / max)})` : '#f3f4f6' }}
+                    >
+                      {value > 0 && <span className={value / max > 0.5 ? 'text-white' : 'text-gray-800'}>{value}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderWeekdays = (stats: UsageStatistics) => {
+    const ranked = [...stats.by_weekday].sort((a, b) => b.reservations - a.reservations);
+    if (ranked.length === 0) return null;
+
+    return (
+      <ol className="text-sm space-y-1">
+        {ranked.map(item => (
+          <li key={item.dow} className="flex justify-between border-b border-gray-100 py-1">
+            <span>{WEEKDAY_NAMES[item.dow]}</span>
+            <span className="text-gray-600">{item.reservations} reservas · {formatNumber(item.hours)} h</span>
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Estadísticas de uso</CardTitle>
+        <CardDescription>
+          Ocupación calculada sobre el horario de atención configurado, descontando los bloqueos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="stats-from">Desde</Label>
+            <Input id="stats-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stats-to">Hasta</Label>
+            <Input id="stats-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Agrupar por</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as StatisticsPeriod)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">Semana</SelectItem>
+                <SelectItem value="month">Mes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={loadStatistics} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Actualizar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+          </div>
+        ) : !statistics ? (
+          <p className="text-center text-gray-500">No se pudieron cargar las estadísticas.</p>
+        ) : (
+          <>
+            {renderSummary(statistics)}
+
+            <section>
+              <h3 className="font-semibold mb-2">Ocupación por {statistics.period === 'month' ? 'mes' : 'semana'}</h3>
+              <ChartContainer config={occupancyChartConfig} className="h-64 w-full">
+                <BarChart
+                  data={statistics.occupancy.map(point => ({
+                    label: formatPeriod(point.period_start, statistics.period),
+                    occupancy: point.rate === null ? 0 : Math.round(point.rate * 1000) / 10
+                  }))}
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis unit="%" tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </section>
+
+            <section>
+              <h3 className="font-semibold mb-2">Horas reservadas por afiliación</h3>
+              {statistics.by_affiliation.length === 0 ? (
+                <p className="text-sm text-gray-500">No hay reservas aprobadas en el período.</p>
+              ) : (
+                <ChartContainer config={affiliationChartConfig} className="h-56 w-full">
+                  <BarChart data={statistics.by_affiliation} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="affiliation" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="hours" fill="var(--color-hours)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </section>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <section className="md:col-span-2">
+                <h3 className="font-semibold mb-2">Días y horarios más solicitados</h3>
+                {renderHeatmap(statistics)}
+              </section>
+              <section>
+                <h3 className="font-semibold mb-2">Por día de la semana</h3>
+                {renderWeekdays(statistics)}
+              </section>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {statistics.status_counts.total} solicitudes en el período: {statistics.status_counts.approved} aprobadas,{' '}
+              {statistics.status_counts.pending} pendientes, {statistics.status_counts.rejected} rechazadas,{' '}
+              {statistics.status_counts.cancelled} canceladas y{' '}
+              {statistics.status_counts.unconfirmed + statistics.status_counts.expired} sin confirmar por email.
+              Anticipación mediana: {formatNumber(statistics.lead_time_days.median)} días.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatisticsPanel;
@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Mail, UserX } from 'lucide-react';
+import { getPendingLegacyAdmins, getRoleAuditLog, getUsersWithRoles, inviteUser, setUserRole } from '@/lib/supabase';
+import {
+  AppRole,
+  ManagedUser,
+  ROLE_AUDIT_ACTION_LABELS,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  RoleAuditEntry
+} from '@/types/roles';
+import { logger } from '@/utils/logger';
+
+const ROLES = Object.keys(ROLE_LABELS) as AppRole[];
+
+const ROLE_ERROR_MESSAGES: Record<string, string> = {
+  LAST_SUPER_ADMIN: 'Debe quedar al menos un superadministrador',
+  USER_NOT_FOUND: 'El usuario ya no existe',
+  INVALID_ROLE: 'El rol seleccionado no es válido',
+  USER_EXISTS: 'Ya existe una cuenta con ese correo. Asígnele el rol desde la lista de usuarios.',
+  INVALID_EMAIL: 'Ingrese un correo electrónico válido',
+  FORBIDDEN: 'No tiene permisos para gestionar usuarios',
+  ROLE_NOT_ASSIGNED: 'Se envió la invitación pero no se pudo asignar el rol. Asígnelo desde la lista.'
+};
+
+const formatDate = (date: Date | null) =>
+  date ? format(date, 'dd/MM/yyyy HH:mm', { locale: es }) : '—';
+
+interface PendingRoleChange {
+  user: ManagedUser;
+  role: AppRole;
+}
+
+// Users tab: role assignment, invitations and the audit trail of both
+const UsersManagement: React.FC = () => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [auditLog, setAuditLog] = useState<RoleAuditEntry[]>([]);
+  const [legacyAdmins, setLegacyAdmins] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingChange, setPendingChange] = useState<PendingRoleChange | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteName, setInviteName] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('approver');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const fetchData = async () => {
+    try {
+      const [userList, entries, pendingAdmins] = await Promise.all([
+        getUsersWithRoles(),
+        getRoleAuditLog(),
+        getPendingLegacyAdmins()
+      ]);
+      setUsers(userList);
+      setAuditLog(entries);
+      setLegacyAdmins(pendingAdmins);
+    } catch (error) {
+      logger.error('Error loading users', error);
+      toast.error('Error al cargar los usuarios');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const closeRoleDialog = () => {
+    setPendingChange(null);
+    setReason('');
+  };
+
+  const handleConfirmRoleChange = async () => {
+    if (!pendingChange) return;
+
+    try {
+      setIsSaving(true);
+      await setUserRole(pendingChange.user.id, pendingChange.role, reason);
+      toast.success(
+        pendingChange.role === 'user'
+          ? 'Acceso revocado'
+          : `Rol actualizado a ${ROLE_LABELS[pendingChange.role]}`
+      );
+      closeRoleDialog();
+      fetchData();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      logger.error('Error changing user role', error);
+      toast.error(ROLE_ERROR_MESSAGES[code] || 'Error al cambiar el rol');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!inviteEmail.trim()) {
+      toast.error('Ingrese el correo de la persona a invitar');
+      return;
+    }
+
+    try {
+      setIsInviting(true);
+      await inviteUser({ email: inviteEmail, role: inviteRole, fullName: inviteName });
+      toast.success(`Invitación enviada a ${inviteEmail.trim()}`);
+      setInviteEmail('');
+      setInviteName('');
+      fetchData();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      logger.error('Error inviting user', error);
+      toast.error(ROLE_ERROR_MESSAGES[code] || 'Error al enviar la invitación');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Invitar usuario</CardTitle>
+          <CardDescription>
+            La persona recibirá un correo para elegir su contraseña y entrará con el rol asignado.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="invite-email">Correo electrónico</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="nombre@fiuna.edu.py"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invite-name">Nombre (opcional)</Label>
+              <Input id="invite-name" value={inviteName} onChange={(e) => setInviteName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Rol</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+            </div>
+            <div className="flex items-end">
+              <Button type="submit" disabled={isInviting}>
+                <Mail className="h-4 w-4 mr-2" />
+                {isInviting ? 'Enviando...' : 'Enviar invitación'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {legacyAdmins.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Administradores anteriores sin cuenta</CardTitle>
+            <CardDescription>
+              Figuran en la lista de administradores del sistema anterior. Invítelos para que creen su contraseña.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {legacyAdmins.map(email => (
+                <li key={email} className="py-2 flex justify-between items-center gap-2 text-sm">
+                  <span>{email}</span>
+                  <Button size="sm" variant="outline" onClick={() => setInviteEmail(email)}>
+                    Preparar invitación
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Usuarios</CardTitle>
+        </CardHeader>
+        <CardContent className="p-2">
+          <ScrollArea className="h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Usuario</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Último acceso</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <p className="font-medium">{user.full_name || user.email}</p>
+                      {user.full_name && <p className="text-xs text-gray-500">{user.email}</p>}
+                      {!user.email_confirmed && user.invited_at && (
+                        <p className="text-xs text-amber-700">Invitación pendiente</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(value) => {
+                          if (value !== user.role) setPendingChange({ user, role: value as AppRole });
+                        }}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{formatDate(user.last_sign_in_at)}</TableCell>
+                    <TableCell>
+                      {user.role !== 'user' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600"
+                          onClick={() => setPendingChange({ user, role: 'user' })}
+                        >
+                          <UserX className="h-4 w-4 mr-1" />
+                          Revocar
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Historial de accesos</CardTitle>
+          <CardDescription>Invitaciones, cambios de rol y revocaciones</CardDescription>
+        </CardHeader>
+        <CardContent className="p-2">
+          {auditLog.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Todavía no hay cambios registrados</p>
+          ) : (
+            <ScrollArea className="h-[300px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Rol</TableHead>
+                    <TableHead>Realizado por</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditLog.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell className="text-sm">
+                        {ROLE_AUDIT_ACTION_LABELS[entry.action]}
+                        {entry.reason && <p className="text-xs text-gray-500">{entry.reason}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.email || '—'}</TableCell>
+                      <TableCell className="text-sm">
+                        {entry.previous_role && `${ROLE_LABELS[entry.previous_role]} → `}
+                        {entry.new_role ? ROLE_LABELS[entry.new_role] : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.performed_by_name || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingChange} onOpenChange={(open) => !open && closeRoleDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pendingChange?.role === 'user' ? 'Revocar acceso' : 'Cambiar rol'}</DialogTitle>
+            <DialogDescription>
+              {pendingChange && (pendingChange.role === 'user'
+                ? `${pendingChange.user.email} pasará a ser un usuario sin permisos de administración.`
+                : `${pendingChange.user.email} pasará de ${ROLE_LABELS[pendingChange.user.role]} a ${ROLE_LABELS[pendingChange.role]}.`)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="role-change-reason">Motivo (opcional)</Label>
+            <Textarea id="role-change-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeRoleDialog} disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleConfirmRoleChange}
+              disabled={isSaving}
+              className={pendingChange?.role === 'user' ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {isSaving ? 'Guardando...' : 'Confirmar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UsersManagement;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, Users, X } from 'lucide-react';
+import { WAITLIST_STATUS_LABELS, WaitlistEntry, WaitlistStatus } from '@/types/waitlist';
+import { dateToFecha, fechaToDate } from '@/lib/dates';
+
+interface WaitlistListProps {
+  entries: WaitlistEntry[];
+  onRemove: (entry: WaitlistEntry) => Promise<void>;
+  isLoading: boolean;
+}
+
+const STATUS_STYLES: Record<WaitlistStatus, string> = {
+  waiting: 'bg-blue-100 text-blue-800',
+  notified: 'bg-amber-100 text-amber-800',
+  claimed: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const isActive = (entry: WaitlistEntry) => entry.status === 'waiting' || entry.status === 'notified';
+
+// Group entries by day, keeping the queue order inside each day
+const groupByDay = (entries: WaitlistEntry[]) => {
+  const groups = new Map<string, WaitlistEntry[]>();
+  entries.forEach(entry => {
+    groups.set(entry.fecha, [...(groups.get(entry.fecha) || []), entry]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+};
+
+const WaitlistList: React.FC<WaitlistListProps> = ({ entries, onRemove, isLoading }) => {
+  const [filter, setFilter] = useState<'active' | 'all'>('active');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const today = dateToFecha(new Date());
+  const visibleEntries = entries.filter(entry =>
+    filter === 'all' || (isActive(entry) && entry.fecha >= today)
+  );
+  const days = groupByDay(visibleEntries);
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    setRemovingId(entry.id);
+    try {
+      await onRemove(entry);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <CardTitle className="text-lg">Lista de espera</CardTitle>
+          <Select value={filter} onValueChange={(value) => setFilter(value as 'active' | 'all')}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Próximas en espera</SelectItem>
+              <SelectItem value="all">Todas</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(100vh-300px)]">
+            <div className="space-y-3 p-2">
+              {days.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No hay personas en lista de espera</p>
+              ) : (
+                days.map(([fecha, dayEntries]) => (
+                  <Card key={fecha} className="overflow-hidden shadow-sm border border-gray-200">
+                    <CardHeader className="p-3 bg-gray-50 border-b">
+                      <CardTitle className="text-base font-medium capitalize">
+                        {format(fechaToDate(fecha), "EEEE d 'de' MMMM, yyyy", { locale: es })}
+                        <span className="ml-2 text-sm font-normal normal-case text-gray-500">
+                          ({dayEntries.filter(isActive).length} en espera)
+                        </span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                      <ul className="divide-y">
+                        {dayEntries.map((entry, index) => (
+                          <li key={entry.id} className="p-3 flex justify-between items-start gap-2">
+                            <div className="text-sm space-y-1">
+                              <p className="font-medium">
+                                {index + 1}. {entry.responsable}
+                                <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                                  {WAITLIST_STATUS_LABELS[entry.status]}
+                                </span>
+                              </p>
+                              <p className="text-gray-600">{entry.email}</p>
+                              <div className="flex gap-4 text-gray-500">
+                                <span className="flex items-center">
+                                  <Clock className="h-4 w-4 mr-1" />
+                                  {entry.inicio} - {entry.fin}
+                                </span>
+                                <span className="flex items-center">
+                                  <Users className="h-4 w-4 mr-1" />
+                                  {entry.personas}
+                                </span>
+                              </div>
+                              {entry.status === 'notified' && entry.claim_expires_at && (
+                                <p className="text-xs text-amber-700">
+                                  Puede reclamar hasta {format(entry.claim_expires_at, 'dd/MM/yyyy HH:mm', { locale: es })}
+                                </p>
+                              )}
+                            </div>
+                            {isActive(entry) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 text-red-600 hover:text-red-700"
+                                onClick={() => handleRemove(entry)}
+                                disabled={removingId === entry.id}
+                              >
+                                <X className="h-4 w-4 mr-1" />
+                                Quitar
+                              </Button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistList;
@@ -20,10 +20,10 @@ const ResetPasswordForm: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
 
-  // Check if we're in a password recovery flow
+  // Check if we're in a password recovery flow (or accepting an invitation)
   useEffect(() => {
     const checkRecoveryMode = async () => {
-      if (location.hash && location.hash.includes('type=recovery')) {
+      if (location.hash && (location.hash.includes('type=recovery') || location.hash.includes('type=invite'))) {
         setIsRecoveryMode(true);
         
         // Prevent automatic redirect by checking session
@@ -104,24 +104,8 @@ const ResetPasswordForm: React.FC = () => {
       }
 
       try {
-        // Check if an admin account exists with this email using RPC function
-        const { data: adminCheck, error: checkError } = await supabase.rpc('is_admin_email', {
-          user_email: email
-        });
-
-        if (checkError) {
-          // If RPC doesn't exist, just send the email (backward compatibility)
-
-        } else if (adminCheck === false) {
-          toast.error('No existe una cuenta de administrador con este correo');
-          setLoading(false);
-          return;
-        } else if (adminCheck === null) {
-          toast.error('No existe una cuenta con este correo');
-          setLoading(false);
-          return;
-        }
-
+        // No account lookup first: the answer must not reveal which emails
+        // are registered (or which belong to admins)
         // Send password reset email
         const { error } = await supabase.auth.resetPasswordForEmail(email, {
           redirectTo: `${window.location.origin}/auth/reset-password`,
@@ -140,7 +124,7 @@ const ResetPasswordForm: React.FC = () => {
 
           setLoading(false);
         } else {
-          toast.success('Se ha enviado un correo de recuperación');
+          toast.success('Si existe una cuenta con este correo, recibirá un enlace de recuperación');
           setLoading(false);
           navigate('/login');
         }
@@ -41,9 +41,9 @@ const SignUpForm: React.FC = () => {
         email,
         password,
         options: {
+          // Roles are assigned by a super-admin from the admin panel
           data: {
             full_name: fullName,
-            is_admin: true, // Set admin flag in user metadata
           },
         },
       });
@@ -65,10 +65,10 @@ const SignUpForm: React.FC = () => {
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
         <CardTitle>
-          Registro de Administrador
+          Crear cuenta
         </CardTitle>
         <CardDescription>
-          Complete los campos para registrarse como administrador
+          Complete los campos para registrarse. Los permisos de administración los asigna un superadministrador.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -12,6 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Clock } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { getReservationClasses, getReservationStatusText, isReservationPast } from '@/utils/reservationStyles';
+import { startOfQuinchoToday } from '@/lib/dates';
 
 interface AgendaViewProps {
   reservations: Reservation[];
@@ -19,8 +20,7 @@ interface AgendaViewProps {
 
 const AgendaView: React.FC<AgendaViewProps> = ({ reservations }) => {
   const { isAdmin } = useAuth();
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = startOfQuinchoToday();
   
   // Show all reservations, sorted by date (most recent first)
   const sortedReservations = reservations
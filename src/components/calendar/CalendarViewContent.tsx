@@ -5,8 +5,9 @@ import MonthView from '@/components/calendar/MonthView';
 import WeekView from '@/components/calendar/WeekView';
 import DayView from '@/components/calendar/DayView';
 import AgendaView from '@/components/calendar/AgendaView';
-import { timeOptions } from '@/utils/timeUtils';
+import { getGridTimeOptions } from '@/utils/timeUtils';
 import { Reservation } from '@/context/ReservationContext';
+import { useSettings } from '@/context/SettingsContext';
 
 interface CalendarViewContentProps {
   view: ViewType;
@@ -27,6 +28,9 @@ const CalendarViewContent: React.FC<CalendarViewContentProps> = ({
   onDayClick,
   onTimeSlotClick
 }) => {
+  const { operatingHours } = useSettings();
+  const timeOptions = getGridTimeOptions(operatingHours);
+
   return (
     <div className="mt-4">
       {view === 'month' && (
@@ -47,6 +51,7 @@ const CalendarViewContent: React.FC<CalendarViewContentProps> = ({
           isDateBlocked={isDateBlocked}
           isTimeSlotAvailable={isTimeSlotAvailable}
           timeOptions={timeOptions}
+          slotMinutes={operatingHours.slotMinutes}
           onTimeSlotClick={onTimeSlotClick}
         />
       )}
@@ -59,6 +64,7 @@ const CalendarViewContent: React.FC<CalendarViewContentProps> = ({
           isDateBlocked={isDateBlocked}
           isTimeSlotAvailable={isTimeSlotAvailable}
           timeOptions={timeOptions}
+          slotMinutes={operatingHours.slotMinutes}
           onTimeSlotClick={onTimeSlotClick}
         />
       )}
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { isToday, isBefore } from 'date-fns';
+import { isBefore } from 'date-fns';
 import { Reservation } from '@/types/reservation';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { shouldShowReservation } from '@/utils/reservationStyles';
@@ -21,6 +21,7 @@ interface DayViewProps {
   isDateBlocked: (date: Date) => boolean;
   isTimeSlotAvailable: (date: Date, startTime: string, endTime: string) => boolean;
   timeOptions: string[];
+  slotMinutes: number;
   onTimeSlotClick: (date: Date, time: string) => void;
 }
 
@@ -30,6 +31,7 @@ const DayView: React.FC<DayViewProps> = ({
   isDateBlocked,
   isTimeSlotAvailable,
   timeOptions,
+  slotMinutes,
   onTimeSlotClick
 }) => {
   const { isAdmin } = useAuth();
@@ -49,7 +51,7 @@ const DayView: React.FC<DayViewProps> = ({
       <ScrollArea className="h-[calc(100vh-280px)]">
         <div className="border rounded-md overflow-hidden">
           {timeOptions.map(time => {
-            const nextTime = getNextTimeSlot(time);
+            const nextTime = getNextTimeSlot(time, slotMinutes);
             
             // Find all reservations that are visible in this time slot
             const slotReservations = dayReservations.filter(r => {
@@ -64,7 +66,7 @@ const DayView: React.FC<DayViewProps> = ({
             
             const isTimeSlotFree = isTimeSlotAvailable(currentDate, time, nextTime);
             const isPastDate = isBefore(currentDate, startOfDay());
-            const isPastTime = isToday(currentDate) && isPastTimeSlot(time);
+            const isPastTime = isSameDay(currentDate, startOfDay()) && isPastTimeSlot(time);
             const isTimeSlotDisabled = isPastDate || isPastTime || !isTimeSlotFree;
             
             return (
@@ -1,25 +1,22 @@
 
-import { isBefore as isBeforeDateFns, startOfDay } from 'date-fns';
+import { isBeforeQuinchoToday } from '@/lib/dates';
+import { OperatingHours } from '@/types/settings';
+import { getDaySchedule, minutesToTime, timeToMinutes } from '@/utils/timeUtils';
 
 export const handleTimeSlotClick = (
   date: Date, 
   time: string, 
-  navigate: (path: string) => void
+  navigate: (path: string) => void,
+  operatingHours: OperatingHours
 ) => {
-  if (isBeforeDateFns(date, startOfDay(new Date()))) {
+  if (isBeforeQuinchoToday(date)) {
     return;
   }
   
-  const [startHour, startMinute] = time.split(':').map(Number);
-  let endHour = startHour + 1;
-  let endMinute = startMinute;
-  
-  if (endHour > 22) {
-    endHour = 22;
-    endMinute = 30;
-  }
-  
-  const endTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
+  // Suggest one hour (or the minimum duration), capped at that day's closing time
+  const closeMinutes = timeToMinutes(getDaySchedule(operatingHours, date).close);
+  const defaultDuration = Math.max(60, operatingHours.minDurationMinutes);
+  const endTime = minutesToTime(Math.min(timeToMinutes(time) + defaultDuration, closeMinutes));
   
   // Format the date correctly to prevent timezone issues
   const formattedDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
@@ -13,6 +13,7 @@ interface WeekViewProps {
   isDateBlocked: (date: Date) => boolean;
   isTimeSlotAvailable: (date: Date, startTime: string, endTime: string) => boolean;
   timeOptions: string[];
+  slotMinutes: number;
   onTimeSlotClick: (date: Date, time: string) => void;
 }
 
@@ -22,6 +23,7 @@ const WeekView: React.FC<WeekViewProps> = ({
   isDateBlocked,
   isTimeSlotAvailable,
   timeOptions,
+  slotMinutes,
   onTimeSlotClick
 }) => {
   const startOfWeekDate = startOfWeek(currentDate, { locale: es });
@@ -52,7 +54,7 @@ const WeekView: React.FC<WeekViewProps> = ({
             reservations={reservations}
             isDateBlocked={isDateBlocked}
             isTimeSlotAvailable={isTimeSlotAvailable}
-            getNextTimeSlot={getNextTimeSlot}
+            getNextTimeSlot={(time) => getNextTimeSlot(time, slotMinutes)}
             onTimeSlotClick={onTimeSlotClick}
           />
         );
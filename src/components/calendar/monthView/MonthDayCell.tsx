@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { isBefore, startOfDay } from 'date-fns';
+import { isSameDay } from 'date-fns';
 import { Reservation } from '@/types/reservation';
 import { useAuth } from '@/context/AuthContext';
+import { isBeforeQuinchoToday, startOfQuinchoToday } from '@/lib/dates';
 import DayNumber from './DayNumber';
 import DayCellContent from './DayCellContent';
 
@@ -22,14 +23,10 @@ const MonthDayCell: React.FC<MonthDayCellProps> = ({
   onDayClick
 }) => {
   const { isAdmin } = useAuth();
-  const today = new Date();
-  const isCurrentDay = 
-    day.getDate() === today.getDate() && 
-    day.getMonth() === today.getMonth() && 
-    day.getFullYear() === today.getFullYear();
+  const isCurrentDay = isSameDay(day, startOfQuinchoToday());
     
   const isCurrentMonth = day.getMonth() === monthStart.getMonth();
-  const isPastDay = isBefore(day, startOfDay(new Date()));
+  const isPastDay = isBeforeQuinchoToday(day);
   const isDayBlocked = isDateBlocked(day);
   
   // Admins can click on any day, regular users can only click on non-past days
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { isBefore, isToday as isDateToday } from 'date-fns';
+import { isBefore } from 'date-fns';
 import { Reservation } from '@/types/reservation';
 import { 
   isSameDay, 
@@ -8,6 +8,7 @@ import {
   isTimeSlotInRange 
 } from '@/utils/calendarUtils';
 import { shouldShowReservation } from '@/utils/reservationStyles';
+import { isSlotPast } from '@/lib/dates';
 import { useAuth } from '@/context/AuthContext';
 import ReservationDisplay from './ReservationDisplay';
 import BlockedTimeSlot from './BlockedTimeSlot';
@@ -37,11 +38,7 @@ const WeekTimeSlot: React.FC<WeekTimeSlotProps> = ({
   const isPastDay = isBefore(currentDay, startOfDay());
   
   // Check if this specific time slot is in the past
-  const currentTime = new Date();
-  const timeSlotDate = new Date(currentDay);
-  const [hours, minutes] = time.split(':').map(Number);
-  timeSlotDate.setHours(hours, minutes, 0, 0);
-  const isPastTime = isBefore(timeSlotDate, currentTime);
+  const isPastTime = isSlotPast(currentDay, time);
   
   // Find all reservations that are visible in this time slot
   const reservationsAtTime = reservations.filter(r => {
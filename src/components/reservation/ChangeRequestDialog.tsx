@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { requestReservationChange } from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { OwnReservation } from '@/types/reservation';
+import { getDaySchedule, getTimeOptionsForDate, isValidDuration } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+import FormField from './FormField';
+import DatePicker from './DatePicker';
+import TimeSelector from './TimeSelector';
+
+interface ChangeRequestDialogProps {
+  reservation: OwnReservation | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const ChangeRequestDialog: React.FC<ChangeRequestDialogProps> = ({ reservation, onClose, onSubmitted }) => {
+  const { operatingHours } = useSettings();
+  const [fecha, setFecha] = useState<Date | undefined>(undefined);
+  const [inicio, setInicio] = useState('');
+  const [fin, setFin] = useState('');
+  const [personas, setPersonas] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the current values so the user only touches what changes
+  useEffect(() => {
+    if (reservation) {
+      setFecha(reservation.fecha);
+      setInicio(reservation.inicio);
+      setFin(reservation.fin);
+      setPersonas(String(reservation.personas));
+      setMessage('');
+    }
+  }, [reservation]);
+
+  const disabledDays = (date: Date) =>
+    isBefore(date, startOfDay(new Date())) || getDaySchedule(operatingHours, date).closed;
+
+  const startOptions = fecha ? getTimeOptionsForDate(operatingHours, fecha).slice(0, -1) : [];
+  const endOptions = fecha && inicio
+    ? getTimeOptionsForDate(operatingHours, fecha).filter(time => time > inicio && isValidDuration(operatingHours, inicio, time))
+    : [];
+
+  const handleSubmit = async () => {
+    if (!reservation) return;
+    if (!fecha || !inicio || !fin) {
+      toast.error('Seleccione la fecha y el horario deseados');
+      return;
+    }
+    if (!personas || Number(personas) <= 0) {
+      toast.error('Ingrese una cantidad de personas válida');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await requestReservationChange(reservation, {
+        fecha,
+        inicio,
+        fin,
+        personas: Number(personas),
+        message
+      });
+      toast.success('Solicitud de cambio enviada. La administración la revisará pronto.');
+      onSubmitted();
+      onClose();
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      if (code === 'NO_CHANGES') {
+        toast.error('No indicó ningún cambio');
+      } else if (code === 'SLOT_TAKEN') {
+        toast.error('El nuevo horario no está disponible. Por favor, elija otro.');
+      } else if (code === 'SLOT_BLOCKED') {
+        toast.error('El nuevo horario está bloqueado y no admite reservas.');
+      } else if (code === 'ALREADY_REQUESTED') {
+        toast.error('Ya tiene una solicitud de cambio en revisión para esta reserva.');
+      } else {
+        logger.error('Error requesting reservation change', error);
+        toast.error('No se pudo enviar la solicitud de cambio');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={reservation !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Solicitar cambio</DialogTitle>
+          <DialogDescription>
+            {reservation && `Reserva actual: ${format(reservation.fecha, "d 'de' MMMM, yyyy", { locale: es })}, ${reservation.inicio} - ${reservation.fin}, ${reservation.personas} personas. `}
+            Modifique lo que necesite; la reserva no cambia hasta que la administración apruebe la solicitud.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <DatePicker
+            id="change-fecha"
+            label="Nueva fecha"
+            value={fecha}
+            onChange={(date) => {
+              setFecha(date);
+              setInicio('');
+              setFin('');
+            }}
+            disabledDays={disabledDays}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TimeSelector
+              id="change-inicio"
+              label="Nuevo inicio"
+              value={inicio}
+              onChange={(value) => {
+                setInicio(value);
+                setFin('');
+              }}
+              options={startOptions}
+              disabled={!fecha}
+            />
+            <TimeSelector
+              id="change-fin"
+              label="Nuevo fin"
+              value={fin}
+              onChange={setFin}
+              options={endOptions}
+              disabled={!inicio}
+            />
+          </div>
+          <FormField
+            id="change-personas"
+            label="Cantidad de personas"
+            value={personas}
+            onChange={(e) => setPersonas(e.target.value)}
+            type="number"
+            min={1}
+          />
+          <FormField
+            id="change-message"
+            label="Comentario (opcional)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Explique el motivo del cambio"
+            multiline={true}
+            rows={2}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Volver
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Enviando...' : 'Enviar solicitud'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangeRequestDialog;
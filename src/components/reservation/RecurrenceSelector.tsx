@@ -0,0 +1,162 @@
+
+import React from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { CheckCircle2, Repeat, XCircle } from 'lucide-react';
+import { RecurrenceEndType } from '@/types/reservation';
+import { MAX_RECURRENCE_OCCURRENCES } from '@/utils/recurrenceUtils';
+import DatePicker from './DatePicker';
+
+interface RecurrencePreviewItem {
+  date: Date;
+  available: boolean;
+}
+
+interface RecurrenceSelectorProps {
+  isRecurring: boolean;
+  onRecurringChange: (value: boolean) => void;
+  interval: string;
+  onIntervalChange: (value: string) => void;
+  endType: RecurrenceEndType;
+  onEndTypeChange: (value: RecurrenceEndType) => void;
+  count: string;
+  onCountChange: (value: string) => void;
+  until: Date | undefined;
+  onUntilChange: (date: Date | undefined) => void;
+  startDate: Date | undefined;
+  preview: RecurrencePreviewItem[];
+  error?: string;
+}
+
+const RecurrenceSelector: React.FC<RecurrenceSelectorProps> = ({
+  isRecurring,
+  onRecurringChange,
+  interval,
+  onIntervalChange,
+  endType,
+  onEndTypeChange,
+  count,
+  onCountChange,
+  until,
+  onUntilChange,
+  startDate,
+  preview,
+  error
+}) => {
+  const conflicts = preview.filter(item => !item.available).length;
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 p-4">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="recurrente"
+          checked={isRecurring}
+          onCheckedChange={(checked) => onRecurringChange(checked === true)}
+        />
+        <Label htmlFor="recurrente" className="flex items-center cursor-pointer">
+          <Repeat className="mr-2 h-4 w-4" />
+          Repetir esta reserva
+        </Label>
+      </div>
+
+      {isRecurring && (
+        <div className="space-y-4 pl-6">
+          <div className="space-y-2">
+            <Label htmlFor="recurrence-interval">Frecuencia</Label>
+            <Select value={interval} onValueChange={onIntervalChange}>
+              <SelectTrigger id="recurrence-interval" className="w-full">
+                <SelectValue placeholder="Seleccione la frecuencia" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Todas las semanas</SelectItem>
+                <SelectItem value="2">Cada 2 semanas</SelectItem>
+                <SelectItem value="3">Cada 3 semanas</SelectItem>
+                <SelectItem value="4">Cada 4 semanas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Finaliza</Label>
+            <RadioGroup
+              value={endType}
+              onValueChange={(value) => onEndTypeChange(value as RecurrenceEndType)}
+              className="space-y-2"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="count" id="recurrence-end-count" />
+                <Label htmlFor="recurrence-end-count" className="font-normal">Después de</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={MAX_RECURRENCE_OCCURRENCES}
+                  value={count}
+                  onChange={(e) => onCountChange(e.target.value)}
+                  disabled={endType !== 'count'}
+                  className="w-20 h-8"
+                />
+                <span className="text-sm text-gray-600">repeticiones</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="until" id="recurrence-end-until" />
+                <Label htmlFor="recurrence-end-until" className="font-normal">En una fecha</Label>
+              </div>
+            </RadioGroup>
+            {endType === 'until' && (
+              <DatePicker
+                id="recurrence-until"
+                label="Fecha de finalización"
+                value={until}
+                onChange={onUntilChange}
+                disabledDays={(date) => !startDate || date <= startDate}
+              />
+            )}
+          </div>
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          {preview.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                Fechas de la serie ({preview.length})
+                {conflicts > 0 && (
+                  <span className="ml-1 text-yellow-600">
+                    · {conflicts} no {conflicts === 1 ? 'disponible se omitirá' : 'disponibles se omitirán'}
+                  </span>
+                )}
+              </p>
+              <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+                {preview.map(item => (
+                  <li
+                    key={item.date.toISOString()}
+                    className={`flex items-center ${item.available ? 'text-gray-700' : 'text-gray-400 line-through'}`}
+                  >
+                    {item.available ? (
+                      <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" />
+                    ) : (
+                      <XCircle className="mr-2 h-4 w-4 text-red-500" />
+                    )}
+                    {format(item.date, "EEEE d 'de' MMMM, yyyy", { locale: es })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceSelector;
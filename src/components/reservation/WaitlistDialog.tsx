@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { isBefore, startOfDay } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { joinWaitlist } from '@/lib/supabase';
+import { useSettings } from '@/context/SettingsContext';
+import { getDaySchedule, getTimeOptionsForDate, isValidDuration } from '@/utils/timeUtils';
+import { bookingContactSchema, getFieldErrors } from '@/lib/validation';
+import { logger } from '@/utils/logger';
+import FormField from './FormField';
+import DatePicker from './DatePicker';
+import TimeSelector from './TimeSelector';
+import { dateToFecha } from '@/lib/dates';
+
+interface WaitlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Values already typed in the reservation form, used to prefill the dialog
+  initialValues: {
+    responsable: string;
+    email: string;
+    motivo: string;
+    personas: string;
+    affiliation: string;
+    fecha: Date | undefined;
+    inicio: string;
+    fin: string;
+  };
+}
+
+const WaitlistDialog: React.FC<WaitlistDialogProps> = ({ open, onOpenChange, initialValues }) => {
+  const { operatingHours } = useSettings();
+  const [responsable, setResponsable] = useState('');
+  const [email, setEmail] = useState('');
+  const [motivo, setMotivo] = useState('');
+  const [personas, setPersonas] = useState('');
+  const [fecha, setFecha] = useState<Date | undefined>(undefined);
+  const [inicio, setInicio] = useState('');
+  const [fin, setFin] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Prefill only when the dialog opens, not on every keystroke in the form
+  useEffect(() => {
+    if (open) {
+      setResponsable(initialValues.responsable);
+      setEmail(initialValues.email);
+      setMotivo(initialValues.motivo);
+      setPersonas(initialValues.personas);
+      setFecha(initialValues.fecha);
+      setInicio(initialValues.inicio);
+      setFin(initialValues.fin);
+      setErrors({});
+    }
+  }, [open]);
+
+  // Unlike the reservation form, fully booked days stay selectable here
+  const disabledDays = (date: Date) =>
+    isBefore(date, startOfDay(new Date())) || getDaySchedule(operatingHours, date).closed;
+
+  const startOptions = fecha ? getTimeOptionsForDate(operatingHours, fecha).slice(0, -1) : [];
+  const endOptions = fecha && inicio
+    ? getTimeOptionsForDate(operatingHours, fecha).filter(time => time > inicio && isValidDuration(operatingHours, inicio, time))
+    : [];
+
+  const validate = () => {
+    const contact = bookingContactSchema.safeParse({ responsable, email, motivo, personas });
+    const newErrors: Record<string, string> = contact.success ? {} : getFieldErrors(contact.error);
+    if (!fecha) newErrors.fecha = 'Seleccione una fecha';
+    if (!inicio) newErrors.inicio = 'Seleccione la hora de inicio';
+    if (!fin) newErrors.fin = 'Seleccione la hora de fin';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validate() || !fecha) return;
+
+    try {
+      setIsSubmitting(true);
+      await joinWaitlist({
+        responsable,
+        email,
+        motivo,
+        personas: Number(personas),
+        affiliation: initialValues.affiliation || undefined,
+        fecha: dateToFecha(fecha),
+        inicio,
+        fin
+      });
+      toast.success(
+        'Quedó anotado en la lista de espera. Si el horario se libera, recibirá un correo para reclamarlo.',
+        { duration: 8000 }
+      );
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message === 'SLOT_AVAILABLE') {
+        toast.info('Ese horario está disponible. Puede reservarlo directamente desde el formulario.');
+      } else if (message === 'SLOT_BLOCKED') {
+        toast.error('Ese horario está bloqueado y no admite reservas.');
+      } else if (message === 'ALREADY_WAITLISTED') {
+        toast.info('Ya está en la lista de espera para ese horario.');
+      } else if (message === 'RATE_LIMITED') {
+        toast.error('Realizó demasiadas solicitudes en poco tiempo. Por favor, espere una hora e inténtelo de nuevo.');
+      } else {
+        logger.error('Error joining waitlist', error);
+        toast.error('No se pudo unir a la lista de espera. Por favor, inténtelo de nuevo.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lista de espera</DialogTitle>
+          <DialogDescription>
+            Si el horario que necesita está ocupado, anótese. Cuando se libere, la primera persona de la lista recibe un correo con un enlace para reclamarlo por tiempo limitado.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <FormField
+            id="waitlist-responsable"
+            label="Responsable *"
+            value={responsable}
+            onChange={(e) => setResponsable(e.target.value)}
+            error={errors.responsable}
+            placeholder="Nombre completo"
+          />
+          <FormField
+            id="waitlist-email"
+            label="Correo electrónico *"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            error={errors.email}
+            placeholder="correo@ejemplo.com"
+            type="email"
+          />
+          <FormField
+            id="waitlist-motivo"
+            label="Motivo *"
+            value={motivo}
+            onChange={(e) => setMotivo(e.target.value)}
+            error={errors.motivo}
+            placeholder="Describa el motivo de su reserva"
+            multiline={true}
+            rows={2}
+          />
+          <FormField
+            id="waitlist-personas"
+            label="Cantidad de personas *"
+            value={personas}
+            onChange={(e) => setPersonas(e.target.value)}
+            error={errors.personas}
+            placeholder="Número de asistentes"
+            type="number"
+            min={1}
+          />
+          <DatePicker
+            id="waitlist-fecha"
+            label="Fecha *"
+            value={fecha}
+            onChange={(date) => {
+              setFecha(date);
+              setInicio('');
+              setFin('');
+            }}
+            disabledDays={disabledDays}
+            error={errors.fecha}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TimeSelector
+              id="waitlist-inicio"
+              label="Inicio *"
+              value={inicio}
+              onChange={(value) => {
+                setInicio(value);
+                setFin('');
+              }}
+              options={startOptions}
+              disabled={!fecha}
+              error={errors.inicio}
+            />
+            <TimeSelector
+              id="waitlist-fin"
+              label="Fin *"
+              value={fin}
+              onChange={setFin}
+              options={endOptions}
+              disabled={!inicio}
+              error={errors.fin}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Enviando...' : 'Unirme a la lista de espera'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WaitlistDialog;
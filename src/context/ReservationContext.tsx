@@ -1,10 +1,11 @@
 
 import React, { createContext, useContext, useState } from 'react';
-import { isBefore, startOfDay } from 'date-fns';
+import { isBeforeQuinchoToday, isSlotPast } from '@/lib/dates';
 import { toast } from "sonner";
 import { Reservation, ReservationContextType } from '@/types/reservation';
 import { useReservationsData } from '@/hooks/useReservationsData';
 import { useAvailabilityCheck } from '@/hooks/useAvailabilityCheck';
+import { useSettings } from '@/context/SettingsContext';
 
 const ReservationContext = createContext<ReservationContextType | undefined>(undefined);
 
@@ -22,38 +23,26 @@ export const ReservationProvider: React.FC<{ children: React.ReactNode }> = ({ c
     dataInitialized
   } = useReservationsData();
 
+  const { operatingHours } = useSettings();
+
   const { 
     getReservationsByDate, 
     isDateBlocked, 
     isTimeSlotAvailable 
-  } = useAvailabilityCheck(reservations, blockedDates);
-
-  // Helper function to check if two dates are the same day
-  const isToday = (date1: Date, date2: Date) => {
-    return date1.getDate() === date2.getDate() && 
-           date1.getMonth() === date2.getMonth() && 
-           date1.getFullYear() === date2.getFullYear();
-  };
+  } = useAvailabilityCheck(reservations, blockedDates, operatingHours);
 
   const addReservation = async (newReservation: Omit<Reservation, 'id' | 'createdAt'>): Promise<Reservation | null> => {
     try {
       // Check for past dates or times
-      const currentDate = new Date();
-      if (isBefore(newReservation.fecha, startOfDay(currentDate))) {
+      if (isBeforeQuinchoToday(newReservation.fecha)) {
         toast.error('No se pueden realizar reservas para fechas pasadas');
         return null;
       }
 
-      // Check if the current time is after the requested start time for today
-      if (isToday(newReservation.fecha, currentDate)) {
-        const [hours, minutes] = newReservation.inicio.split(':').map(Number);
-        const requestedTime = new Date();
-        requestedTime.setHours(hours, minutes, 0, 0);
-        
-        if (isBefore(requestedTime, currentDate)) {
-          toast.error('No se pueden realizar reservas para horarios pasados');
-          return null;
-        }
+      // Check if the requested start time already passed at the quincho
+      if (isSlotPast(newReservation.fecha, newReservation.inicio)) {
+        toast.error('No se pueden realizar reservas para horarios pasados');
+        return null;
       }
 
       // Check if date is blocked
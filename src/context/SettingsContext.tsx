@@ -0,0 +1,77 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { supabase, getBookingPolicies, getCapacityRules, getMaxPersonas, getOperatingHours } from '@/lib/supabase';
+import { BookingPolicies, OperatingHours, SettingsContextType } from '@/types/settings';
+import { CapacityRule } from '@/types/capacity';
+import { DEFAULT_OPERATING_HOURS } from '@/utils/timeUtils';
+import { DEFAULT_MAX_PERSONAS } from '@/utils/capacityUtils';
+import { DEFAULT_BOOKING_POLICIES } from '@/utils/bookingPolicyUtils';
+import { logger } from '@/utils/logger';
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [operatingHours, setOperatingHours] = useState<OperatingHours>(DEFAULT_OPERATING_HOURS);
+  const [maxPersonas, setMaxPersonas] = useState(DEFAULT_MAX_PERSONAS);
+  const [capacityRules, setCapacityRules] = useState<CapacityRule[]>([]);
+  const [bookingPolicies, setBookingPolicies] = useState<BookingPolicies>(DEFAULT_BOOKING_POLICIES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshSettings = useCallback(async () => {
+    try {
+      const [hours, capacity, rules, policies] = await Promise.all([
+        getOperatingHours(),
+        getMaxPersonas(),
+        getCapacityRules(),
+        getBookingPolicies()
+      ]);
+      setOperatingHours(hours);
+      setMaxPersonas(capacity);
+      setCapacityRules(rules);
+      setBookingPolicies(policies);
+    } catch (error) {
+      // Keep the current values; the defaults match the historical schedule
+      logger.error('Error loading settings', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSettings();
+
+    // Propagate changes made in the admin panel to every open calendar
+    const settingsChannel = supabase
+      .channel('settings_changes')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'settings' },
+        () => {
+          refreshSettings();
+        }
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'capacity_rules' },
+        () => {
+          refreshSettings();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(settingsChannel);
+    };
+  }, [refreshSettings]);
+
+  return (
+    <SettingsContext.Provider value={{ operatingHours, maxPersonas, capacityRules, bookingPolicies, isLoading, refreshSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
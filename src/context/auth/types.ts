@@ -1,7 +1,11 @@
+import { AppRole, Permission } from '@/types/roles';
 
 export interface User {
   email: string;
-  isAdmin: boolean;
+  role: AppRole;
+  permissions: Permission[];
+  isAdmin: boolean; // Can manage reservations (reservations.manage)
+  isGuard?: boolean; // Can record key handovers (handovers.record)
 }
 
 export interface AuthContextType {
@@ -10,6 +14,10 @@ export interface AuthContextType {
   logout: () => void;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  isGuard: boolean;
+  role: AppRole;
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
   isLoggedIn: boolean;
   loading: boolean;
 }
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from './types';
+import { Permission } from '@/types/roles';
 import { toast } from "sonner";
 import { 
   handleUserSignIn, 
@@ -21,6 +22,11 @@ export const useAuthState = () => {
 
   const isAuthenticated = !!user;
   const isAdmin = user?.isAdmin || false;
+  const isGuard = user?.isGuard || false;
+  const role = user?.role || 'user';
+  // Users cached before roles existed have no permissions until they reload
+  const permissions = user?.permissions || [];
+  const hasPermission = (permission: Permission) => permissions.includes(permission);
   const isLoggedIn = isAuthenticated;
 
   useEffect(() => {
@@ -148,7 +154,7 @@ export const useAuthState = () => {
         return false;
       }
       
-      // Ensure the user has admin privileges
+      // Make sure the profile exists before the SIGNED_IN handler loads the role
       if (data?.user) {
         try {
           await fetchUserProfile(data.user.id);
@@ -185,6 +191,10 @@ export const useAuthState = () => {
     logout,
     isAuthenticated,
     isAdmin,
+    isGuard,
+    role,
+    permissions,
+    hasPermission,
     isLoggedIn,
     loading
   };
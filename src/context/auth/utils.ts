@@ -1,24 +1,33 @@
 import { supabase } from '@/integrations/supabase/client';
 import { User } from './types';
+import { UserAccess } from '@/types/roles';
 import { toast } from "sonner";
 
-// Function to fetch user profile from Supabase with timeout and auto-creation
-export const fetchUserProfile = async (userId: string, accessToken?: string): Promise<boolean> => {
+const NO_ACCESS: UserAccess = { role: 'user', permissions: [] };
+
+// Build the cached user from the role and permissions stored in the database
+export const buildUser = (email: string, access: UserAccess): User => ({
+  email,
+  role: access.role,
+  permissions: access.permissions,
+  isAdmin: access.permissions.includes('reservations.manage'),
+  isGuard: access.permissions.includes('handovers.record')
+});
+
+// Function to fetch the user's profile (creating it if missing) and their
+// role and permissions, with timeout. Roles are only granted from the admin
+// panel; signing up never makes anyone an admin.
+export const fetchUserProfile = async (userId: string): Promise<UserAccess> => {
   try {
     // Create a timeout promise (reduced to 3 seconds for faster feedback)
     const timeoutPromise = new Promise<never>((_, reject) => 
       setTimeout(() => reject(new Error('Profile fetch timeout')), 3000)
     );
     
-    // If we have an access token, use it explicitly for the request
-    const client = accessToken 
-      ? supabase.auth.setSession({ access_token: accessToken, refresh_token: '' }).then(() => supabase)
-      : Promise.resolve(supabase);
-    
     // Direct query to profiles table with timeout
-    const queryPromise = (await client)
+    const queryPromise = supabase
       .from('profiles')
-      .select('is_admin')
+      .select('id')
       .eq('id', userId)
       .maybeSingle(); // Use maybeSingle to handle missing rows gracefully
     
@@ -28,42 +37,41 @@ export const fetchUserProfile = async (userId: string, accessToken?: string): Pr
     ]) as any;
     
     if (profileError) {
-      return false;
+      return NO_ACCESS;
     }
     
-    // If no profile exists, try to create one
+    // If no profile exists, create one as a regular user
     if (!profileData) {
+      const { error: insertError } = await supabase
+        .from('profiles')
+        .insert({
+          id: userId,
+          created_at: new Date().toISOString()
+        });
       
-      try {
-        // Get user email to check if admin
-        const { data: { user } } = await supabase.auth.getUser();
-        const isAdmin = user?.email?.endsWith('@fiuna.edu.py') || false;
-        
-        // Create profile
-        const { error: insertError } = await supabase
-          .from('profiles')
-          .insert({
-            id: userId,
-            is_admin: isAdmin,
-            created_at: new Date().toISOString()
-          });
-        
-        if (insertError) {
-          // If RLS blocks insert, user might not be authenticated yet
-          // Return false to be safe
-          return false;
-        }
-        
-        return isAdmin;
-      } catch (createError) {
-        return false;
+      if (insertError) {
+        // If RLS blocks insert, user might not be authenticated yet
+        return NO_ACCESS;
       }
     }
     
-    return !!profileData?.is_admin;
+    const { data, error: accessError } = await Promise.race([
+      supabase.rpc('get_my_access'),
+      timeoutPromise
+    ]);
+    const access = data as unknown as UserAccess | null;
+
+    if (accessError || !access) {
+      return NO_ACCESS;
+    }
+
+    return {
+      role: access.role || 'user',
+      permissions: access.permissions || []
+    };
   } catch (error) {
-    // Return false on timeout or any error, don't block the flow
-    return false;
+    // Return no access on timeout or any error, don't block the flow
+    return NO_ACCESS;
   }
 };
 
@@ -75,31 +83,11 @@ export const handleUserSignIn = async (session: any): Promise<User | null> => {
     const userId = session.user.id;
     const userEmail = session.user.email || '';
     
-    // First check if the user already exists in local storage
-    const storedUser = getUserFromLocalStorage();
-    if (storedUser && storedUser.email === userEmail) {
-      return storedUser;
-    }
-    
-    // Check user_metadata first (set during signup/admin creation)
-    if (session.user.user_metadata?.is_admin !== undefined) {
-      const user: User = {
-        email: userEmail,
-        isAdmin: !!session.user.user_metadata.is_admin
-      };
-      return user;
-    }
-    
-    // Otherwise fetch from profiles table
-    const isAdmin = await fetchUserProfile(userId);
-    
-    // Create user object
-    const user: User = {
-      email: userEmail,
-      isAdmin: isAdmin
-    };
+    // Always reload the role: it may have been changed or revoked since the
+    // user was cached in local storage
+    const access = await fetchUserProfile(userId);
     
-    return user;
+    return buildUser(userEmail, access);
   } catch (error) {
     return null;
   }
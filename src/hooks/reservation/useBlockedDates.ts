@@ -1,15 +1,21 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { isBefore, startOfDay } from 'date-fns';
+import { isBeforeQuinchoToday, fechaToDate } from '@/lib/dates';
 import { BlockedDate } from '@/types/reservation';
-import { timeOptions } from '@/utils/timeUtils';
+import { getTimeOptionsForDate } from '@/utils/timeUtils';
+import { useSettings } from '@/context/SettingsContext';
+import { isBeyondHorizon, violatesLeadTime } from '@/utils/bookingPolicyUtils';
 import { toast } from 'sonner';
 
-export const useBlockedDates = (isTimeSlotAvailable: (date: Date, startTime: string, endTime: string) => boolean) => {
+export const useBlockedDates = (
+  isTimeSlotAvailable: (date: Date, startTime: string, endTime: string) => boolean,
+  overridePolicies = false
+) => {
   // Blocked dates from the database
   const [blockedDates, setBlockedDates] = useState<Date[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { operatingHours, bookingPolicies } = useSettings();
 
   // Fetch blocked dates from the database
   useEffect(() => {
@@ -43,13 +49,9 @@ export const useBlockedDates = (isTimeSlotAvailable: (date: Date, startTime: str
       }
 
       if (data) {
-        setBlockedDates(data.map(item => {
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          return new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+        // Partial blocks and block rules are covered by isTimeSlotAvailable below
+        setBlockedDates(data.filter(item => !item.start_time || !item.end_time).map(item => {
+          return fechaToDate(item.fecha);
         }));
       }
     } catch (error) {
@@ -61,10 +63,13 @@ export const useBlockedDates = (isTimeSlotAvailable: (date: Date, startTime: str
 
   // Check if a date should be disabled in the calendar
   const disabledDays = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    if (isBefore(date, today)) {
+
+    if (isBeforeQuinchoToday(date)) {
+      return true;
+    }
+
+    // Past the booking horizon (admins booking on someone's behalf may override it)
+    if (!overridePolicies && isBeyondHorizon(bookingPolicies, date)) {
       return true;
     }
     
@@ -76,7 +81,9 @@ export const useBlockedDates = (isTimeSlotAvailable: (date: Date, startTime: str
       return true;
     }
     
+    const timeOptions = getTimeOptionsForDate(operatingHours, date);
     const anySlotAvailable = timeOptions.some(startTime => 
+      (overridePolicies || !violatesLeadTime(bookingPolicies, date, startTime)) &&
       timeOptions.some(endTime => 
         endTime > startTime && isTimeSlotAvailable(date, startTime, endTime)
       )
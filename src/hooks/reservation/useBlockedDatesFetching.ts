@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { BlockedDate } from '@/types/reservation';
 import { toast } from 'sonner';
+import { fechaToDate } from '@/lib/dates';
 
 export const useBlockedDatesFetching = () => {
   const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
@@ -42,12 +43,7 @@ export const useBlockedDatesFetching = () => {
 
       if (data) {
         const formattedData = data.map(item => {
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+          const dateObj = fechaToDate(item.fecha);
           
           return {
             id: item.id,
@@ -1,12 +1,15 @@
 
-import { isBefore, startOfDay } from 'date-fns';
+import { isBeforeQuinchoToday } from '@/lib/dates';
 import { BlockedDate } from '@/types/reservation';
-import { timeOptions } from '@/utils/timeUtils';
+import { getTimeOptionsForDate } from '@/utils/timeUtils';
+import { useSettings } from '@/context/SettingsContext';
 
 export const useBlockedDatesUtils = (
   blockedDates: BlockedDate[],
   isTimeSlotAvailable: (date: Date, startTime: string, endTime: string) => boolean
 ) => {
+  const { operatingHours } = useSettings();
+
   // Check if a specific date is in the blocked dates array
   const isDateBlocked = (date: Date): boolean => {
     return blockedDates.some(blockedDate => 
@@ -18,11 +21,9 @@ export const useBlockedDatesUtils = (
 
   // Check if a date should be disabled in the calendar
   const disabledDays = (date: Date): boolean => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
+
     // Disable past dates
-    if (isBefore(date, today)) {
+    if (isBeforeQuinchoToday(date)) {
       return true;
     }
     
@@ -32,6 +33,7 @@ export const useBlockedDatesUtils = (
     }
     
     // Check if there's at least one available time slot for this date
+    const timeOptions = getTimeOptionsForDate(operatingHours, date);
     const anySlotAvailable = timeOptions.some(startTime => 
       timeOptions.some(endTime => 
         endTime > startTime && isTimeSlotAvailable(date, startTime, endTime)
@@ -2,7 +2,10 @@
 import { useState, useEffect, useRef } from 'react';
 import { toast } from "sonner";
 import { supabase } from '@/integrations/supabase/client';
+import { addYears } from 'date-fns';
 import { Reservation, BlockedDate } from '@/types/reservation';
+import { getRuleBlockedDays } from '@/lib/supabase';
+import { dateToFecha, fechaToDate } from '@/lib/dates';
 
 export const useReservationDataFetching = () => {
   // All state declarations first
@@ -38,14 +41,7 @@ export const useReservationDataFetching = () => {
 
       if (data) {
         const formattedData = data.map(item => {
-          
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          
-          const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+          const dateObj = fechaToDate(item.fecha);
           
           return {
             id: item.id,
@@ -60,6 +56,7 @@ export const useReservationDataFetching = () => {
             status: item.status || 'pending',
             admin_notes: item.admin_notes,
             affiliation: item.affiliation,
+            series_id: item.series_id ?? null,
             updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
             updated_by: item.updated_by || undefined
           };
@@ -80,9 +77,15 @@ export const useReservationDataFetching = () => {
     if (!mountedRef.current) return;
     
     try {
-      const { data, error } = await supabase
-        .from('blocked_dates')
-        .select('*');
+      // Recurring block rules are expanded into single days so the calendar
+      // and the availability checks treat them like any other blocked date
+      const today = new Date();
+      const [{ data, error }, ruleDays] = await Promise.all([
+        supabase
+          .from('blocked_dates')
+          .select('*'),
+        getRuleBlockedDays(dateToFecha(addYears(today, -1)), dateToFecha(addYears(today, 2))).catch(() => [])
+      ]);
 
       if (error) {
         return;
@@ -90,25 +93,33 @@ export const useReservationDataFetching = () => {
 
       if (data) {
         const formattedData = data.map(item => {
-          // Explicitly parse the date with local timezone consideration
-          const parts = item.fecha.split('-');
-          const year = parseInt(parts[0], 10);
-          const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-          const day = parseInt(parts[2], 10);
-          
-          const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
+          const dateObj = fechaToDate(item.fecha);
           
           return {
             id: item.id,
             fecha: dateObj,
             motivo: item.motivo,
             created_at: new Date(item.created_at),
-            created_by: item.created_by
+            created_by: item.created_by,
+            start_time: item.start_time?.substring(0, 5) || undefined,
+            end_time: item.end_time?.substring(0, 5) || undefined
+          };
+        });
+
+        const ruleBlockedDates: BlockedDate[] = ruleDays.map(day => {
+          return {
+            id: `rule-${day.rule_id}-${day.fecha}`,
+            fecha: fechaToDate(day.fecha),
+            motivo: day.motivo,
+            created_at: today,
+            created_by: null,
+            start_time: day.start_time?.substring(0, 5) || undefined,
+            end_time: day.end_time?.substring(0, 5) || undefined
           };
         });
         
         safeUpdate(() => {
-          setBlockedDates(formattedData);
+          setBlockedDates([...formattedData, ...ruleBlockedDates]);
         });
       }
     } catch (error) {
@@ -181,10 +192,21 @@ export const useReservationDataFetching = () => {
         // Blocked dates channel status changed
       });
 
+    const blockRulesChannel = supabase
+      .channel('blocked_date_rules_realtime')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'blocked_date_rules' },
+        () => {
+          fetchBlockedDates();
+        }
+      )
+      .subscribe();
+
     return () => {
       mountedRef.current = false;
       supabase.removeChannel(reservationsChannel);
       supabase.removeChannel(blockedDatesChannel);
+      supabase.removeChannel(blockRulesChannel);
     };
   }, []);
 
@@ -1,10 +1,18 @@
 
 import { useState } from 'react';
-import { isValidEmail } from '@/utils/timeUtils';
+import { bookingContactSchema, getFieldErrors } from '@/lib/validation';
 import { toast } from 'sonner';
 import { startOfDay, isBefore } from 'date-fns';
+import { RecurrenceEndType } from '@/types/reservation';
+import { MAX_RECURRENCE_OCCURRENCES } from '@/utils/recurrenceUtils';
+import { getDocumentationRequirements } from '@/utils/capacityUtils';
+import { useSettings } from '@/context/SettingsContext';
+import { getBookingPolicyMessage, isBeyondHorizon, violatesLeadTime } from '@/utils/bookingPolicyUtils';
+import { isBeforeQuinchoToday, isSlotPast, todayAtQuincho, dateToFecha } from '@/lib/dates';
 
 export const useReservationFormState = () => {
+  const { maxPersonas, capacityRules, bookingPolicies } = useSettings();
+
   // Form state
   const [responsable, setResponsable] = useState('');
   const [email, setEmail] = useState('');
@@ -14,24 +22,31 @@ export const useReservationFormState = () => {
   const [fin, setFin] = useState('');
   const [personas, setPersonas] = useState('');
   const [affiliation, setAffiliation] = useState('');
+  const [documentation, setDocumentation] = useState('');
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
+  const [recurrenceEndType, setRecurrenceEndType] = useState<RecurrenceEndType>('count');
+  const [recurrenceCount, setRecurrenceCount] = useState('4');
+  const [recurrenceUntil, setRecurrenceUntil] = useState<Date | undefined>(undefined);
+  // Admins booking on someone's behalf may skip the booking policies
+  const [overridePolicies, setOverridePolicies] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
+  // Capacity rules asking for extra information at this headcount and affiliation
+  const documentationRequirements = getDocumentationRequirements(capacityRules, Number(personas), affiliation);
+
   // Form validation
   const validateForm = () => {
-    const errors: Record<string, string> = {};
-    
-    if (!responsable.trim()) {
-      errors.responsable = 'El nombre es obligatorio';
-    }
-    
-    if (!email.trim()) {
-      errors.email = 'El correo electrónico es obligatorio';
-    } else if (!isValidEmail(email)) {
-      errors.email = 'Ingrese un correo electrónico válido';
+    // Contact fields use the same schema as the request sent to the server
+    const contact = bookingContactSchema.safeParse({ responsable, email, motivo, personas, affiliation, documentation });
+    const errors: Record<string, string> = contact.success ? {} : getFieldErrors(contact.error);
+
+    if (!errors.personas && Number(personas) > maxPersonas) {
+      errors.personas = `La capacidad máxima del quincho es de ${maxPersonas} personas`;
     }
-    
-    if (!motivo.trim()) {
-      errors.motivo = 'El motivo es obligatorio';
+
+    if (documentationRequirements.length > 0 && !documentation.trim()) {
+      errors.documentation = 'Complete la información requerida';
     }
 
     if (!affiliation) {
@@ -41,19 +56,21 @@ export const useReservationFormState = () => {
     if (!fecha) {
       errors.fecha = 'La fecha es obligatoria';
     } else {
-      if (isBefore(fecha, startOfDay(new Date()))) {
+      if (isBeforeQuinchoToday(fecha)) {
         errors.fecha = 'No se pueden realizar reservas para fechas pasadas';
+      } else if (!overridePolicies && isBeyondHorizon(bookingPolicies, fecha)) {
+        errors.fecha = getBookingPolicyMessage('BEYOND_HORIZON', bookingPolicies)!;
       }
     }
     
     if (!inicio) {
       errors.inicio = 'La hora de inicio es obligatoria';
-    } else if (fecha && isToday(fecha)) {
-      const currentTime = new Date();
-      const [hours, minutes] = inicio.split(':').map(Number);
-      if (currentTime.getHours() > hours || (currentTime.getHours() === hours && currentTime.getMinutes() > minutes)) {
-        errors.inicio = 'No se pueden realizar reservas para horarios pasados';
-      }
+    } else if (fecha && !errors.fecha && isSlotPast(fecha, inicio)) {
+      errors.inicio = 'No se pueden realizar reservas para horarios pasados';
+    }
+    if (!errors.inicio && !errors.fecha && fecha && inicio && !overridePolicies &&
+        violatesLeadTime(bookingPolicies, fecha, inicio)) {
+      errors.inicio = getBookingPolicyMessage('LEAD_TIME', bookingPolicies)!;
     }
     
     if (!fin) {
@@ -61,22 +78,26 @@ export const useReservationFormState = () => {
     } else if (inicio && fin && fin <= inicio) {
       errors.fin = 'La hora de fin debe ser posterior a la hora de inicio';
     }
-    
-    if (!personas || isNaN(Number(personas)) || Number(personas) <= 0) {
-      errors.personas = 'Ingrese un número válido de personas';
+
+    if (isRecurring) {
+      if (recurrenceEndType === 'count') {
+        const count = Number(recurrenceCount);
+        if (!Number.isInteger(count) || count < 2 || count > MAX_RECURRENCE_OCCURRENCES) {
+          errors.recurrence = `La cantidad de repeticiones debe estar entre 2 y ${MAX_RECURRENCE_OCCURRENCES}`;
+        }
+      } else if (!recurrenceUntil) {
+        errors.recurrence = 'Seleccione la fecha de finalización de la serie';
+      } else if (fecha && !isBefore(startOfDay(fecha), startOfDay(recurrenceUntil))) {
+        errors.recurrence = 'La fecha de finalización debe ser posterior a la fecha de inicio';
+      }
     }
     
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
-  // Helper function to check if two dates are the same day
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return date.getDate() === today.getDate() && 
-           date.getMonth() === today.getMonth() && 
-           date.getFullYear() === today.getFullYear();
-  };
+  // Whether the date is today at the quincho
+  const isToday = (date: Date) => dateToFecha(date) === todayAtQuincho();
 
   return {
     formState: {
@@ -96,6 +117,22 @@ export const useReservationFormState = () => {
       setPersonas,
       affiliation,
       setAffiliation,
+      documentation,
+      setDocumentation,
+      documentationRequirements,
+      maxPersonas,
+      isRecurring,
+      setIsRecurring,
+      recurrenceInterval,
+      setRecurrenceInterval,
+      recurrenceEndType,
+      setRecurrenceEndType,
+      recurrenceCount,
+      setRecurrenceCount,
+      recurrenceUntil,
+      setRecurrenceUntil,
+      overridePolicies,
+      setOverridePolicies,
       formErrors
     },
     validateForm,
@@ -1,118 +1,105 @@
 import { toast } from "sonner";
 import { supabase } from '@/integrations/supabase/client';
-import { deleteReservation as libDeleteReservation } from '@/lib/supabase';
-import { Reservation } from '@/types/reservation';
+import {
+  createReservation,
+  createReservationSeries,
+  deleteReservation as libDeleteReservation,
+  SeriesReservationInput
+} from '@/lib/supabase';
+import { Reservation, RecurrenceRule, SeriesPolicyRejection } from '@/types/reservation';
 import { logger } from '@/utils/logger';
+import { fechaToDate } from '@/lib/dates';
 
 export const useReservationMutations = (fetchReservations: () => Promise<void>) => {
-  const addReservation = async (newReservation: Omit<Reservation, 'id' | 'createdAt'>): Promise<Reservation | null> => {
-    try {
-      // Format the date correctly to prevent timezone issues
-      // Get year, month, day components directly from the Date object
-      const year = newReservation.fecha.getFullYear();
-      const month = String(newReservation.fecha.getMonth() + 1).padStart(2, '0');
-      const day = String(newReservation.fecha.getDate()).padStart(2, '0');
-      const formattedDate = `${year}-${month}-${day}`;
-
-      // Create an insert object with optional affiliation
-        const insertData: any = {
-        responsable: newReservation.responsable,
-        email: newReservation.email,
-        motivo: newReservation.motivo,
-        fecha: formattedDate, // Use our formatted date string
-        inicio: newReservation.inicio,
-        fin: newReservation.fin,
-        personas: newReservation.personas,
-        status: 'pending',
-        confirmed: false, // Starts unconfirmed, requires email confirmation
-        token_expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
-      };
-      
-      // Only add affiliation if it exists
-      if (newReservation.affiliation) {
-        insertData.affiliation = newReservation.affiliation;
-      }
-
-      const { data, error } = await supabase
-        .from('reservations')
-        .insert(insertData)
-        .select();
+  // Throws the error code returned by create_reservation (SLOT_TAKEN,
+  // DATE_BLOCKED...); useReservationSubmit turns it into a message
+  const addReservation = async (
+    newReservation: Omit<Reservation, 'id' | 'createdAt'>,
+    options: { overridePolicies?: boolean } = {}
+  ): Promise<Reservation | null> => {
+    // Format the date correctly to prevent timezone issues
+    // Get year, month, day components directly from the Date object
+    const year = newReservation.fecha.getFullYear();
+    const month = String(newReservation.fecha.getMonth() + 1).padStart(2, '0');
+    const day = String(newReservation.fecha.getDate()).padStart(2, '0');
+    const formattedDate = `${year}-${month}-${day}`;
 
-      if (error) {
-        // Check if it's an overlap constraint violation
-        if (error.code === '23P01' || error.message?.includes('reservations_no_overlap_excl')) {
-          throw new Error('SLOT_TAKEN');
-        }
-        throw error;
-      }
+    const created = await createReservation({
+      responsable: newReservation.responsable,
+      email: newReservation.email,
+      motivo: newReservation.motivo,
+      fecha: formattedDate, // Use our formatted date string
+      inicio: newReservation.inicio,
+      fin: newReservation.fin,
+      personas: newReservation.personas,
+      affiliation: newReservation.affiliation || null,
+      documentation: newReservation.documentation || null
+    }, undefined, options);
 
-      if (data && data[0]) {
-        // Send confirmation email (fire-and-forget for instant response)
-        supabase.functions.invoke('send-email', {
-          body: {
-            type: 'confirm-reservation',
-            recipient: data[0].email,
-            reservation: {
-              id: data[0].id,
-              responsable: data[0].responsable,
-              email: data[0].email,
-              motivo: data[0].motivo,
-              fecha: data[0].fecha,
-              inicio: data[0].inicio,
-              fin: data[0].fin,
-              personas: data[0].personas
-            },
-            confirmationToken: data[0].confirmation_token
-          }
-        }).catch((emailError) => {
-          logger.error('Failed to send confirmation email', emailError);
-          // Don't fail the reservation if email fails
-        });
-
-        // When creating the reservation object, ensure we parse the date correctly
-        // Explicitly parse the date with local timezone consideration
-        const parts = data[0].fecha.split('-');
-        const year = parseInt(parts[0], 10);
-        const month = parseInt(parts[1], 10) - 1; // Month is 0-indexed in JS
-        const day = parseInt(parts[2], 10);
-        const dateObj = new Date(year, month, day, 12, 0, 0); // Set to noon to avoid timezone issues
-        
-        const reservation: Reservation = {
-          id: data[0].id,
-          responsable: data[0].responsable,
-          email: data[0].email,
-          motivo: data[0].motivo,
-          fecha: dateObj,
-          inicio: data[0].inicio,
-          fin: data[0].fin,
-          personas: data[0].personas,
-          createdAt: new Date(data[0].created_at),
-          approved: data[0].approved,
-          status: data[0].status || (data[0].approved ? 'approved' : 'pending'),
-          admin_notes: data[0].admin_notes
-        };
-        
-        // Add affiliation only if it exists in the response
-        if ('affiliation' in data[0] && data[0].affiliation !== null) {
-          reservation.affiliation = data[0].affiliation as string;
-        }
-        
-        // Remove the toast from here to avoid duplication
-        // The calling component will handle user feedback
-        return reservation;
-      }
+    if (!created) {
       return null;
-    } catch (error) {
-      // Check if it's the slot taken error
-      if (error instanceof Error && error.message === 'SLOT_TAKEN') {
-        toast.error('Este horario ya fue reservado por otra persona. Por favor, elige otro horario.', {
-          duration: 6000,
-        });
-      } else {
-        toast.error('Error al crear la reserva');
+    }
+
+    // Send confirmation email (fire-and-forget for instant response)
+    supabase.functions.invoke('send-email', {
+      body: {
+        type: 'confirm-reservation',
+        recipient: created.email,
+        reservation: {
+          id: created.id,
+          responsable: created.responsable,
+          email: created.email,
+          motivo: created.motivo,
+          fecha: created.fecha,
+          inicio: created.inicio,
+          fin: created.fin,
+          personas: created.personas
+        },
+        confirmationToken: created.confirmation_token
       }
-      return null;
+    }).catch((emailError) => {
+      logger.error('Failed to send confirmation email', emailError);
+      // Don't fail the reservation if email fails
+    });
+
+    // When creating the reservation object, ensure we parse the date correctly
+    const dateObj = fechaToDate(created.fecha);
+
+    const reservation: Reservation = {
+      id: created.id,
+      responsable: created.responsable,
+      email: created.email,
+      motivo: created.motivo,
+      fecha: dateObj,
+      inicio: created.inicio,
+      fin: created.fin,
+      personas: created.personas,
+      createdAt: new Date(created.created_at),
+      approved: created.approved,
+      status: created.status || (created.approved ? 'approved' : 'pending'),
+      admin_notes: created.admin_notes
+    };
+
+    // Add affiliation only if it exists in the response
+    if (created.affiliation !== null && created.affiliation !== undefined) {
+      reservation.affiliation = created.affiliation as string;
     }
+
+    return reservation;
+  };
+
+  // Throws SERIES_NO_AVAILABLE_DATES or a create_reservation error code
+  const addReservationSeries = async (
+    newReservation: SeriesReservationInput,
+    rule: RecurrenceRule,
+    options: { overridePolicies?: boolean } = {}
+  ): Promise<{ created: number; conflicts: string[]; policyRejections: SeriesPolicyRejection[] } | null> => {
+    const result = await createReservationSeries(newReservation, rule, options);
+    return {
+      created: result.created.length,
+      conflicts: result.conflicts,
+      policyRejections: result.policyRejections
+    };
   };
 
   const deleteReservation = async (id: string, reason?: string): Promise<void> => {
@@ -162,6 +149,7 @@ export const useReservationMutations = (fetchReservations: () => Promise<void>)
 
   return {
     addReservation,
+    addReservationSeries,
     deleteReservation,
     updateReservation
   };
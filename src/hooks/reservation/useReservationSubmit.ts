@@ -5,6 +5,11 @@ import { useReservations } from '@/context/ReservationContext';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { RecurrenceRule } from '@/types/reservation';
+import { logger } from '@/utils/logger';
+import { getBookingPolicyMessage } from '@/utils/bookingPolicyUtils';
+import { useSettings } from '@/context/SettingsContext';
+import { fechaToDate } from '@/lib/dates';
 
 interface ReservationSubmitData {
   responsable: string;
@@ -15,13 +20,38 @@ interface ReservationSubmitData {
   fin: string;
   personas: number;
   affiliation: string;
+  documentation?: string | null;
+  recurrence?: RecurrenceRule | null;
+  overridePolicies?: boolean; // admin booking on someone's behalf
 }
 
+// Error codes returned by the create_reservation RPC (and the series helper)
+export const RESERVATION_ERROR_MESSAGES: Record<string, string> = {
+  INVALID_INPUT: 'Revise los datos ingresados: hay campos vacíos o demasiado largos.',
+  MISSING_FIELDS: 'Por favor, complete todos los campos requeridos.',
+  INVALID_EMAIL: 'El correo electrónico no es válido.',
+  INVALID_HEADCOUNT: 'Ingrese un número válido de personas.',
+  TOO_MANY_PEOPLE: 'La cantidad de personas supera la capacidad del quincho.',
+  DOCUMENTATION_REQUIRED: 'Para esta cantidad de personas debe completar la información adicional requerida.',
+  INVALID_TIME_RANGE: 'La hora de fin debe ser posterior a la hora de inicio.',
+  PAST_DATE: 'No se pueden realizar reservas para fechas u horarios pasados.',
+  CLOSED_DAY: 'El quincho no abre ese día.',
+  OUTSIDE_OPERATING_HOURS: 'El horario seleccionado está fuera del horario de atención.',
+  INVALID_DURATION: 'La duración de la reserva no respeta el mínimo o el máximo permitido.',
+  DATE_BLOCKED: 'Esta fecha u horario está bloqueado y no admite reservas.',
+  SLOT_TAKEN: 'Este horario ya fue reservado por otra persona. Por favor, elige otro horario o únete a la lista de espera.',
+  INVALID_SERIES: 'No se pudo crear la serie de reservas. Por favor, inténtelo de nuevo.',
+  RATE_LIMITED: 'Realizaste demasiadas solicitudes en poco tiempo. Por favor, espera una hora e inténtalo de nuevo.',
+  SERIES_NO_AVAILABLE_DATES: 'Ninguna de las fechas de la serie está disponible. Por favor, elige otro horario.',
+  OVERRIDE_NOT_ALLOWED: 'No tiene permiso para omitir las políticas de reserva.'
+};
+
 export const useReservationSubmit = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submissionSuccess, setSubmissionSuccess] = useState(false);
   const reservationContext = useReservations();
-  const { addReservation } = useReservationMutations(async () => {
+  const { bookingPolicies } = useSettings();
+  const { addReservation, addReservationSeries } = useReservationMutations(async () => {
     // Placeholder function since the actual fetchReservations is not available
     // This will be called after a successful reservation
   });
@@ -51,6 +81,59 @@ export const useReservationSubmit = () => {
       const formattedStart = data.inicio;
       const formattedEnd = data.fin;
 
+      if (data.recurrence) {
+        const seriesResult = await addReservationSeries({
+          responsable: data.responsable,
+          email: data.email,
+          motivo: data.motivo,
+          fecha: data.fecha,
+          inicio: data.inicio,
+          fin: data.fin,
+          personas: data.personas,
+          affiliation: data.affiliation,
+          documentation: data.documentation
+        }, data.recurrence, { overridePolicies: data.overridePolicies });
+
+        setIsSubmitting(false);
+
+        if (!seriesResult) {
+          return false;
+        }
+
+        setSubmissionSuccess(true);
+
+        if (seriesResult.conflicts.length > 0) {
+          const skipped = seriesResult.conflicts
+            .map(date => format(fechaToDate(date), 'dd/MM/yyyy'))
+            .join(', ');
+          toast.warning(`Se omitieron ${seriesResult.conflicts.length} fecha(s) no disponibles: ${skipped}`, {
+            duration: 10000,
+          });
+        }
+
+        if (seriesResult.policyRejections.length > 0) {
+          const rejected = seriesResult.policyRejections
+            .map(({ fecha, error }) => {
+              const date = format(fechaToDate(fecha), 'dd/MM/yyyy');
+              const reason = getBookingPolicyMessage(error, bookingPolicies);
+              return reason ? `${date} (${reason})` : date;
+            })
+            .join(', ');
+          toast.warning(`Se omitieron ${seriesResult.policyRejections.length} fecha(s) por las políticas de reserva: ${rejected}`, {
+            duration: 10000,
+          });
+        }
+
+        toast.success(
+          `¡Revisa tu correo para confirmar la serie de ${seriesResult.created} reservas! 
+          Hemos enviado un enlace de confirmación a ${data.email}.`,
+          {
+            duration: 8000,
+          }
+        );
+        return true;
+      }
+
       // Submit the reservation
       const result = await addReservation({
         responsable: data.responsable,
@@ -60,8 +143,9 @@ export const useReservationSubmit = () => {
         inicio: data.inicio,
         fin: data.fin,
         personas: data.personas,
-        affiliation: data.affiliation
-      });
+        affiliation: data.affiliation,
+        documentation: data.documentation
+      }, { overridePolicies: data.overridePolicies });
 
       if (result) {
         // Set success immediately before showing toast
@@ -82,7 +166,14 @@ export const useReservationSubmit = () => {
         return false;
       }
     } catch (error) {
-      toast.error('Error al procesar la reserva. Por favor, inténtelo de nuevo.');
+      const code = error instanceof Error ? error.message : '';
+      logger.error('Error creating reservation', error);
+      toast.error(
+        RESERVATION_ERROR_MESSAGES[code] ||
+          getBookingPolicyMessage(code, bookingPolicies) ||
+          'Error al procesar la reserva. Por favor, inténtelo de nuevo.',
+        { duration: 6000 }
+      );
       setIsSubmitting(false);
       return false;
     }
@@ -1,9 +1,17 @@
 
 import { useState, useEffect } from 'react';
-import { timeOptions } from '@/utils/timeUtils';
-import { isToday as isDateToday } from 'date-fns';
 import { Reservation } from '@/types/reservation';
-import { isSameDay } from '@/utils/timeUtils';
+import {
+  isSameDay,
+  getDaySchedule,
+  getTimeOptionsForDate,
+  isValidDuration,
+  minutesToTime,
+  timeToMinutes
+} from '@/utils/timeUtils';
+import { useSettings } from '@/context/SettingsContext';
+import { violatesLeadTime } from '@/utils/bookingPolicyUtils';
+import { isSlotPast } from '@/lib/dates';
 
 export const useTimeSlotAvailability = (
   fecha: Date | undefined, 
@@ -12,30 +20,31 @@ export const useTimeSlotAvailability = (
   fin: string,
   setFin: (value: string) => void,
   reservations: Reservation[],
-  isTimeSlotAvailable: (date: Date, startTime: string, endTime: string, excludeId?: string) => boolean
+  isTimeSlotAvailable: (date: Date, startTime: string, endTime: string, excludeId?: string) => boolean,
+  overridePolicies = false
 ) => {
+  const { operatingHours, bookingPolicies } = useSettings();
+
   // Available times based on reservations
-  const [availableTimes, setAvailableTimes] = useState<string[]>(timeOptions);
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
   const [availableEndTimes, setAvailableEndTimes] = useState<string[]>([]);
 
   // Update available times based on selected date and existing reservations
   useEffect(() => {
     if (fecha) {
-      let filteredTimeOptions = [...timeOptions];
-      if (isDateToday(fecha)) {
-        const currentTime = new Date();
-        const currentHour = currentTime.getHours();
-        const currentMinute = currentTime.getMinutes();
-        
-        filteredTimeOptions = timeOptions.filter(time => {
-          const [hours, minutes] = time.split(':').map(Number);
-          return hours > currentHour || (hours === currentHour && minutes > currentMinute);
-        });
+      const timeOptions = getTimeOptionsForDate(operatingHours, fecha);
+      // Times that already started at the quincho, whatever the device's time zone
+      let filteredTimeOptions = timeOptions.filter(time => !isSlotPast(fecha, time));
+
+      // Start times inside the minimum lead time can't be booked
+      if (!overridePolicies) {
+        filteredTimeOptions = filteredTimeOptions.filter(time => !violatesLeadTime(bookingPolicies, fecha, time));
       }
       
       const availableTimes = filteredTimeOptions.filter(time => {
         return filteredTimeOptions.some(endTime => {
           if (endTime <= time) return false;
+          if (!isValidDuration(operatingHours, time, endTime)) return false;
           
           const hasOverlap = reservations.some(reservation => {
             if (!isSameDay(reservation.fecha, fecha)) return false;
@@ -65,21 +74,15 @@ export const useTimeSlotAvailability = (
         updateAvailableEndTimes(inicio);
       }
     }
-  }, [fecha, reservations, isTimeSlotAvailable, inicio, setInicio, setFin]);
+  }, [fecha, reservations, isTimeSlotAvailable, inicio, setInicio, setFin, operatingHours, bookingPolicies, overridePolicies]);
 
   // Auto-select end time based on start time
   useEffect(() => {
-    if (inicio && availableEndTimes.length > 0 && !fin) {
-      const [startHour, startMinute] = inicio.split(':').map(Number);
-      let endHour = startHour + 1;
-      let endMinute = startMinute;
-      
-      if (endHour > 22 || (endHour === 22 && endMinute > 0)) {
-        endHour = 22;
-        endMinute = 0;
-      }
-      
-      const defaultEndTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
+    if (fecha && inicio && availableEndTimes.length > 0 && !fin) {
+      // Default to one hour (or the minimum duration), without going past closing time
+      const closeMinutes = timeToMinutes(getDaySchedule(operatingHours, fecha).close);
+      const defaultDuration = Math.max(60, operatingHours.minDurationMinutes);
+      const defaultEndTime = minutesToTime(Math.min(timeToMinutes(inicio) + defaultDuration, closeMinutes));
       
       if (availableEndTimes.includes(defaultEndTime)) {
         setFin(defaultEndTime);
@@ -87,7 +90,7 @@ export const useTimeSlotAvailability = (
         setFin(availableEndTimes[0]);
       }
     }
-  }, [inicio, availableEndTimes, fin, setFin]);
+  }, [fecha, inicio, availableEndTimes, fin, setFin, operatingHours]);
 
   // Update available end times based on start time
   const updateAvailableEndTimes = (startTime: string) => {
@@ -96,8 +99,9 @@ export const useTimeSlotAvailability = (
       return;
     }
     
-    const endTimes = timeOptions.filter(time => {
+    const endTimes = getTimeOptionsForDate(operatingHours, fecha).filter(time => {
       if (time <= startTime) return false;
+      if (!isValidDuration(operatingHours, startTime, time)) return false;
       
       const hasOverlap = reservations.some(reservation => {
         if (!isSameDay(reservation.fecha, fecha)) return false;
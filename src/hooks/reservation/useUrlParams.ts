@@ -1,6 +1,7 @@
 
 import { useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
+import { fechaToDate } from '@/lib/dates';
 
 export const useUrlParams = (
   setFecha: (date: Date) => void,
@@ -28,13 +29,7 @@ export const useUrlParams = (
 
       if (fechaParam) {
         try {
-          // Parse the date directly without timezone conversion
-          // Create a Date object directly from the YYYY-MM-DD format
-          // Split the date string and recreate with consistent time component
-          const [year, month, day] = fechaParam.split('-').map(Number);
-          const newDate = new Date(year, month - 1, day, 12, 0, 0);
-          
-          setFecha(newDate);
+          setFecha(fechaToDate(fechaParam));
         } catch (error) {
           // Error parsing date
         }
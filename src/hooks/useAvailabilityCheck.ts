@@ -1,11 +1,14 @@
 
-import { isBefore } from 'date-fns';
 import { Reservation, BlockedDate } from '@/types/reservation';
+import { OperatingHours } from '@/types/settings';
+import { DEFAULT_OPERATING_HOURS, isWithinOperatingHours } from '@/utils/timeUtils';
+import { isSlotPast } from '@/lib/dates';
 import { useDateTimeUtils } from './useDateTimeUtils';
 
 export const useAvailabilityCheck = (
   reservations: Reservation[], 
-  blockedDates: BlockedDate[]
+  blockedDates: BlockedDate[],
+  operatingHours: OperatingHours = DEFAULT_OPERATING_HOURS
 ) => {
   const { timeToDate, isSameDay, isDateWithinBlockedPeriod, isTimeSlotWithinBlockedPeriod, doTimeRangesOverlap } = useDateTimeUtils();
 
@@ -25,19 +28,22 @@ export const useAvailabilityCheck = (
   };
 
   const isTimeSlotAvailable = (date: Date, startTime: string, endTime: string, excludeId?: string) => {
-    // Check if time is in the past
-    const now = new Date();
-    const slotStart = timeToDate(date, startTime);
-    
-    if (isBefore(slotStart, now)) {
+    // Check if time is in the past (at the quincho, not on this device)
+    if (isSlotPast(date, startTime)) {
       return false;
     }
     
     // Check if end time is before or equal to start time
+    const slotStart = timeToDate(date, startTime);
     const slotEnd = timeToDate(date, endTime);
     if (slotEnd <= slotStart) {
       return false;
     }
+
+    // Check that the slot is inside the opening hours of that weekday
+    if (!isWithinOperatingHours(operatingHours, date, startTime, endTime)) {
+      return false;
+    }
     
     // Check if time slot is blocked
     if (isTimeSlotBlocked(date, startTime, endTime)) {
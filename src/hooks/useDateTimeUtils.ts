@@ -34,11 +34,11 @@ export const useDateTimeUtils = () => {
     return start1 < end2 && end1 > start2;
   };
 
-  // Check if a date is within a blocked period
+  // Check if the whole date is blocked; partial blocks (a time window, e.g. a
+  // weekly cleaning rule) only block the overlapping time slots
   const isDateWithinBlockedPeriod = (date: Date, blockedDates: BlockedDate[]): boolean => {
     return blockedDates.some(blockedDate => {
-      // Use our improved isSameDay comparison
-      return isSameDay(date, blockedDate.fecha);
+      return isSameDay(date, blockedDate.fecha) && (!blockedDate.start_time || !blockedDate.end_time);
     });
   };
 
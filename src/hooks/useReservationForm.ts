@@ -5,6 +5,8 @@ import { useTimeSlotAvailability } from './reservation/useTimeSlotAvailability';
 import { useBlockedDates } from './reservation/useBlockedDates';
 import { useUrlParams } from './reservation/useUrlParams';
 import { useReservationSubmit } from './reservation/useReservationSubmit';
+import { RecurrenceRule } from '@/types/reservation';
+import { expandRecurrence } from '@/utils/recurrenceUtils';
 
 export const useReservationForm = (
   initialDate?: string | null,
@@ -24,9 +26,34 @@ export const useReservationForm = (
     fin, setFin,
     personas, setPersonas,
     affiliation, setAffiliation,
+    documentation,
+    documentationRequirements,
+    isRecurring,
+    recurrenceInterval,
+    recurrenceEndType,
+    recurrenceCount,
+    recurrenceUntil,
+    overridePolicies,
     formErrors
   } = formState;
 
+  // Build the recurrence rule from the form fields (null for one-off reservations)
+  const recurrenceRule: RecurrenceRule | null = isRecurring ? {
+    frequency: 'weekly',
+    interval: Number(recurrenceInterval) || 1,
+    endType: recurrenceEndType,
+    count: recurrenceEndType === 'count' ? Number(recurrenceCount) : undefined,
+    until: recurrenceEndType === 'until' ? recurrenceUntil : undefined
+  } : null;
+
+  // Preview every occurrence with its availability so conflicts are visible before submitting
+  const recurrencePreview = recurrenceRule && fecha && inicio && fin
+    ? expandRecurrence(fecha, recurrenceRule).map(date => ({
+        date,
+        available: isTimeSlotAvailable(date, inicio, fin)
+      }))
+    : [];
+
   // Handle URL parameters and initial values
   useUrlParams(setFecha, setInicio, setFin, fecha, initialDate, initialStartTime, initialEndTime);
   
@@ -38,11 +65,12 @@ export const useReservationForm = (
     fin,
     setFin,
     reservations,
-    isTimeSlotAvailable
+    isTimeSlotAvailable,
+    overridePolicies
   );
   
   // Get blocked dates
-  const { disabledDays } = useBlockedDates(isTimeSlotAvailable);
+  const { disabledDays } = useBlockedDates(isTimeSlotAvailable, overridePolicies);
 
   // Get submission handler
   const { submitReservation, isSubmitting, submissionSuccess } = useReservationSubmit();
@@ -59,7 +87,10 @@ export const useReservationForm = (
       inicio,
       fin,
       personas: Number(personas),
-      affiliation
+      affiliation,
+      documentation: documentationRequirements.length > 0 ? documentation : null,
+      recurrence: recurrenceRule,
+      overridePolicies
     }, validateForm);
   };
 
@@ -68,6 +99,7 @@ export const useReservationForm = (
     timeOptions,
     handleSubmit,
     disabledDays,
+    recurrencePreview,
     isSubmitting, 
     submissionSuccess
   };
@@ -9,6 +9,86 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      admins: {
+        Row: {
+          created_at: string
+          email: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      blocked_date_rules: {
+        Row: {
+          active: boolean
+          category: string
+          created_at: string
+          created_by: string | null
+          day: number | null
+          end_date: string | null
+          end_time: string | null
+          frequency: string
+          id: string
+          month: number | null
+          motivo: string
+          start_date: string | null
+          start_time: string | null
+          updated_at: string
+          weekdays: number[] | null
+        }
+        Insert: {
+          active?: boolean
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          day?: number | null
+          end_date?: string | null
+          end_time?: string | null
+          frequency: string
+          id?: string
+          month?: number | null
+          motivo: string
+          start_date?: string | null
+          start_time?: string | null
+          updated_at?: string
+          weekdays?: number[] | null
+        }
+        Update: {
+          active?: boolean
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          day?: number | null
+          end_date?: string | null
+          end_time?: string | null
+          frequency?: string
+          id?: string
+          month?: number | null
+          motivo?: string
+          start_date?: string | null
+          start_time?: string | null
+          updated_at?: string
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_date_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blocked_dates: {
         Row: {
           created_at: string
@@ -16,7 +96,9 @@ export type Database = {
           end_time: string | null
           fecha: string
           group_id: string | null
+          ical_sequence: number
           id: string
+          import_key: string | null
           motivo: string | null
           start_time: string | null
         }
@@ -26,7 +108,9 @@ export type Database = {
           end_time?: string | null
           fecha: string
           group_id?: string | null
+          ical_sequence?: number
           id?: string
+          import_key?: string | null
           motivo?: string | null
           start_time?: string | null
         }
@@ -36,11 +120,227 @@ export type Database = {
           end_time?: string | null
           fecha?: string
           group_id?: string | null
+          ical_sequence?: number
           id?: string
+          import_key?: string | null
           motivo?: string | null
           start_time?: string | null
         }
-        Relationships: [\n          {\n            foreignKeyName: \"blocked_dates_created_by_fkey\"\n            columns: [\"created_by\"]\n            isOneToOne: false\n            referencedRelation: \"profiles\"\n            referencedColumns: [\"id\"]\n          }\n        ]
+        Relationships: [
+          {
+            foreignKeyName: "blocked_dates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cancellations: {
+        Row: {
+          cancelled_by: string | null
+          created_at: string
+          id: string
+          previous_status: Database["public"]["Enums"]["reservation_status"] | null
+          reason: string | null
+          reservation_id: string
+          reservation_snapshot: Json | null
+        }
+        Insert: {
+          cancelled_by?: string | null
+          created_at?: string
+          id?: string
+          previous_status?: Database["public"]["Enums"]["reservation_status"] | null
+          reason?: string | null
+          reservation_id: string
+          reservation_snapshot?: Json | null
+        }
+        Update: {
+          cancelled_by?: string | null
+          created_at?: string
+          id?: string
+          previous_status?: Database["public"]["Enums"]["reservation_status"] | null
+          reason?: string | null
+          reservation_id?: string
+          reservation_snapshot?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellations_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cancellations_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      capacity_rules: {
+        Row: {
+          active: boolean
+          affiliations: string[] | null
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          max_personas: number | null
+          min_personas: number | null
+          name: string
+          requirement: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          affiliations?: string[] | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          max_personas?: number | null
+          min_personas?: number | null
+          name: string
+          requirement?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          affiliations?: string[] | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          max_personas?: number | null
+          min_personas?: number | null
+          name?: string
+          requirement?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "capacity_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          bounced_at: string | null
+          created_at: string
+          delivered_at: string | null
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          reservation_id: string | null
+          sent_at: string | null
+          status: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          bounced_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          reservation_id?: string | null
+          sent_at?: string | null
+          status?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          bounced_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          reservation_id?: string | null
+          sent_at?: string | null
+          status?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      expired_reservation_requests: {
+        Row: {
+          affiliation: string | null
+          expired_at: string
+          fecha: string
+          id: string
+          requested_at: string
+          reservation_id: string
+        }
+        Insert: {
+          affiliation?: string | null
+          expired_at?: string
+          fecha: string
+          id?: string
+          requested_at: string
+          reservation_id: string
+        }
+        Update: {
+          affiliation?: string | null
+          expired_at?: string
+          fecha?: string
+          id?: string
+          requested_at?: string
+          reservation_id?: string
+        }
+        Relationships: []
       }
       profiles: {
         Row: {
@@ -48,18 +348,356 @@ export type Database = {
           full_name: string | null
           id: string
           is_admin: boolean
+          is_guard: boolean
+          role: string
         }
         Insert: {
           created_at?: string
           full_name?: string | null
           id: string
           is_admin?: boolean
+          is_guard?: boolean
+          role?: string
         }
         Update: {
           created_at?: string
           full_name?: string | null
           id?: string
           is_admin?: boolean
+          is_guard?: boolean
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["role"]
+          },
+        ]
+      }
+      reminders_sent: {
+        Row: {
+          created_at: string
+          outbox_id: string | null
+          reservation_id: string
+          stage: string
+        }
+        Insert: {
+          created_at?: string
+          outbox_id?: string | null
+          reservation_id: string
+          stage: string
+        }
+        Update: {
+          created_at?: string
+          outbox_id?: string | null
+          reservation_id?: string
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminders_sent_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          admin_reply: string | null
+          attachments: string[]
+          category: string
+          created_at: string
+          description: string
+          email: string
+          id: string
+          name: string
+          replied_at: string | null
+          reservation_id: string | null
+          status: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          admin_reply?: string | null
+          attachments?: string[]
+          category: string
+          created_at?: string
+          description: string
+          email: string
+          id?: string
+          name: string
+          replied_at?: string | null
+          reservation_id?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          admin_reply?: string | null
+          attachments?: string[]
+          category?: string
+          created_at?: string
+          description?: string
+          email?: string
+          id?: string
+          name?: string
+          replied_at?: string | null
+          reservation_id?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_change_requests: {
+        Row: {
+          admin_response: string | null
+          created_at: string
+          id: string
+          message: string | null
+          previous_values: Json | null
+          proposed_fecha: string | null
+          proposed_fin: string | null
+          proposed_inicio: string | null
+          proposed_personas: number | null
+          requested_by: string | null
+          reservation_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          admin_response?: string | null
+          created_at?: string
+          id?: string
+          message?: string | null
+          previous_values?: Json | null
+          proposed_fecha?: string | null
+          proposed_fin?: string | null
+          proposed_inicio?: string | null
+          proposed_personas?: number | null
+          requested_by?: string | null
+          reservation_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          admin_response?: string | null
+          created_at?: string
+          id?: string
+          message?: string | null
+          previous_values?: Json | null
+          proposed_fecha?: string | null
+          proposed_fin?: string | null
+          proposed_inicio?: string | null
+          proposed_personas?: number | null
+          requested_by?: string | null
+          reservation_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_change_requests_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_change_requests_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_handovers: {
+        Row: {
+          checked_in_at: string | null
+          checked_in_by: string | null
+          checked_out_at: string | null
+          checked_out_by: string | null
+          created_at: string
+          damage_noted: boolean
+          damage_notes: string | null
+          grill_clean: boolean | null
+          key_handed_out_at: string | null
+          key_returned_at: string | null
+          no_show: boolean
+          notes: string | null
+          photos: string[]
+          reservation_id: string
+          trash_removed: boolean | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          checked_out_at?: string | null
+          checked_out_by?: string | null
+          created_at?: string
+          damage_noted?: boolean
+          damage_notes?: string | null
+          grill_clean?: boolean | null
+          key_handed_out_at?: string | null
+          key_returned_at?: string | null
+          no_show?: boolean
+          notes?: string | null
+          photos?: string[]
+          reservation_id: string
+          trash_removed?: boolean | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          checked_out_at?: string | null
+          checked_out_by?: string | null
+          created_at?: string
+          damage_noted?: boolean
+          damage_notes?: string | null
+          grill_clean?: boolean | null
+          key_handed_out_at?: string | null
+          key_returned_at?: string | null
+          no_show?: boolean
+          notes?: string | null
+          photos?: string[]
+          reservation_id?: string
+          trash_removed?: boolean | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_handovers_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_handovers_checked_out_by_fkey"
+            columns: ["checked_out_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_handovers_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: true
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservation_handovers_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_request_log: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          ip_address: string | null
+          series_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          ip_address?: string | null
+          series_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          ip_address?: string | null
+          series_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservation_request_log_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "reservation_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservation_series: {
+        Row: {
+          created_at: string
+          email: string
+          fin: string
+          frequency: string
+          id: string
+          inicio: string
+          interval_weeks: number
+          motivo: string
+          occurrence_count: number | null
+          responsable: string
+          start_date: string
+          until_date: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          fin: string
+          frequency?: string
+          id?: string
+          inicio: string
+          interval_weeks?: number
+          motivo: string
+          occurrence_count?: number | null
+          responsable: string
+          start_date: string
+          until_date?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          fin?: string
+          frequency?: string
+          id?: string
+          inicio?: string
+          interval_weeks?: number
+          motivo?: string
+          occurrence_count?: number | null
+          responsable?: string
+          start_date?: string
+          until_date?: string | null
         }
         Relationships: []
       }
@@ -68,52 +706,205 @@ export type Database = {
           admin_notes: string | null
           affiliation: string | null
           approved: boolean
+          auto_approval_rule_id: string | null
+          auto_approval_rule_name: string | null
+          auto_approved_at: string | null
+          confirmation_token: string | null
+          confirmed: boolean
           created_at: string
+          created_by_admin: string | null
+          documentation: string | null
+          documentation_required: string[] | null
           email: string
           fecha: string
           fin: string
+          ical_sequence: number
           id: string
           inicio: string
           motivo: string
           personas: number
+          policy_override_reason: string | null
           responsable: string
+          series_id: string | null
           status: Database["public"]["Enums"]["reservation_status"]
+          token_expires_at: string | null
           updated_at: string
           updated_by: string | null
+          user_id: string | null
         }
         Insert: {
           admin_notes?: string | null
           affiliation?: string | null
           approved?: boolean
+          auto_approval_rule_id?: string | null
+          auto_approval_rule_name?: string | null
+          auto_approved_at?: string | null
+          confirmation_token?: string | null
+          confirmed?: boolean
           created_at?: string
+          created_by_admin?: string | null
+          documentation?: string | null
+          documentation_required?: string[] | null
           email: string
           fecha: string
           fin: string
+          ical_sequence?: number
           id?: string
           inicio: string
           motivo: string
           personas: number
+          policy_override_reason?: string | null
           responsable: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["reservation_status"]
+          token_expires_at?: string | null
           updated_at?: string
           updated_by?: string | null
+          user_id?: string | null
         }
         Update: {
           admin_notes?: string | null
           affiliation?: string | null
           approved?: boolean
+          auto_approval_rule_id?: string | null
+          auto_approval_rule_name?: string | null
+          auto_approved_at?: string | null
+          confirmation_token?: string | null
+          confirmed?: boolean
           created_at?: string
+          created_by_admin?: string | null
+          documentation?: string | null
+          documentation_required?: string[] | null
           email?: string
           fecha?: string
           fin?: string
+          ical_sequence?: number
           id?: string
           inicio?: string
           motivo?: string
           personas?: number
+          policy_override_reason?: string | null
           responsable?: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["reservation_status"]
+          token_expires_at?: string | null
           updated_at?: string
           updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_auto_approval_rule_id_fkey"
+            columns: ["auto_approval_rule_id"]
+            isOneToOne: false
+            referencedRelation: "capacity_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "reservation_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_audit_log: {
+        Row: {
+          action: string
+          created_at: string
+          email: string | null
+          id: string
+          new_role: string | null
+          performed_by: string | null
+          previous_role: string | null
+          reason: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          new_role?: string | null
+          performed_by?: string | null
+          previous_role?: string | null
+          reason?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          new_role?: string | null
+          performed_by?: string | null
+          previous_role?: string | null
+          reason?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_audit_log_performed_by_fkey"
+            columns: ["performed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_audit_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: string
+        }
+        Insert: {
+          permission: string
+          role: string
+        }
+        Update: {
+          permission?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["role"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          description: string | null
+          label: string
+          role: string
+        }
+        Insert: {
+          description?: string | null
+          label: string
+          role: string
+        }
+        Update: {
+          description?: string | null
+          label?: string
+          role?: string
         }
         Relationships: []
       }
@@ -144,23 +935,348 @@ export type Database = {
         }
         Relationships: []
       }
+      submission_log: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          ip_address: string | null
+          kind: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          ip_address?: string | null
+          kind: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          ip_address?: string | null
+          kind?: string
+        }
+        Relationships: []
+      }
+      waitlist_entries: {
+        Row: {
+          affiliation: string | null
+          claim_expires_at: string | null
+          claim_token: string | null
+          claimed_at: string | null
+          claimed_reservation_id: string | null
+          created_at: string
+          email: string
+          fecha: string
+          fin: string
+          id: string
+          inicio: string
+          motivo: string
+          notified_at: string | null
+          personas: number
+          responsable: string
+          status: string
+        }
+        Insert: {
+          affiliation?: string | null
+          claim_expires_at?: string | null
+          claim_token?: string | null
+          claimed_at?: string | null
+          claimed_reservation_id?: string | null
+          created_at?: string
+          email: string
+          fecha: string
+          fin: string
+          id?: string
+          inicio: string
+          motivo: string
+          notified_at?: string | null
+          personas: number
+          responsable: string
+          status?: string
+        }
+        Update: {
+          affiliation?: string | null
+          claim_expires_at?: string | null
+          claim_token?: string | null
+          claimed_at?: string | null
+          claimed_reservation_id?: string | null
+          created_at?: string
+          email?: string
+          fecha?: string
+          fin?: string
+          id?: string
+          inicio?: string
+          motivo?: string
+          notified_at?: string | null
+          personas?: number
+          responsable?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_claimed_reservation_id_fkey"
+            columns: ["claimed_reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      reservations_with_details: {
+        Row: {
+          admin_notes: string | null
+          affiliation: string | null
+          approved: boolean | null
+          created_at: string | null
+          email: string | null
+          fecha: string | null
+          fin: string | null
+          id: string | null
+          inicio: string | null
+          motivo: string | null
+          personas: number | null
+          responsable: string | null
+          status: Database["public"]["Enums"]["reservation_status"] | null
+          status_text: string | null
+          updated_at: string | null
+          updated_by: string | null
+          updated_by_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      accept_reservation_change: {
+        Args: { p_request_id: string; p_response?: string }
+        Returns: Json
+      }
+      admin_create_reservation: {
+        Args: {
+          p_affiliation?: string
+          p_approve?: boolean
+          p_documentation?: string
+          p_email: string
+          p_fecha: string
+          p_fin: string
+          p_inicio: string
+          p_motivo: string
+          p_override_policies?: boolean
+          p_override_reason?: string
+          p_personas: number
+          p_responsable: string
+        }
+        Returns: Json
+      }
+      bootstrap_super_admin: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      claim_outbox_email: {
+        Args: { p_id: string }
+        Returns: {
+          attempts: number
+          bounced_at: string | null
+          created_at: string
+          delivered_at: string | null
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          reservation_id: string | null
+          sent_at: string | null
+          status: string
+          type: string
+          updated_at: string
+        }[]
+      }
+      claim_waitlist_spot: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      create_report: {
+        Args: {
+          p_category: string
+          p_description: string
+          p_email: string
+          p_name: string
+          p_photo_extensions?: string[]
+          p_reservation_id?: string
+        }
+        Returns: Json
+      }
+      create_reservation: {
+        Args: {
+          p_affiliation?: string
+          p_confirmation_token?: string
+          p_documentation?: string
+          p_email: string
+          p_fecha: string
+          p_fin: string
+          p_inicio: string
+          p_motivo: string
+          p_override_policies?: boolean
+          p_personas: number
+          p_responsable: string
+          p_series_id?: string
+        }
+        Returns: Json
+      }
+      create_reservation_series: {
+        Args: {
+          p_affiliation?: string
+          p_documentation?: string
+          p_email: string
+          p_fin: string
+          p_inicio: string
+          p_interval_weeks: number
+          p_motivo: string
+          p_occurrence_count?: number
+          p_override_policies?: boolean
+          p_personas: number
+          p_responsable: string
+          p_start_date: string
+          p_until_date?: string
+        }
+        Returns: Json
+      }
+      enqueue_due_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email_id: string
+          reminder_stage: string
+        }[]
+      }
+      expand_block_rules: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          category: string
+          end_time: string
+          fecha: string
+          motivo: string
+          rule_id: string
+          start_time: string
+        }[]
+      }
+      expire_waitlist_claims: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_calendar_feed_token: {
+        Args: { p_regenerate?: boolean }
+        Returns: string
+      }
+      get_max_personas: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_my_access: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
       get_profile_by_user_id: {
         Args: { user_id: string }
         Returns: {
           created_at: string
-          full_name: string | null
+          full_name: string
           id: string
           is_admin: boolean
         }[]
       }
-      is_admin_email: {
-        Args: { user_email: string }
-        Returns: boolean | null
+      get_usage_statistics: {
+        Args: {
+          p_from: string
+          p_period?: string
+          p_to: string
+        }
+        Returns: Json
+      }
+      has_permission: {
+        Args: { p_permission: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_slot_blocked: {
+        Args: {
+          p_fecha: string
+          p_fin: string
+          p_inicio: string
+        }
+        Returns: boolean
+      }
+      is_staff: {
+        Args: { user_id: string }
+        Returns: boolean
+      }
+      join_waitlist: {
+        Args: {
+          p_affiliation?: string
+          p_email: string
+          p_fecha: string
+          p_fin: string
+          p_inicio: string
+          p_motivo: string
+          p_personas: number
+          p_responsable: string
+        }
+        Returns: Json
+      }
+      list_users_with_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          email: string
+          email_confirmed: boolean
+          full_name: string
+          id: string
+          invited_at: string
+          last_sign_in_at: string
+          role: string
+        }[]
+      }
+      mark_no_show_reservations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      preview_block_rule: {
+        Args: { p_rule: Json }
+        Returns: {
+          email: string
+          fecha: string
+          fin: string
+          id: string
+          inicio: string
+          motivo: string
+          responsable: string
+          status: string
+        }[]
+      }
+      retry_outbox_email: {
+        Args: { p_id: string }
+        Returns: boolean
+      }
+      set_user_role: {
+        Args: {
+          p_reason?: string
+          p_role: string
+          p_user_id: string
+        }
+        Returns: undefined
       }
     }
     Enums: {
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { dateToFecha, fechaToDate, formatLongDate, localToUtc, utcToLocal } from '@/lib/dates';
+
+// Paraguay still switched between UTC-4 and UTC-3 in 2023:
+//   2023-03-26 00:00 (UTC-3) -> 2023-03-25 23:00 (UTC-4): 23:00-23:59 happen twice
+//   2023-10-01 00:00 (UTC-4) -> 2023-10-01 01:00 (UTC-3): 00:00-00:59 never happen
+
+describe('localToUtc', () => {
+  it('uses the offset in force on each side of the October transition', () => {
+    expect(localToUtc('2023-09-30', '23:30').toISOString()).toBe('2023-10-01T03:30:00.000Z');
+    expect(localToUtc('2023-10-01', '01:00').toISOString()).toBe('2023-10-01T04:00:00.000Z');
+    expect(localToUtc('2023-10-01', '12:00').toISOString()).toBe('2023-10-01T15:00:00.000Z');
+  });
+
+  it('moves a skipped time forward by the gap', () => {
+    expect(localToUtc('2023-10-01', '00:00').toISOString()).toBe('2023-10-01T04:00:00.000Z');
+    expect(localToUtc('2023-10-01', '00:30').toISOString()).toBe('2023-10-01T04:30:00.000Z');
+  });
+
+  it('uses the offset in force on each side of the March transition', () => {
+    expect(localToUtc('2023-03-25', '12:00').toISOString()).toBe('2023-03-25T15:00:00.000Z');
+    expect(localToUtc('2023-03-26', '00:00').toISOString()).toBe('2023-03-26T04:00:00.000Z');
+    expect(localToUtc('2023-03-26', '12:00').toISOString()).toBe('2023-03-26T16:00:00.000Z');
+  });
+
+  it('resolves a repeated time to the first one', () => {
+    expect(localToUtc('2023-03-25', '23:00').toISOString()).toBe('2023-03-26T02:00:00.000Z');
+    expect(localToUtc('2023-03-25', '23:30').toISOString()).toBe('2023-03-26T02:30:00.000Z');
+  });
+
+  it('accepts times with seconds', () => {
+    expect(localToUtc('2023-10-01', '12:00:00').toISOString()).toBe('2023-10-01T15:00:00.000Z');
+  });
+});
+
+describe('utcToLocal', () => {
+  it('jumps from 23:59 to 01:00 in October', () => {
+    expect(utcToLocal(new Date('2023-10-01T03:59:00Z'))).toEqual({ fecha: '2023-09-30', time: '23:59' });
+    expect(utcToLocal(new Date('2023-10-01T04:00:00Z'))).toEqual({ fecha: '2023-10-01', time: '01:00' });
+  });
+
+  it('shows the repeated hour twice in March', () => {
+    expect(utcToLocal(new Date('2023-03-26T02:30:00Z'))).toEqual({ fecha: '2023-03-25', time: '23:30' });
+    expect(utcToLocal(new Date('2023-03-26T03:00:00Z'))).toEqual({ fecha: '2023-03-25', time: '23:00' });
+    expect(utcToLocal(new Date('2023-03-26T03:30:00Z'))).toEqual({ fecha: '2023-03-25', time: '23:30' });
+    expect(utcToLocal(new Date('2023-03-26T04:00:00Z'))).toEqual({ fecha: '2023-03-26', time: '00:00' });
+  });
+
+  it('round-trips every existing time around both transitions', () => {
+    for (const [fecha, times] of [
+      ['2023-10-01', ['01:00', '01:30', '12:00', '23:59']],
+      ['2023-09-30', ['00:00', '12:00', '23:59']],
+      ['2023-03-26', ['00:00', '00:30', '12:00']],
+      ['2023-03-25', ['12:00', '22:59']],
+    ] as const) {
+      for (const time of times) {
+        expect(utcToLocal(localToUtc(fecha, time))).toEqual({ fecha, time });
+      }
+    }
+  });
+});
+
+describe('formatLongDate', () => {
+  it('names the day of a transition date', () => {
+    expect(formatLongDate('2023-10-01')).toBe('domingo, 1 de octubre de 2023');
+    expect(formatLongDate('2023-03-26')).toBe('domingo, 26 de marzo de 2023');
+  });
+
+  it('keeps the day next to a transition', () => {
+    expect(formatLongDate('2023-09-30')).toBe('sábado, 30 de septiembre de 2023');
+    expect(formatLongDate('2023-03-25')).toBe('sábado, 25 de marzo de 2023');
+  });
+});
+
+describe('fechaToDate / dateToFecha', () => {
+  it('keeps the calendar day of a transition date', () => {
+    const date = fechaToDate('2023-10-01');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2023, 9, 1, 12]);
+    expect(dateToFecha(date)).toBe('2023-10-01');
+  });
+
+  it('round-trips the days around both transitions', () => {
+    for (const fecha of ['2023-03-25', '2023-03-26', '2023-09-30', '2023-10-01', '2023-12-31', '2024-01-01']) {
+      expect(dateToFecha(fechaToDate(fecha))).toBe(fecha);
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { startOfDay } from 'date-fns';
+import { isPastAtQuincho, todayAtQuincho } from '../../supabase/functions/_shared/dates';
+
+// The date helpers live next to the Edge Functions so emails, the calendar
+// feed and the app agree on what "today" and "already started" mean
+export * from '../../supabase/functions/_shared/dates';
+
+// A fecha from the database (YYYY-MM-DD) as the local Date the calendars use,
+// at noon so that no time zone or DST shift moves it to another day
+export const fechaToDate = (fecha: string): Date => {
+  const [year, month, day] = fecha.split('-').map(Number);
+  return new Date(year, month - 1, day, 12, 0, 0);
+};
+
+// A local Date of the calendars as the fecha stored in the database
+export const dateToFecha = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Today at the quincho as a local Date at midnight, to compare with the days
+// shown by the calendars (which are local Dates)
+export const startOfQuinchoToday = (now = new Date()): Date => {
+  const [year, month, day] = todayAtQuincho(now).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Whether a day of the calendars is before today at the quincho
+export const isBeforeQuinchoToday = (date: Date, now = new Date()): boolean =>
+  startOfDay(date) < startOfQuinchoToday(now);
+
+// Whether the day (a local Date or YYYY-MM-DD) at the given time has already
+// passed at the quincho
+export const isSlotPast = (date: Date | string, time: string, now = new Date()): boolean =>
+  isPastAtQuincho(typeof date === 'string' ? date : dateToFecha(date), time, now);
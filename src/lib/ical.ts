@@ -0,0 +1,4 @@
+// The iCalendar helpers live next to the Edge Functions so the downloaded
+// .ics, the calendar feed and the emails build the same events (same UID and
+// SEQUENCE), and calendar apps treat them as one
+export * from '../../supabase/functions/_shared/ical';
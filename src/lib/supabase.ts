@@ -1,45 +1,55 @@
 import { supabase as integrationsSupabase } from '@/integrations/supabase/client';
-import { Reservation } from './types';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import {
+  ChangeRequestStatus,
+  OwnReservation,
+  RecurrenceRule,
+  Reservation as AppReservation,
+  ReservationCancellation,
+  ReservationChangeProposal,
+  ReservationChangeRequest,
+  SeriesPolicyRejection
+} from '@/types/reservation';
+import { BookingPolicies, OperatingHours, ReminderSchedule } from '@/types/settings';
+import { NewReport, Report, ReportCategory, ReportStatus } from '@/types/report';
+import { ClaimWaitlistResult, NewWaitlistEntry, WaitlistEntry, WaitlistStatus } from '@/types/waitlist';
+import { ExportFilters, ExportRow } from '@/types/export';
+import { StatisticsPeriod, UsageStatistics } from '@/types/statistics';
+import { HandoverCheckIn, HandoverCheckOut, HandoverReservation, ReservationHandover } from '@/types/handover';
+import { AppRole, ManagedUser, RoleAuditAction, RoleAuditEntry, UserAccess } from '@/types/roles';
+import {
+  BlockRule,
+  BlockRuleCategory,
+  BlockRuleConflict,
+  BlockRuleFrequency,
+  NewBlockRule,
+  RuleBlockedDay
+} from '@/types/blockRule';
+import { BlockImportEntry, BlockImportPreview } from '@/types/blockImport';
+import { CapacityRule, CapacityRuleKind, NewCapacityRule } from '@/types/capacity';
+import { EmailOutboxEntry, EmailOutboxStatus } from '@/types/email';
 import { logger } from '@/utils/logger';
+import { describeRecurrence } from '@/utils/recurrenceUtils';
+import { OPERATING_HOURS_SETTING_KEY, parseOperatingHours } from '@/utils/timeUtils';
+import { DEFAULT_MAX_PERSONAS } from '@/utils/capacityUtils';
+import {
+  BOOKING_POLICIES_SETTING_KEY,
+  isBookingPolicyError,
+  parseBookingPolicies
+} from '@/utils/bookingPolicyUtils';
+import { parseReminderSchedule, REMINDER_SCHEDULE_SETTING_KEY } from '@/utils/reminderUtils';
+import { optionalTextSchema, parseInput, reportInputSchema, reservationInputSchema } from '@/lib/validation';
+import { dateToFecha, fechaToDate } from '@/lib/dates';
 
 // Use the single, generated Supabase client to avoid multiple
 // GoTrueClient instances in the browser (prevents storage/key conflicts).
 export const supabase = integrationsSupabase;
 
-// Helper function to sanitize inputs before sending to the database
-export function sanitizeInput(input: string | null | undefined): string {
-  if (input === null || input === undefined) {
-    return '';
-  }
-  
-  // Remove SQL injection patterns but allow spaces
-  return input
-    .replace(/['";]/g, '') // Remove quotes and semicolons
-    .replace(/--/g, '')    // Remove comment markers
-    .replace(/\/\*/g, '')  // Remove comment start
-    .replace(/\*\//g, '')  // Remove comment end
-    .replace(/\bdrop\b/gi, '')
-    .replace(/\bdelete\b/gi, '')
-    .replace(/\bupdate\b/gi, '')
-    .replace(/\binsert\b/gi, '')
-    .replace(/\bselect\b/gi, '')
-    .trim();
-}
-
-// Sanitize reservation object fields
-function sanitizeReservation(reservation: any): any {
-  const result: any = {};
-  
-  for (const [key, value] of Object.entries(reservation)) {
-    if (typeof value === 'string') {
-      result[key] = sanitizeInput(value);
-    } else {
-      result[key] = value;
-    }
-  }
-  
-  return result;
-}
+type ReservationRow = Tables<'reservations'>;
+
+// JSONB returned by the reservation RPCs: the payload on success, an error
+// code otherwise
+type RpcResult<T> = { success: boolean; error?: string } & T;
 
 // Reservation functions
 export async function getReservations() {
@@ -55,7 +65,7 @@ export async function getReservations() {
     }
     
     // Normalize DB columns to application shape where needed
-    return (data || []).map((item: any) => ({
+    return (data || []).map(item => ({
       ...item,
       horaInicio: item.inicio,
       horaFin: item.fin,
@@ -67,74 +77,94 @@ export async function getReservations() {
   }
 }
 
-export async function createReservation(reservation: Omit<Reservation, 'id' | 'createdAt'>) {
-  try {
-    // Sanitize inputs
-    const sanitizedReservation = sanitizeReservation(reservation);
-    
-    // Check if the time slot is available before creating
-    const isAvailable = await checkAvailability(
-      sanitizedReservation.fecha,
-      sanitizedReservation.inicio || sanitizedReservation.horaInicio,
-      sanitizedReservation.fin || sanitizedReservation.horaFin
-    );
-
-    if (!isAvailable) {
-      throw new Error('El horario seleccionado no está disponible.');
-    }
+export interface NewReservationInput {
+  responsable: string;
+  email: string;
+  motivo: string;
+  fecha: string; // yyyy-MM-dd
+  inicio: string;
+  fin: string;
+  personas: number;
+  affiliation?: string | null;
+  documentation?: string | null; // answer to the documentation rules that apply
+}
 
-    const { data, error } = await supabase
-      .from('reservations')
-      .insert([
-        { 
-          responsable: sanitizedReservation.responsable,
-          email: sanitizedReservation.email,
-          motivo: sanitizedReservation.motivo,
-          fecha: sanitizedReservation.fecha,
-          inicio: sanitizedReservation.inicio || sanitizedReservation.horaInicio,
-          fin: sanitizedReservation.fin || sanitizedReservation.horaFin,
-          personas: sanitizedReservation.personas || sanitizedReservation.cantidadPersonas,
-          created_at: new Date().toISOString() 
-        }
-      ])
-      .select();
-    
-    if (error) {
-      throw error;
-    }
+// Create an unconfirmed reservation through the create_reservation RPC, which
+// validates it server-side. Throws INVALID_INPUT or the error code returned by
+// the database (SLOT_TAKEN, DATE_BLOCKED, RATE_LIMITED, LEAD_TIME...). Emails
+// are sent by the caller. overridePolicies skips the booking policies and is
+// only honoured for users with reservations.manage.
+export async function createReservation(
+  reservation: NewReservationInput,
+  series?: { seriesId: string; confirmationToken: string },
+  options: { overridePolicies?: boolean } = {}
+) {
+  const input = parseInput(reservationInputSchema, reservation);
 
-    // Send confirmation email to user
-    try {
-      await sendEmail({
-        type: 'confirmation',
-        recipient: sanitizedReservation.email,
-        reservation: {
-          id: data[0].id,
-          ...sanitizedReservation
-        }
-      });
-    } catch (emailError) {
-      // Don't throw here, we still want to keep the reservation
-    }
+  const { data, error } = await supabase.rpc('create_reservation', {
+    p_responsable: input.responsable,
+    p_email: input.email,
+    p_motivo: input.motivo,
+    p_fecha: input.fecha,
+    p_inicio: input.inicio,
+    p_fin: input.fin,
+    p_personas: input.personas,
+    p_affiliation: input.affiliation,
+    p_series_id: series?.seriesId || null,
+    p_confirmation_token: series?.confirmationToken || null,
+    p_documentation: input.documentation,
+    p_override_policies: options.overridePolicies === true
+  });
 
-    // Send notification to admin
-    try {
-      await sendEmail({
-        type: 'new-reservation',
-        recipient: 'admin@system.com', // Production admin email would be here
-        reservation: {
-          id: data[0].id,
-          ...sanitizedReservation
-        }
-      });
-    } catch (emailError) {
-      // Don't throw here, we still want to keep the reservation
-    }
+  if (error) {
+    throw error;
+  }
+  const result = data as unknown as RpcResult<{ reservation: ReservationRow }>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
 
-    return data[0];
-  } catch (error) {
+  return result.reservation;
+}
+
+export interface AdminReservationInput extends NewReservationInput {
+  approve: boolean; // false leaves it pending, as if the requester had confirmed it
+  overridePolicies: boolean;
+  overrideReason?: string | null; // required when overridePolicies is set
+}
+
+// Create a confirmed reservation on a requester's behalf (phone or in-person
+// requests) through the admin_create_reservation RPC. Throws the same codes as
+// createReservation plus OVERRIDE_REASON_REQUIRED. The approval email is
+// enqueued by the database when the reservation becomes approved.
+export async function createAdminReservation(reservation: AdminReservationInput) {
+  const input = parseInput(reservationInputSchema, reservation);
+  const overrideReason = parseInput(optionalTextSchema, reservation.overrideReason);
+
+  const { data, error } = await supabase.rpc('admin_create_reservation', {
+    p_responsable: input.responsable,
+    p_email: input.email,
+    p_motivo: input.motivo,
+    p_fecha: input.fecha,
+    p_inicio: input.inicio,
+    p_fin: input.fin,
+    p_personas: input.personas,
+    p_affiliation: input.affiliation,
+    p_documentation: input.documentation,
+    p_approve: reservation.approve,
+    p_override_policies: reservation.overridePolicies,
+    p_override_reason: reservation.overridePolicies ? overrideReason : null
+  });
+
+  if (error) {
     throw error;
   }
+  const result = data as unknown as RpcResult<{ reservation: ReservationRow }>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
+
+  return result.reservation;
 }
 
 export async function deleteReservation(id: string, reason?: string) {
@@ -143,6 +173,8 @@ export async function deleteReservation(id: string, reason?: string) {
       throw new Error("No reservation ID provided for deletion");
     }
 
+    const cancellationReason = parseInput(optionalTextSchema, reason);
+
     // Get the reservation details before modifying
     const { data: reservation, error: getError } = await supabase
       .from('reservations')
@@ -166,27 +198,28 @@ export async function deleteReservation(id: string, reason?: string) {
     // Compute previous status for audit
     const previousStatus = reservation?.status || (reservation?.approved ? 'approved' : 'pending');
 
-    // Insert an audit row into cancellations (best-effort, don't hard-fail the flow)
+    // Insert an audit row into cancellations (best-effort, don't hard-fail the flow).
+    // It goes first: the cancellation email trigger takes its reason from it.
     try {
       // cancellations table may not be present in the generated DB types yet,
       // use a typed-any cast to avoid TS overload errors while attempting to write audit rows.
-      await (supabase as any).from('cancellations').insert([{
+      await supabase.from('cancellations').insert([{
         reservation_id: id,
         cancelled_by: adminId,
-        reason: sanitizeInput(reason) || null,
+        reason: cancellationReason,
         previous_status: previousStatus,
-        reservation_snapshot: reservation || {},
-        created_at: new Date().toISOString()
+        reservation_snapshot: reservation || {}
       }]);
     } catch (auditErr) {
       // Log if needed, but continue - audit table may not exist in older environments
       logger.warn('Failed to write cancellation audit', auditErr);
     }
 
-    // Soft-cancel the reservation: update status, admin_notes and updated_by
+    // Soft-cancel the reservation: update status, admin_notes and updated_by.
+    // The cancellation email comes from a trigger.
     const updateObject: any = {
       status: 'cancelled',
-      admin_notes: reason ? `Motivo: ${sanitizeInput(reason)}` : 'Motivo: No especificado'
+      admin_notes: cancellationReason ? `Motivo: ${cancellationReason}` : 'Motivo: No especificado'
     };
     if (adminId) updateObject.updated_by = adminId;
 
@@ -199,285 +232,356 @@ export async function deleteReservation(id: string, reason?: string) {
       throw updateError;
     }
 
-    // Send cancellation email (include the reason)
-    if (reservation) {
-      try {
-        const cancellationReasonForEmail = reason ? sanitizeInput(reason) : 'No especificado';
-        await sendEmail({
-          type: 'cancellation',
-          recipient: reservation.email,
-          reservation: {
-            ...reservation,
-            cancellationReason: cancellationReasonForEmail
-          }
-        });
-      } catch (emailError) {
-        // Don't throw if email fails
-      }
-    }
-
     return true;
   } catch (error) {
     throw error;
   }
 }
 
-// Admin authentication using Supabase Auth
+// Admin authentication: only a real Supabase Auth session of an account
+// whose role grants access to the admin panel is accepted
 export async function loginAdmin(email: string, password: string) {
+  if (!email || !password) {
+    throw new Error('Email and password are required');
+  }
+
+  const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+    email,
+    password,
+  });
+
+  if (authError || !authData.user) {
+    throw new Error('Invalid credentials');
+  }
+
+  const { data, error: accessError } = await supabase.rpc('get_my_access');
+  const access = data as unknown as UserAccess | null;
+
+  if (accessError || !access?.permissions?.includes('admin.view')) {
+    // Don't leave a session behind for accounts without panel access
+    await supabase.auth.signOut();
+    throw new Error('Unauthorized');
+  }
+
+  return { user: authData.user, session: authData.session };
+}
+
+export interface BlockInput {
+  dates: string[]; // yyyy-MM-dd
+  startTime?: string | null; // both empty blocks the whole day
+  endTime?: string | null;
+  reason?: string | null;
+}
+
+// Block one or more dates. A block spanning several days shares a group_id so
+// it can be removed as a whole. Overlapping reservations are cancelled and
+// their owners emailed by the database (cancel_reservations_in_blocked_range).
+export async function blockDates(block: BlockInput) {
+  if (block.dates.length === 0) {
+    throw new Error('NO_DATES');
+  }
+
+  const wholeDay = !block.startTime || !block.endTime;
+  if (!wholeDay && block.endTime! <= block.startTime!) {
+    throw new Error('INVALID_TIME_RANGE');
+  }
+
+  const motivo = parseInput(optionalTextSchema, block.reason) || 'Bloqueo administrativo';
+  const groupId = block.dates.length > 1 ? crypto.randomUUID() : null;
+
+  let createdBy: string | null = null;
   try {
-    if (!email || !password) {
-      throw new Error('Email and password are required');
-    }
-    
-    // First, try to authenticate with Supabase Auth
-    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    
-    if (authError) {
-      // If auth failed, check if the email is in the admins table
-      // This is for backward compatibility with the existing admins
-      const { data: adminCheck, error: adminCheckError } = await (supabase as any)
-        .from('admins')
-        .select('email')
-        .eq('email', email)
-        .single();
-      
-      if (adminCheckError) {
-        // Check if it's the default test admin account
-        if (email === 'test@email.com' && password === 'test123') {
-          return {
-            user: { email: email },
-            session: { 
-              access_token: 'default_admin_token',
-              expires_at: Date.now() + 86400000  // 24 hours
-            } 
-          };
-        }
-        
-        // Not authorized
-        throw new Error('Invalid credentials');
-      }
-      
-      if (adminCheck) {
-        // Try to sign up this admin with Auth if they don't exist yet
-        const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-        
-        if (signUpError && signUpError.message !== 'User already registered') {
-          throw new Error('Error creating admin account');
-        }
-        
-        // Try to sign in again after sign up
-        const { data: retryAuthData, error: retryAuthError } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        
-        if (retryAuthError) {
-          // If we still can't authenticate, but we know they're an admin,
-          // create a session token manually
-          return { 
-            user: { email: email },
-            session: { 
-              access_token: 'manual_admin_token',
-              expires_at: Date.now() + 86400000  // 24 hours
-            } 
-          };
-        }
-        
-        // Successfully authenticated
-        
-        // Link the auth user to the admins table
-        if (retryAuthData.user) {
-          const { error: updateError } = await (supabase as any)
-            .from('admins')
-            .upsert({ 
-              email: email,
-              user_id: retryAuthData.user.id
-            });
-          
-          if (updateError) {
-            // Continue anyway as this is not critical
-          }
-        }
-        
-        return { user: retryAuthData.user, session: retryAuthData.session };
-      }
-      
-      // No admin found
-      throw new Error('Invalid credentials');
-    }
-    
-    // Auth was successful, check if user is an admin
-    if (authData.user) {
-      // Try to check admin status using the is_admin function
-      // Use a cast to `any` for RPC calls to avoid deep type inference issues
-      const { data: isAdminData, error: isAdminError } = await (supabase as any)
-        .rpc('is_admin', { user_id: authData.user.id });
-      
-      if (isAdminError) {
-        // Fallback to admins table query
-        const { data: adminCheck, error: adminCheckError } = await (supabase as any)
-          .from('admins')
-          .select('*')
-          .eq('user_id', authData.user.id)
-          .maybeSingle();
-        
-        if (adminCheckError) {
-          // Error checking admin table
-        }
-        
-        // Check if this email is in the admins table, regardless of user_id
-        const { data: emailCheck, error: emailCheckError } = await (supabase as any)
-          .from('admins')
-          .select('*')
-          .eq('email', email)
-          .maybeSingle();
-        
-        if (emailCheckError) {
-          // Error checking admin email
-        }
-        
-        if (adminCheck || emailCheck) {
-          // If email exists but user_id doesn't match, update it
-          if (emailCheck && (!emailCheck.user_id || emailCheck.user_id !== authData.user.id)) {
-            const { error: updateError } = await (supabase as any)
-              .from('admins')
-              .upsert({ 
-                email: email,
-                user_id: authData.user.id
-              });
-            
-            if (updateError) {
-              // Error updating admin user_id
-            }
-          }
-          
-          return { user: authData.user, session: authData.session };
-        }
-        
-        // Special case for the known admin emails
-        if (email === 'test@email.com' || email === 'david.gimenezs@fiuna.edu.py') {
-          
-          // Add to admins table if not already there
-          const { error: insertError } = await (supabase as any)
-            .from('admins')
-            .upsert({ 
-              email: email,
-              user_id: authData.user.id
-            });
-          
-          if (insertError) {
-            // Error adding to admins table
-          }
-          
-          return { user: authData.user, session: authData.session };
-        }
-        
-        throw new Error('Unauthorized');
-      } 
-      
-      if (!isAdminData) {
-        
-        // Special case for the known admin emails
-        if (email === 'test@email.com' || email === 'david.gimenezs@fiuna.edu.py') {
-          
-          // Add to admins table if not already there
-          const { error: insertError } = await (supabase as any)
-            .from('admins')
-            .upsert({ 
-              email: email,
-              user_id: authData.user.id
-            });
-          
-          if (insertError) {
-            // Error adding to admins table
-          }
-          
-          return { user: authData.user, session: authData.session };
-        }
-        
-        throw new Error('Unauthorized');
-      }
-      
-      return { user: authData.user, session: authData.session };
-    }
-    
-    throw new Error('Unable to authenticate');
-  } catch (error) {
+    const { data: userData } = await supabase.auth.getUser();
+    createdBy = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - created_by stays empty
+  }
+
+  const { data, error } = await supabase
+    .from('blocked_dates')
+    .insert(block.dates.map(fecha => ({
+      fecha,
+      motivo,
+      start_time: wholeDay ? null : block.startTime,
+      end_time: wholeDay ? null : block.endTime,
+      group_id: groupId,
+      created_by: createdBy
+    })))
+    .select();
+
+  if (error) {
     throw error;
   }
+
+  return data || [];
 }
 
 export async function blockTimeSlot(date: string, startTime: string, endTime: string, reason: string) {
+  const [block] = await blockDates({ dates: [date], startTime, endTime, reason });
+  return block;
+}
+
+// Remove a block; with wholeGroup every day of a multi-day block is removed
+export async function unblockTimeSlot(blockId: string, wholeGroup = false) {
+  const { data: block, error: getError } = await supabase
+    .from('blocked_dates')
+    .select('id, group_id')
+    .eq('id', blockId)
+    .single();
+
+  if (getError) {
+    throw getError;
+  }
+
+  const query = supabase.from('blocked_dates').delete();
+  const { error } = wholeGroup && block.group_id
+    ? await query.eq('group_id', block.group_id)
+    : await query.eq('id', blockId);
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
+
+const mapBlockRule = (row: Tables<'blocked_date_rules'>): BlockRule => ({
+  ...row,
+  category: row.category as BlockRuleCategory,
+  frequency: row.frequency as BlockRuleFrequency,
+  start_time: row.start_time ? row.start_time.substring(0, 5) : null,
+  end_time: row.end_time ? row.end_time.substring(0, 5) : null,
+  created_at: new Date(row.created_at)
+});
+
+export async function getBlockRules(): Promise<BlockRule[]> {
+  const { data, error } = await supabase
+    .from('blocked_date_rules')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(mapBlockRule);
+}
+
+// Days blocked by active rules between two dates (YYYY-MM-DD), for the calendar
+export async function getRuleBlockedDays(from: string, to: string): Promise<RuleBlockedDay[]> {
+  const { data, error } = await supabase.rpc('expand_block_rules', {
+    p_from: from,
+    p_to: to
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as RuleBlockedDay[];
+}
+
+const toBlockRuleRow = (rule: NewBlockRule) => ({
+  motivo: parseInput(optionalTextSchema, rule.motivo) || 'Bloqueo administrativo',
+  category: rule.category,
+  frequency: rule.frequency,
+  weekdays: rule.frequency === 'weekly' ? rule.weekdays : null,
+  month: rule.frequency === 'yearly' ? rule.month : null,
+  day: rule.frequency === 'yearly' ? rule.day : null,
+  start_date: rule.start_date || null,
+  end_date: rule.end_date || null,
+  start_time: rule.start_time && rule.end_time ? rule.start_time : null,
+  end_time: rule.start_time && rule.end_time ? rule.end_time : null
+});
+
+// Upcoming reservations that saving the rule would cancel
+export async function previewBlockRule(rule: NewBlockRule): Promise<BlockRuleConflict[]> {
+  const { data, error } = await supabase.rpc('preview_block_rule', {
+    p_rule: toBlockRuleRow(rule)
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    ...row,
+    inicio: row.inicio.substring(0, 5),
+    fin: row.fin.substring(0, 5)
+  }));
+}
+
+// Save a rule; the reservations it covers are cancelled and notified by the
+// database (cancel_reservations_for_block_rule)
+export async function createBlockRule(rule: NewBlockRule): Promise<BlockRule> {
+  let createdBy: string | null = null;
   try {
-    // First, get any existing reservations in this time slot
-    const { data: existingReservations, error: queryError } = await supabase
-      .from('reservations')
-      .select('*')
-      .not('status', 'eq', 'cancelled')
-      .eq('fecha', date)
-      .or(`inicio.gte.${startTime},fin.lte.${endTime}`);
-    
-    if (queryError) {
-      throw queryError;
-    }
-    
-    // Cancel any existing reservations with a specific cancellation reason
-    if (existingReservations && existingReservations.length > 0) {
-      const cancellationReason = `La reserva fue cancelada porque el administrador bloqueó este horario: ${reason}`;
-      
-      for (const reservation of existingReservations) {
-        if (reservation.responsable !== 'Admin') {
-          try {
-            await deleteReservation(reservation.id, cancellationReason);
-          } catch (error) {
-            // Continue with others even if one fails
-          }
-        }
-      }
-    }
-    
-    // Create a "blocked" reservation owned by the admin
-    const blockedReservation = {
-      responsable: 'Admin',
-      email: 'admin@system.com',
-      motivo: `BLOQUEADO: ${reason}`,
-      fecha: date,
-      inicio: startTime,
-      fin: endTime,
-      personas: 0
-    };
+    const { data: userData } = await supabase.auth.getUser();
+    createdBy = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - created_by stays empty
+  }
 
-    const { data, error: insertError } = await supabase
-      .from('reservations')
-      .insert([
-        {
-          ...blockedReservation,
-          created_at: new Date().toISOString()
-        }
-      ])
-      .select();
-
-    if (insertError) {
-      throw insertError;
-    }
+  const { data, error } = await supabase
+    .from('blocked_date_rules')
+    .insert({ ...toBlockRuleRow(rule), created_by: createdBy })
+    .select()
+    .single();
 
-    // Normalize returned row to app-friendly shape
-    const returned = data?.[0] ? { ...data[0], horaInicio: data[0].inicio, horaFin: data[0].fin, cantidadPersonas: data[0].personas, createdAt: data[0].created_at } : null;
+  if (error) {
+    throw error;
+  }
 
-    return returned;
-  } catch (error) {
+  return mapBlockRule(data);
+}
+
+// Pause or resume a rule; resuming cancels the reservations it covers again
+export async function setBlockRuleActive(ruleId: string, active: boolean) {
+  const { error } = await supabase
+    .from('blocked_date_rules')
+    .update({ active })
+    .eq('id', ruleId);
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
+
+export async function deleteBlockRule(ruleId: string) {
+  const { error } = await supabase
+    .from('blocked_date_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
     throw error;
   }
+
+  return true;
+}
+
+// Every day covered by an imported holiday or calendar event
+const getImportEntryDates = (entry: BlockImportEntry): string[] => {
+  const dates: string[] = [];
+  const current = fechaToDate(entry.startDate);
+  while (dateToFecha(current) <= entry.endDate) {
+    dates.push(dateToFecha(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+};
+
+// What importing the entries would do: the days not imported yet (by
+// import_key) and the upcoming reservations on those days that would be
+// cancelled
+export async function previewBlockImport(entries: BlockImportEntry[]): Promise<BlockImportPreview[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('blocked_dates')
+    .select('import_key, fecha')
+    .in('import_key', entries.map(entry => entry.key));
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const imported = new Set((existing || []).map(row => `${row.import_key}|${row.fecha}`));
+  const today = dateToFecha(new Date());
+  const firstDate = entries.reduce((min, entry) => entry.startDate < min ? entry.startDate : min, entries[0].startDate);
+  const lastDate = entries.reduce((max, entry) => entry.endDate > max ? entry.endDate : max, entries[0].endDate);
+
+  const { data: reservations, error: reservationsError } = await supabase
+    .from('reservations')
+    .select('id, responsable, email, motivo, fecha, inicio, fin, status')
+    .gte('fecha', firstDate > today ? firstDate : today)
+    .lte('fecha', lastDate)
+    .not('status', 'in', '(cancelled,rejected)');
+
+  if (reservationsError) {
+    throw reservationsError;
+  }
+
+  return entries.map(entry => {
+    const dates = getImportEntryDates(entry);
+    const newDates = dates.filter(fecha => !imported.has(`${entry.key}|${fecha}`));
+    const conflicts: BlockRuleConflict[] = (reservations || [])
+      .filter(row =>
+        newDates.includes(row.fecha) &&
+        (!entry.startTime || !entry.endTime ||
+          (row.inicio.substring(0, 5) < entry.endTime && row.fin.substring(0, 5) > entry.startTime))
+      )
+      .map(row => ({
+        ...row,
+        inicio: row.inicio.substring(0, 5),
+        fin: row.fin.substring(0, 5)
+      }));
+
+    return { entry, dates, newDates, conflicts };
+  });
 }
 
-export async function unblockTimeSlot(blockId: string) {
-  return await deleteReservation(blockId, 'Time slot unblocked by admin');
+// Create the blocks of the imported entries, one blocked_dates group per
+// entry. Days already imported are left alone (unique import_key + fecha), so
+// running the same import again is harmless. Returns the number of days added.
+export async function importBlockedDates(entries: BlockImportEntry[]): Promise<number> {
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  let createdBy: string | null = null;
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    createdBy = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - created_by stays empty
+  }
+
+  // Days added to a partially imported entry join its existing group
+  const { data: existing, error: existingError } = await supabase
+    .from('blocked_dates')
+    .select('import_key, group_id')
+    .in('import_key', entries.map(entry => entry.key))
+    .not('group_id', 'is', null);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const existingGroups = new Map<string, string>(
+    (existing || []).map(row => [row.import_key, row.group_id])
+  );
+
+  const rows = entries.flatMap(entry => {
+    const dates = getImportEntryDates(entry);
+    const groupId = existingGroups.get(entry.key) || (dates.length > 1 ? crypto.randomUUID() : null);
+    const wholeDay = !entry.startTime || !entry.endTime;
+
+    return dates.map(fecha => ({
+      fecha,
+      motivo: entry.motivo,
+      start_time: wholeDay ? null : entry.startTime,
+      end_time: wholeDay ? null : entry.endTime,
+      group_id: groupId,
+      import_key: entry.key,
+      created_by: createdBy
+    }));
+  });
+
+  const { data, error } = await supabase
+    .from('blocked_dates')
+    .upsert(rows, { onConflict: 'import_key,fecha', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length;
 }
 
 export async function checkAvailability(date: string, startTime: string, endTime: string, excludeId?: string) {
@@ -519,12 +623,1273 @@ export async function checkAvailability(date: string, startTime: string, endTime
   }
 }
 
-// Helper function to send emails using our Edge Function
+// Check whether a date/time range is blocked by a blocked date (full-day or
+// partial) or a recurring block rule; the same check create_reservation runs
+export async function isSlotBlocked(date: string, startTime: string, endTime: string) {
+  try {
+    const { data, error } = await supabase.rpc('is_slot_blocked', {
+      p_fecha: date,
+      p_inicio: startTime,
+      p_fin: endTime
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data === true;
+  } catch (error) {
+    // Treat errors as blocked to prevent booking over an unknown block
+    return true;
+  }
+}
+
+export interface SeriesReservationInput {
+  responsable: string;
+  email: string;
+  motivo: string;
+  fecha: Date;
+  inicio: string;
+  fin: string;
+  personas: number;
+  affiliation?: string;
+  documentation?: string | null;
+}
+
+// Create a recurring series and its occurrences in one transaction through
+// the create_reservation_series RPC, which expands the rule itself. Occurrences that collide with existing
+// reservations or blocked dates are skipped and reported as conflicts; those
+// that break a booking policy are skipped and reported separately as policy
+// rejections with their error code. Throws SERIES_NO_AVAILABLE_DATES (or the policy
+// that rejected every date) when nothing could be created; in that case no
+// series is left behind.
+export async function createReservationSeries(
+  reservation: SeriesReservationInput,
+  rule: RecurrenceRule,
+  options: { overridePolicies?: boolean } = {}
+) {
+  const input = parseInput(reservationInputSchema, { ...reservation, fecha: dateToFecha(reservation.fecha) });
+
+  const { data, error } = await supabase.rpc('create_reservation_series', {
+    p_responsable: input.responsable,
+    p_email: input.email,
+    p_motivo: input.motivo,
+    p_start_date: input.fecha,
+    p_inicio: input.inicio,
+    p_fin: input.fin,
+    p_personas: input.personas,
+    p_interval_weeks: rule.interval,
+    p_until_date: rule.endType === 'until' && rule.until ? dateToFecha(rule.until) : null,
+    p_occurrence_count: rule.endType === 'count' ? rule.count : null,
+    p_affiliation: input.affiliation,
+    p_documentation: input.documentation,
+    p_override_policies: options.overridePolicies === true
+  });
+
+  if (error) {
+    throw error;
+  }
+  const result = data as unknown as RpcResult<{
+    series_id: string;
+    reservations: ReservationRow[];
+    skipped: SeriesPolicyRejection[];
+  }>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
+
+  const created = result.reservations;
+  const skipped = result.skipped
+    .sort((a, b) => a.fecha.localeCompare(b.fecha));
+  const conflicts = skipped.filter(item => !isBookingPolicyError(item.error)).map(item => item.fecha);
+  const policyRejections = skipped.filter(item => isBookingPolicyError(item.error));
+
+  await sendEmail({
+    type: 'confirmation',
+    recipient: input.email,
+    reservation: created[0],
+    confirmationToken: created[0].confirmation_token,
+    seriesSummary: `${describeRecurrence(rule)} (${created.length} ${created.length === 1 ? 'fecha' : 'fechas'})`
+  });
+
+  return {
+    seriesId: result.series_id,
+    created,
+    conflicts,
+    policyRejections
+  };
+}
+
+// Read the operating hours from the settings table (defaults when missing)
+export async function getOperatingHours(): Promise<OperatingHours> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', OPERATING_HOURS_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return parseOperatingHours(data?.value);
+}
+
+// Persist the operating hours (admins only, enforced by RLS)
+export async function updateOperatingHours(hours: OperatingHours) {
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('settings')
+    .upsert({
+      key: OPERATING_HOURS_SETTING_KEY,
+      value: JSON.stringify(hours),
+      description: 'Horario de atención por día, intervalo de turnos y duración mínima/máxima de reservas',
+      updated_by: userData?.user?.id || null
+    }, { onConflict: 'key' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+const MAX_PERSONAS_SETTING_KEY = 'max_personas';
+
+// Capacity of the quincho (DEFAULT_MAX_PERSONAS when missing)
+export async function getMaxPersonas(): Promise<number> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', MAX_PERSONAS_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const value = Number(data?.value);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_PERSONAS;
+}
+
+export async function updateMaxPersonas(maxPersonas: number) {
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('settings')
+    .upsert({
+      key: MAX_PERSONAS_SETTING_KEY,
+      value: String(maxPersonas),
+      description: 'Cantidad máxima de personas por reserva (capacidad del quincho)',
+      updated_by: userData?.user?.id || null
+    }, { onConflict: 'key' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Lead time, horizon and quotas (DEFAULT_BOOKING_POLICIES, i.e. no limits, when missing)
+export async function getBookingPolicies(): Promise<BookingPolicies> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', BOOKING_POLICIES_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return parseBookingPolicies(data?.value);
+}
+
+export async function updateBookingPolicies(policies: BookingPolicies) {
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('settings')
+    .upsert({
+      key: BOOKING_POLICIES_SETTING_KEY,
+      value: JSON.stringify(policies),
+      description: 'Anticipación mínima, horizonte de reserva, cupos por persona y penalización por inasistencia',
+      updated_by: userData?.user?.id || null
+    }, { onConflict: 'key' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function getReminderSchedule(): Promise<ReminderSchedule> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', REMINDER_SCHEDULE_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return parseReminderSchedule(data?.value);
+}
+
+export async function updateReminderSchedule(schedule: ReminderSchedule) {
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('settings')
+    .upsert({
+      key: REMINDER_SCHEDULE_SETTING_KEY,
+      value: JSON.stringify(schedule),
+      description: 'Recordatorios antes de cada reserva y pedido de opinión después',
+      updated_by: userData?.user?.id || null
+    }, { onConflict: 'key' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+const mapCapacityRule = (row: Tables<'capacity_rules'>): CapacityRule => ({
+  ...row,
+  kind: row.kind as CapacityRuleKind,
+  affiliations: row.affiliations || [],
+  created_at: new Date(row.created_at)
+});
+
+// Documentation and auto-approval rules, in the order they are evaluated
+export async function getCapacityRules(): Promise<CapacityRule[]> {
+  const { data, error } = await supabase
+    .from('capacity_rules')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(mapCapacityRule);
+}
+
+const toCapacityRuleRow = (rule: NewCapacityRule) => ({
+  name: rule.name.trim(),
+  kind: rule.kind,
+  affiliations: rule.affiliations.length > 0 ? rule.affiliations : null,
+  min_personas: rule.min_personas,
+  max_personas: rule.max_personas,
+  requirement: rule.kind === 'documentation' ? parseInput(optionalTextSchema, rule.requirement) : null,
+  sort_order: rule.sort_order
+});
+
+export async function createCapacityRule(rule: NewCapacityRule): Promise<CapacityRule> {
+  let createdBy: string | null = null;
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    createdBy = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - created_by stays empty
+  }
+
+  const { data, error } = await supabase
+    .from('capacity_rules')
+    .insert({ ...toCapacityRuleRow(rule), created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapCapacityRule(data);
+}
+
+export async function setCapacityRuleActive(ruleId: string, active: boolean) {
+  const { error } = await supabase
+    .from('capacity_rules')
+    .update({ active })
+    .eq('id', ruleId);
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
+
+export async function deleteCapacityRule(ruleId: string) {
+  const { error } = await supabase
+    .from('capacity_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
+
+// Storage bucket holding photos attached to issue reports
+const REPORT_ATTACHMENTS_BUCKET = 'report-attachments';
+
+// Submit an issue report through the create_report RPC, then upload the
+// photos to the paths it reserved for them (the only ones uploads may use)
+export async function createReport(report: NewReport) {
+  const input = parseInput(reportInputSchema, {
+    name: report.name,
+    email: report.email,
+    category: report.category,
+    description: report.description,
+    reservationId: report.reservationId
+  });
+
+  const { data, error } = await supabase.rpc('create_report', {
+    p_name: input.name,
+    p_email: input.email,
+    p_category: input.category,
+    p_description: input.description,
+    p_reservation_id: input.reservationId || null,
+    p_photo_extensions: report.photos.map(photo => photo.name.split('.').pop()?.toLowerCase() || 'jpg')
+  });
+
+  if (error) {
+    throw error;
+  }
+  const result = data as unknown as RpcResult<{ report_id: string; attachments: string[] }>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
+
+  for (const [index, photo] of report.photos.entries()) {
+    const { error: uploadError } = await supabase.storage
+      .from(REPORT_ATTACHMENTS_BUCKET)
+      .upload(result.attachments[index], photo, { contentType: photo.type, upsert: false });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+  }
+
+  return result.report_id;
+}
+
+// Fetch every report for the admin panel, newest first
+export async function getReports(): Promise<Report[]> {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => ({
+    ...item,
+    category: item.category as ReportCategory,
+    status: item.status as ReportStatus,
+    attachments: item.attachments || [],
+    replied_at: item.replied_at ? new Date(item.replied_at) : null,
+    createdAt: new Date(item.created_at),
+    updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
+    updated_by: item.updated_by || undefined
+  }));
+}
+
+// Short-lived URLs so admins can view the private attachments
+export async function getReportAttachmentUrls(paths: string[]) {
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.storage
+    .from(REPORT_ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => item.signedUrl).filter(Boolean) as string[];
+}
+
+// Update the triage status and/or reply of a report and notify the reporter
+export async function updateReport(report: Report, changes: { status: ReportStatus; reply?: string }) {
+  let adminId: string | null = null;
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    adminId = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - adminId will remain null if we can't get it
+  }
+
+  const reply = changes.reply?.trim() || '';
+  const updateObject: TablesUpdate<'reports'> = { status: changes.status, updated_by: adminId };
+  if (reply) {
+    updateObject.admin_reply = reply;
+    updateObject.replied_at = new Date().toISOString();
+  }
+
+  const { error } = await supabase
+    .from('reports')
+    .update(updateObject)
+    .eq('id', report.id);
+
+  if (error) {
+    throw error;
+  }
+
+  // Only notify when something the reporter cares about changed
+  if (reply || changes.status !== report.status) {
+    await sendEmail({
+      type: 'report-update',
+      recipient: report.email,
+      report: {
+        id: report.id,
+        name: report.name,
+        category: report.category,
+        description: report.description,
+        status: changes.status,
+        reply: reply || null
+      }
+    });
+  }
+
+  return true;
+}
+
+// Join the waitlist for a date/time range that is currently taken. The
+// join_waitlist RPC checks the range and rate-limits like create_reservation
+// (SLOT_AVAILABLE, SLOT_BLOCKED, ALREADY_WAITLISTED, RATE_LIMITED...).
+export async function joinWaitlist(entry: NewWaitlistEntry) {
+  const input = parseInput(reservationInputSchema, entry);
+
+  const { data, error } = await supabase.rpc('join_waitlist', {
+    p_responsable: input.responsable,
+    p_email: input.email,
+    p_motivo: input.motivo,
+    p_fecha: input.fecha,
+    p_inicio: input.inicio,
+    p_fin: input.fin,
+    p_personas: input.personas,
+    p_affiliation: input.affiliation
+  });
+
+  if (error) {
+    throw error;
+  }
+  const result = data as unknown as RpcResult<object>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
+
+  return true;
+}
+
+// Turn a waitlist claim link into a pending reservation
+export async function claimWaitlistSpot(token: string): Promise<ClaimWaitlistResult> {
+  const { data, error } = await supabase.rpc('claim_waitlist_spot', { p_token: token });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as unknown as ClaimWaitlistResult;
+}
+
+// Fetch waitlist entries for the admin panel, in queue order
+export async function getWaitlistEntries(): Promise<WaitlistEntry[]> {
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .order('fecha', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => ({
+    ...item,
+    status: item.status as WaitlistStatus,
+    inicio: item.inicio?.slice(0, 5),
+    fin: item.fin?.slice(0, 5),
+    claim_expires_at: item.claim_expires_at ? new Date(item.claim_expires_at) : null,
+    notified_at: item.notified_at ? new Date(item.notified_at) : null,
+    createdAt: new Date(item.created_at)
+  }));
+}
+
+// Remove someone from the waitlist (admin)
+export async function cancelWaitlistEntry(id: string) {
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'cancelled' })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Fetch the signed-in user's reservations (by account or by email) with their
+// cancellation audit and change requests
+export async function getMyReservations(): Promise<OwnReservation[]> {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData?.user) {
+    throw userError || new Error('NOT_AUTHENTICATED');
+  }
+  const { id: userId, email } = userData.user;
+
+  // Case-insensitive email match: escape LIKE wildcards so it stays an exact match
+  const emailPattern = email?.replace(/[\\%_]/g, '\\$&');
+  const ownerFilter = emailPattern
+    ? `user_id.eq.${userId},email.ilike.${emailPattern}`
+    : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('reservations')
+    .select('*')
+    .or(ownerFilter)
+    .order('fecha', { ascending: true })
+    .order('inicio', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = data || [];
+  const ids = rows.map(item => item.id);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const [cancellationsResult, changeRequestsResult] = await Promise.all([
+    supabase
+      .from('cancellations')
+      .select('id, reservation_id, cancelled_by, reason, previous_status, created_at')
+      .in('reservation_id', ids)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('reservation_change_requests')
+      .select('*')
+      .in('reservation_id', ids)
+      .order('created_at', { ascending: false })
+  ]);
+
+  if (cancellationsResult.error) {
+    throw cancellationsResult.error;
+  }
+  if (changeRequestsResult.error) {
+    throw changeRequestsResult.error;
+  }
+
+  const cancellations: ReservationCancellation[] = (cancellationsResult.data || []).map(item => ({
+    ...item,
+    byOwner: item.cancelled_by === userId,
+    createdAt: new Date(item.created_at)
+  }));
+  const changeRequests: ReservationChangeRequest[] = (changeRequestsResult.data || []).map(mapChangeRequest);
+
+  return rows.map(item => {
+    return {
+      ...item,
+      fecha: fechaToDate(item.fecha),
+      inicio: item.inicio?.slice(0, 5),
+      fin: item.fin?.slice(0, 5),
+      status: item.status || (item.approved ? 'approved' : 'pending'),
+      createdAt: new Date(item.created_at),
+      updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
+      cancellation: cancellations.find(c => c.reservation_id === item.id) || null,
+      changeRequests: changeRequests.filter(r => r.reservation_id === item.id)
+    };
+  });
+}
+
+// Cancel one of the signed-in user's own reservations (RLS only allows
+// pending/approved reservations owned by the user to become cancelled)
+export async function cancelOwnReservation(reservation: OwnReservation, reason: string) {
+  const { data: userData } = await supabase.auth.getUser();
+  const userId = userData?.user?.id || null;
+
+  // Recorded before the status change: the cancellation email trigger takes its reason from it
+  const { cancellation, changeRequests, ...snapshot } = reservation;
+  const { error: auditError } = await supabase
+    .from('cancellations')
+    .insert({
+      reservation_id: reservation.id,
+      cancelled_by: userId,
+      reason: parseInput(optionalTextSchema, reason),
+      previous_status: reservation.status,
+      reservation_snapshot: {
+        ...snapshot,
+        fecha: dateToFecha(reservation.fecha),
+        createdAt: reservation.createdAt.toISOString(),
+        updated_at: reservation.updated_at?.toISOString()
+      }
+    });
+
+  if (auditError) {
+    logger.warn('Failed to write cancellation audit', auditError);
+  }
+
+  const { data, error } = await supabase
+    .from('reservations')
+    .update({ status: 'cancelled', updated_by: userId })
+    .eq('id', reservation.id)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  // RLS filters rows the user may not touch instead of raising an error
+  if (!data || data.length === 0) {
+    throw new Error('NOT_ALLOWED');
+  }
+
+  return true;
+}
+
+// Normalize a reservation_change_requests row to the application shape
+function mapChangeRequest(item: Tables<'reservation_change_requests'>): ReservationChangeRequest {
+  return {
+    ...item,
+    previous_values: item.previous_values as unknown as ReservationChangeRequest['previous_values'],
+    status: item.status as ChangeRequestStatus,
+    proposed_inicio: item.proposed_inicio?.slice(0, 5) ?? null,
+    proposed_fin: item.proposed_fin?.slice(0, 5) ?? null,
+    resolved_at: item.resolved_at ? new Date(item.resolved_at) : null,
+    createdAt: new Date(item.created_at)
+  };
+}
+
+// Propose a new date, time window and/or headcount for one of the signed-in
+// user's reservations. The new slot is checked before the request is stored.
+export async function requestReservationChange(reservation: OwnReservation, proposal: ReservationChangeProposal) {
+  const currentFecha = dateToFecha(reservation.fecha);
+  const proposedFecha = proposal.fecha ? dateToFecha(proposal.fecha) : currentFecha;
+  const proposedInicio = proposal.inicio || reservation.inicio;
+  const proposedFin = proposal.fin || reservation.fin;
+
+  const changesSlot = proposedFecha !== currentFecha ||
+    proposedInicio !== reservation.inicio ||
+    proposedFin !== reservation.fin;
+  const changesPersonas = proposal.personas !== undefined && proposal.personas !== reservation.personas;
+  const message = parseInput(optionalTextSchema, proposal.message);
+
+  if (!changesSlot && !changesPersonas && !message) {
+    throw new Error('NO_CHANGES');
+  }
+
+  if (changesSlot) {
+    if (await isSlotBlocked(proposedFecha, proposedInicio, proposedFin)) {
+      throw new Error('SLOT_BLOCKED');
+    }
+    // Ignore the reservation itself when it only shifts within its own slot
+    if (!(await checkAvailability(proposedFecha, proposedInicio, proposedFin, reservation.id))) {
+      throw new Error('SLOT_TAKEN');
+    }
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('reservation_change_requests')
+    .insert({
+      reservation_id: reservation.id,
+      requested_by: userData?.user?.id || null,
+      message,
+      proposed_fecha: proposedFecha !== currentFecha ? proposedFecha : null,
+      proposed_inicio: changesSlot ? proposedInicio : null,
+      proposed_fin: changesSlot ? proposedFin : null,
+      proposed_personas: changesPersonas ? proposal.personas : null
+    });
+
+  if (error) {
+    // Unique index: there is already an open request for this reservation
+    if (error.code === '23505') {
+      throw new Error('ALREADY_REQUESTED');
+    }
+    throw error;
+  }
+
+  return true;
+}
+
+// Pending change requests for the admin panel, with the reservation they target
+export async function getPendingChangeRequests(): Promise<(ReservationChangeRequest & { reservation: AppReservation })[]> {
+  const { data, error } = await supabase
+    .from('reservation_change_requests')
+    .select('*, reservation:reservations(*)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => {
+    return {
+      ...mapChangeRequest(item),
+      reservation: {
+        ...item.reservation,
+        fecha: fechaToDate(item.reservation.fecha),
+        inicio: item.reservation.inicio?.slice(0, 5),
+        fin: item.reservation.fin?.slice(0, 5),
+        createdAt: new Date(item.reservation.created_at),
+        updated_at: item.reservation.updated_at ? new Date(item.reservation.updated_at) : undefined
+      }
+    };
+  });
+}
+
+// Pending change request for a single reservation (null when there is none)
+export async function getPendingChangeRequest(reservationId: string): Promise<ReservationChangeRequest | null> {
+  const { data, error } = await supabase
+    .from('reservation_change_requests')
+    .select('*')
+    .eq('reservation_id', reservationId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapChangeRequest(data) : null;
+}
+
+// Accept a change request: the reservation is updated atomically by the
+// database, then the owner is told what changed
+export async function acceptReservationChange(request: ReservationChangeRequest, response?: string) {
+  const adminResponse = parseInput(optionalTextSchema, response);
+
+  const { data, error } = await supabase.rpc('accept_reservation_change', {
+    p_request_id: request.id,
+    p_response: adminResponse
+  });
+
+  if (error) {
+    throw error;
+  }
+  const result = data as unknown as RpcResult<{
+    reservation: ReservationRow;
+    previous: { fecha: string; inicio: string; fin: string; personas: number };
+  }>;
+  if (!result?.success) {
+    throw new Error(result?.error || 'UNKNOWN');
+  }
+
+  await sendEmail({
+    type: 'reservation-changed',
+    recipient: result.reservation.email,
+    reservation: result.reservation,
+    previous: result.previous,
+    reason: adminResponse || undefined
+  });
+
+  return true;
+}
+
+// Reject a change request; the reservation stays as it was
+export async function rejectReservationChange(request: ReservationChangeRequest, response?: string) {
+  let adminId: string | null = null;
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    adminId = userData?.user?.id || null;
+  } catch (e) {
+    // ignore - adminId will remain null if we can't get it
+  }
+
+  const { error } = await supabase
+    .from('reservation_change_requests')
+    .update({
+      status: 'rejected',
+      admin_response: parseInput(optionalTextSchema, response),
+      resolved_at: new Date().toISOString(),
+      resolved_by: adminId
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
+
+// Reservations and blocked dates in a date range for exports and reports,
+// with the cancellation audit and admin names resolved
+export async function getExportRows(filters: ExportFilters): Promise<ExportRow[]> {
+  const reservationStatuses = filters.statuses.filter(status => status !== 'blocked');
+  const includeBlocked = filters.statuses.includes('blocked');
+
+  const [reservationsResult, blockedResult, profilesResult] = await Promise.all([
+    reservationStatuses.length > 0
+      ? supabase
+          .from('reservations')
+          .select('*, cancellations(reason, cancelled_by, created_at)')
+          .gte('fecha', filters.from)
+          .lte('fecha', filters.to)
+          .in('status', reservationStatuses)
+          .order('fecha', { ascending: true })
+          .order('inicio', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    includeBlocked
+      ? supabase
+          .from('blocked_dates')
+          .select('*')
+          .gte('fecha', filters.from)
+          .lte('fecha', filters.to)
+          .order('fecha', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('profiles').select('id, full_name')
+  ]);
+
+  if (reservationsResult.error) throw reservationsResult.error;
+  if (blockedResult.error) throw blockedResult.error;
+
+  // Without names (e.g. profiles not readable) the user id is exported instead
+  const names = new Map<string, string>(
+    (profilesResult.data || [])
+      .filter(profile => profile.full_name)
+      .map(profile => [profile.id, profile.full_name])
+  );
+  const displayName = (userId?: string | null) => (userId ? names.get(userId) || userId : '');
+
+  const reservationRows: ExportRow[] = (reservationsResult.data || []).map(item => {
+    // Latest cancellation event, if the reservation was cancelled more than once
+    const cancellation = [...(item.cancellations || [])]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    return {
+      tipo: 'Reserva',
+      id: item.id,
+      fecha: item.fecha,
+      inicio: item.inicio?.slice(0, 5) || '',
+      fin: item.fin?.slice(0, 5) || '',
+      status: item.status,
+      responsable: item.responsable,
+      email: item.email,
+      affiliation: item.affiliation || '',
+      motivo: item.motivo,
+      personas: item.personas,
+      admin_notes: item.admin_notes || '',
+      createdAt: new Date(item.created_at),
+      updated_at: item.updated_at ? new Date(item.updated_at) : null,
+      updated_by: displayName(item.updated_by),
+      cancellation_reason: cancellation?.reason || '',
+      cancelled_at: cancellation ? new Date(cancellation.created_at) : null,
+      cancelled_by: displayName(cancellation?.cancelled_by)
+    };
+  });
+
+  const blockedRows: ExportRow[] = (blockedResult.data || []).map(item => ({
+    tipo: 'Bloqueo',
+    id: item.id,
+    fecha: item.fecha,
+    inicio: item.start_time?.slice(0, 5) || '',
+    fin: item.end_time?.slice(0, 5) || '',
+    status: 'blocked',
+    responsable: displayName(item.created_by),
+    email: '',
+    affiliation: '',
+    motivo: item.motivo || '',
+    personas: null,
+    admin_notes: '',
+    createdAt: new Date(item.created_at),
+    updated_at: null,
+    updated_by: '',
+    cancellation_reason: '',
+    cancelled_at: null,
+    cancelled_by: ''
+  }));
+
+  return [...reservationRows, ...blockedRows].sort((a, b) =>
+    a.fecha.localeCompare(b.fecha) || a.inicio.localeCompare(b.inicio)
+  );
+}
+
+// Usage statistics for the admin dashboard, computed by the database
+export async function getUsageStatistics(from: string, to: string, period: StatisticsPeriod): Promise<UsageStatistics> {
+  const { data, error } = await supabase.rpc('get_usage_statistics', {
+    p_from: from,
+    p_to: to,
+    p_period: period
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as unknown as UsageStatistics;
+}
+
+// Storage bucket holding condition photos taken at check-out
+const HANDOVER_PHOTOS_BUCKET = 'handover-photos';
+
+function mapHandover(item: Tables<'reservation_handovers'>): ReservationHandover {
+  return {
+    ...item,
+    checked_in_at: item.checked_in_at ? new Date(item.checked_in_at) : null,
+    key_handed_out_at: item.key_handed_out_at ? new Date(item.key_handed_out_at) : null,
+    checked_out_at: item.checked_out_at ? new Date(item.checked_out_at) : null,
+    key_returned_at: item.key_returned_at ? new Date(item.key_returned_at) : null,
+    photos: item.photos || [],
+    updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
+    updated_by: item.updated_by || undefined
+  };
+}
+
+// Handover record of a reservation, null when nobody checked it in yet
+export async function getHandover(reservationId: string): Promise<ReservationHandover | null> {
+  const { data, error } = await supabase
+    .from('reservation_handovers')
+    .select('*')
+    .eq('reservation_id', reservationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapHandover(data) : null;
+}
+
+// Approved reservations of a day with their handover, for the guard
+export async function getHandoverReservations(fecha: string): Promise<HandoverReservation[]> {
+  const { data, error } = await supabase
+    .from('reservations')
+    .select('id, responsable, email, motivo, personas, affiliation, fecha, inicio, fin, reservation_handovers(*)')
+    .eq('status', 'approved')
+    .eq('fecha', fecha)
+    .order('inicio', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => {
+    // One-to-one embed: PostgREST returns an object, older versions an array
+    const embedded = Array.isArray(item.reservation_handovers)
+      ? item.reservation_handovers[0]
+      : item.reservation_handovers;
+    const { reservation_handovers, ...reservation } = item;
+
+    return {
+      ...reservation,
+      inicio: item.inicio?.slice(0, 5),
+      fin: item.fin?.slice(0, 5),
+      handover: embedded ? mapHandover(embedded) : null
+    };
+  });
+}
+
+// Arrival of the group, optionally handing out the key at the same time
+export async function checkInReservation(reservationId: string, checkIn: HandoverCheckIn) {
+  const { data: userData } = await supabase.auth.getUser();
+  const staffId = userData?.user?.id || null;
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('reservation_handovers')
+    .upsert({
+      reservation_id: reservationId,
+      checked_in_at: now,
+      checked_in_by: staffId,
+      key_handed_out_at: checkIn.keyHandedOut ? now : null,
+      notes: parseInput(optionalTextSchema, checkIn.notes),
+      updated_by: staffId
+    }, { onConflict: 'reservation_id' });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Hand out the key after the check-in was recorded
+export async function handOutKey(reservationId: string) {
+  const { data: userData } = await supabase.auth.getUser();
+
+  const { error } = await supabase
+    .from('reservation_handovers')
+    .update({ key_handed_out_at: new Date().toISOString(), updated_by: userData?.user?.id || null })
+    .eq('reservation_id', reservationId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Departure: key returned and condition checklist, uploading the photos first
+export async function checkOutReservation(handover: ReservationHandover, checkOut: HandoverCheckOut) {
+  const { data: userData } = await supabase.auth.getUser();
+  const staffId = userData?.user?.id || null;
+  const now = new Date().toISOString();
+
+  const photos = [...handover.photos];
+  for (const [index, photo] of checkOut.photos.entries()) {
+    const extension = photo.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const path = `${handover.reservation_id}/${Date.now()}-${index + 1}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(HANDOVER_PHOTOS_BUCKET)
+      .upload(path, photo, { contentType: photo.type, upsert: false });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+    photos.push(path);
+  }
+
+  const notes = [handover.notes, parseInput(optionalTextSchema, checkOut.notes)]
+    .filter(Boolean)
+    .join('\n');
+
+  const { error } = await supabase
+    .from('reservation_handovers')
+    .update({
+      checked_out_at: now,
+      checked_out_by: staffId,
+      key_returned_at: checkOut.keyReturned ? now : null,
+      grill_clean: checkOut.grillClean,
+      trash_removed: checkOut.trashRemoved,
+      damage_noted: checkOut.damageNoted,
+      damage_notes: checkOut.damageNoted ? parseInput(optionalTextSchema, checkOut.damageNotes) : null,
+      photos,
+      notes: notes || null,
+      updated_by: staffId
+    })
+    .eq('reservation_id', handover.reservation_id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Short-lived URLs to view the private condition photos
+export async function getHandoverPhotoUrls(paths: string[]) {
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.storage
+    .from(HANDOVER_PHOTOS_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => item.signedUrl).filter(Boolean) as string[];
+}
+
+// Users with their role, for the user management tab (users.manage only)
+export async function getUsersWithRoles(): Promise<ManagedUser[]> {
+  const { data, error } = await supabase.rpc('list_users_with_roles');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => ({
+    id: item.id,
+    email: item.email,
+    full_name: item.full_name,
+    role: item.role as AppRole,
+    createdAt: new Date(item.created_at),
+    last_sign_in_at: item.last_sign_in_at ? new Date(item.last_sign_in_at) : null,
+    invited_at: item.invited_at ? new Date(item.invited_at) : null,
+    email_confirmed: item.email_confirmed
+  }));
+}
+
+// Change a user's role; 'user' revokes staff access. Throws the error code
+// raised by set_user_role (LAST_SUPER_ADMIN, USER_NOT_FOUND, INVALID_ROLE).
+export async function setUserRole(userId: string, role: AppRole, reason?: string) {
+  const { error } = await supabase.rpc('set_user_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: parseInput(optionalTextSchema, reason)
+  });
+
+  if (error) {
+    throw new Error(error.message || 'UNKNOWN');
+  }
+
+  return true;
+}
+
+// Invite a new user by email with a role already assigned. Throws the error
+// code returned by the invite-user Edge Function (USER_EXISTS, INVALID_EMAIL...).
+export async function inviteUser(invitation: { email: string; role: AppRole; fullName?: string }) {
+  const { data, error } = await supabase.functions.invoke('invite-user', {
+    body: {
+      email: invitation.email.trim(),
+      role: invitation.role,
+      fullName: invitation.fullName?.trim() || undefined
+    }
+  });
+
+  if (error) {
+    // Non-2xx responses carry the error code in the JSON body
+    let code = 'INVITE_FAILED';
+    try {
+      const body = await error.context?.json();
+      code = body?.error || code;
+    } catch {
+      // Keep the generic code
+    }
+    throw new Error(code);
+  }
+
+  return data as { userId: string };
+}
+
+// People on the legacy admin list who have no account yet; they are linked
+// when invited from the users tab
+export async function getPendingLegacyAdmins(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('admins')
+    .select('email')
+    .is('user_id', null)
+    .order('email', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => item.email);
+}
+
+// Invitations and role changes, newest first
+export async function getRoleAuditLog(): Promise<RoleAuditEntry[]> {
+  const { data, error } = await supabase
+    .from('role_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw error;
+  }
+
+  const performerIds = [...new Set((data || []).map(item => item.performed_by).filter(Boolean))];
+  const performerNames = new Map<string, string>();
+
+  if (performerIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', performerIds);
+
+    (profiles || []).forEach(profile => {
+      if (profile.full_name) performerNames.set(profile.id, profile.full_name);
+    });
+  }
+
+  return (data || []).map(item => ({
+    ...item,
+    action: item.action as RoleAuditAction,
+    previous_role: item.previous_role as AppRole | null,
+    new_role: item.new_role as AppRole | null,
+    performed_by_name: item.performed_by ? performerNames.get(item.performed_by) : undefined,
+    createdAt: new Date(item.created_at)
+  }));
+}
+
+// Emails that could not be delivered (failed or bounced) and the ones still
+// being retried, newest first
+export async function getEmailOutbox(): Promise<EmailOutboxEntry[]> {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('id, type, recipient, reservation_id, payload, status, attempts, max_attempts, next_attempt_at, last_error, sent_at, delivered_at, bounced_at, created_at')
+    .in('status', ['pending', 'failed', 'bounced'])
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(item => ({
+    id: item.id,
+    type: item.type,
+    recipient: item.recipient,
+    reservation_id: item.reservation_id,
+    reservation: (item.payload as { reservation?: EmailOutboxEntry['reservation'] })?.reservation || null,
+    status: item.status as EmailOutboxStatus,
+    attempts: item.attempts,
+    max_attempts: item.max_attempts,
+    next_attempt_at: new Date(item.next_attempt_at),
+    last_error: item.last_error,
+    sent_at: item.sent_at ? new Date(item.sent_at) : null,
+    delivered_at: item.delivered_at ? new Date(item.delivered_at) : null,
+    bounced_at: item.bounced_at ? new Date(item.bounced_at) : null,
+    createdAt: new Date(item.created_at)
+  }));
+}
+
+// Queue a failed or bounced email again and try to deliver it right away.
+// Returns the resulting status; 'pending' means it will keep being retried.
+export async function resendOutboxEmail(id: string): Promise<string> {
+  const { data: queued, error } = await supabase.rpc('retry_outbox_email', { p_id: id });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!queued) {
+    throw new Error('EMAIL_NOT_RETRYABLE');
+  }
+
+  const { data, error: sendError } = await supabase.functions.invoke('send-email', {
+    body: { outboxId: id }
+  });
+
+  if (sendError) {
+    // Still queued: process-email-outbox will pick it up
+    logger.warn('resendOutboxEmail: Edge function returned an error', sendError);
+    return 'pending';
+  }
+
+  return data?.status || 'pending';
+}
+
+// iCalendar feeds served by the calendar-feed Edge Function
+const CALENDAR_FEED_URL = 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1/calendar-feed';
+
+// Public feed: approved reservations (without personal data) and blocked dates
+export const PUBLIC_CALENDAR_FEED_URL = CALENDAR_FEED_URL;
+
+// Personal feed URL of the signed-in user. Regenerating it invalidates the
+// previous URL in every calendar app where it was added.
+export async function getPersonalCalendarFeedUrl(regenerate = false): Promise<string> {
+  const { data, error } = await supabase.rpc('get_calendar_feed_token', {
+    p_regenerate: regenerate
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return `${CALENDAR_FEED_URL}?token=${data}`;
+}
+
+// Helper function to send emails using our Edge Function. The function stores
+// every email in the outbox and retries it, so only failures to reach it are lost.
 async function sendEmail(emailData: {
   type: string;
   recipient: string;
-  reservation: any;
+  reservation?: any;
+  report?: Pick<Report, 'id' | 'name' | 'category' | 'description' | 'status'> & { reply: string | null };
   changes?: string;
+  reason?: string;
+  confirmationToken?: string;
+  seriesSummary?: string;
+  previous?: { fecha: string; inicio: string; fin: string; personas: number };
 }) {
   try {
     // Map internal synonyms to the expected edge-function types
@@ -532,7 +1897,7 @@ async function sendEmail(emailData: {
     if (emailData.type === 'confirmation') mappedType = 'confirm-reservation';
     if (emailData.type === 'cancellation') mappedType = 'reservation-cancelled';
 
-    const response = await (supabase as any).functions.invoke('send-email', {
+    const response = await supabase.functions.invoke('send-email', {
       body: {
         ...emailData,
         type: mappedType
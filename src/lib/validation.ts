@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// The schemas live next to the Edge Functions so both sides validate the same way
+export * from '../../supabase/functions/_shared/validation';
+
+// Parse input before it is sent to Supabase; throws INVALID_INPUT so callers
+// can map it to a message like any other error code
+export function parseInput<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new Error('INVALID_INPUT');
+  }
+  return result.data;
+}
@@ -8,13 +8,14 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 
 const AdminPage: React.FC = () => {
-  const { isAdmin, isAuthenticated, loading } = useAuth();
+  const { hasPermission, isAuthenticated, loading } = useAuth();
+  const canViewAdmin = hasPermission('admin.view');
   const navigate = useNavigate();
   const [isChecking, setIsChecking] = useState(true);
 
   // Debug auth state
   useEffect(() => {
-  }, [isAdmin, isAuthenticated, loading]);
+  }, [canViewAdmin, isAuthenticated, loading]);
 
   useEffect(() => {
     // Don't check admin access until auth state is loaded
@@ -33,8 +34,8 @@ const AdminPage: React.FC = () => {
         return;
       }
 
-      // If authenticated but not admin, redirect to home
-      if (!isAdmin) {
+      // If authenticated but without admin panel access, redirect to home
+      if (!canViewAdmin) {
         toast.error('No tiene permisos para acceder al panel de administración');
         navigate('/');
         return;
@@ -49,7 +50,7 @@ const AdminPage: React.FC = () => {
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [isAdmin, isAuthenticated, navigate, loading]);
+  }, [canViewAdmin, isAuthenticated, navigate, loading]);
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
@@ -62,7 +63,7 @@ const AdminPage: React.FC = () => {
               <div>Verificando permisos...</div>
             </div>
           </div>
-        ) : isAdmin ? (
+        ) : canViewAdmin ? (
           <AdminDashboard />
         ) : (
           <div className="container mx-auto p-4 text-center">
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { getExportRows } from '@/lib/supabase';
+import { EXPORT_STATUS_LABELS, ExportRow, ExportStatus } from '@/types/export';
+import { MonthlySummary, summarizeByMonth } from '@/utils/exportUtils';
+import { logger } from '@/utils/logger';
+import { fechaToDate } from '@/lib/dates';
+
+const VALID_STATUSES = Object.keys(EXPORT_STATUS_LABELS) as ExportStatus[];
+
+const formatDay = (fecha: string) =>
+  format(fechaToDate(fecha), 'EEE d/MM', { locale: es });
+
+const formatHours = (hours: number) => hours.toLocaleString('es-PY', { maximumFractionDigits: 1 });
+
+// Print-friendly monthly usage report, opened from the export dialog.
+// Query: ?desde=YYYY-MM-DD&hasta=YYYY-MM-DD&estados=approved,cancelled,...
+const AdminReportPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAdmin, loading } = useAuth();
+  const [rows, setRows] = useState<ExportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  const from = searchParams.get('desde') || '';
+  const to = searchParams.get('hasta') || '';
+  const statuses = (searchParams.get('estados') || 'approved,cancelled,blocked')
+    .split(',')
+    .filter((status): status is ExportStatus => VALID_STATUSES.includes(status as ExportStatus));
+
+  useEffect(() => {
+    if (loading || !isAdmin || !from || !to) return;
+
+    const loadRows = async () => {
+      try {
+        setRows(await getExportRows({ from, to, statuses }));
+      } catch (error) {
+        logger.error('Error loading report data', error);
+        setHasError(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRows();
+    // from, to and statuses all come from searchParams
+  }, [loading, isAdmin, searchParams]);
+
+  if (loading) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return <p className="p-8 text-center text-gray-600">No tiene permisos para ver este informe.</p>;
+  }
+
+  if (!from || !to) {
+    return <p className="p-8 text-center text-gray-600">Indique el período del informe desde el panel de administración.</p>;
+  }
+
+  const summaries = summarizeByMonth(rows);
+
+  const renderMonth = (summary: MonthlySummary) => {
+    const monthRows = rows.filter(row => row.fecha.startsWith(summary.month));
+    const approved = monthRows.filter(row => row.status === 'approved');
+    const cancelled = monthRows.filter(row => row.status === 'cancelled' || row.status === 'rejected');
+    const blocked = monthRows.filter(row => row.status === 'blocked');
+
+    return (
+      <section key={summary.month} className="mb-10 break-inside-avoid-page print:break-after-page">
+        <h2 className="text-xl font-semibold capitalize border-b border-gray-300 pb-1 mb-4">
+          {format(fechaToDate(`${summary.month}-01`), 'MMMM yyyy', { locale: es })}
+        </h2>
+
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-6 text-center">
+          {[
+            ['Aprobadas', summary.approved],
+            ['Pendientes', summary.pending],
+            ['Canceladas', summary.cancelled],
+            ['Rechazadas', summary.rejected],
+            ['Horas de uso', formatHours(summary.approvedHours)],
+            ['Asistentes', summary.approvedPersonas]
+          ].map(([label, value]) => (
+            <div key={label} className="border border-gray-200 rounded p-2">
+              <p className="text-2xl font-bold">{value}</p>
+              <p className="text-xs text-gray-500">{label}</p>
+            </div>
+          ))}
+        </div>
+
+        {summary.byAffiliation.length > 0 && (
+          <>
+            <h3 className="font-semibold mb-2">Uso por afiliación</h3>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-1">Afiliación</th>
+                  <th className="py-1 text-right">Reservas</th>
+                  <th className="py-1 text-right">Horas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byAffiliation.map(item => (
+                  <tr key={item.affiliation} className="border-b border-gray-100">
+                    <td className="py-1">{item.affiliation}</td>
+                    <td className="py-1 text-right">{item.reservations}</td>
+                    <td className="py-1 text-right">{formatHours(item.hours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {approved.length > 0 && (
+          <>
+            <h3 className="font-semibold mb-2">Reservas aprobadas</h3>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-1">Fecha</th>
+                  <th className="py-1">Horario</th>
+                  <th className="py-1">Responsable</th>
+                  <th className="py-1">Afiliación</th>
+                  <th className="py-1">Motivo</th>
+                  <th className="py-1 text-right">Personas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {approved.map(row => (
+                  <tr key={row.id} className="border-b border-gray-100 align-top">
+                    <td className="py-1 whitespace-nowrap capitalize">{formatDay(row.fecha)}</td>
+                    <td className="py-1 whitespace-nowrap">{row.inicio} - {row.fin}</td>
+                    <td className="py-1">{row.responsable}</td>
+                    <td className="py-1">{row.affiliation}</td>
+                    <td className="py-1">{row.motivo}</td>
+                    <td className="py-1 text-right">{row.personas}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {cancelled.length > 0 && (
+          <>
+            <h3 className="font-semibold mb-2">Cancelaciones y rechazos</h3>
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-1">Fecha</th>
+                  <th className="py-1">Responsable</th>
+                  <th className="py-1">Estado</th>
+                  <th className="py-1">Motivo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cancelled.map(row => (
+                  <tr key={row.id} className="border-b border-gray-100 align-top">
+                    <td className="py-1 whitespace-nowrap capitalize">{formatDay(row.fecha)}</td>
+                    <td className="py-1">{row.responsable}</td>
+                    <td className="py-1">{EXPORT_STATUS_LABELS[row.status]}</td>
+                    <td className="py-1">{row.cancellation_reason || row.admin_notes || 'No especificado'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {blocked.length > 0 && (
+          <>
+            <h3 className="font-semibold mb-2">Bloqueos</h3>
+            <ul className="text-sm list-disc pl-5">
+              {blocked.map(row => (
+                <li key={row.id}>
+                  <span className="capitalize">{formatDay(row.fecha)}</span>
+                  {row.inicio ? ` ${row.inicio} - ${row.fin}` : ' (todo el día)'}
+                  {row.motivo && `: ${row.motivo}`}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-8 bg-white text-gray-900 print:p-0">
+      <div className="flex justify-between items-start mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">Informe de uso del Quincho FIUNA</h1>
+          <p className="text-gray-600">
+            Período: {format(fechaToDate(from), 'dd/MM/yyyy')} al {format(fechaToDate(to), 'dd/MM/yyyy')}
+          </p>
+          <p className="text-xs text-gray-500">
+            Generado el {format(new Date(), "d 'de' MMMM 'de' yyyy, HH:mm", { locale: es })}
+          </p>
+        </div>
+        <Button onClick={() => window.print()} className="print:hidden" disabled={isLoading}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimir / PDF
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+        </div>
+      ) : hasError ? (
+        <p className="text-center text-red-600">Error al cargar los datos del informe.</p>
+      ) : summaries.length === 0 ? (
+        <p className="text-center text-gray-500">No hay registros en el período seleccionado.</p>
+      ) : (
+        summaries.map(renderMonth)
+      )}
+    </div>
+  );
+};
+
+export default AdminReportPage;
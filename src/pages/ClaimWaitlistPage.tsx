@@ -0,0 +1,207 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { claimWaitlistSpot } from '@/lib/supabase';
+import { motion } from 'framer-motion';
+import { CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { ClaimWaitlistResult } from '@/types/waitlist';
+import { RESERVATION_ERROR_MESSAGES } from '@/hooks/reservation/useReservationSubmit';
+import { useSettings } from '@/context/SettingsContext';
+import { getBookingPolicyMessage } from '@/utils/bookingPolicyUtils';
+import { fechaToDate } from '@/lib/dates';
+
+type ClaimStatus = 'loading' | 'success' | 'expired' | 'taken' | 'claimed' | 'rejected' | 'error';
+
+export default function ClaimWaitlistPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<ClaimStatus>('loading');
+  const [reservationDetails, setReservationDetails] = useState<ClaimWaitlistResult['reservation'] | null>(null);
+  const [rejectionCode, setRejectionCode] = useState('');
+  const { bookingPolicies } = useSettings();
+  const claimStarted = useRef(false);
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    async function claimSpot() {
+      if (!token) {
+        setStatus('error');
+        return;
+      }
+
+      // Claiming is not idempotent: make sure a re-render does not claim twice
+      if (claimStarted.current) return;
+      claimStarted.current = true;
+
+      try {
+        const result = await claimWaitlistSpot(token);
+
+        if (result.success && result.reservation) {
+          setReservationDetails(result.reservation);
+          setStatus('success');
+          return;
+        }
+
+        switch (result.error) {
+          case 'EXPIRED':
+            setStatus('expired');
+            break;
+          case 'SLOT_TAKEN':
+            setStatus('taken');
+            break;
+          case 'ALREADY_CLAIMED':
+            setStatus('claimed');
+            break;
+          case 'INVALID_TOKEN':
+          case undefined:
+            setStatus('error');
+            break;
+          default:
+            // Rejected by the same rules and policies as the booking form
+            setRejectionCode(result.error);
+            setStatus('rejected');
+        }
+      } catch (error) {
+        console.error('Waitlist claim error:', error);
+        setStatus('error');
+      }
+    }
+
+    claimSpot();
+  }, [token]);
+
+  const formatDate = (dateStr: string) => {
+    const date = fechaToDate(dateStr);
+    return date.toLocaleDateString('es-PY', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const renderMessage = (icon: ReactNode, title: string, message: string, action: { label: string; to: string }) => (
+    <div className="text-center">
+      {icon}
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+      <p className="text-gray-600 mb-6">{message}</p>
+      <button
+        onClick={() => navigate(action.to)}
+        className="bg-fiuna-red hover:bg-fiuna-darkred text-white font-medium py-2 px-6 rounded-md transition-colors"
+      >
+        {action.label}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-12 flex items-center justify-center">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="max-w-2xl w-full bg-white rounded-lg shadow-lg p-8"
+        >
+          {status === 'loading' && (
+            <div className="text-center">
+              <Loader2 className="h-16 w-16 animate-spin text-fiuna-red mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">
+                Reclamando tu horario...
+              </h2>
+              <p className="text-gray-600">
+                Por favor espera mientras creamos tu solicitud de reserva.
+              </p>
+            </div>
+          )}
+
+          {status === 'success' && reservationDetails && (
+            <div className="text-center">
+              <motion.div
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                transition={{ type: 'spring', duration: 0.6 }}
+              >
+                <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />
+              </motion.div>
+
+              <h2 className="text-3xl font-bold text-gray-800 mb-4">
+                ¡Horario Reclamado!
+              </h2>
+
+              <div className="bg-gray-50 rounded-lg p-6 mb-6 text-left">
+                <h3 className="font-semibold text-lg mb-4 text-gray-800">
+                  Detalles de tu reserva:
+                </h3>
+                <div className="space-y-2 text-gray-700">
+                  <p><span className="font-medium">Responsable:</span> {reservationDetails.responsable}</p>
+                  <p><span className="font-medium">Email:</span> {reservationDetails.email}</p>
+                  <p><span className="font-medium">Fecha:</span> {formatDate(reservationDetails.fecha)}</p>
+                  <p><span className="font-medium">Horario:</span> {reservationDetails.inicio} - {reservationDetails.fin}</p>
+                  <p><span className="font-medium">Motivo:</span> {reservationDetails.motivo}</p>
+                  <p><span className="font-medium">Personas:</span> {reservationDetails.personas}</p>
+                </div>
+              </div>
+
+              <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
+                <p className="text-sm text-blue-800">
+                  <strong>Próximo paso:</strong> Tu solicitud será revisada por un administrador.
+                  Recibirás un correo electrónico cuando tu reserva sea aprobada o rechazada.
+                </p>
+              </div>
+
+              <button
+                onClick={() => navigate('/calendario')}
+                className="bg-fiuna-red hover:bg-fiuna-darkred text-white font-medium py-2 px-6 rounded-md transition-colors"
+              >
+                Ir al calendario
+              </button>
+            </div>
+          )}
+
+          {status === 'expired' && renderMessage(
+            <XCircle className="h-16 w-16 text-yellow-500 mx-auto mb-4" />,
+            'Enlace Expirado',
+            'El plazo para reclamar este horario terminó y pasó a la siguiente persona de la lista de espera.',
+            { label: 'Nueva reserva', to: '/nueva-reserva' }
+          )}
+
+          {status === 'taken' && renderMessage(
+            <XCircle className="h-16 w-16 text-yellow-500 mx-auto mb-4" />,
+            'Horario No Disponible',
+            'Lo sentimos, el horario volvió a ocuparse antes de que pudieras reclamarlo.',
+            { label: 'Ver calendario', to: '/calendario' }
+          )}
+
+          {status === 'claimed' && renderMessage(
+            <CheckCircle2 className="h-16 w-16 text-green-500 mx-auto mb-4" />,
+            'Horario Ya Reclamado',
+            'Este enlace ya fue utilizado. Tu solicitud de reserva está pendiente de revisión.',
+            { label: 'Ir al calendario', to: '/calendario' }
+          )}
+
+          {status === 'rejected' && renderMessage(
+            <XCircle className="h-16 w-16 text-yellow-500 mx-auto mb-4" />,
+            'No Se Pudo Reclamar el Horario',
+            RESERVATION_ERROR_MESSAGES[rejectionCode] ||
+              getBookingPolicyMessage(rejectionCode, bookingPolicies) ||
+              'No se pudo crear la reserva para este horario.',
+            { label: 'Ver calendario', to: '/calendario' }
+          )}
+
+          {status === 'error' && renderMessage(
+            <XCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />,
+            'Enlace No Válido',
+            'El enlace no es válido. Si crees que esto es un error, por favor contacta al administrador.',
+            { label: 'Volver al calendario', to: '/calendario' }
+          )}
+        </motion.div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,16 +1,21 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
+import { formatLongDate } from '@/lib/dates';
 import { motion } from 'framer-motion';
-import { CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { CalendarPlus, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
+import { downloadReservationsIcs } from '@/utils/icsUtils';
+import { ReservationEventRow } from '@/lib/ical';
 
 export default function ConfirmReservationPage() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [status, setStatus] = useState<'loading' | 'success' | 'error' | 'expired'>('loading');
   const [reservationDetails, setReservationDetails] = useState<any>(null);
+  const [seriesDates, setSeriesDates] = useState<string[]>([]);
+  const [confirmedReservations, setConfirmedReservations] = useState<ReservationEventRow[]>([]);
   const token = searchParams.get('token');
 
   useEffect(() => {
@@ -22,24 +27,25 @@ export default function ConfirmReservationPage() {
 
       try {
         // Verify and update reservation
-        // First, update the confirmed field
-        const { data: updateData, error: updateError } = await (supabase as any)
+        // First, update the confirmed field. Recurring series share one token,
+        // so this may confirm several occurrences at once.
+        const { data: updateData, error: updateError } = await supabase
           .from('reservations')
           .update({ confirmed: true })
           .eq('confirmation_token', token)
           .gt('token_expires_at', new Date().toISOString())
           .select()
-          .maybeSingle();
+          .order('fecha', { ascending: true });
 
-        if (updateError || !updateData) {
+        if (updateError || !updateData || updateData.length === 0) {
           // Check if token exists but is expired
-          const { data: expiredData } = await (supabase as any)
+          const { data: expiredData } = await supabase
             .from('reservations')
-            .select('*')
+            .select('id')
             .eq('confirmation_token', token)
-            .maybeSingle();
+            .limit(1);
 
-          if (expiredData) {
+          if (expiredData && expiredData.length > 0) {
             setStatus('expired');
           } else {
             setStatus('error');
@@ -47,7 +53,9 @@ export default function ConfirmReservationPage() {
           return;
         }
 
-        setReservationDetails(updateData);
+        setReservationDetails(updateData[0]);
+        setConfirmedReservations(updateData);
+        setSeriesDates(updateData.length > 1 ? updateData.map(r => r.fecha) : []);
         setStatus('success');
       } catch (error) {
         console.error('Confirmation error:', error);
@@ -58,16 +66,6 @@ export default function ConfirmReservationPage() {
     confirmReservation();
   }, [token, navigate]);
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('es-PY', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-  };
-
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
@@ -112,26 +110,58 @@ export default function ConfirmReservationPage() {
                 <div className="space-y-2 text-gray-700">
                   <p><span className="font-medium">Responsable:</span> {reservationDetails.responsable}</p>
                   <p><span className="font-medium">Email:</span> {reservationDetails.email}</p>
-                  <p><span className="font-medium">Fecha:</span> {formatDate(reservationDetails.fecha)}</p>
+                  <p>
+                    <span className="font-medium">{seriesDates.length > 0 ? 'Primera fecha:' : 'Fecha:'}</span> {formatLongDate(reservationDetails.fecha)}
+                  </p>
                   <p><span className="font-medium">Horario:</span> {reservationDetails.inicio} - {reservationDetails.fin}</p>
                   <p><span className="font-medium">Motivo:</span> {reservationDetails.motivo}</p>
                   <p><span className="font-medium">Personas:</span> {reservationDetails.personas}</p>
                 </div>
+                {seriesDates.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 text-gray-700">
+                    <p className="font-medium mb-2">
+                      Reserva recurrente: se confirmaron {seriesDates.length} fechas
+                    </p>
+                    <ul className="list-disc pl-5 space-y-1 text-sm">
+                      {seriesDates.map(fecha => (
+                        <li key={fecha}>{formatLongDate(fecha)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
 
-              <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
-                <p className="text-sm text-blue-800">
-                  <strong>Próximo paso:</strong> Tu solicitud será revisada por un administrador. 
-                  Recibirás un correo electrónico cuando tu reserva sea aprobada o rechazada.
-                </p>
-              </div>
+              {reservationDetails.status === 'approved' ? (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 mb-6">
+                  <p className="text-sm text-green-800">
+                    <strong>¡Listo!</strong> Tu reserva fue aprobada automáticamente. 
+                    Te enviamos un correo electrónico con la aprobación.
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
+                  <p className="text-sm text-blue-800">
+                    <strong>Próximo paso:</strong> Tu solicitud será revisada por un administrador. 
+                    Recibirás un correo electrónico cuando tu reserva sea aprobada o rechazada.
+                  </p>
+                </div>
+              )}
 
-              <button
-                onClick={() => navigate('/calendario')}
-                className="bg-fiuna-red hover:bg-fiuna-darkred text-white font-medium py-2 px-6 rounded-md transition-colors"
-              >
-                Ir al calendario
-              </button>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <button
+                  onClick={() => downloadReservationsIcs(confirmedReservations)}
+                  className="inline-flex items-center justify-center border border-fiuna-red text-fiuna-red hover:bg-red-50 font-medium py-2 px-6 rounded-md transition-colors"
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Agregar a mi calendario (.ics)
+                </button>
+                <button
+                  onClick={() => navigate('/calendario')}
+                  className="bg-fiuna-red hover:bg-fiuna-darkred text-white font-medium py-2 px-6 rounded-md transition-colors"
+                >
+                  Ir al calendario
+                </button>
+              </div>
             </div>
           )}
 
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addDays, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import HandoverPanel from '@/components/admin/HandoverPanel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/context/AuthContext';
+import { supabase, getHandoverReservations } from '@/lib/supabase';
+import { HandoverReservation } from '@/types/handover';
+import { logger } from '@/utils/logger';
+
+// Guard's daily sheet: approved reservations of the day with key handover,
+// check-in/check-out and condition checklist (replaces the paper log)
+const HandoverPage: React.FC = () => {
+  const { hasPermission, isAuthenticated, loading } = useAuth();
+  const [day, setDay] = useState(new Date());
+  const [reservations, setReservations] = useState<HandoverReservation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const canRecord = hasPermission('handovers.record');
+  const fecha = format(day, 'yyyy-MM-dd');
+
+  const fetchReservations = async () => {
+    try {
+      setReservations(await getHandoverReservations(fecha));
+    } catch (error) {
+      logger.error('Error loading handover reservations', error);
+      toast.error('Error al cargar las reservas del día');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (loading || !canRecord) return;
+
+    setIsLoading(true);
+    fetchReservations();
+
+    // Another guard or an admin may record the same handover
+    const channel = supabase
+      .channel('handovers_changes')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'reservation_handovers' },
+        () => {
+          fetchReservations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loading, canRecord, fecha]);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+        </div>
+      );
+    }
+
+    if (!canRecord) {
+      return (
+        <div className="text-center space-y-4 py-12">
+          <p className="text-gray-600">
+            {isAuthenticated
+              ? 'Solo los usuarios con rol de guardia o superadministrador pueden registrar la entrega de llaves.'
+              : 'Inicie sesión para registrar la entrega de llaves.'}
+          </p>
+          {!isAuthenticated && (
+            <Link to="/login">
+              <Button>Iniciar sesión</Button>
+            </Link>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="icon" onClick={() => setDay(current => addDays(current, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="text-center">
+            <p className="font-semibold capitalize">{format(day, "EEEE d 'de' MMMM", { locale: es })}</p>
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setDay(new Date())}>
+              Hoy
+            </Button>
+          </div>
+          <Button variant="outline" size="icon" onClick={() => setDay(current => addDays(current, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+          </div>
+        ) : reservations.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No hay reservas aprobadas para este día.</p>
+        ) : (
+          reservations.map(reservation => (
+            <Card key={reservation.id}>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {reservation.inicio} - {reservation.fin} · {reservation.responsable}
+                </CardTitle>
+                <CardDescription>
+                  {reservation.motivo} · {reservation.personas} personas
+                  {reservation.affiliation && ` · ${reservation.affiliation}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HandoverPanel
+                  reservationId={reservation.id}
+                  handover={reservation.handover}
+                  canRecord={canRecord}
+                  onChanged={fetchReservations}
+                />
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+      <main className="flex-1 p-4 pt-6">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 text-fiuna-gray">Entrega de llaves</h1>
+          <p className="text-gray-500">Registre la llegada, la salida y el estado del quincho</p>
+        </div>
+        <div className="w-full max-w-3xl mx-auto">
+          {renderContent()}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default HandoverPage;
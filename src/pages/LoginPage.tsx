@@ -7,11 +7,11 @@ import { useAuth } from '@/context/AuthContext';
 import { Navigate } from 'react-router-dom';
 
 const LoginPage: React.FC = () => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isAdmin } = useAuth();
 
   // Don't render the form at all if already authenticated
   if (isAuthenticated) {
-    return <Navigate to="/admin" replace />;
+    return <Navigate to={isAdmin ? '/admin' : '/mis-reservas'} replace />;
   }
 
   return (
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import MyReservations from '@/components/MyReservations';
+import CalendarSubscription from '@/components/CalendarSubscription';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+
+const MyReservationsPage: React.FC = () => {
+  const { isAuthenticated, loading } = useAuth();
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+      <main className="flex-1 p-4 pt-6">
+        <div className="mb-8 text-center">
+          <h1 className="text-2xl md:text-3xl font-bold mb-2 text-fiuna-gray">Mis Reservas</h1>
+          <p className="text-gray-500">Consulte, cancele o solicite cambios en sus reservas</p>
+        </div>
+        <div className="w-full max-w-3xl mx-auto">
+          {loading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-fiuna-red"></div>
+            </div>
+          ) : isAuthenticated ? (
+            <>
+              <MyReservations />
+              <CalendarSubscription />
+            </>
+          ) : (
+            <div className="text-center space-y-4 py-12">
+              <p className="text-gray-600">Inicie sesión para ver sus reservas.</p>
+              <Link to="/login">
+                <Button>Iniciar sesión</Button>
+              </Link>
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default MyReservationsPage;
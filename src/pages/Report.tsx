@@ -1,38 +1,146 @@
 
 import { motion } from 'framer-motion';
 import { ArrowLeft } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useRef, useState } from 'react';
 import { toast } from '@/components/ui/use-toast';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
+import { createReport } from '@/lib/supabase';
+import { REPORT_CATEGORY_LABELS, ReportCategory } from '@/types/report';
+import { isValidEmail } from '@/utils/timeUtils';
+import { logger } from '@/utils/logger';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5 MB, same limit as the storage bucket
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const Report = () => {
+  // The feedback email links here with the reservation and category filled in
+  const [searchParams] = useSearchParams();
+  const initialCategory = searchParams.get('categoria');
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [category, setCategory] = useState<ReportCategory | ''>(
+    initialCategory && initialCategory in REPORT_CATEGORY_LABELS ? initialCategory as ReportCategory : ''
+  );
   const [description, setDescription] = useState('');
+  const [reservationId, setReservationId] = useState(searchParams.get('reserva') || '');
+  const [photos, setPhotos] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+
+    if (selected.length > MAX_PHOTOS) {
+      toast({
+        title: "Demasiadas fotos",
+        description: `Puede adjuntar hasta ${MAX_PHOTOS} fotos.`,
+        variant: "destructive",
+      });
+      e.target.value = '';
+      return;
+    }
+
+    if (selected.some(file => !file.type.startsWith('image/') || file.size > MAX_PHOTO_SIZE)) {
+      toast({
+        title: "Archivo no válido",
+        description: "Solo se aceptan imágenes de hasta 5 MB.",
+        variant: "destructive",
+      });
+      e.target.value = '';
+      return;
+    }
+
+    setPhotos(selected);
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const resetForm = () => {
+    setName('');
+    setEmail('');
+    setCategory('');
+    setDescription('');
+    setReservationId('');
+    setPhotos([]);
+    if (photoInputRef.current) {
+      photoInputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!category) {
+      toast({
+        title: "Seleccione una categoría",
+        description: "Indique qué tipo de problema desea reportar.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isValidEmail(email)) {
+      toast({
+        title: "Correo inválido",
+        description: "Ingrese un correo electrónico válido.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (reservationId && !UUID_PATTERN.test(reservationId.trim())) {
+      toast({
+        title: "ID de reserva inválido",
+        description: "Revise el identificador o deje el campo vacío.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
-    
-    // In a real app, this would send the report to a backend
-    // For now, just simulate a successful submission
-    setTimeout(() => {
+    try {
+      await createReport({
+        name,
+        email,
+        category,
+        description,
+        reservationId: reservationId.trim() || undefined,
+        photos
+      });
+
       toast({
         title: "Reporte enviado",
-        description: "Gracias por ayudarnos a mejorar el sistema.",
+        description: "Gracias por ayudarnos a mejorar el sistema. Te avisaremos por correo cuando lo revisemos.",
       });
-      
-      setName('');
-      setEmail('');
-      setDescription('');
+      resetForm();
+    } catch (error) {
+      logger.error('Error submitting report', error);
+      const { message } = (error || {}) as { message?: string };
+      toast({
+        title: "No se pudo enviar el reporte",
+        description: message === 'RESERVATION_NOT_FOUND'
+          ? "No se encontró la reserva indicada."
+          : message === 'INVALID_INPUT'
+            ? "Revise los datos: el nombre admite hasta 100 caracteres y la descripción hasta 2000."
+            : message === 'RATE_LIMITED'
+              ? "Enviaste demasiados reportes en poco tiempo. Por favor, espera una hora e inténtalo de nuevo."
+              : "Ocurrió un error al enviar el reporte. Intente nuevamente.",
+        variant: "destructive",
+      });
+    } finally {
       setIsSubmitting(false);
-    }, 1000);
+    }
   };
 
   return (
@@ -52,7 +160,7 @@ const Report = () => {
                 <ArrowLeft className="h-5 w-5" />
               </Button>
             </Link>
-            <h1 className="text-2xl font-bold">Reportar un error</h1>
+            <h1 className="text-2xl font-bold">Reportar un problema</h1>
           </div>
           
           <div className="bg-white p-6 rounded-lg shadow-sm max-w-2xl mx-auto">
@@ -82,9 +190,25 @@ const Report = () => {
                 />
               </div>
               
+              <div>
+                <label htmlFor="category" className="block text-sm font-medium mb-1">
+                  Categoría
+                </label>
+                <Select value={category} onValueChange={(value) => setCategory(value as ReportCategory)}>
+                  <SelectTrigger id="category" className="w-full">
+                    <SelectValue placeholder="Seleccione el tipo de problema" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]).map(key => (
+                      <SelectItem key={key} value={key}>{REPORT_CATEGORY_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <div>
                 <label htmlFor="description" className="block text-sm font-medium mb-1">
-                  Descripción del error
+                  Descripción del problema
                 </label>
                 <Textarea
                   id="description"
@@ -94,6 +218,37 @@ const Report = () => {
                   required
                 />
               </div>
+
+              <div>
+                <label htmlFor="reservation-id" className="block text-sm font-medium mb-1">
+                  ID de la reserva relacionada (opcional)
+                </label>
+                <Input
+                  id="reservation-id"
+                  value={reservationId}
+                  onChange={(e) => setReservationId(e.target.value)}
+                  placeholder="Solo si el problema está relacionado con una reserva"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="photos" className="block text-sm font-medium mb-1">
+                  Fotos (opcional, hasta {MAX_PHOTOS})
+                </label>
+                <Input
+                  id="photos"
+                  ref={photoInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handlePhotosChange}
+                />
+                {photos.length > 0 && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    {photos.length} {photos.length === 1 ? 'foto seleccionada' : 'fotos seleccionadas'}
+                  </p>
+                )}
+              </div>
               
               <Button 
                 type="submit" 
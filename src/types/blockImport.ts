@@ -0,0 +1,28 @@
+import { BlockRuleConflict } from './blockRule';
+
+export type BlockImportSource = 'holiday' | 'academic';
+
+// A holiday or academic calendar event to be imported as a blocked_dates group
+export interface BlockImportEntry {
+  key: string; // stored in blocked_dates.import_key; stable across imports
+  motivo: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  startTime: string | null; // HH:mm; both empty blocks the whole day
+  endTime: string | null;
+  source: BlockImportSource;
+}
+
+// What importing an entry would do
+export interface BlockImportPreview {
+  entry: BlockImportEntry;
+  dates: string[];
+  newDates: string[]; // days not imported yet
+  conflicts: BlockRuleConflict[]; // upcoming reservations that would be cancelled
+}
+
+// Parsed academic calendar file
+export interface AcademicCalendarParseResult {
+  entries: BlockImportEntry[];
+  skipped: number; // lines or events that could not be read
+}
@@ -0,0 +1,44 @@
+export type BlockRuleFrequency = 'weekly' | 'yearly' | 'range';
+
+export type BlockRuleCategory = 'holiday' | 'exam' | 'maintenance' | 'other';
+
+// Row of public.blocked_date_rules
+export interface BlockRule {
+  id: string;
+  motivo: string;
+  category: BlockRuleCategory;
+  frequency: BlockRuleFrequency;
+  weekdays: number[] | null; // weekly: 0 = Sunday
+  month: number | null; // yearly: 1-12
+  day: number | null; // yearly
+  start_date: string | null; // YYYY-MM-DD; range: first blocked day, otherwise first day the rule applies
+  end_date: string | null; // YYYY-MM-DD; range: last blocked day, otherwise last day the rule applies
+  start_time: string | null; // HH:mm; both times empty blocks the whole day
+  end_time: string | null;
+  active: boolean;
+  created_at: Date;
+}
+
+export type NewBlockRule = Omit<BlockRule, 'id' | 'active' | 'created_at'>;
+
+// Upcoming reservation that saving a rule would cancel (preview_block_rule)
+export interface BlockRuleConflict {
+  id: string;
+  responsable: string;
+  email: string;
+  motivo: string;
+  fecha: string; // YYYY-MM-DD
+  inicio: string;
+  fin: string;
+  status: string;
+}
+
+// One day blocked by a rule (expand_block_rules)
+export interface RuleBlockedDay {
+  rule_id: string;
+  fecha: string; // YYYY-MM-DD
+  motivo: string;
+  category: BlockRuleCategory;
+  start_time: string | null;
+  end_time: string | null;
+}
@@ -0,0 +1,17 @@
+export type CapacityRuleKind = 'documentation' | 'auto_approve';
+
+// Row of public.capacity_rules
+export interface CapacityRule {
+  id: string;
+  name: string;
+  kind: CapacityRuleKind;
+  affiliations: string[]; // empty applies to every affiliation
+  min_personas: number | null; // inclusive
+  max_personas: number | null; // inclusive
+  requirement: string | null; // documentation rules: what the requester must provide
+  sort_order: number;
+  active: boolean;
+  created_at: Date;
+}
+
+export type NewCapacityRule = Omit<CapacityRule, 'id' | 'active' | 'created_at'>;
@@ -0,0 +1,45 @@
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'bounced';
+
+// An email handled by the send-email Edge Function and its delivery state
+export interface EmailOutboxEntry {
+  id: string;
+  type: string;
+  recipient: string;
+  reservation_id: string | null;
+  // Reservation data included in the email, when it is about a reservation
+  reservation: {
+    responsable?: string;
+    fecha?: string;
+    inicio?: string;
+    fin?: string;
+  } | null;
+  status: EmailOutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  sent_at: Date | null;
+  delivered_at: Date | null;
+  bounced_at: Date | null;
+  createdAt: Date;
+}
+
+export const EMAIL_OUTBOX_STATUS_LABELS: Record<EmailOutboxStatus, string> = {
+  pending: 'Reintentando',
+  sending: 'Enviando',
+  sent: 'Enviado',
+  failed: 'Fallido',
+  bounced: 'Rebotado'
+};
+
+export const EMAIL_TYPE_LABELS: Record<string, string> = {
+  'confirm-reservation': 'Confirmación de reserva',
+  'reservation-approved': 'Reserva aprobada',
+  'reservation-cancelled': 'Reserva cancelada',
+  'reservation-rejected': 'Reserva rechazada',
+  'reservation-reminder': 'Recordatorio',
+  'reservation-feedback': 'Pedido de opinión',
+  'report-update': 'Actualización de reporte',
+  'waitlist-available': 'Lugar disponible (lista de espera)',
+  'reservation-changed': 'Cambio de reserva'
+};
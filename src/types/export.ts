@@ -0,0 +1,40 @@
+import { ReservationStatus } from './reservation';
+
+// Blocked dates are exported together with reservations as their own "status"
+export type ExportStatus = ReservationStatus | 'blocked';
+
+export interface ExportFilters {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  statuses: ExportStatus[];
+}
+
+// One exported line: a reservation or a blocked date
+export interface ExportRow {
+  tipo: 'Reserva' | 'Bloqueo';
+  id: string;
+  fecha: string; // YYYY-MM-DD
+  inicio: string; // HH:mm, empty for whole-day blocks
+  fin: string;
+  status: ExportStatus;
+  responsable: string;
+  email: string;
+  affiliation: string;
+  motivo: string;
+  personas: number | null;
+  admin_notes: string;
+  createdAt: Date;
+  updated_at: Date | null;
+  updated_by: string; // Admin name when known, otherwise the user id
+  cancellation_reason: string;
+  cancelled_at: Date | null;
+  cancelled_by: string;
+}
+
+export const EXPORT_STATUS_LABELS: Record<ExportStatus, string> = {
+  approved: 'Aprobada',
+  pending: 'Pendiente',
+  cancelled: 'Cancelada',
+  rejected: 'Rechazada',
+  blocked: 'Bloqueo'
+};
@@ -0,0 +1,48 @@
+// Key handover and check-in/check-out record of an approved reservation
+export interface ReservationHandover {
+  reservation_id: string;
+  checked_in_at: Date | null;
+  checked_in_by: string | null;
+  key_handed_out_at: Date | null;
+  checked_out_at: Date | null;
+  checked_out_by: string | null;
+  key_returned_at: Date | null;
+  grill_clean: boolean | null;
+  trash_removed: boolean | null;
+  damage_noted: boolean;
+  damage_notes: string | null;
+  photos: string[]; // Paths inside the handover-photos bucket
+  notes: string | null;
+  no_show: boolean; // Ended without check-in (set by the hourly cleanup)
+  updated_at?: Date;
+  updated_by?: string;
+}
+
+export interface HandoverCheckIn {
+  keyHandedOut: boolean;
+  notes?: string;
+}
+
+export interface HandoverCheckOut {
+  keyReturned: boolean;
+  grillClean: boolean;
+  trashRemoved: boolean;
+  damageNoted: boolean;
+  damageNotes?: string;
+  notes?: string;
+  photos: File[];
+}
+
+// Approved reservation of the day as listed for the guard
+export interface HandoverReservation {
+  id: string;
+  responsable: string;
+  email: string;
+  motivo: string;
+  personas: number;
+  affiliation?: string | null;
+  fecha: string; // YYYY-MM-DD
+  inicio: string; // HH:mm
+  fin: string; // HH:mm
+  handover: ReservationHandover | null;
+}
@@ -0,0 +1,41 @@
+export type ReportCategory = 'bug' | 'damage' | 'cleanliness' | 'other';
+
+export type ReportStatus = 'open' | 'in_progress' | 'resolved';
+
+export interface Report {
+  id: string;
+  name: string;
+  email: string;
+  category: ReportCategory;
+  description: string;
+  reservation_id: string | null;
+  attachments: string[];
+  status: ReportStatus;
+  admin_reply: string | null;
+  replied_at: Date | null;
+  createdAt: Date;
+  updated_at?: Date;
+  updated_by?: string;
+}
+
+export interface NewReport {
+  name: string;
+  email: string;
+  category: ReportCategory;
+  description: string;
+  reservationId?: string;
+  photos: File[];
+}
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  bug: 'Error del sistema',
+  damage: 'Daño en el quincho',
+  cleanliness: 'Limpieza',
+  other: 'Otro'
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Abierta',
+  in_progress: 'En progreso',
+  resolved: 'Resuelta'
+};
@@ -17,6 +17,75 @@ export interface Reservation {
   affiliation?: string;
   updated_at?: Date;
   updated_by?: string;
+  series_id?: string | null;
+  user_id?: string | null;
+  confirmed?: boolean; // false until the requester confirms by email
+  ical_sequence?: number; // iCalendar SEQUENCE, bumped by the database on changes
+  documentation_required?: string[] | null; // requirements of the capacity rules that applied
+  documentation?: string | null; // the requester's answer to them
+  auto_approval_rule_name?: string | null; // set when a capacity rule approved it
+  auto_approved_at?: string | null;
+  created_by_admin?: string | null; // admin who booked it on the requester's behalf
+  policy_override_reason?: string | null; // why the booking policies were skipped
+}
+
+export type ChangeRequestStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ReservationChangeRequest {
+  id: string;
+  reservation_id: string;
+  requested_by: string | null;
+  message: string | null;
+  proposed_fecha: string | null; // YYYY-MM-DD
+  proposed_inicio: string | null; // HH:mm
+  proposed_fin: string | null; // HH:mm
+  proposed_personas: number | null;
+  previous_values: { fecha: string; inicio: string; fin: string; personas: number } | null;
+  status: ChangeRequestStatus;
+  admin_response: string | null;
+  resolved_at: Date | null;
+  createdAt: Date;
+}
+
+// What the owner wants to change; omitted fields stay as they are
+export interface ReservationChangeProposal {
+  fecha?: Date;
+  inicio?: string;
+  fin?: string;
+  personas?: number;
+  message?: string;
+}
+
+export interface ReservationCancellation {
+  id: string;
+  reservation_id: string;
+  cancelled_by: string | null;
+  reason: string | null;
+  previous_status: ReservationStatus | null;
+  byOwner: boolean; // Cancelled by the reservation owner rather than an admin
+  createdAt: Date;
+}
+
+// A reservation as seen by its owner in "Mis reservas"
+export interface OwnReservation extends Reservation {
+  cancellation: ReservationCancellation | null;
+  changeRequests: ReservationChangeRequest[];
+}
+
+export type RecurrenceEndType = 'count' | 'until';
+
+export interface RecurrenceRule {
+  frequency: 'weekly';
+  interval: number; // Weeks between occurrences (1 = weekly, 2 = biweekly)
+  endType: RecurrenceEndType;
+  count?: number;
+  until?: Date;
+}
+
+// A series occurrence skipped because it broke a booking policy
+export interface SeriesPolicyRejection {
+  fecha: string;
+  error: string;
 }
 
 export interface BlockedDate {
@@ -0,0 +1,64 @@
+export type AppRole = 'super_admin' | 'approver' | 'guard' | 'auditor' | 'user';
+
+// Must match public.role_permissions
+export type Permission =
+  | 'admin.view'
+  | 'reservations.manage'
+  | 'blocks.manage'
+  | 'reports.manage'
+  | 'handovers.record'
+  | 'settings.manage'
+  | 'users.manage';
+
+export interface UserAccess {
+  role: AppRole;
+  permissions: Permission[];
+}
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  super_admin: 'Superadministrador',
+  approver: 'Aprobador',
+  guard: 'Guardia / Portero',
+  auditor: 'Auditor',
+  user: 'Usuario'
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  super_admin: 'Acceso total, incluida la gestión de usuarios y la configuración',
+  approver: 'Aprueba, rechaza y cancela reservas; gestiona bloqueos, lista de espera e incidencias',
+  guard: 'Registra la entrega de llaves, llegadas y salidas',
+  auditor: 'Consulta reservas, estadísticas y registros sin poder modificarlos',
+  user: 'Solicita y gestiona sus propias reservas'
+};
+
+export interface ManagedUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: AppRole;
+  createdAt: Date;
+  last_sign_in_at: Date | null;
+  invited_at: Date | null;
+  email_confirmed: boolean;
+}
+
+export type RoleAuditAction = 'invited' | 'role_changed' | 'revoked';
+
+export interface RoleAuditEntry {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  action: RoleAuditAction;
+  previous_role: AppRole | null;
+  new_role: AppRole | null;
+  reason: string | null;
+  performed_by: string | null;
+  performed_by_name?: string;
+  createdAt: Date;
+}
+
+export const ROLE_AUDIT_ACTION_LABELS: Record<RoleAuditAction, string> = {
+  invited: 'Invitación',
+  role_changed: 'Cambio de rol',
+  revoked: 'Acceso revocado'
+};
@@ -0,0 +1,40 @@
+import { CapacityRule } from './capacity';
+
+export type SlotMinutes = 30 | 60;
+
+export interface DaySchedule {
+  closed: boolean;
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+export interface OperatingHours {
+  days: DaySchedule[]; // Indexed like Date#getDay (0 = domingo ... 6 = sábado)
+  slotMinutes: SlotMinutes;
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+}
+
+// Limits on who can book what and when; 0 (or a missing affiliation) means no limit
+export interface BookingPolicies {
+  minLeadHours: number;
+  maxHorizonDays: number;
+  maxActivePerEmail: number;
+  monthlyHoursByAffiliation: Record<string, number>;
+  noShowCooldownDays: number;
+}
+
+// Reminder emails before each approved reservation and the feedback email after it
+export interface ReminderSchedule {
+  hoursBefore: number[]; // Largest first, e.g. [24, 1]
+  feedbackHoursAfter: number; // 0 disables the feedback email
+}
+
+export interface SettingsContextType {
+  operatingHours: OperatingHours;
+  maxPersonas: number;
+  capacityRules: CapacityRule[];
+  bookingPolicies: BookingPolicies;
+  isLoading: boolean;
+  refreshSettings: () => Promise<void>;
+}
@@ -0,0 +1,50 @@
+export type StatisticsPeriod = 'week' | 'month';
+
+export interface OccupancyPoint {
+  period_start: string; // YYYY-MM-DD, first day of the week (Monday) or month
+  booked_hours: number;
+  available_hours: number;
+  rate: number | null; // 0..1, null when the quincho had no open hours
+}
+
+export interface AffiliationUsage {
+  affiliation: string;
+  reservations: number;
+  hours: number;
+}
+
+export interface WeekdayUsage {
+  dow: number; // 0 = Sunday, like Date.getDay()
+  reservations: number;
+  hours: number;
+}
+
+export interface HeatmapCell {
+  dow: number;
+  hour: number; // 0..23
+  reservations: number;
+}
+
+export interface StatusCounts {
+  approved: number;
+  pending: number;
+  rejected: number;
+  cancelled: number;
+  unconfirmed: number; // Still waiting for the email confirmation
+  expired: number; // Deleted by the cleanup without being confirmed
+  total: number;
+}
+
+// Result of the get_usage_statistics RPC (approved reservations only for usage figures)
+export interface UsageStatistics {
+  from: string;
+  to: string;
+  period: StatisticsPeriod;
+  occupancy: OccupancyPoint[];
+  by_affiliation: AffiliationUsage[];
+  status_counts: StatusCounts;
+  lead_time_days: { average: number | null; median: number | null };
+  by_weekday: WeekdayUsage[];
+  heatmap: HeatmapCell[];
+  no_show: { checked_in: number; no_shows: number; rate: number | null } | null;
+}
@@ -0,0 +1,55 @@
+export type WaitlistStatus = 'waiting' | 'notified' | 'claimed' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  responsable: string;
+  email: string;
+  motivo: string;
+  personas: number;
+  affiliation?: string | null;
+  fecha: string; // YYYY-MM-DD
+  inicio: string; // HH:mm
+  fin: string; // HH:mm
+  status: WaitlistStatus;
+  claim_expires_at: Date | null;
+  notified_at: Date | null;
+  claimed_reservation_id: string | null;
+  createdAt: Date;
+}
+
+export interface NewWaitlistEntry {
+  responsable: string;
+  email: string;
+  motivo: string;
+  personas: number;
+  affiliation?: string;
+  fecha: string; // YYYY-MM-DD
+  inicio: string;
+  fin: string;
+}
+
+// Besides these, any create_reservation error code (TOO_MANY_PEOPLE, LEAD_TIME...)
+export type ClaimWaitlistError = 'INVALID_TOKEN' | 'ALREADY_CLAIMED' | 'EXPIRED' | 'SLOT_TAKEN' | (string & {});
+
+export interface ClaimWaitlistResult {
+  success: boolean;
+  error?: ClaimWaitlistError;
+  reservation?: {
+    id: string;
+    responsable: string;
+    email: string;
+    motivo: string;
+    fecha: string;
+    inicio: string;
+    fin: string;
+    personas: number;
+  };
+}
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'En espera',
+  notified: 'Notificado',
+  claimed: 'Reclamado',
+  expired: 'Expirado',
+  cancelled: 'Cancelado'
+};
@@ -0,0 +1,277 @@
+import { addDays } from 'date-fns';
+import { AcademicCalendarParseResult, BlockImportEntry } from '@/types/blockImport';
+import { TEXT_LIMITS } from '@/lib/validation';
+import { dateToFecha, fechaToDate } from '@/lib/dates';
+
+// Longest event accepted from a file; longer ones are almost always mistakes
+const MAX_EVENT_DAYS = 120;
+const CALENDAR_TIME_ZONE = 'America/Asuncion';
+
+const MOTIVO_PREFIX = 'Calendario académico: ';
+
+const toMotivo = (summary: string) =>
+  `${MOTIVO_PREFIX}${summary.trim() || 'Evento'}`.substring(0, TEXT_LIMITS.motivo);
+
+
+const isValidRange = (startDate: string, endDate: string) => {
+  if (endDate < startDate) return false;
+  const days = (fechaToDate(endDate).getTime() - fechaToDate(startDate).getTime()) / 86400000;
+  return days < MAX_EVENT_DAYS;
+};
+
+// Normalized text used in keys so re-importing the same file matches
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// -----------------------------------------------------------------------------
+// ICS
+// -----------------------------------------------------------------------------
+
+interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:mm; null for all-day values
+}
+
+// Wall-clock date and time at the quincho for a UTC instant
+const utcToLocal = (instant: Date): IcsDateTime => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: CALENDAR_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+};
+
+// DTSTART/DTEND value: 20260301, 20260301T080000 (floating or TZID) or
+// 20260301T110000Z (UTC)
+const parseIcsDateTime = (value: string): IcsDateTime | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: `${year}-${month}-${day}`, time: null };
+  }
+  if (utc) {
+    return utcToLocal(new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)));
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+};
+
+const unescapeIcsText = (value: string) =>
+  value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1');
+
+const icsEventToEntry = (event: Record<string, string>): BlockImportEntry | null => {
+  // Recurring and cancelled events are not imported; use a block rule instead
+  if (event.RRULE || event.STATUS === 'CANCELLED') return null;
+
+  const start = event.DTSTART ? parseIcsDateTime(event.DTSTART) : null;
+  if (!start) return null;
+  const end = event.DTEND ? parseIcsDateTime(event.DTEND) : null;
+
+  let endDate = start.date;
+  let startTime: string | null = null;
+  let endTime: string | null = null;
+
+  if (start.time === null) {
+    // All-day events end the day before DTEND
+    if (end) {
+      endDate = dateToFecha(addDays(fechaToDate(end.date), -1));
+      if (endDate < start.date) endDate = start.date;
+    }
+  } else if (end && end.time !== null && end.date === start.date && end.time > start.time) {
+    startTime = start.time;
+    endTime = end.time;
+  } else if (end) {
+    // Timed events spanning several days block those days completely
+    endDate = end.time === '00:00' ? dateToFecha(addDays(fechaToDate(end.date), -1)) : end.date;
+    if (endDate < start.date) endDate = start.date;
+  }
+
+  if (!isValidRange(start.date, endDate)) return null;
+
+  const summary = unescapeIcsText(event.SUMMARY || '');
+  const key = event.UID
+    ? `ics:${event.UID.trim()}`
+    : `ics:${start.date}:${endDate}:${startTime || ''}-${endTime || ''}:${slugify(summary)}`;
+
+  return {
+    key,
+    motivo: toMotivo(summary),
+    startDate: start.date,
+    endDate,
+    startTime,
+    endTime,
+    source: 'academic'
+  };
+};
+
+export const parseIcsCalendar = (content: string): AcademicCalendarParseResult => {
+  // Folded lines continue with a space or a tab
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const entries: BlockImportEntry[] = [];
+  let skipped = 0;
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT' && event) {
+      const entry = icsEventToEntry(event);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        skipped++;
+      }
+      event = null;
+      continue;
+    }
+
+    if (event) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        // Parameters such as ;VALUE=DATE or ;TZID=... are not needed
+        const name = line.substring(0, separator).split(';')[0].toUpperCase();
+        event[name] = line.substring(separator + 1);
+      }
+    }
+  }
+
+  return { entries, skipped };
+};
+
+// -----------------------------------------------------------------------------
+// CSV
+// -----------------------------------------------------------------------------
+
+// Split a CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+};
+
+// YYYY-MM-DD or DD/MM/YYYY (also with dashes)
+const parseCsvDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!local) return null;
+
+  const [, day, month, year] = local;
+  const date = new Date(+year, +month - 1, +day, 12, 0, 0);
+  if (date.getMonth() !== +month - 1) return null;
+  return dateToFecha(date);
+};
+
+const parseCsvTime = (value: string): string | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})/);
+  if (!match || +match[1] > 23 || +match[2] > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+// Columns: fecha_inicio, fecha_fin, motivo[, hora_inicio, hora_fin]. A header
+// row is optional; ";" is accepted as delimiter (spreadsheets in Spanish).
+export const parseCsvCalendar = (content: string): AcademicCalendarParseResult => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  const entries: BlockImportEntry[] = [];
+  let skipped = 0;
+
+  if (lines.length === 0) {
+    return { entries, skipped };
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+
+  lines.forEach((line, index) => {
+    const [startValue = '', endValue = '', summary = '', startTimeValue = '', endTimeValue = ''] =
+      splitCsvLine(line, delimiter);
+
+    const startDate = parseCsvDate(startValue);
+    const endDate = endValue ? parseCsvDate(endValue) : startDate;
+
+    if (!startDate || !endDate) {
+      // The first line may be a header
+      if (index > 0) skipped++;
+      return;
+    }
+
+    const startTime = startTimeValue ? parseCsvTime(startTimeValue) : null;
+    const endTime = endTimeValue ? parseCsvTime(endTimeValue) : null;
+    const timed = startTime !== null && endTime !== null;
+
+    if ((startTimeValue || endTimeValue) && !(timed && endTime! > startTime!)) {
+      skipped++;
+      return;
+    }
+
+    if (!isValidRange(startDate, endDate)) {
+      skipped++;
+      return;
+    }
+
+    entries.push({
+      key: `csv:${startDate}:${endDate}:${timed ? `${startTime}-${endTime}` : 'dia'}:${slugify(summary)}`,
+      motivo: toMotivo(summary),
+      startDate,
+      endDate,
+      startTime: timed ? startTime : null,
+      endTime: timed ? endTime : null,
+      source: 'academic'
+    });
+  });
+
+  return { entries, skipped };
+};
+
+// Parse an uploaded academic calendar by its extension
+export const parseAcademicCalendar = (fileName: string, content: string): AcademicCalendarParseResult => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.ics') || content.includes('BEGIN:VCALENDAR')) {
+    return parseIcsCalendar(content);
+  }
+  if (lowerName.endsWith('.csv') || lowerName.endsWith('.txt')) {
+    return parseCsvCalendar(content);
+  }
+  throw new Error('UNSUPPORTED_FILE');
+};
@@ -0,0 +1,73 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { BlockRule, BlockRuleCategory, NewBlockRule } from '@/types/blockRule';
+import { fechaToDate } from '@/lib/dates';
+
+const WEEKDAY_PLURALS = ['domingos', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábados'];
+
+export const BLOCK_RULE_CATEGORY_LABELS: Record<BlockRuleCategory, string> = {
+  holiday: 'Feriado',
+  exam: 'Exámenes',
+  maintenance: 'Mantenimiento',
+  other: 'Otro'
+};
+
+const formatDay = (date: string) => format(fechaToDate(date), "d 'de' MMMM yyyy", { locale: es });
+
+// Human readable summary, e.g. "Todos los lunes de 08:00 a 10:00"
+export const describeBlockRule = (rule: NewBlockRule | BlockRule): string => {
+  let description: string;
+
+  if (rule.frequency === 'weekly') {
+    const days = [...(rule.weekdays || [])].sort().map(day => WEEKDAY_PLURALS[day]);
+    const list = days.length > 1 ? `${days.slice(0, -1).join(', ')} y ${days[days.length - 1]}` : days[0];
+    description = `Todos los ${list}`;
+  } else if (rule.frequency === 'yearly') {
+    const date = new Date(2000, (rule.month || 1) - 1, rule.day || 1);
+    description = `Cada año el ${format(date, "d 'de' MMMM", { locale: es })}`;
+  } else {
+    description = rule.start_date === rule.end_date
+      ? `El ${formatDay(rule.start_date!)}`
+      : `Del ${formatDay(rule.start_date!)} al ${formatDay(rule.end_date!)}`;
+  }
+
+  description += rule.start_time && rule.end_time
+    ? ` de ${rule.start_time.substring(0, 5)} a ${rule.end_time.substring(0, 5)}`
+    : ' (todo el día)';
+
+  // Validity bounds only make sense for rules that repeat
+  if (rule.frequency !== 'range') {
+    if (rule.start_date) description += `, desde el ${formatDay(rule.start_date)}`;
+    if (rule.end_date) description += `, hasta el ${formatDay(rule.end_date)}`;
+  }
+
+  return description;
+};
+
+// Field errors of a rule before previewing or saving it (empty when valid)
+export const validateBlockRule = (rule: NewBlockRule): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (rule.frequency === 'weekly' && !(rule.weekdays && rule.weekdays.length > 0)) {
+    errors.weekdays = 'Seleccione al menos un día de la semana';
+  }
+
+  if (rule.frequency === 'yearly') {
+    const daysInMonth = new Date(2000, rule.month || 1, 0).getDate();
+    if (!rule.month || !rule.day || rule.day < 1 || rule.day > daysInMonth) {
+      errors.day = 'Ingrese un día válido para el mes';
+    }
+  }
+
+  if (rule.frequency === 'range' && (!rule.start_date || !rule.end_date)) {
+    errors.dates = 'Seleccione la fecha de inicio y de fin del período';
+  } else if (rule.start_date && rule.end_date && rule.end_date < rule.start_date) {
+    errors.dates = 'La fecha de fin debe ser igual o posterior a la de inicio';
+  }
+
+  if ((rule.start_time || rule.end_time) && !(rule.start_time && rule.end_time && rule.end_time > rule.start_time)) {
+    errors.time = 'La hora de fin debe ser posterior a la hora de inicio';
+  }
+
+  return errors;
+};
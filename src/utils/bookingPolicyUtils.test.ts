@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { fechaToDate } from '@/lib/dates';
+import { BookingPolicies } from '@/types/settings';
+import {
+  DEFAULT_BOOKING_POLICIES,
+  getMonthlyHoursLimit,
+  isBeyondHorizon,
+  parseBookingPolicies,
+  validateBookingPolicies,
+  violatesLeadTime
+} from '@/utils/bookingPolicyUtils';
+
+const policies = (changes: Partial<BookingPolicies>): BookingPolicies => ({ ...DEFAULT_BOOKING_POLICIES, ...changes });
+
+// 09:00 of 2026-10-19 at the quincho (UTC-3)
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('violatesLeadTime', () => {
+  it('allows a start exactly at the minimum lead time', () => {
+    expect(violatesLeadTime(policies({ minLeadHours: 48 }), fechaToDate('2026-10-21'), '09:00', now)).toBe(false);
+    expect(violatesLeadTime(policies({ minLeadHours: 48 }), fechaToDate('2026-10-22'), '08:00', now)).toBe(false);
+  });
+
+  it('rejects a start before the minimum lead time', () => {
+    expect(violatesLeadTime(policies({ minLeadHours: 48 }), fechaToDate('2026-10-21'), '08:30', now)).toBe(true);
+    expect(violatesLeadTime(policies({ minLeadHours: 1 }), fechaToDate('2026-10-19'), '09:30', now)).toBe(true);
+  });
+
+  it('does not apply without a lead time', () => {
+    expect(violatesLeadTime(policies({ minLeadHours: 0 }), fechaToDate('2026-10-19'), '08:00', now)).toBe(false);
+  });
+});
+
+describe('isBeyondHorizon', () => {
+  it('counts the days from today at the quincho', () => {
+    // 23:00 of 2026-10-18 at the quincho, already the 19th in UTC
+    const lateEvening = new Date('2026-10-19T02:00:00Z');
+    expect(isBeyondHorizon(policies({ maxHorizonDays: 30 }), fechaToDate('2026-11-17'), lateEvening)).toBe(false);
+    expect(isBeyondHorizon(policies({ maxHorizonDays: 30 }), fechaToDate('2026-11-18'), lateEvening)).toBe(true);
+  });
+
+  it('allows the last day of the horizon', () => {
+    expect(isBeyondHorizon(policies({ maxHorizonDays: 1 }), fechaToDate('2026-10-20'), now)).toBe(false);
+    expect(isBeyondHorizon(policies({ maxHorizonDays: 1 }), fechaToDate('2026-10-21'), now)).toBe(true);
+  });
+
+  it('has no horizon when it is 0', () => {
+    expect(isBeyondHorizon(policies({ maxHorizonDays: 0 }), fechaToDate('2030-01-01'), now)).toBe(false);
+  });
+});
+
+describe('getMonthlyHoursLimit', () => {
+  const limited = policies({ monthlyHoursByAffiliation: { Estudiante: 8, Egresado: 12 } });
+
+  it('uses the limit of the affiliation', () => {
+    expect(getMonthlyHoursLimit(limited, 'Estudiante')).toBe(8);
+    expect(getMonthlyHoursLimit(limited, ' Egresado ')).toBe(12);
+  });
+
+  it('leaves an affiliation without a limit unlimited', () => {
+    expect(getMonthlyHoursLimit(limited, 'Docente')).toBe(0);
+  });
+
+  it('gives a missing or unknown affiliation the lowest limit', () => {
+    expect(getMonthlyHoursLimit(limited, null)).toBe(8);
+    expect(getMonthlyHoursLimit(limited, '')).toBe(8);
+    expect(getMonthlyHoursLimit(limited, 'Visitante')).toBe(8);
+  });
+
+  it('has no limit when none is set', () => {
+    expect(getMonthlyHoursLimit(DEFAULT_BOOKING_POLICIES, null)).toBe(0);
+    expect(getMonthlyHoursLimit(DEFAULT_BOOKING_POLICIES, 'Estudiante')).toBe(0);
+  });
+});
+
+describe('parseBookingPolicies', () => {
+  it('reads the stored setting', () => {
+    expect(parseBookingPolicies(
+      '{"minLeadHours":48,"maxHorizonDays":60,"maxActivePerEmail":2,"monthlyHoursByAffiliation":{"Estudiante":8},"noShowCooldownDays":30}'
+    )).toEqual({
+      minLeadHours: 48,
+      maxHorizonDays: 60,
+      maxActivePerEmail: 2,
+      monthlyHoursByAffiliation: { Estudiante: 8 },
+      noShowCooldownDays: 30
+    });
+  });
+
+  it('drops negative, zero and invalid values', () => {
+    expect(parseBookingPolicies(
+      '{"minLeadHours":-5,"maxHorizonDays":"x","monthlyHoursByAffiliation":{"Estudiante":0,"Docente":"abc","Egresado":4}}'
+    )).toEqual(policies({ monthlyHoursByAffiliation: { Egresado: 4 } }));
+  });
+
+  it('falls back to no limits for a missing or broken setting', () => {
+    expect(parseBookingPolicies(null)).toEqual(DEFAULT_BOOKING_POLICIES);
+    expect(parseBookingPolicies('{not json')).toEqual(DEFAULT_BOOKING_POLICIES);
+  });
+});
+
+describe('validateBookingPolicies', () => {
+  it('accepts the defaults', () => {
+    expect(validateBookingPolicies(DEFAULT_BOOKING_POLICIES)).toEqual({});
+  });
+
+  it('rejects a horizon shorter than the lead time', () => {
+    expect(validateBookingPolicies(policies({ minLeadHours: 72, maxHorizonDays: 2 })))
+      .toHaveProperty('maxHorizonDays');
+  });
+
+  it('rejects fractional counts and negative hours', () => {
+    const errors = validateBookingPolicies(policies({ maxActivePerEmail: 1.5, monthlyHoursByAffiliation: { Estudiante: -1 } }));
+    expect(Object.keys(errors).sort()).toEqual(['maxActivePerEmail', 'monthlyHours']);
+  });
+});
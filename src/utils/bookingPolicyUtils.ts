@@ -0,0 +1,133 @@
+import { addHours } from 'date-fns';
+import { BookingPolicies } from '@/types/settings';
+import { addDaysToDateString, localToUtc, todayAtQuincho, dateToFecha } from '@/lib/dates';
+import { AFFILIATIONS } from '@/utils/capacityUtils';
+
+// Settings key that stores the booking policies as JSON
+export const BOOKING_POLICIES_SETTING_KEY = 'booking_policies';
+
+// Used until the settings row is loaded (or if it is missing/invalid): no limits
+export const DEFAULT_BOOKING_POLICIES: BookingPolicies = {
+  minLeadHours: 0,
+  maxHorizonDays: 0,
+  maxActivePerEmail: 0,
+  monthlyHoursByAffiliation: {},
+  noShowCooldownDays: 0
+};
+
+// Codes returned by public.check_booking_policies()
+export const BOOKING_POLICY_ERROR_CODES = [
+  'LEAD_TIME',
+  'BEYOND_HORIZON',
+  'TOO_MANY_ACTIVE',
+  'MONTHLY_HOURS_EXCEEDED',
+  'NO_SHOW_COOLDOWN'
+];
+
+export const isBookingPolicyError = (code: string) => BOOKING_POLICY_ERROR_CODES.includes(code);
+
+const toLimit = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : 0;
+};
+
+export const parseBookingPolicies = (value: string | null | undefined): BookingPolicies => {
+  if (!value) {
+    return DEFAULT_BOOKING_POLICIES;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    const monthlyHoursByAffiliation: Record<string, number> = {};
+    Object.entries(parsed.monthlyHoursByAffiliation || {}).forEach(([affiliation, hours]) => {
+      if (toLimit(hours) > 0) {
+        monthlyHoursByAffiliation[affiliation] = toLimit(hours);
+      }
+    });
+
+    return {
+      minLeadHours: Math.floor(toLimit(parsed.minLeadHours)),
+      maxHorizonDays: Math.floor(toLimit(parsed.maxHorizonDays)),
+      maxActivePerEmail: Math.floor(toLimit(parsed.maxActivePerEmail)),
+      monthlyHoursByAffiliation,
+      noShowCooldownDays: Math.floor(toLimit(parsed.noShowCooldownDays))
+    };
+  } catch (error) {
+    return DEFAULT_BOOKING_POLICIES;
+  }
+};
+
+// Validate the policies before saving. Returns an error message per field.
+export const validateBookingPolicies = (policies: BookingPolicies) => {
+  const errors: Record<string, string> = {};
+  const isValidCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+  if (!isValidCount(policies.minLeadHours)) {
+    errors.minLeadHours = 'Ingrese una cantidad de horas válida';
+  }
+  if (!isValidCount(policies.maxHorizonDays)) {
+    errors.maxHorizonDays = 'Ingrese una cantidad de días válida';
+  } else if (policies.maxHorizonDays > 0 && policies.minLeadHours > policies.maxHorizonDays * 24) {
+    errors.maxHorizonDays = 'El horizonte debe ser mayor que la anticipación mínima';
+  }
+  if (!isValidCount(policies.maxActivePerEmail)) {
+    errors.maxActivePerEmail = 'Ingrese una cantidad de reservas válida';
+  }
+  if (!isValidCount(policies.noShowCooldownDays)) {
+    errors.noShowCooldownDays = 'Ingrese una cantidad de días válida';
+  }
+  if (Object.values(policies.monthlyHoursByAffiliation).some(hours => !Number.isFinite(hours) || hours < 0)) {
+    errors.monthlyHours = 'Ingrese cantidades de horas válidas';
+  }
+
+  return errors;
+};
+
+// First start time that respects the minimum lead time
+export const getEarliestStart = (policies: BookingPolicies, now = new Date()) =>
+  addHours(now, policies.minLeadHours);
+
+// Whether a reservation starting at date + startTime is too close to now
+export const violatesLeadTime = (policies: BookingPolicies, date: Date, startTime: string, now = new Date()) => {
+  if (policies.minLeadHours === 0) return false;
+
+  return localToUtc(dateToFecha(date), startTime) < getEarliestStart(policies, now);
+};
+
+// Whether the date is further ahead than the booking horizon, counted from
+// today at the quincho
+export const isBeyondHorizon = (policies: BookingPolicies, date: Date, now = new Date()) => {
+  if (policies.maxHorizonDays === 0) return false;
+  return dateToFecha(date) > addDaysToDateString(todayAtQuincho(now), policies.maxHorizonDays);
+};
+
+// Monthly hours allowed for an affiliation (0 = no limit), as
+// check_booking_policies() computes it: a missing or unknown affiliation gets
+// the lowest limit set, so leaving it empty does not avoid the cap
+export const getMonthlyHoursLimit = (policies: BookingPolicies, affiliation?: string | null) => {
+  const value = affiliation?.trim() || '';
+  if (AFFILIATIONS.includes(value)) {
+    return policies.monthlyHoursByAffiliation[value] || 0;
+  }
+
+  const limits = Object.values(policies.monthlyHoursByAffiliation).filter(hours => hours > 0);
+  return limits.length > 0 ? Math.min(...limits) : 0;
+};
+
+// Message shown in the form for a policy violation
+export const getBookingPolicyMessage = (code: string, policies: BookingPolicies): string | null => {
+  switch (code) {
+    case 'LEAD_TIME':
+      return `Las reservas deben realizarse con al menos ${policies.minLeadHours} horas de anticipación`;
+    case 'BEYOND_HORIZON':
+      return `Solo se puede reservar hasta ${policies.maxHorizonDays} días por adelantado`;
+    case 'TOO_MANY_ACTIVE':
+      return `Ya tiene ${policies.maxActivePerEmail} ${policies.maxActivePerEmail === 1 ? 'reserva activa' : 'reservas activas'}, el máximo permitido. Podrá reservar nuevamente cuando alguna finalice o sea cancelada`;
+    case 'MONTHLY_HOURS_EXCEEDED':
+      return 'Esta reserva supera las horas mensuales permitidas para su vínculo con la facultad';
+    case 'NO_SHOW_COOLDOWN':
+      return `No puede realizar nuevas reservas durante ${policies.noShowCooldownDays} días después de no presentarse a una reserva`;
+    default:
+      return null;
+  }
+};
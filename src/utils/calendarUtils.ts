@@ -1,5 +1,6 @@
 
 import { addDays, isBefore, isToday as isDateToday } from 'date-fns';
+import { isSlotPast, startOfQuinchoToday, todayAtQuincho } from '@/lib/dates';
 
 // Check if two dates represent the same day
 export const isSameDay = (date1: Date, date2: Date): boolean => {
@@ -8,28 +9,19 @@ export const isSameDay = (date1: Date, date2: Date): boolean => {
     date1.getFullYear() === date2.getFullYear();
 };
 
-// Get the beginning of the day
-export const startOfDay = (): Date => {
-  const date = new Date();
-  date.setHours(0, 0, 0, 0);
-  return date;
-};
+// Get the beginning of today at the quincho
+export const startOfDay = (): Date => startOfQuinchoToday();
 
-// Check if a time slot is in the past (for today)
+// Check if a time slot is in the past (for today at the quincho)
 export const isPastTimeSlot = (time: string): boolean => {
-  const now = new Date();
-  const [hours, minutes] = time.split(':').map(Number);
-  return now.getHours() > hours || (now.getHours() === hours && now.getMinutes() > minutes);
+  return isSlotPast(todayAtQuincho(), time);
 };
 
-// Get the next time slot based on the current one
-export const getNextTimeSlot = (time: string): string => {
+// Get the next time slot based on the current one and the slot size in minutes
+export const getNextTimeSlot = (time: string, slotMinutes = 30): string => {
   const [hour, minute] = time.split(':').map(Number);
-  if (minute === 30) {
-    return `${(hour + 1).toString().padStart(2, '0')}:00`;
-  } else {
-    return `${hour.toString().padStart(2, '0')}:30`;
-  }
+  const next = hour * 60 + minute + slotMinutes;
+  return `${Math.floor(next / 60).toString().padStart(2, '0')}:${(next % 60).toString().padStart(2, '0')}`;
 };
 
 // Format a time string to remove seconds
@@ -0,0 +1,78 @@
+import { CapacityRule, CapacityRuleKind, NewCapacityRule } from '@/types/capacity';
+
+// Values of the "Vínculo con la facultad" select in the reservation form
+export const AFFILIATIONS = ['Estudiante', 'Docente', 'Egresado', 'Funcionario'];
+
+export const CAPACITY_RULE_KIND_LABELS: Record<CapacityRuleKind, string> = {
+  documentation: 'Requiere documentación',
+  auto_approve: 'Aprobación automática'
+};
+
+export const DEFAULT_MAX_PERSONAS = 150;
+
+// Same matching as public.capacity_rule_matches()
+export const capacityRuleMatches = (
+  rule: Pick<CapacityRule, 'affiliations' | 'min_personas' | 'max_personas'>,
+  personas: number,
+  affiliation?: string | null
+): boolean => {
+  if (rule.min_personas !== null && personas < rule.min_personas) return false;
+  if (rule.max_personas !== null && personas > rule.max_personas) return false;
+  if (rule.affiliations.length === 0) return true;
+
+  const normalized = (affiliation || '').trim().toLowerCase();
+  return rule.affiliations.some(item => item.toLowerCase() === normalized);
+};
+
+// Requirements the requester must answer for this headcount and affiliation
+export const getDocumentationRequirements = (
+  rules: CapacityRule[],
+  personas: number,
+  affiliation?: string | null
+): string[] => {
+  if (!Number.isInteger(personas) || personas < 1) return [];
+
+  return rules
+    .filter(rule => rule.active && rule.kind === 'documentation' && capacityRuleMatches(rule, personas, affiliation))
+    .map(rule => rule.requirement || rule.name);
+};
+
+// Human readable conditions, e.g. "Funcionario, hasta 19 personas"
+export const describeCapacityRule = (rule: NewCapacityRule | CapacityRule): string => {
+  const who = rule.affiliations.length > 0 ? rule.affiliations.join(', ') : 'Cualquier vínculo';
+
+  let headcount: string;
+  if (rule.min_personas !== null && rule.max_personas !== null) {
+    headcount = `de ${rule.min_personas} a ${rule.max_personas} personas`;
+  } else if (rule.min_personas !== null) {
+    headcount = `desde ${rule.min_personas} personas`;
+  } else if (rule.max_personas !== null) {
+    headcount = `hasta ${rule.max_personas} personas`;
+  } else {
+    headcount = 'cualquier cantidad de personas';
+  }
+
+  return `${who}, ${headcount}`;
+};
+
+// Field errors of a rule before saving it (empty when valid)
+export const validateCapacityRule = (rule: NewCapacityRule): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (!rule.name.trim()) {
+    errors.name = 'El nombre es obligatorio';
+  }
+
+  const isValidCount = (value: number | null) => value === null || (Number.isInteger(value) && value > 0);
+  if (!isValidCount(rule.min_personas) || !isValidCount(rule.max_personas)) {
+    errors.personas = 'Ingrese cantidades de personas válidas';
+  } else if (rule.min_personas !== null && rule.max_personas !== null && rule.max_personas < rule.min_personas) {
+    errors.personas = 'El máximo debe ser mayor o igual al mínimo';
+  }
+
+  if (rule.kind === 'documentation' && !(rule.requirement || '').trim()) {
+    errors.requirement = 'Indique qué debe presentar el solicitante';
+  }
+
+  return errors;
+};
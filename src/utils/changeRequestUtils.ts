@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ReservationChangeRequest } from '@/types/reservation';
+import { fechaToDate } from '@/lib/dates';
+
+export interface ChangeDiffRow {
+  label: string;
+  from: string;
+  to: string;
+}
+
+interface CurrentValues {
+  fecha: Date;
+  inicio: string;
+  fin: string;
+  personas: number;
+}
+
+const formatFecha = (fecha: Date | string) => {
+  const date = typeof fecha === 'string' ? fechaToDate(fecha) : fecha;
+  return format(date, "EEEE d 'de' MMMM, yyyy", { locale: es });
+};
+
+// Rows describing what a change request modifies, compared to the given values
+// (the current reservation, or the values replaced when it was accepted)
+export const getChangeDiff = (request: ReservationChangeRequest, current: CurrentValues): ChangeDiffRow[] => {
+  const rows: ChangeDiffRow[] = [];
+
+  if (request.proposed_fecha) {
+    rows.push({ label: 'Fecha', from: formatFecha(current.fecha), to: formatFecha(request.proposed_fecha) });
+  }
+  if (request.proposed_inicio && request.proposed_fin &&
+      (request.proposed_inicio !== current.inicio || request.proposed_fin !== current.fin)) {
+    rows.push({
+      label: 'Horario',
+      from: `${current.inicio} - ${current.fin}`,
+      to: `${request.proposed_inicio} - ${request.proposed_fin}`
+    });
+  }
+  if (request.proposed_personas !== null && request.proposed_personas !== current.personas) {
+    rows.push({ label: 'Personas', from: String(current.personas), to: String(request.proposed_personas) });
+  }
+
+  return rows;
+};
@@ -0,0 +1,147 @@
+import { format } from 'date-fns';
+import { EXPORT_STATUS_LABELS, ExportRow } from '@/types/export';
+import { timeToMinutes } from './timeUtils';
+
+interface ExportColumn {
+  header: string;
+  width: number; // XLSX column width, in characters
+  value: (row: ExportRow) => string | number | Date | null;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Tipo', width: 10, value: row => row.tipo },
+  { header: 'Fecha', width: 12, value: row => row.fecha },
+  { header: 'Inicio', width: 8, value: row => row.inicio },
+  { header: 'Fin', width: 8, value: row => row.fin },
+  { header: 'Estado', width: 12, value: row => EXPORT_STATUS_LABELS[row.status] },
+  { header: 'Responsable', width: 24, value: row => row.responsable },
+  { header: 'Email', width: 28, value: row => row.email },
+  { header: 'Afiliación', width: 20, value: row => row.affiliation },
+  { header: 'Motivo', width: 30, value: row => row.motivo },
+  { header: 'Personas', width: 10, value: row => row.personas },
+  { header: 'Notas del administrador', width: 30, value: row => row.admin_notes },
+  { header: 'Creada el', width: 18, value: row => row.createdAt },
+  { header: 'Actualizada el', width: 18, value: row => row.updated_at },
+  { header: 'Actualizada por', width: 20, value: row => row.updated_by },
+  { header: 'Motivo de cancelación', width: 30, value: row => row.cancellation_reason },
+  { header: 'Cancelada el', width: 18, value: row => row.cancelled_at },
+  { header: 'Cancelada por', width: 20, value: row => row.cancelled_by },
+  { header: 'ID', width: 38, value: row => row.id }
+];
+
+const formatCellText = (value: string | number | Date | null): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd HH:mm');
+  return String(value);
+};
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildCsv = (rows: ExportRow[]): string => {
+  const lines = [
+    EXPORT_COLUMNS.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row => EXPORT_COLUMNS.map(column => escapeCsv(formatCellText(column.value(row)))).join(','))
+  ];
+  return lines.join('\r\n');
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (rows: ExportRow[], fileName: string) => {
+  // The BOM makes Excel open the file as UTF-8 (accents, ñ)
+  downloadBlob(new Blob(['\uFEFF', buildCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+export const downloadXlsx = async (rows: ExportRow[], fileName: string) => {
+  // Loaded on demand so the spreadsheet writer is not part of the main bundle
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+
+  const data = [
+    EXPORT_COLUMNS.map(column => ({ value: column.header, fontWeight: 'bold' as const })),
+    ...rows.map(row => EXPORT_COLUMNS.map(column => {
+      const value = column.value(row);
+      if (value === null || value === '') return null;
+      return value instanceof Date
+        ? { value, type: Date, format: 'yyyy-mm-dd hh:mm' }
+        : value;
+    }))
+  ];
+
+  const blob = await writeXlsxFile(data, {
+    sheet: 'Reservas',
+    columns: EXPORT_COLUMNS.map(column => ({ width: column.width }))
+  }).toBlob();
+  downloadBlob(blob, `${fileName}.xlsx`);
+};
+
+export interface MonthlySummary {
+  month: string; // YYYY-MM
+  approved: number;
+  pending: number;
+  cancelled: number;
+  rejected: number;
+  blocked: number;
+  approvedHours: number;
+  approvedPersonas: number;
+  byAffiliation: { affiliation: string; reservations: number; hours: number }[];
+}
+
+const rowHours = (row: ExportRow) =>
+  row.inicio && row.fin ? (timeToMinutes(row.fin) - timeToMinutes(row.inicio)) / 60 : 0;
+
+// Totals per calendar month; usage (hours, people, affiliations) counts approved reservations only
+export const summarizeByMonth = (rows: ExportRow[]): MonthlySummary[] => {
+  const months = new Map<string, MonthlySummary>();
+  const affiliations = new Map<string, Map<string, { reservations: number; hours: number }>>();
+
+  rows.forEach(row => {
+    const month = row.fecha.slice(0, 7);
+    if (!months.has(month)) {
+      months.set(month, {
+        month,
+        approved: 0,
+        pending: 0,
+        cancelled: 0,
+        rejected: 0,
+        blocked: 0,
+        approvedHours: 0,
+        approvedPersonas: 0,
+        byAffiliation: []
+      });
+      affiliations.set(month, new Map());
+    }
+
+    const summary = months.get(month)!;
+    summary[row.status] += 1;
+
+    if (row.status === 'approved') {
+      const hours = rowHours(row);
+      summary.approvedHours += hours;
+      summary.approvedPersonas += row.personas || 0;
+
+      const key = row.affiliation || 'Sin especificar';
+      const monthAffiliations = affiliations.get(month)!;
+      const current = monthAffiliations.get(key) || { reservations: 0, hours: 0 };
+      monthAffiliations.set(key, { reservations: current.reservations + 1, hours: current.hours + hours });
+    }
+  });
+
+  return Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(summary => ({
+      ...summary,
+      byAffiliation: Array.from(affiliations.get(summary.month)!.entries())
+        .map(([affiliation, totals]) => ({ affiliation, ...totals }))
+        .sort((a, b) => b.reservations - a.reservations)
+    }));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { dateToFecha } from '@/lib/dates';
+import { getEasterSunday, getParaguayHolidays } from '@/utils/holidayUtils';
+
+const holidayDates = (year: number) =>
+  Object.fromEntries(getParaguayHolidays(year).map(entry => [entry.key, [entry.startDate, entry.endDate]]));
+
+describe('getEasterSunday', () => {
+  it('matches the published dates', () => {
+    expect(dateToFecha(getEasterSunday(2024))).toBe('2024-03-31');
+    expect(dateToFecha(getEasterSunday(2025))).toBe('2025-04-20');
+    expect(dateToFecha(getEasterSunday(2026))).toBe('2026-04-05');
+    expect(dateToFecha(getEasterSunday(2027))).toBe('2027-03-28');
+  });
+
+  it('handles the earliest and latest possible dates', () => {
+    expect(dateToFecha(getEasterSunday(2285))).toBe('2285-03-22');
+    expect(dateToFecha(getEasterSunday(2038))).toBe('2038-04-25');
+  });
+
+  it('falls on a Sunday at noon', () => {
+    for (const year of [2023, 2024, 2025, 2026, 2030]) {
+      const easter = getEasterSunday(year);
+      expect(easter.getDay()).toBe(0);
+      expect(easter.getHours()).toBe(12);
+    }
+  });
+});
+
+describe('getParaguayHolidays', () => {
+  it('puts Holy Thursday and Good Friday before Easter', () => {
+    expect(holidayDates(2024)['py-holiday:2024:jueves-santo']).toEqual(['2024-03-28', '2024-03-28']);
+    expect(holidayDates(2024)['py-holiday:2024:viernes-santo']).toEqual(['2024-03-29', '2024-03-29']);
+    expect(holidayDates(2025)['py-holiday:2025:jueves-santo']).toEqual(['2025-04-17', '2025-04-17']);
+    expect(holidayDates(2025)['py-holiday:2025:viernes-santo']).toEqual(['2025-04-18', '2025-04-18']);
+    expect(holidayDates(2026)['py-holiday:2026:jueves-santo']).toEqual(['2026-04-02', '2026-04-02']);
+    expect(holidayDates(2026)['py-holiday:2026:viernes-santo']).toEqual(['2026-04-03', '2026-04-03']);
+  });
+
+  it('covers both independence days in one entry', () => {
+    expect(holidayDates(2026)['py-holiday:2026:independencia']).toEqual(['2026-05-14', '2026-05-15']);
+  });
+
+  it('returns every holiday of the year in date order', () => {
+    const holidays = getParaguayHolidays(2026);
+    expect(holidays).toHaveLength(11);
+    expect(holidays.map(entry => entry.startDate)).toEqual([...holidays.map(entry => entry.startDate)].sort());
+    expect(holidays.every(entry => entry.startDate.startsWith('2026-') && entry.source === 'holiday')).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { addDays } from 'date-fns';
+import { BlockImportEntry } from '@/types/blockImport';
+import { dateToFecha } from '@/lib/dates';
+
+interface FixedHoliday {
+  slug: string;
+  name: string;
+  month: number; // 1-12
+  day: number;
+  days?: number; // consecutive days, default 1
+}
+
+// National holidays of Paraguay on a fixed date. Holidays moved to a Monday
+// by decree in a given year must be blocked by hand.
+const FIXED_HOLIDAYS: FixedHoliday[] = [
+  { slug: 'ano-nuevo', name: 'Año Nuevo', month: 1, day: 1 },
+  { slug: 'dia-de-los-heroes', name: 'Día de los Héroes', month: 3, day: 1 },
+  { slug: 'dia-del-trabajador', name: 'Día del Trabajador', month: 5, day: 1 },
+  { slug: 'independencia', name: 'Independencia Nacional', month: 5, day: 14, days: 2 },
+  { slug: 'paz-del-chaco', name: 'Paz del Chaco', month: 6, day: 12 },
+  { slug: 'fundacion-de-asuncion', name: 'Fundación de Asunción', month: 8, day: 15 },
+  { slug: 'victoria-de-boqueron', name: 'Victoria de Boquerón', month: 9, day: 29 },
+  { slug: 'virgen-de-caacupe', name: 'Virgen de Caacupé', month: 12, day: 8 },
+  { slug: 'navidad', name: 'Navidad', month: 12, day: 25 }
+];
+
+// Holy Week holidays, in days relative to Easter Sunday
+const EASTER_HOLIDAYS = [
+  { slug: 'jueves-santo', name: 'Jueves Santo', offset: -3 },
+  { slug: 'viernes-santo', name: 'Viernes Santo', offset: -2 }
+];
+
+// Easter Sunday of the Gregorian calendar (anonymous algorithm), at noon
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day, 12, 0, 0);
+};
+
+// National holidays of the year as whole-day import entries, in date order
+export const getParaguayHolidays = (year: number): BlockImportEntry[] => {
+  const toEntry = (slug: string, name: string, start: Date, days = 1): BlockImportEntry => ({
+    key: `py-holiday:${year}:${slug}`,
+    motivo: `Feriado: ${name}`,
+    startDate: dateToFecha(start),
+    endDate: dateToFecha(addDays(start, days - 1)),
+    startTime: null,
+    endTime: null,
+    source: 'holiday'
+  });
+
+  const easter = getEasterSunday(year);
+
+  return [
+    ...FIXED_HOLIDAYS.map(holiday =>
+      toEntry(holiday.slug, holiday.name, new Date(year, holiday.month - 1, holiday.day, 12, 0, 0), holiday.days)
+    ),
+    ...EASTER_HOLIDAYS.map(holiday =>
+      toEntry(holiday.slug, holiday.name, addDays(easter, holiday.offset))
+    )
+  ].sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
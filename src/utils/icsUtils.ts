@@ -0,0 +1,17 @@
+import { buildCalendar, ReservationEventRow, reservationToEvent } from '@/lib/ical';
+
+// One VEVENT per reservation (a recurring series is exported occurrence by occurrence)
+export const buildReservationsIcs = (reservations: ReservationEventRow[]): string =>
+  buildCalendar('Quincho FIUNA', reservations.map(reservation => reservationToEvent(reservation, true)));
+
+export const downloadReservationsIcs = (reservations: ReservationEventRow[]) => {
+  const blob = new Blob([buildReservationsIcs(reservations)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'reserva-quincho-fiuna.ics';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
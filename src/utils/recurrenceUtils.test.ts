@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { dateToFecha, fechaToDate } from '@/lib/dates';
+import { describeRecurrence, expandRecurrence, MAX_RECURRENCE_OCCURRENCES } from '@/utils/recurrenceUtils';
+import { RecurrenceRule } from '@/types/reservation';
+
+const expand = (start: string, rule: Partial<RecurrenceRule>) =>
+  expandRecurrence(fechaToDate(start), { frequency: 'weekly', interval: 1, endType: 'count', count: 1, ...rule })
+    .map(dateToFecha);
+
+describe('expandRecurrence', () => {
+  it('repeats every week from the first date, which is included', () => {
+    expect(expand('2026-11-02', { count: 4 })).toEqual(['2026-11-02', '2026-11-09', '2026-11-16', '2026-11-23']);
+  });
+
+  it('skips weeks by the interval', () => {
+    expect(expand('2026-11-02', { interval: 2, count: 3 })).toEqual(['2026-11-02', '2026-11-16', '2026-11-30']);
+    expect(expand('2026-11-02', { interval: 4, count: 2 })).toEqual(['2026-11-02', '2026-11-30']);
+  });
+
+  it('treats a missing interval as every week', () => {
+    expect(expand('2026-11-02', { interval: 0, count: 2 })).toEqual(['2026-11-02', '2026-11-09']);
+  });
+
+  it('includes the until day itself', () => {
+    expect(expand('2026-11-02', { endType: 'until', until: fechaToDate('2026-11-16') }))
+      .toEqual(['2026-11-02', '2026-11-09', '2026-11-16']);
+    expect(expand('2026-11-02', { endType: 'until', until: new Date(2026, 10, 16, 0, 0, 0) }))
+      .toEqual(['2026-11-02', '2026-11-09', '2026-11-16']);
+  });
+
+  it('stops before an until day between two occurrences', () => {
+    expect(expand('2026-11-02', { endType: 'until', until: fechaToDate('2026-11-15') }))
+      .toEqual(['2026-11-02', '2026-11-09']);
+  });
+
+  it('returns only the first date when until is that same day', () => {
+    expect(expand('2026-11-02', { endType: 'until', until: fechaToDate('2026-11-02') })).toEqual(['2026-11-02']);
+  });
+
+  it('caps a count above the limit', () => {
+    const dates = expand('2026-01-05', { count: 40 });
+    expect(dates).toHaveLength(MAX_RECURRENCE_OCCURRENCES);
+    expect(dates[MAX_RECURRENCE_OCCURRENCES - 1]).toBe('2026-06-29');
+  });
+
+  it('caps an until date far in the future', () => {
+    const dates = expand('2026-01-05', { endType: 'until', until: fechaToDate('2027-12-31') });
+    expect(dates).toHaveLength(MAX_RECURRENCE_OCCURRENCES);
+    expect(dates[MAX_RECURRENCE_OCCURRENCES - 1]).toBe('2026-06-29');
+  });
+
+  it('keeps the weekday across the 2023 Asuncion transitions', () => {
+    expect(expand('2023-09-17', { count: 4 })).toEqual(['2023-09-17', '2023-09-24', '2023-10-01', '2023-10-08']);
+    expect(expand('2023-03-18', { count: 3 })).toEqual(['2023-03-18', '2023-03-25', '2023-04-01']);
+  });
+
+  it('keeps every occurrence at noon', () => {
+    const dates = expandRecurrence(fechaToDate('2023-09-17'), { frequency: 'weekly', interval: 1, endType: 'count', count: 4 });
+    expect(dates.map(date => date.getHours())).toEqual([12, 12, 12, 12]);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes a weekly series by count', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 1, endType: 'count', count: 1 })).toBe('Todas las semanas, 1 vez');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, endType: 'count', count: 5 })).toBe('Cada 2 semanas, 5 veces');
+  });
+
+  it('describes a series with an until date', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 1, endType: 'until', count: 1, until: fechaToDate('2026-12-18') }))
+      .toBe('Todas las semanas hasta el 18 de diciembre, 2026');
+  });
+});
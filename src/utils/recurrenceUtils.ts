@@ -0,0 +1,42 @@
+import { addWeeks, format, isAfter } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { RecurrenceRule } from '@/types/reservation';
+
+// Hard cap on the number of occurrences a single series can expand into
+export const MAX_RECURRENCE_OCCURRENCES = 26;
+
+// Expand a recurrence rule into the list of occurrence dates (first date included)
+export const expandRecurrence = (start: Date, rule: RecurrenceRule): Date[] => {
+  const dates: Date[] = [];
+  const interval = Math.max(1, rule.interval || 1);
+  const limit = rule.endType === 'count'
+    ? Math.min(rule.count || 1, MAX_RECURRENCE_OCCURRENCES)
+    : MAX_RECURRENCE_OCCURRENCES;
+
+  let current = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 12, 0, 0);
+  while (dates.length < limit) {
+    if (rule.endType === 'until' && rule.until && isAfter(current, endOfUntilDay(rule.until))) {
+      break;
+    }
+    dates.push(current);
+    current = addWeeks(current, interval);
+  }
+
+  return dates;
+};
+
+// Include the whole "until" day regardless of the time component
+const endOfUntilDay = (until: Date): Date => {
+  return new Date(until.getFullYear(), until.getMonth(), until.getDate(), 23, 59, 59);
+};
+
+// Human-readable description of a recurrence rule in Spanish
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const frequency = rule.interval === 1 ? 'Todas las semanas' : `Cada ${rule.interval} semanas`;
+
+  if (rule.endType === 'until' && rule.until) {
+    return `${frequency} hasta el ${format(rule.until, "d 'de' MMMM, yyyy", { locale: es })}`;
+  }
+
+  return `${frequency}, ${rule.count} ${rule.count === 1 ? 'vez' : 'veces'}`;
+};
@@ -0,0 +1,62 @@
+import { ReminderSchedule } from '@/types/settings';
+
+// Settings key that stores the reminder schedule as JSON
+export const REMINDER_SCHEDULE_SETTING_KEY = 'reminder_schedule';
+
+// Same as the value seeded by the migration
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  hoursBefore: [24, 1],
+  feedbackHoursAfter: 2
+};
+
+// Up to one reminder per hour of the week before the reservation
+export const MAX_REMINDER_HOURS = 24 * 7;
+
+const toHours = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.round(number) : 0;
+};
+
+export const parseReminderSchedule = (value: string | null | undefined): ReminderSchedule => {
+  if (!value) {
+    return DEFAULT_REMINDER_SCHEDULE;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    const hoursBefore: number[] = Array.isArray(parsed.hoursBefore) ? parsed.hoursBefore.map(toHours) : [];
+
+    return {
+      hoursBefore: [...new Set(hoursBefore.filter(hours => hours > 0))].sort((a, b) => b - a),
+      feedbackHoursAfter: toHours(parsed.feedbackHoursAfter)
+    };
+  } catch (error) {
+    return DEFAULT_REMINDER_SCHEDULE;
+  }
+};
+
+// Validate the schedule before saving. Returns an error message per field.
+export const validateReminderSchedule = (schedule: ReminderSchedule) => {
+  const errors: Record<string, string> = {};
+  const isValidHours = (value: number) => Number.isInteger(value) && value > 0 && value <= MAX_REMINDER_HOURS;
+
+  if (!schedule.hoursBefore.every(isValidHours)) {
+    errors.hoursBefore = `Ingrese horas entre 1 y ${MAX_REMINDER_HOURS}`;
+  } else if (new Set(schedule.hoursBefore).size !== schedule.hoursBefore.length) {
+    errors.hoursBefore = 'Hay recordatorios repetidos';
+  }
+  if (!Number.isInteger(schedule.feedbackHoursAfter) || schedule.feedbackHoursAfter < 0 || schedule.feedbackHoursAfter > 24) {
+    errors.feedbackHoursAfter = 'Ingrese una cantidad de horas entre 0 y 24';
+  }
+
+  return errors;
+};
+
+// "1 hora", "3 horas", "1 día", "2 días"; same wording as the reminder email
+export const formatReminderLead = (hours: number) => {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 1 ? '1 día' : `${days} días`;
+  }
+  return hours === 1 ? '1 hora' : `${hours} horas`;
+};
@@ -4,6 +4,7 @@
  */
 
 import { Reservation, ReservationStatus } from '@/types/reservation';
+import { isSlotPast } from '@/lib/dates';
 
 export interface ReservationStyleConfig {
   backgroundColor: string;
@@ -18,12 +19,7 @@ export interface ReservationStyleConfig {
  * @returns True if the reservation is past its end time
  */
 export const isReservationPast = (reservation: Reservation): boolean => {
-  const now = new Date();
-  const reservationEnd = new Date(reservation.fecha);
-  const [endHours, endMinutes] = reservation.fin.split(':').map(Number);
-  reservationEnd.setHours(endHours, endMinutes, 0, 0);
-  
-  return reservationEnd < now;
+  return isSlotPast(reservation.fecha, reservation.fin);
 };
 
 /**
@@ -1,19 +1,142 @@
+import { DaySchedule, OperatingHours } from '@/types/settings';
 
-// Helper function to generate time options
-export const generateTimeOptions = () => {
+// Settings key that stores the operating hours as JSON
+export const OPERATING_HOURS_SETTING_KEY = 'operating_hours';
+
+// Used until the settings row is loaded (or if it is missing/invalid)
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  days: Array.from({ length: 7 }, () => ({ closed: false, open: '08:00', close: '22:00' })),
+  slotMinutes: 30,
+  minDurationMinutes: 30,
+  maxDurationMinutes: 14 * 60
+};
+
+export const WEEKDAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+// Convert HH:MM (or HH:MM:SS) into minutes since midnight
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Convert minutes since midnight into HH:MM
+export const minutesToTime = (totalMinutes: number) => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// Helper function to generate time options (both ends included)
+export const generateTimeOptions = (open = '08:00', close = '22:00', slotMinutes = 30) => {
   const options = [];
-  // Start time from 8:00 (changing from 7:00)
-  for (let hour = 8; hour <= 22; hour++) {
-    const hourString = hour.toString().padStart(2, '0');
-    options.push(`${hourString}:00`);
-    if (hour < 22) {
-      options.push(`${hourString}:30`);
-    }
+  const end = timeToMinutes(close);
+  for (let minutes = timeToMinutes(open); minutes <= end; minutes += slotMinutes) {
+    options.push(minutesToTime(minutes));
   }
   return options;
 };
 
-export const timeOptions = generateTimeOptions();
+// Schedule that applies to the weekday of the given date
+export const getDaySchedule = (hours: OperatingHours, date: Date): DaySchedule => {
+  return hours.days[date.getDay()] || DEFAULT_OPERATING_HOURS.days[date.getDay()];
+};
+
+// Selectable times for a specific date (empty when the quincho is closed that day)
+export const getTimeOptionsForDate = (hours: OperatingHours, date: Date) => {
+  const schedule = getDaySchedule(hours, date);
+  if (schedule.closed) {
+    return [];
+  }
+  return generateTimeOptions(schedule.open, schedule.close, hours.slotMinutes);
+};
+
+// Rows for the week/day grids: from the earliest opening to the latest closing time
+export const getGridTimeOptions = (hours: OperatingHours) => {
+  const openDays = hours.days.filter(day => !day.closed);
+  if (openDays.length === 0) {
+    return [];
+  }
+
+  const open = Math.min(...openDays.map(day => timeToMinutes(day.open)));
+  const close = Math.max(...openDays.map(day => timeToMinutes(day.close)));
+  return generateTimeOptions(minutesToTime(open), minutesToTime(close), hours.slotMinutes);
+};
+
+// Check that a time range falls inside the opening hours of its day
+export const isWithinOperatingHours = (hours: OperatingHours, date: Date, startTime: string, endTime: string) => {
+  const schedule = getDaySchedule(hours, date);
+  if (schedule.closed) {
+    return false;
+  }
+  return timeToMinutes(startTime) >= timeToMinutes(schedule.open) &&
+         timeToMinutes(endTime) <= timeToMinutes(schedule.close);
+};
+
+// Check the reservation length against the configured minimum/maximum
+export const isValidDuration = (hours: OperatingHours, startTime: string, endTime: string) => {
+  const duration = timeToMinutes(endTime) - timeToMinutes(startTime);
+  return duration >= hours.minDurationMinutes && duration <= hours.maxDurationMinutes;
+};
+
+// Parse the JSON stored in settings, falling back to the defaults for missing fields
+export const parseOperatingHours = (value: string | null | undefined): OperatingHours => {
+  if (!value) {
+    return DEFAULT_OPERATING_HOURS;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    const days = Array.isArray(parsed.days) && parsed.days.length === 7
+      ? parsed.days.map((day: Partial<DaySchedule>, index: number) => ({
+          closed: Boolean(day.closed),
+          open: day.open || DEFAULT_OPERATING_HOURS.days[index].open,
+          close: day.close || DEFAULT_OPERATING_HOURS.days[index].close
+        }))
+      : DEFAULT_OPERATING_HOURS.days;
+
+    return {
+      days,
+      slotMinutes: parsed.slotMinutes === 60 ? 60 : 30,
+      minDurationMinutes: Number(parsed.minDurationMinutes) || DEFAULT_OPERATING_HOURS.minDurationMinutes,
+      maxDurationMinutes: Number(parsed.maxDurationMinutes) || DEFAULT_OPERATING_HOURS.maxDurationMinutes
+    };
+  } catch (error) {
+    return DEFAULT_OPERATING_HOURS;
+  }
+};
+
+// Validate operating hours before saving. Returns an error message per field.
+export const validateOperatingHours = (hours: OperatingHours) => {
+  const errors: Record<string, string> = {};
+
+  hours.days.forEach((day, index) => {
+    if (day.closed) return;
+
+    const open = timeToMinutes(day.open);
+    const close = timeToMinutes(day.close);
+    if (close <= open) {
+      errors[`day-${index}`] = 'El cierre debe ser posterior a la apertura';
+    } else if (open % hours.slotMinutes !== 0 || close % hours.slotMinutes !== 0) {
+      errors[`day-${index}`] = `Los horarios deben coincidir con intervalos de ${hours.slotMinutes} minutos`;
+    }
+  });
+
+  if (hours.days.every(day => day.closed)) {
+    errors.days = 'Debe haber al menos un día habilitado';
+  }
+
+  if (hours.minDurationMinutes < hours.slotMinutes || hours.minDurationMinutes % hours.slotMinutes !== 0) {
+    errors.minDuration = `La duración mínima debe ser múltiplo de ${hours.slotMinutes} minutos`;
+  }
+
+  if (hours.maxDurationMinutes % hours.slotMinutes !== 0) {
+    errors.maxDuration = `La duración máxima debe ser múltiplo de ${hours.slotMinutes} minutos`;
+  } else if (hours.maxDurationMinutes < hours.minDurationMinutes) {
+    errors.maxDuration = 'La duración máxima no puede ser menor que la mínima';
+  }
+
+  return errors;
+};
 
 // Validate email format
 export const isValidEmail = (email: string) => {
@@ -22,7 +145,7 @@ export const isValidEmail = (email: string) => {
 
 // Check if two dates are the same day
 export const isSameDay = (date1: Date, date2: Date) => {
-  return date1.getDate() === date2.getDate() && 
-         date1.getMonth() === date2.getMonth() && 
+  return date1.getDate() === date2.getDate() &&
+         date1.getMonth() === date2.getMonth() &&
          date1.getFullYear() === date2.getFullYear();
 };
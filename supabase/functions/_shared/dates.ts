@@ -0,0 +1,97 @@
+// Dates and times of the quincho, shared by the app (src/lib/dates.ts) and the
+// Edge Functions. Reservations store fecha (YYYY-MM-DD) and inicio/fin (HH:MM)
+// as wall-clock time in Paraguay, whatever time zone the browser or the server
+// runs in. Never parse them with new Date(fecha): that is midnight UTC, which
+// is the previous day in Paraguay.
+//
+// Paraguay has been on UTC-3 all year since October 2024, but older dates
+// (and devices with older time zone data) still switch between UTC-4 and
+// UTC-3, so the offset is always looked up, never hard-coded.
+
+export const QUINCHO_TIME_ZONE = 'America/Asuncion';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Offset of the time zone at the given instant, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone = QUINCHO_TIME_ZONE): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Wall-clock date and time at the quincho (fecha YYYY-MM-DD, time HH:MM[:SS])
+// as an instant. A time repeated when clocks go back resolves to the first
+// one; a time skipped when they go forward moves forward by the gap.
+export function localToUtc(fecha: string, time: string, timeZone = QUINCHO_TIME_ZONE): Date {
+  const [year, month, day] = fecha.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const first = guess - getTimeZoneOffset(new Date(guess), timeZone);
+  // Re-check the offset at the result in case a transition lies in between
+  const second = guess - getTimeZoneOffset(new Date(first), timeZone);
+  if (guess - second === getTimeZoneOffset(new Date(second), timeZone)) {
+    return new Date(second);
+  }
+  return new Date(Math.max(first, second));
+}
+
+// Wall-clock date (YYYY-MM-DD) and time (HH:MM) at the quincho of an instant
+export function utcToLocal(date: Date, timeZone = QUINCHO_TIME_ZONE): { fecha: string; time: string } {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  return {
+    fecha: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+// Current date at the quincho as YYYY-MM-DD
+export function todayAtQuincho(now = new Date()): string {
+  return utcToLocal(now).fecha;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, unaffected by any time zone
+export function addDaysToDateString(fecha: string, days: number): string {
+  const [year, month, day] = fecha.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Whether fecha + time has already passed at the quincho
+export function isPastAtQuincho(fecha: string, time: string, now = new Date()): boolean {
+  return localToUtc(fecha, time).getTime() <= now.getTime();
+}
+
+// "sábado, 19 de octubre de 2026", the same in every time zone
+export function formatLongDate(fecha: string, locale = 'es-PY'): string {
+  const [year, month, day] = fecha.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString(locale, {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
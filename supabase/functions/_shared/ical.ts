@@ -0,0 +1,174 @@
+// iCalendar (RFC 5545) helpers shared by the calendar feed and the emails
+
+import { addDaysToDateString, localToUtc, QUINCHO_TIME_ZONE } from './dates.ts';
+
+export const CALENDAR_TIME_ZONE = QUINCHO_TIME_ZONE;
+const PRODID = '-//FIUNA//Quincho Reservas//ES';
+const UID_DOMAIN = 'quincho.fiuna.edu.py';
+const LOCATION = 'Quincho FIUNA - Facultad de Ingeniería, UNA, San Lorenzo';
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  summary: string;
+  description?: string;
+  status: CalendarEventStatus;
+  start: Date | string; // Date for timed events, YYYY-MM-DD for all-day events
+  end: Date | string;
+  lastModified?: Date;
+}
+
+// Columns of public.reservations used for events; the public feed does not
+// select the personal ones
+export interface ReservationEventRow {
+  id: string;
+  fecha: string;
+  inicio: string;
+  fin: string;
+  status: string;
+  ical_sequence?: number | null;
+  updated_at?: string | null;
+  motivo?: string;
+  responsable?: string;
+  personas?: number;
+}
+
+// Columns of public.blocked_dates (or a day expanded from a block rule)
+export interface BlockedDateEventRow {
+  id: string;
+  fecha: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  motivo?: string | null;
+  ical_sequence?: number | null;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(fecha: string): string {
+  return fecha.replace(/-/g, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function buildEvent(event: CalendarEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence}`,
+  ];
+
+  if (typeof event.start === 'string') {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(event.end as string)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtc(event.start)}`);
+    lines.push(`DTEND:${formatUtc(event.end as Date)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  lines.push(`LOCATION:${escapeText(LOCATION)}`);
+  lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIME_ZONE}`,
+    ...events.flatMap(event => buildEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+const RESERVATION_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente de aprobación',
+  approved: 'Aprobada',
+  rejected: 'Rechazada',
+  cancelled: 'Cancelada',
+};
+
+function reservationEventStatus(status: string): CalendarEventStatus {
+  if (status === 'approved') return 'CONFIRMED';
+  if (status === 'pending') return 'TENTATIVE';
+  return 'CANCELLED';
+}
+
+// Reservation row as stored in public.reservations. With includePersonalData
+// false the event only says that the quincho is taken.
+export function reservationToEvent(reservation: ReservationEventRow, includePersonalData: boolean): CalendarEvent {
+  return {
+    uid: `reservation-${reservation.id}@${UID_DOMAIN}`,
+    sequence: reservation.ical_sequence ?? 0,
+    summary: includePersonalData ? `Quincho FIUNA: ${reservation.motivo}` : 'Quincho FIUNA reservado',
+    description: includePersonalData
+      ? [
+          `Responsable: ${reservation.responsable}`,
+          `Personas: ${reservation.personas}`,
+          `Estado: ${RESERVATION_STATUS_LABELS[reservation.status] || reservation.status}`,
+        ].join('\n')
+      : undefined,
+    status: reservationEventStatus(reservation.status),
+    start: localToUtc(reservation.fecha, reservation.inicio),
+    end: localToUtc(reservation.fecha, reservation.fin),
+    lastModified: reservation.updated_at ? new Date(reservation.updated_at) : undefined,
+  };
+}
+
+// Row of public.blocked_dates; whole-day blocks have no start/end time
+export function blockedDateToEvent(blockedDate: BlockedDateEventRow): CalendarEvent {
+  const { start_time: startTime, end_time: endTime } = blockedDate;
+  const allDay = !startTime || !endTime;
+  return {
+    uid: `blocked-${blockedDate.id}@${UID_DOMAIN}`,
+    sequence: blockedDate.ical_sequence ?? 0,
+    summary: 'Quincho FIUNA no disponible',
+    description: blockedDate.motivo || undefined,
+    status: 'CONFIRMED',
+    start: allDay ? blockedDate.fecha : localToUtc(blockedDate.fecha, startTime),
+    end: allDay ? addDaysToDateString(blockedDate.fecha, 1) : localToUtc(blockedDate.fecha, endTime),
+  };
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+
+// Input schemas shared by the web app (forms and src/lib/supabase.ts) and the
+// Edge Functions. They trim and bound user text but never rewrite it: queries
+// are parameterized by PostgREST, and HTML output is escaped where it is built
+// (see escapeHtml).
+//
+// The app imports this file directly; the Edge Functions resolve "zod" through
+// the import map in their deno.json.
+
+export const TEXT_LIMITS = {
+  name: 100,
+  email: 254,
+  motivo: 500,
+  longText: 2000,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+const requiredText = (max: number, requiredMessage: string) =>
+  z.string()
+    .trim()
+    .min(1, requiredMessage)
+    .max(max, `Máximo ${max} caracteres`);
+
+// Free text that may be left empty (reasons, notes, replies); empty becomes null
+export const optionalTextSchema = z.string()
+  .trim()
+  .max(TEXT_LIMITS.longText, `Máximo ${TEXT_LIMITS.longText} caracteres`)
+  .nullish()
+  .transform(value => value || null);
+
+export const emailSchema = z.string()
+  .trim()
+  .min(1, 'El correo electrónico es obligatorio')
+  .max(TEXT_LIMITS.email, 'Ingrese un correo electrónico válido')
+  .email('Ingrese un correo electrónico válido');
+
+export const dateStringSchema = z.string().regex(DATE_PATTERN, 'La fecha es obligatoria');
+export const timeSchema = z.string().regex(TIME_PATTERN, 'Seleccione un horario válido');
+
+// Who is booking and why; used by the reservation form, series and waitlist
+export const bookingContactSchema = z.object({
+  responsable: requiredText(TEXT_LIMITS.name, 'El nombre es obligatorio'),
+  email: emailSchema,
+  motivo: requiredText(TEXT_LIMITS.motivo, 'El motivo es obligatorio'),
+  personas: z.coerce.number({ invalid_type_error: 'Ingrese un número válido de personas' })
+    .int('Ingrese un número válido de personas')
+    .positive('Ingrese un número válido de personas'),
+  affiliation: z.string().trim().max(TEXT_LIMITS.name).nullish().transform(value => value || null),
+  // Answer to the capacity documentation rules (e.g. the responsible docente)
+  documentation: optionalTextSchema,
+});
+
+const withTimeOrder = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.refine(
+    (value: { inicio: string; fin: string }) => value.fin.slice(0, 5) > value.inicio.slice(0, 5),
+    { message: 'La hora de fin debe ser posterior a la hora de inicio', path: ['fin'] }
+  );
+
+// A reservation (or waitlist entry) for a single date
+export const reservationInputSchema = withTimeOrder(bookingContactSchema.extend({
+  fecha: dateStringSchema,
+  inicio: timeSchema,
+  fin: timeSchema,
+}));
+
+export const reportInputSchema = z.object({
+  name: requiredText(TEXT_LIMITS.name, 'El nombre es obligatorio'),
+  email: emailSchema,
+  category: z.enum(['bug', 'damage', 'cleanliness', 'other']),
+  description: requiredText(TEXT_LIMITS.longText, 'La descripción es obligatoria'),
+  reservationId: z.string().uuid('El código de reserva no es válido').optional().or(z.literal('').transform(() => undefined)),
+});
+
+// Payload accepted by the send-email Edge Function. Limits are looser than the
+// form ones so rows saved before these schemas existed can still be emailed.
+export const emailRequestSchema = z.object({
+  type: z.enum([
+    'confirm-reservation',
+    'reservation-approved',
+    'reservation-cancelled',
+    'reservation-rejected',
+    'reservation-reminder',
+    'reservation-feedback',
+    'report-update',
+    'waitlist-available',
+    'reservation-changed',
+  ]),
+  recipient: emailSchema,
+  reservation: z.object({
+    id: z.string().max(64),
+    responsable: z.string().max(TEXT_LIMITS.longText),
+    email: z.string().max(TEXT_LIMITS.email),
+    motivo: z.string().max(TEXT_LIMITS.longText),
+    fecha: dateStringSchema,
+    inicio: timeSchema,
+    fin: timeSchema,
+    personas: z.coerce.number().int().positive(),
+  }).optional(),
+  reason: z.string().max(TEXT_LIMITS.longText).optional(),
+  confirmationToken: z.string().uuid().optional(),
+  seriesSummary: z.string().max(TEXT_LIMITS.longText).optional(),
+  claimToken: z.string().uuid().optional(),
+  reminderHours: z.coerce.number().int().positive().optional(),
+  claimExpiresAt: z.string().max(64).optional(),
+  previous: z.object({
+    fecha: dateStringSchema,
+    inicio: timeSchema,
+    fin: timeSchema,
+    personas: z.coerce.number().int().positive(),
+  }).optional(),
+  report: z.object({
+    id: z.string().max(64),
+    name: z.string().max(TEXT_LIMITS.longText),
+    category: z.enum(['bug', 'damage', 'cleanliness', 'other']),
+    description: z.string().max(TEXT_LIMITS.longText),
+    status: z.enum(['open', 'in_progress', 'resolved']),
+    reply: z.string().max(TEXT_LIMITS.longText).nullish(),
+  }).optional(),
+});
+
+export type ReservationInput = z.infer<typeof reservationInputSchema>;
+export type EmailRequest = z.infer<typeof emailRequestSchema>;
+
+// Field → first error message, for showing errors next to form inputs
+export const getFieldErrors = (error: z.ZodError): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = String(issue.path[0] ?? 'form');
+    if (!errors[field]) {
+      errors[field] = issue.message;
+    }
+  }
+  return errors;
+};
+
+// Escape user text before placing it inside HTML (email templates)
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// One-time creation of the first super-admin. Only callable with the service
+// role key, never from the browser:
+//
+//   curl -X POST "$SUPABASE_URL/functions/v1/bootstrap-admin" \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+//     -H "Content-Type: application/json" \
+//     -d '{"email": "persona@fiuna.edu.py", "fullName": "Nombre Apellido"}'
+//
+// When the email has no account yet, an invitation is sent so the person
+// chooses their own password. Everyone else is invited from the admin panel.
+// Errors: 401 UNAUTHORIZED, 400 INVALID_EMAIL, 409 SUPER_ADMIN_EXISTS
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface BootstrapRequest {
+  email: string;
+  fullName?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'UNAUTHORIZED' }, 401);
+    }
+
+    const { email, fullName }: BootstrapRequest = await req.json();
+    const normalizedEmail = (email || '').trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return jsonResponse({ error: 'INVALID_EMAIL' }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    let { data: userId, error } = await supabase.rpc('bootstrap_super_admin', { p_email: normalizedEmail });
+    let invited = false;
+
+    if (error?.message === 'USER_NOT_FOUND') {
+      const { error: inviteError } = await supabase.auth.admin.inviteUserByEmail(normalizedEmail, {
+        data: fullName ? { full_name: fullName.trim() } : undefined,
+        redirectTo: `${Deno.env.get('SITE_URL')}/auth/reset-password`,
+      });
+
+      if (inviteError) {
+        return jsonResponse({ error: 'INVITE_FAILED', details: inviteError.message }, 500);
+      }
+
+      invited = true;
+      ({ data: userId, error } = await supabase.rpc('bootstrap_super_admin', { p_email: normalizedEmail }));
+    }
+
+    if (error) {
+      const code = error.message === 'SUPER_ADMIN_EXISTS' ? error.message : 'BOOTSTRAP_FAILED';
+      return jsonResponse({ error: code, details: error.message }, code === 'SUPER_ADMIN_EXISTS' ? 409 : 500);
+    }
+
+    console.log(`Bootstrapped super-admin ${normalizedEmail}${invited ? ' (invited)' : ''}`);
+    return jsonResponse({ userId, invited }, 200);
+  } catch (error) {
+    console.error('Error bootstrapping super-admin:', error);
+    return jsonResponse({ error: 'BOOTSTRAP_FAILED' }, 500);
+  }
+});
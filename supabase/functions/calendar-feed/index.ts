@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { addDaysToDateString, todayAtQuincho } from '../_shared/dates.ts';
+import { blockedDateToEvent, buildCalendar, ReservationEventRow, reservationToEvent } from '../_shared/ical.ts';
+
+// Serves the iCalendar feeds calendar apps subscribe to:
+//   GET /calendar-feed              -> public feed: approved reservations without
+//                                      personal data, plus blocked dates and
+//                                      the days blocked by recurring rules
+//   GET /calendar-feed?token=<uuid> -> personal feed with the bookings of the
+//                                      user who owns the token
+// Calendar apps cannot send an Authorization header, so JWT verification is
+// disabled for this function in config.toml.
+
+const PAST_DAYS = 90;
+// Recurring block rules are expanded this far ahead
+const RULE_DAYS_AHEAD = 365;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Row returned by public.expand_block_rules()
+interface RuleBlockedDayRow {
+  rule_id: string;
+  fecha: string;
+  motivo: string | null;
+  category: string | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+const calendarHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/calendar; charset=utf-8',
+  'Content-Disposition': 'inline; filename="quincho-fiuna.ics"',
+  'Cache-Control': 'public, max-age=300',
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const token = new URL(req.url).searchParams.get('token');
+    const since = addDaysToDateString(todayAtQuincho(), -PAST_DAYS);
+
+    if (token !== null) {
+      if (!UUID_PATTERN.test(token)) {
+        return new Response('Invalid feed token', { status: 404, headers: corsHeaders });
+      }
+
+      const { data: feedToken, error: tokenError } = await supabase
+        .from('calendar_feed_tokens')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (tokenError) throw tokenError;
+      if (!feedToken) {
+        return new Response('Invalid feed token', { status: 404, headers: corsHeaders });
+      }
+
+      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(feedToken.user_id);
+      if (userError) throw userError;
+
+      // Same ownership rule as the app: user_id or the account email. The
+      // email is matched in its own query instead of a hand-built .or() filter
+      const email = (userData.user?.email || '').replace(/[\\%_]/g, '\\$&');
+
+      const [byUserResult, byEmailResult] = await Promise.all([
+        supabase
+          .from('reservations')
+          .select('*')
+          .eq('user_id', feedToken.user_id)
+          .gte('fecha', since),
+        email
+          ? supabase
+              .from('reservations')
+              .select('*')
+              .ilike('email', email)
+              .gte('fecha', since)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (byUserResult.error) throw byUserResult.error;
+      if (byEmailResult.error) throw byEmailResult.error;
+
+      // A reservation can match both queries
+      const reservations = new Map<string, ReservationEventRow>();
+      for (const reservation of [...(byUserResult.data || []), ...(byEmailResult.data || [])]) {
+        reservations.set(reservation.id, reservation);
+      }
+
+      // Cancelled and rejected bookings stay in the feed as CANCELLED so
+      // clients that already had them drop the event
+      const events = [...reservations.values()]
+        .sort((a, b) => a.fecha.localeCompare(b.fecha))
+        .map(reservation => reservationToEvent(reservation, true));
+
+      return new Response(buildCalendar('Mis reservas - Quincho FIUNA', events), {
+        headers: { ...calendarHeaders, 'Cache-Control': 'private, max-age=300' },
+      });
+    }
+
+    const until = addDaysToDateString(todayAtQuincho(), RULE_DAYS_AHEAD);
+
+    const [reservationsResult, blockedDatesResult, ruleDaysResult] = await Promise.all([
+      supabase
+        .from('reservations')
+        .select('id, fecha, inicio, fin, status, ical_sequence, updated_at')
+        .in('status', ['approved', 'cancelled'])
+        .gte('fecha', since)
+        .order('fecha', { ascending: true }),
+      supabase
+        .from('blocked_dates')
+        .select('*')
+        .gte('fecha', since)
+        .order('fecha', { ascending: true }),
+      supabase.rpc('expand_block_rules', { p_from: since, p_to: until }),
+    ]);
+
+    if (reservationsResult.error) throw reservationsResult.error;
+    if (blockedDatesResult.error) throw blockedDatesResult.error;
+    if (ruleDaysResult.error) throw ruleDaysResult.error;
+
+    const events = [
+      ...(reservationsResult.data || []).map(reservation => reservationToEvent(reservation, false)),
+      ...(blockedDatesResult.data || []).map(blockedDateToEvent),
+      // One event per blocked day; the id keeps the UID stable across fetches
+      ...((ruleDaysResult.data || []) as RuleBlockedDayRow[]).map(day =>
+        blockedDateToEvent({ ...day, id: `rule-${day.rule_id}-${day.fecha}` })
+      ),
+    ];
+
+    return new Response(buildCalendar('Quincho FIUNA', events), { headers: calendarHeaders });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return new Response('Error generating calendar feed', { status: 500, headers: corsHeaders });
+  }
+});
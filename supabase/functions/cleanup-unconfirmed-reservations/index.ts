@@ -23,5 +23,19 @@ serve(async () => {
     return new Response(`Cleanup failed: ${error.message}`, { status: 500 })
   }
 
+  // Pass unclaimed waitlist offers on to the next person in line
+  const { error: waitlistError } = await supabase.rpc('expire_waitlist_claims')
+
+  if (waitlistError) {
+    return new Response(`Waitlist cleanup failed: ${waitlistError.message}`, { status: 500 })
+  }
+
+  // Flag approved reservations that ended without a check-in
+  const { error: noShowError } = await supabase.rpc('mark_no_show_reservations')
+
+  if (noShowError) {
+    return new Response(`No-show check failed: ${noShowError.message}`, { status: 500 })
+  }
+
   return new Response('Cleanup successful', { status: 200 })
 })
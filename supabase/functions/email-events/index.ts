@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Receives the Resend webhooks for sent emails and records them in
+// public.email_outbox (matched by provider_message_id):
+//   email.delivered            -> delivered_at
+//   email.bounced / complained -> status 'bounced', listed in the admin panel
+// Resend signs the requests (Svix) with RESEND_WEBHOOK_SECRET; it cannot send
+// an Authorization header, so JWT verification is disabled in config.toml.
+
+const WEBHOOK_SECRET = Deno.env.get('RESEND_WEBHOOK_SECRET');
+// Signatures older than this are rejected to prevent replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+async function isValidSignature(req: Request, body: string): Promise<boolean> {
+  const id = req.headers.get('svix-id');
+  const timestamp = req.headers.get('svix-timestamp');
+  const signatures = req.headers.get('svix-signature');
+  if (!WEBHOOK_SECRET || !id || !timestamp || !signatures) return false;
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) return false;
+
+  const secret = Uint8Array.from(atob(WEBHOOK_SECRET.replace(/^whsec_/, '')), char => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signed = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(signed)));
+
+  // Header: space separated "v1,<base64>" entries (several during secret rotation)
+  return signatures.split(' ').some(entry => entry.split(',')[1] === expected);
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.text();
+    if (!(await isValidSignature(req, body))) {
+      return new Response(JSON.stringify({ error: 'INVALID_SIGNATURE' }), { status: 401, headers: jsonHeaders });
+    }
+
+    const event = JSON.parse(body);
+    const messageId = event?.data?.email_id;
+    if (!messageId) {
+      return new Response(JSON.stringify({ success: true, ignored: true }), { headers: jsonHeaders });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    let changes: Record<string, unknown> | null = null;
+    switch (event.type) {
+      case 'email.delivered':
+        changes = { delivered_at: event.created_at || new Date().toISOString() };
+        break;
+
+      case 'email.bounced':
+      case 'email.complained':
+        changes = {
+          status: 'bounced',
+          bounced_at: event.created_at || new Date().toISOString(),
+          last_error: event.type === 'email.complained'
+            ? 'El destinatario marcó el correo como spam'
+            : event.data.bounce?.message || 'El servidor del destinatario rechazó el correo',
+        };
+        break;
+    }
+
+    if (changes) {
+      const { error } = await supabase
+        .from('email_outbox')
+        .update(changes)
+        .eq('provider_message_id', messageId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true }), { headers: jsonHeaders });
+  } catch (error) {
+    console.error('Email event error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
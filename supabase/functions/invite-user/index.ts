@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Invites a new user by email and assigns their role. Only callers with the
+// users.manage permission may invite; the invitation link lets the new user
+// choose a password (/auth/reset-password handles type=invite links).
+//
+// POST { email, role, fullName? }
+// Errors: 401 not signed in, 403 FORBIDDEN, 400 INVALID_EMAIL / INVALID_ROLE,
+//         409 USER_EXISTS (assign the role from the users list instead)
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface InviteRequest {
+  email: string;
+  role: string;
+  fullName?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      return jsonResponse({ error: 'UNAUTHORIZED' }, 401);
+    }
+
+    // Permission check with the caller's own session
+    const callerClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authorization } } }
+    );
+
+    const { data: { user: caller } } = await callerClient.auth.getUser();
+    if (!caller) {
+      return jsonResponse({ error: 'UNAUTHORIZED' }, 401);
+    }
+
+    const { data: access, error: accessError } = await callerClient.rpc('get_my_access');
+    if (accessError || !access?.permissions?.includes('users.manage')) {
+      return jsonResponse({ error: 'FORBIDDEN' }, 403);
+    }
+
+    const { email, role, fullName }: InviteRequest = await req.json();
+    const normalizedEmail = (email || '').trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return jsonResponse({ error: 'INVALID_EMAIL' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: roleRow } = await supabase
+      .from('roles')
+      .select('role')
+      .eq('role', role)
+      .maybeSingle();
+
+    if (!roleRow) {
+      return jsonResponse({ error: 'INVALID_ROLE' }, 400);
+    }
+
+    const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(normalizedEmail, {
+      data: fullName ? { full_name: fullName.trim() } : undefined,
+      redirectTo: `${Deno.env.get('SITE_URL')}/auth/reset-password`,
+    });
+
+    if (inviteError || !invited?.user) {
+      const alreadyExists = inviteError?.message?.toLowerCase().includes('already');
+      return jsonResponse(
+        { error: alreadyExists ? 'USER_EXISTS' : 'INVITE_FAILED', details: inviteError?.message },
+        alreadyExists ? 409 : 500
+      );
+    }
+
+    // handle_new_user() created the profile as a regular user
+    const { error: roleError } = await supabase
+      .from('profiles')
+      .upsert({ id: invited.user.id, role, full_name: fullName?.trim() || null }, { onConflict: 'id' });
+
+    if (roleError) {
+      return jsonResponse({ error: 'ROLE_NOT_ASSIGNED', details: roleError.message }, 500);
+    }
+
+    // Link the legacy admin list entry, if the person was on it
+    await supabase
+      .from('admins')
+      .update({ user_id: invited.user.id })
+      .eq('email', normalizedEmail)
+      .is('user_id', null);
+
+    await supabase.from('role_audit_log').insert({
+      user_id: invited.user.id,
+      email: normalizedEmail,
+      action: 'invited',
+      previous_role: null,
+      new_role: role,
+      performed_by: caller.id,
+    });
+
+    return jsonResponse({ userId: invited.user.id }, 200);
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    return jsonResponse({ error: 'INVITE_FAILED' }, 500);
+  }
+});
@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Local stand-in for the Resend API, to develop and test emails without
+// sending real ones. Only answers when MAIL_SINK_ENABLED=true. Point
+// send-email at it in supabase/functions/.env:
+//   MAIL_SINK_ENABLED=true
+//   RESEND_API_URL=http://kong:8000/functions/v1/mail-sink
+//
+//   POST .../mail-sink/emails  -> stores the email and returns { id } like Resend
+//   GET  .../mail-sink          -> stored emails, newest first (without the HTML)
+//   GET  .../mail-sink?id=<id>  -> the HTML of one email, to open in a browser
+//
+// Failures can be simulated through the recipient address:
+//   nombre+fail@...    -> 503, retried by process-email-outbox
+//   nombre+reject@...  -> 422, marked as failed right away
+//
+// Emails are kept in memory, so they are lost when the function restarts.
+
+const MAX_MESSAGES = 200;
+
+interface SinkMessage {
+  id: string;
+  receivedAt: string;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  attachments: string[];
+}
+
+const messages: SinkMessage[] = [];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (Deno.env.get('MAIL_SINK_ENABLED') !== 'true') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  if (req.method === 'GET') {
+    const id = new URL(req.url).searchParams.get('id');
+    if (id) {
+      const message = messages.find(item => item.id === id);
+      return message
+        ? new Response(message.html, { headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' } })
+        : new Response('Not found', { status: 404 });
+    }
+    return json(messages.map(({ html: _html, ...summary }) => summary));
+  }
+
+  if (req.method !== 'POST') {
+    return json({ message: 'Method not allowed' }, 405);
+  }
+
+  const email = await req.json().catch(() => null);
+  const to = Array.isArray(email?.to) ? email.to.join(', ') : email?.to;
+  if (!to || !email?.subject || !email?.html) {
+    return json({ statusCode: 422, name: 'validation_error', message: 'Missing to, subject or html' }, 422);
+  }
+
+  if (to.includes('+fail@')) {
+    return json({ statusCode: 503, name: 'service_unavailable', message: 'Simulated outage' }, 503);
+  }
+  if (to.includes('+reject@')) {
+    return json({ statusCode: 422, name: 'validation_error', message: 'Simulated invalid recipient' }, 422);
+  }
+
+  const message: SinkMessage = {
+    id: `sink_${crypto.randomUUID()}`,
+    receivedAt: new Date().toISOString(),
+    from: email.from,
+    to,
+    subject: email.subject,
+    html: email.html,
+    attachments: (email.attachments || []).map((attachment: { filename: string }) => attachment.filename),
+  };
+
+  messages.unshift(message);
+  messages.splice(MAX_MESSAGES);
+  console.log(`[mail-sink] ${message.id} to ${message.to}: ${message.subject}`);
+
+  return json({ id: message.id });
+});
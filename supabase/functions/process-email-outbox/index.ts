@@ -0,0 +1,81 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Retries the emails in public.email_outbox whose next attempt is due. Each
+// email is handed to send-email, which claims it (so a slow run never sends
+// it twice), delivers it and schedules the next attempt with exponential
+// backoff when it fails. Runs every minute (see config.toml).
+
+const BATCH_SIZE = 25;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const now = new Date().toISOString();
+
+    // Due retries, plus emails left "sending" by a run that stopped midway
+    const { data: dueEmails, error } = await supabase
+      .from('email_outbox')
+      .select('id')
+      .or(`and(status.eq.pending,next_attempt_at.lte.${now}),and(status.eq.sending,locked_until.lt.${now})`)
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('Error fetching due emails:', error);
+      throw error;
+    }
+
+    const results: Record<string, number> = {};
+    let errorCount = 0;
+
+    for (const email of dueEmails || []) {
+      const { data, error: sendError } = await supabase.functions.invoke('send-email', {
+        body: { outboxId: email.id }
+      });
+
+      if (sendError) {
+        console.error(`Error delivering email ${email.id}:`, sendError);
+        errorCount++;
+        continue;
+      }
+
+      results[data?.status || 'unknown'] = (results[data?.status || 'unknown'] || 0) + 1;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: dueEmails?.length || 0,
+        results,
+        errors: errorCount,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      }
+    );
+  } catch (error) {
+    console.error('Email outbox error:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders }
+      }
+    );
+  }
+});
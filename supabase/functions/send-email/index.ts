@@ -1,30 +1,37 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatLongDate } from '../_shared/dates.ts';
+import { buildCalendar, reservationToEvent } from '../_shared/ical.ts';
+import { EmailRequest, emailRequestSchema, escapeHtml } from '../_shared/validation.ts';
+import {
+  claimEmail,
+  createServiceClient,
+  DeliveryError,
+  enqueueEmail,
+  markFailed,
+  markSent,
+  OutboxEmail,
+} from './outbox.ts';
+import { EmailAttachment, getSenderOptions, getTransport } from './transports.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY")!;
-const FROM_EMAIL = "Quincho FIUNA <quincho-noreply@cpfiuna.io>"; // Resend test domain
-
-interface EmailRequest {
-  type: 'confirm-reservation' | 'reservation-approved' | 'reservation-cancelled' | 'reservation-rejected' | 'reservation-reminder';
-  recipient: string;
-  reservation: {
-    id: string;
-    responsable: string;
-    email: string;
-    motivo: string;
-    fecha: string;
-    inicio: string;
-    fin: string;
-    personas: number;
-  };
-  reason?: string; // For cancellation/rejection
-  confirmationToken?: string; // For confirm-reservation
-}
+const REPORT_CATEGORY_LABELS: Record<string, string> = {
+  bug: 'Error del sistema',
+  damage: 'Daño en el quincho',
+  cleanliness: 'Limpieza',
+  other: 'Otro',
+};
+
+const REPORT_STATUS_LABELS: Record<string, string> = {
+  open: 'Abierta',
+  in_progress: 'En progreso',
+  resolved: 'Resuelta',
+};
 
 async function loadTemplate(templateName: string): Promise<string> {
   // All templates are now in the function root directory
@@ -37,24 +44,225 @@ async function loadTemplate(templateName: string): Promise<string> {
   }
 }
 
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString('es-PY', { 
-    weekday: 'long', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric' 
-  });
+// "1 hora", "3 horas", "1 día", "2 días"
+function formatReminderLead(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 1 ? '1 día' : `${days} días`;
+  }
+  return hours === 1 ? '1 hora' : `${hours} horas`;
+}
+
+// Emails that carry the reservation as an .ics attachment
+const CALENDAR_ATTACHMENT_TYPES = ['reservation-approved', 'reservation-changed', 'reservation-cancelled'];
+
+// Builds the .ics for a reservation from its current row, so the SEQUENCE and
+// STATUS match what calendar apps already have. Returns null when it cannot.
+async function buildCalendarAttachment(
+  supabase: SupabaseClient,
+  reservationId: string
+): Promise<EmailAttachment | null> {
+  try {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('id', reservationId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.warn(`Could not load reservation ${reservationId} for the calendar attachment`, error);
+      return null;
+    }
+
+    const ics = buildCalendar('Quincho FIUNA', [reservationToEvent(data, true)]);
+    const bytes = new TextEncoder().encode(ics);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+
+    return { filename: 'reserva-quincho-fiuna.ics', content: btoa(binary) };
+  } catch (error) {
+    console.warn('Error building calendar attachment:', error);
+    return null;
+  }
 }
 
+// Variables holding HTML built in this function (user text inside them is
+// escaped when the block is built); every other value is escaped here
+const HTML_VARIABLES = new Set(['SeriesSummary', 'ReplyBlock', 'ResponseBlock', 'CalendarNote']);
+
 function replaceTemplateVariables(template: string, data: Record<string, string>): string {
   let result = template;
   for (const [key, value] of Object.entries(data)) {
-    result = result.replaceAll(`{{.${key}}}`, value);
+    result = result.replaceAll(`{{.${key}}}`, HTML_VARIABLES.has(key) ? value : escapeHtml(value));
   }
   return result;
 }
 
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  attachment: EmailAttachment | null;
+}
+
+async function renderEmail(supabase: SupabaseClient, emailData: EmailRequest): Promise<RenderedEmail> {
+  const { type, reservation, reason, confirmationToken, seriesSummary, report, claimToken, claimExpiresAt, previous, reminderHours } = emailData;
+  
+  let templateName = '';
+  let subject = '';
+  let templateVars: Record<string, string> = reservation ? {
+    Name: reservation.responsable,
+    Email: reservation.email,
+    Date: formatLongDate(reservation.fecha),
+    StartTime: reservation.inicio,
+    EndTime: reservation.fin,
+    Reason: reservation.motivo,
+    Personas: reservation.personas.toString(),
+    SeriesSummary: seriesSummary
+      ? `<p style="margin: 0 0 20px 0; color: #555555; font-size: 15px; line-height: 1.6;"><strong>Reserva recurrente:</strong> ${escapeHtml(seriesSummary)}. La fecha indicada arriba es la primera de la serie.</p>`
+      : '',
+  } : {};
+
+  if (type === 'report-update' && !report) {
+    throw new Error('Missing report data for report-update email');
+  }
+  if (type !== 'report-update' && !reservation) {
+    throw new Error(`Missing reservation data for ${type} email`);
+  }
+  
+  switch (type) {
+    case 'confirm-reservation':
+      templateName = 'confirm-reservation';
+      subject = 'Confirma tu solicitud de reserva - Quincho FIUNA';
+      templateVars.ConfirmationURL = `${Deno.env.get('SITE_URL')}/confirmar-reserva?token=${confirmationToken}`;
+      break;
+    
+    case 'reservation-approved':
+      templateName = 'reservation-approved';
+      subject = '¡Tu reserva ha sido aprobada! - Quincho FIUNA';
+      break;
+    
+    case 'reservation-cancelled':
+      templateName = 'reservation-cancelled';
+      subject = 'Tu reserva ha sido cancelada - Quincho FIUNA';
+      templateVars.CancellationReason = reason || 'No especificado';
+      break;
+    
+    case 'reservation-rejected':
+      templateName = 'reservation-rejected';
+      subject = 'Solicitud no aprobada - Quincho FIUNA';
+      templateVars.RejectionReason = reason || 'No especificado';
+      break;
+    
+    case 'reservation-reminder':
+      templateName = 'reservation-reminder';
+      // Reminders enqueued before the schedule existed were always 1 hour ahead
+      templateVars.ReminderLead = formatReminderLead(reminderHours || 1);
+      subject = `🔔 Tu reserva comienza en ${templateVars.ReminderLead} - Quincho FIUNA`;
+      break;
+
+    case 'reservation-feedback':
+      templateName = 'reservation-feedback';
+      subject = '¿Cómo te fue en el quincho? - Quincho FIUNA';
+      templateVars.FeedbackURL = `${Deno.env.get('SITE_URL')}/reportar?reserva=${reservation!.id}&categoria=other`;
+      templateVars.CleanlinessURL = `${Deno.env.get('SITE_URL')}/reportar?reserva=${reservation!.id}&categoria=cleanliness`;
+      break;
+
+    case 'report-update':
+      templateName = 'report-update';
+      subject = `Tu reporte está ${REPORT_STATUS_LABELS[report!.status].toLowerCase()} - Quincho FIUNA`;
+      templateVars = {
+        Name: report!.name,
+        Category: REPORT_CATEGORY_LABELS[report!.category] || report!.category,
+        Status: REPORT_STATUS_LABELS[report!.status] || report!.status,
+        Description: report!.description,
+        ReplyBlock: report!.reply
+          ? `<div style="margin: 0 0 30px 0; padding: 20px; background-color: #d4edda; border-left: 4px solid #28a745; border-radius: 6px;"><p style="margin: 0 0 10px 0; color: #155724; font-size: 15px; font-weight: 600;">Respuesta del administrador:</p><p style="margin: 0; color: #155724; font-size: 14px; line-height: 1.6;">${escapeHtml(report!.reply)}</p></div>`
+          : '',
+      };
+      break;
+
+    case 'waitlist-available':
+      if (!claimToken) {
+        throw new Error('Missing claim token for waitlist-available email');
+      }
+      templateName = 'waitlist-available';
+      subject = '¡Se liberó el horario que esperabas! - Quincho FIUNA';
+      templateVars.ClaimURL = `${Deno.env.get('SITE_URL')}/reclamar-reserva?token=${claimToken}`;
+      templateVars.ClaimDeadline = claimExpiresAt
+        ? new Date(claimExpiresAt).toLocaleString('es-PY', {
+            timeZone: 'America/Asuncion',
+            weekday: 'long',
+            day: 'numeric',
+            month: 'long',
+            hour: '2-digit',
+            minute: '2-digit',
+          })
+        : 'las próximas horas';
+      break;
+
+    case 'reservation-changed':
+      if (!previous) {
+        throw new Error('Missing previous values for reservation-changed email');
+      }
+      templateName = 'reservation-changed';
+      subject = 'Tu reserva fue modificada - Quincho FIUNA';
+      templateVars.PreviousDate = formatLongDate(previous.fecha);
+      templateVars.PreviousStartTime = previous.inicio;
+      templateVars.PreviousEndTime = previous.fin;
+      templateVars.PreviousPersonas = previous.personas.toString();
+      templateVars.ResponseBlock = reason
+        ? `<div style="margin: 0 0 30px 0; padding: 20px; background-color: #d1ecf1; border-left: 4px solid #0c5460; border-radius: 6px;"><p style="margin: 0 0 10px 0; color: #0c5460; font-size: 15px; font-weight: 600;">Comentario del administrador:</p><p style="margin: 0; color: #0c5460; font-size: 14px; line-height: 1.6;">${escapeHtml(reason)}</p></div>`
+        : '';
+      break;
+  }
+  
+  // Attach the event so the recipient can add, update or remove it in their calendar
+  const attachment = CALENDAR_ATTACHMENT_TYPES.includes(type) && reservation?.id
+    ? await buildCalendarAttachment(supabase, reservation.id)
+    : null;
+  templateVars.CalendarNote = attachment
+    ? `<p style="margin: 0 0 20px 0; color: #555555; font-size: 14px; line-height: 1.6;">📎 Adjuntamos el archivo <strong>${escapeHtml(attachment.filename)}</strong>: ábrelo para ${type === 'reservation-cancelled' ? 'quitar la reserva de' : 'agregar o actualizar la reserva en'} tu calendario.</p>`
+    : '';
+
+  // Load and populate template
+  const template = await loadTemplate(templateName);
+  const htmlContent = replaceTemplateVariables(template, templateVars);
+
+  return { subject, html: htmlContent, attachment };
+}
+
+// One delivery attempt of an outbox email; failures are retried by process-email-outbox
+async function deliverEmail(supabase: SupabaseClient, email: OutboxEmail) {
+  try {
+    const parsed = emailRequestSchema.safeParse(email.payload);
+    if (!parsed.success) {
+      throw new DeliveryError('Invalid email payload', true);
+    }
+
+    let rendered: RenderedEmail;
+    try {
+      rendered = await renderEmail(supabase, parsed.data);
+    } catch (error) {
+      // Missing data or template: retrying would render the same thing
+      throw new DeliveryError(error instanceof Error ? error.message : String(error), true);
+    }
+
+    const transport = getTransport();
+    const messageId = await transport.send({
+      ...getSenderOptions(),
+      to: email.recipient,
+      subject: rendered.subject,
+      html: rendered.html,
+      attachments: rendered.attachment ? [rendered.attachment] : [],
+    });
+    await markSent(supabase, email, transport.name, messageId);
+    return { status: 'sent' as const, emailId: messageId };
+  } catch (error) {
+    console.warn(`Delivery attempt ${email.attempts} of email ${email.id} failed`, error);
+    return { status: await markFailed(supabase, email, error), emailId: null };
+  }
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -62,107 +270,37 @@ serve(async (req: Request) => {
   }
 
   try {
-    const emailData: EmailRequest = await req.json();
-    const { type, recipient, reservation, reason, confirmationToken } = emailData;
-    
-    let templateName = '';
-    let subject = '';
-    let templateVars: Record<string, string> = {
-      Name: reservation.responsable,
-      Email: reservation.email,
-      Date: formatDate(reservation.fecha),
-      StartTime: reservation.inicio,
-      EndTime: reservation.fin,
-      Reason: reservation.motivo,
-      Personas: reservation.personas.toString(),
-    };
-    
-    switch (type) {
-      case 'confirm-reservation':
-        templateName = 'confirm-reservation';
-        subject = 'Confirma tu solicitud de reserva - Quincho FIUNA';
-        templateVars.ConfirmationURL = `${Deno.env.get('SITE_URL')}/confirmar-reserva?token=${confirmationToken}`;
-        break;
-      
-      case 'reservation-approved':
-        templateName = 'reservation-approved';
-        subject = '¡Tu reserva ha sido aprobada! - Quincho FIUNA';
-        break;
-      
-      case 'reservation-cancelled':
-        templateName = 'reservation-cancelled';
-        subject = 'Tu reserva ha sido cancelada - Quincho FIUNA';
-        templateVars.CancellationReason = reason || 'No especificado';
-        break;
-      
-      case 'reservation-rejected':
-        templateName = 'reservation-rejected';
-        subject = 'Solicitud no aprobada - Quincho FIUNA';
-        templateVars.RejectionReason = reason || 'No especificado';
-        break;
-      
-      case 'reservation-reminder':
-        templateName = 'reservation-reminder';
-        subject = '🔔 Tu reserva comienza en 1 hora - Quincho FIUNA';
-        break;
-    }
-    
-    // Load and populate template
-    const template = await loadTemplate(templateName);
-    const htmlContent = replaceTemplateVariables(template, templateVars);
-    
-    // Send email via Resend with simple retry/backoff for transient errors
-    const maxRetries = 3;
-    let attempt = 0;
-    let resendResponse: Response | null = null;
-    let lastError: any = null;
-
-    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-    while (attempt < maxRetries) {
-      attempt += 1;
-      try {
-        resendResponse = await fetch('https://api.resend.com/emails', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${RESEND_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            from: FROM_EMAIL,
-            to: recipient,
-            subject: subject,
-            html: htmlContent,
-          }),
-        });
-
-        if (!resendResponse.ok) {
-          const errorData = await resendResponse.text();
-          throw new Error(`Resend API error (status ${resendResponse.status}): ${errorData}`);
-        }
-
-        break; // success
-      } catch (err) {
-        lastError = err;
-        // For transient network/server errors, wait exponentially and retry
-        if (attempt < maxRetries) {
-          const backoffMs = Math.pow(2, attempt) * 300; // 600ms, 1200ms, ...
-          console.warn(`Resend attempt ${attempt} failed, retrying in ${backoffMs}ms`, err);
-          await delay(backoffMs);
-          continue;
-        }
-        // no more retries
-        throw err;
+    const supabase = createServiceClient();
+    const body = await req.json();
+    let outboxId: string;
+
+    if (typeof body?.outboxId === 'string') {
+      // Retry from process-email-outbox or an admin resend. Only due emails
+      // are claimed, so this can't send anything twice.
+      outboxId = body.outboxId;
+    } else {
+      const parsed = emailRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return new Response(
+          JSON.stringify({ error: 'INVALID_REQUEST', details: parsed.error.issues }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+
+      // Stored before the first attempt so no email is lost if it fails
+      outboxId = await enqueueEmail(supabase, parsed.data);
     }
 
-    const resendData = resendResponse ? await resendResponse.json() : null;
-    
+    const email = await claimEmail(supabase, outboxId);
+    const result = email ? await deliverEmail(supabase, email) : { status: 'skipped', emailId: null };
+
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: "Email sent successfully",
-        emailId: resendData.id,
+      JSON.stringify({
+        success: true,
+        message: result.status === 'sent' ? "Email sent successfully" : "Email queued",
+        outboxId,
+        status: result.status,
+        emailId: result.emailId,
       }),
       {
         headers: { "Content-Type": "application/json", ...corsHeaders },
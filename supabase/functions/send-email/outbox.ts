@@ -0,0 +1,99 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EmailRequest } from '../_shared/validation.ts';
+
+// Row of public.email_outbox
+export interface OutboxEmail {
+  id: string;
+  type: string;
+  recipient: string;
+  payload: EmailRequest;
+  reservation_id: string | null;
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'bounced';
+  attempts: number;
+  max_attempts: number;
+}
+
+// Thrown by a transport; permanent errors (e.g. an invalid address) are not retried
+export class DeliveryError extends Error {
+  constructor(message: string, readonly permanent = false) {
+    super(message);
+  }
+}
+
+export const createServiceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+// Minutes before the next attempt: 2, 4, 8, 16, 32, then hourly
+export const getRetryDelayMinutes = (attempts: number) => Math.min(60, 2 ** attempts);
+
+export async function enqueueEmail(supabase: SupabaseClient, request: EmailRequest): Promise<string> {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .insert({
+      type: request.type,
+      recipient: request.recipient,
+      payload: request,
+      reservation_id: request.reservation?.id || null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.id;
+}
+
+// The email if it is due and nobody else is sending it, null otherwise
+export async function claimEmail(supabase: SupabaseClient, id: string): Promise<OutboxEmail | null> {
+  const { data, error } = await supabase.rpc('claim_outbox_email', { p_id: id });
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.[0] || null;
+}
+
+export async function markSent(supabase: SupabaseClient, email: OutboxEmail, provider: string, messageId: string | null) {
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({
+      status: 'sent',
+      provider,
+      provider_message_id: messageId,
+      sent_at: new Date().toISOString(),
+      locked_until: null,
+      last_error: null,
+    })
+    .eq('id', email.id);
+
+  if (error) {
+    console.error(`Email ${email.id} was sent but could not be marked as sent`, error);
+  }
+}
+
+// Schedules the next attempt, or gives up after max_attempts or a permanent error
+export async function markFailed(supabase: SupabaseClient, email: OutboxEmail, failure: unknown): Promise<OutboxEmail['status']> {
+  const message = failure instanceof Error ? failure.message : String(failure);
+  const permanent = failure instanceof DeliveryError && failure.permanent;
+  const status = permanent || email.attempts >= email.max_attempts ? 'failed' : 'pending';
+  const nextAttempt = new Date(Date.now() + getRetryDelayMinutes(email.attempts) * 60 * 1000);
+
+  const { error } = await supabase
+    .from('email_outbox')
+    .update({
+      status,
+      last_error: message.substring(0, 2000),
+      next_attempt_at: nextAttempt.toISOString(),
+      locked_until: null,
+    })
+    .eq('id', email.id);
+
+  if (error) {
+    console.error(`Could not record the failure of email ${email.id}`, error);
+  }
+
+  return status;
+}
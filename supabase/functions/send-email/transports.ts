@@ -0,0 +1,190 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { DeliveryError } from './outbox.ts';
+
+// How emails leave send-email, selected with EMAIL_TRANSPORT:
+//   resend  (default) RESEND_API_KEY, RESEND_API_URL (e.g. the mail-sink function)
+//   smtp    SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASSWORD,
+//           SMTP_SECURE=true for implicit TLS (port 465)
+//   console logs every email; with EMAIL_OUTPUT_DIR also writes its HTML there
+// Sender options, shared by every transport:
+//   EMAIL_FROM_NAME, EMAIL_FROM_ADDRESS, EMAIL_REPLY_TO,
+//   EMAIL_BCC (comma separated, e.g. the admins' mailbox)
+
+export interface EmailAttachment {
+  filename: string;
+  content: string; // Base64
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  bcc: string[];
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  // Stored as email_outbox.provider
+  name: string;
+  // Returns the provider message ID, if there is one. Throws DeliveryError.
+  send(message: EmailMessage): Promise<string | null>;
+}
+
+const DEFAULT_FROM_NAME = 'Quincho FIUNA';
+const DEFAULT_FROM_ADDRESS = 'quincho-noreply@cpfiuna.io';
+
+const splitAddresses = (value: string | undefined) =>
+  (value || '').split(',').map(address => address.trim()).filter(Boolean);
+
+// From, Reply-To and BCC added to every email
+export function getSenderOptions() {
+  const name = Deno.env.get('EMAIL_FROM_NAME') || DEFAULT_FROM_NAME;
+  const address = Deno.env.get('EMAIL_FROM_ADDRESS') || DEFAULT_FROM_ADDRESS;
+
+  return {
+    from: `${name} <${address}>`,
+    replyTo: Deno.env.get('EMAIL_REPLY_TO') || undefined,
+    bcc: splitAddresses(Deno.env.get('EMAIL_BCC')),
+  };
+}
+
+// Resend API (or anything speaking it, like mail-sink). 4xx answers other
+// than 429 are permanent.
+function createResendTransport(): EmailTransport {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const apiUrl = Deno.env.get('RESEND_API_URL') || 'https://api.resend.com';
+
+  return {
+    name: 'resend',
+    async send(message) {
+      if (!apiKey) {
+        throw new DeliveryError('RESEND_API_KEY is not configured');
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${apiUrl}/emails`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+            ...(message.replyTo ? { reply_to: message.replyTo } : {}),
+            ...(message.bcc.length > 0 ? { bcc: message.bcc } : {}),
+            ...(message.attachments.length > 0 ? { attachments: message.attachments } : {}),
+          }),
+        });
+      } catch (error) {
+        throw new DeliveryError(`Resend request failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        const permanent = response.status >= 400 && response.status < 500 && response.status !== 429;
+        throw new DeliveryError(`Resend API error (status ${response.status}): ${errorData}`, permanent);
+      }
+
+      const data = await response.json().catch(() => null);
+      return data?.id || null;
+    },
+  };
+}
+
+// Any SMTP server, e.g. the faculty's own. Rejected recipients (5xx) are
+// permanent; connection problems and 4xx answers are retried.
+function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  const tls = Deno.env.get('SMTP_SECURE') === 'true';
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      if (!hostname) {
+        throw new DeliveryError('SMTP_HOST is not configured');
+      }
+
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls,
+          ...(username ? { auth: { username, password: password || '' } } : {}),
+        },
+      });
+
+      try {
+        await client.send({
+          from: message.from,
+          to: message.to,
+          bcc: message.bcc.length > 0 ? message.bcc : undefined,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments.map(attachment => ({
+            filename: attachment.filename,
+            content: attachment.content,
+            encoding: 'base64' as const,
+            contentType: attachment.filename.endsWith('.ics') ? 'text/calendar' : 'application/octet-stream',
+          })),
+        });
+      } catch (error) {
+        const text = error instanceof Error ? error.message : String(error);
+        throw new DeliveryError(`SMTP error: ${text}`, /\b5\d\d\b/.test(text));
+      } finally {
+        await client.close().catch(() => {});
+      }
+
+      // SMTP gives no message ID we could match bounces with
+      return null;
+    },
+  };
+}
+
+// Local development and tests: nothing is sent
+function createConsoleTransport(): EmailTransport {
+  const outputDir = Deno.env.get('EMAIL_OUTPUT_DIR');
+
+  return {
+    name: 'console',
+    async send(message) {
+      const id = `console_${crypto.randomUUID()}`;
+      console.log(`[email] ${id} to ${message.to}${message.bcc.length > 0 ? ` (bcc ${message.bcc.join(', ')})` : ''}: ${message.subject}`);
+
+      if (outputDir) {
+        try {
+          await Deno.mkdir(outputDir, { recursive: true });
+          await Deno.writeTextFile(`${outputDir}/${id}.html`, message.html);
+        } catch (error) {
+          console.warn(`Could not write email ${id} to ${outputDir}`, error);
+        }
+      }
+
+      return id;
+    },
+  };
+}
+
+const TRANSPORTS: Record<string, () => EmailTransport> = {
+  resend: createResendTransport,
+  smtp: createSmtpTransport,
+  console: createConsoleTransport,
+};
+
+export function getTransport(): EmailTransport {
+  const name = Deno.env.get('EMAIL_TRANSPORT') || 'resend';
+  const factory = TRANSPORTS[name];
+  if (!factory) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+  return factory();
+}
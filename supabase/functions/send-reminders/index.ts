@@ -6,6 +6,12 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Sends the reminders configured in settings 'reminder_schedule' (e.g. 24 and
+// 1 hour before the start) and the feedback email after the end. Which stages
+// are due is decided by enqueue_due_reminders() on America/Asuncion time, and
+// each stage is recorded in reminders_sent, so reruns never send it twice.
+// Runs every 5 minutes (see config.toml).
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -18,83 +24,39 @@ serve(async (req: Request) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    // Get current time and 1 hour from now
-    const now = new Date();
-    const oneHourFromNow = new Date(now.getTime() + 60 * 60 * 1000);
-    const oneHourFiveMinFromNow = new Date(now.getTime() + 65 * 60 * 1000);
-
-    // Format date for comparison (YYYY-MM-DD)
-    const targetDate = oneHourFromNow.toISOString().split('T')[0];
-
-    // Format time for comparison (HH:MM:SS)
-    const minTime = oneHourFromNow.toTimeString().split(' ')[0];
-    const maxTime = oneHourFiveMinFromNow.toTimeString().split(' ')[0];
-
-    console.log(`Checking reservations for ${targetDate} between ${minTime} and ${maxTime}`);
-
-    // Get reservations starting in approximately 1 hour
-    // Use the new `status` column and ignore cancelled reservations
-    const { data: reservations, error } = await supabase
-      .from('reservations')
-      .select('*')
-      .eq('status', 'approved')
-      .eq('confirmed', true)
-      .not('status', 'eq', 'cancelled')
-      .eq('fecha', targetDate)
-      .gte('inicio', minTime)
-      .lte('inicio', maxTime);
+    const { data: enqueued, error } = await supabase.rpc('enqueue_due_reminders');
 
     if (error) {
-      console.error('Error fetching reservations:', error);
+      console.error('Error enqueuing reminders:', error);
       throw error;
     }
 
-    console.log(`Found ${reservations?.length || 0} reservations to remind`);
+    console.log(`Enqueued ${enqueued?.length || 0} reminders`);
 
-    let sentCount = 0;
+    const stages: Record<string, number> = {};
     let errorCount = 0;
 
-    // Send reminder emails
-    for (const reservation of reservations || []) {
-      try {
-        console.log(`Sending reminder to ${reservation.email} for reservation ${reservation.id}`);
-        
-        const { error: emailError } = await supabase.functions.invoke('send-email', {
-          body: {
-            type: 'reservation-reminder',
-            recipient: reservation.email,
-            reservation: {
-              id: reservation.id,
-              responsable: reservation.responsable,
-              email: reservation.email,
-              motivo: reservation.motivo,
-              fecha: reservation.fecha,
-              inicio: reservation.inicio,
-              fin: reservation.fin,
-              personas: reservation.personas
-            }
-          }
-        });
+    // Deliver right away; anything that fails stays in the outbox and is
+    // retried by process-email-outbox
+    for (const reminder of enqueued || []) {
+      stages[reminder.reminder_stage] = (stages[reminder.reminder_stage] || 0) + 1;
+
+      const { error: emailError } = await supabase.functions.invoke('send-email', {
+        body: { outboxId: reminder.email_id }
+      });
 
-        if (emailError) {
-          console.error(`Error sending reminder to ${reservation.email}:`, emailError);
-          errorCount++;
-        } else {
-          console.log(`Successfully sent reminder to ${reservation.email}`);
-          sentCount++;
-        }
-      } catch (err) {
-        console.error(`Failed to send reminder for reservation ${reservation.id}:`, err);
+      if (emailError) {
+        console.error(`Error sending reminder ${reminder.email_id}:`, emailError);
         errorCount++;
       }
     }
 
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         success: true,
         message: `Reminder check complete`,
-        totalReservations: reservations?.length || 0,
-        sent: sentCount,
+        enqueued: enqueued?.length || 0,
+        stages,
         errors: errorCount,
         timestamp: new Date().toISOString()
       }),
@@ -105,7 +67,7 @@ serve(async (req: Request) => {
   } catch (error) {
     console.error('Send reminders error:', error);
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
       }),
@@ -0,0 +1,114 @@
+-- =============================================================================
+-- ADD RECURRING RESERVATION SERIES
+-- Created: October 19, 2026
+-- Description: Stores weekly recurrence rules and links the expanded
+--              occurrences (regular rows in public.reservations) to their series.
+--              Each occurrence keeps its own status so admins can approve,
+--              reject or cancel dates individually.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- 1) SERIES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reservation_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    responsable TEXT NOT NULL,
+    email TEXT NOT NULL,
+    motivo TEXT NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'weekly',
+    interval_weeks INTEGER NOT NULL DEFAULT 1,
+    start_date DATE NOT NULL,
+    until_date DATE,
+    occurrence_count INTEGER,
+    inicio TIME WITHOUT TIME ZONE NOT NULL,
+    fin TIME WITHOUT TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT reservation_series_frequency_check CHECK (frequency IN ('weekly')),
+    CONSTRAINT reservation_series_interval_check CHECK (interval_weeks BETWEEN 1 AND 4),
+    CONSTRAINT reservation_series_end_check CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL),
+    CONSTRAINT reservation_series_until_check CHECK (until_date IS NULL OR until_date >= start_date),
+    CONSTRAINT reservation_series_count_check CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 1 AND 26),
+    CONSTRAINT reservation_series_time_order_check CHECK (fin > inicio)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_series_email ON public.reservation_series(email);
+
+COMMENT ON TABLE public.reservation_series IS 'Recurrence rules for weekly/biweekly reservations';
+COMMENT ON COLUMN public.reservation_series.interval_weeks IS 'Number of weeks between occurrences (1 = weekly, 2 = biweekly)';
+COMMENT ON COLUMN public.reservation_series.until_date IS 'Last date the series may occur on (inclusive)';
+COMMENT ON COLUMN public.reservation_series.occurrence_count IS 'Maximum number of occurrences requested';
+
+-- =============================================================================
+-- 2) LINK OCCURRENCES TO THEIR SERIES
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                   WHERE table_name = 'reservations' AND column_name = 'series_id') THEN
+        ALTER TABLE public.reservations
+        ADD COLUMN series_id UUID REFERENCES public.reservation_series(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_series_id
+ON public.reservations(series_id)
+WHERE series_id IS NOT NULL;
+
+COMMENT ON COLUMN public.reservations.series_id IS 'Recurring series this occurrence belongs to (NULL for one-off reservations)';
+
+-- =============================================================================
+-- 3) RLS POLICIES
+-- =============================================================================
+
+ALTER TABLE public.reservation_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reservation_series_select_all" ON public.reservation_series;
+DROP POLICY IF EXISTS "reservation_series_insert_all" ON public.reservation_series;
+DROP POLICY IF EXISTS "reservation_series_update_admins" ON public.reservation_series;
+
+-- SELECT: Anyone can view (same visibility as reservations)
+CREATE POLICY "reservation_series_select_all"
+ON public.reservation_series
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- INSERT: Anyone can request a series (occurrences start unconfirmed)
+CREATE POLICY "reservation_series_insert_all"
+ON public.reservation_series
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (true);
+
+-- UPDATE: Only admins
+CREATE POLICY "reservation_series_update_admins"
+ON public.reservation_series
+FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT SELECT, INSERT ON public.reservation_series TO anon, authenticated;
+GRANT UPDATE ON public.reservation_series TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Occurrences of a series with their individual status:
+-- SELECT r.fecha, r.inicio, r.fin, r.status
+-- FROM public.reservations r
+-- WHERE r.series_id = '<series-id>'
+-- ORDER BY r.fecha;
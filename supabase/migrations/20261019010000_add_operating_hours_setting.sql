@@ -0,0 +1,68 @@
+-- =============================================================================
+-- ADD OPERATING HOURS SETTING
+-- Created: October 19, 2026
+-- Description: Seeds the 'operating_hours' row in public.settings (opening and
+--              closing time per weekday, slot size and min/max duration), lets
+--              admins insert settings rows and publishes settings changes over
+--              realtime so open calendars pick up new hours immediately.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- 1) DEFAULT OPERATING HOURS (matches the previous hardcoded 08:00 - 22:00)
+-- =============================================================================
+
+INSERT INTO public.settings (key, value, description)
+VALUES (
+    'operating_hours',
+    '{"days":[{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"},{"closed":false,"open":"08:00","close":"22:00"}],"slotMinutes":30,"minDurationMinutes":30,"maxDurationMinutes":840}',
+    'Horario de atención por día, intervalo de turnos y duración mínima/máxima de reservas'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =============================================================================
+-- 2) RLS: ADMINS CAN INSERT SETTINGS (needed for upserts from the admin panel)
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Only admins can insert settings" ON public.settings;
+
+CREATE POLICY "Only admins can insert settings"
+ON public.settings
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT INSERT, UPDATE ON public.settings TO authenticated;
+
+-- =============================================================================
+-- 3) REALTIME
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+           AND schemaname = 'public'
+           AND tablename = 'settings'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
+    END IF;
+END $$;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- SELECT key, value, updated_at FROM public.settings WHERE key = 'operating_hours';
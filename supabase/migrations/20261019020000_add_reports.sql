@@ -0,0 +1,157 @@
+-- =============================================================================
+-- ADD ISSUE REPORTS
+-- Created: October 19, 2026
+-- Description: Replaces the external Google Form with a public.reports table
+--              (category, description, optional reservation link and photo
+--              attachments stored in the 'report-attachments' Storage bucket).
+--              Anyone can submit a report; only admins can read, triage and
+--              reply to them.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- 1) REPORTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    category TEXT NOT NULL,
+    description TEXT NOT NULL,
+    reservation_id UUID REFERENCES public.reservations(id) ON DELETE SET NULL,
+    attachments TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'open',
+    admin_reply TEXT,
+    replied_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    CONSTRAINT reports_category_check CHECK (category IN ('bug', 'damage', 'cleanliness', 'other')),
+    CONSTRAINT reports_status_check CHECK (status IN ('open', 'in_progress', 'resolved')),
+    CONSTRAINT reports_attachments_limit_check CHECK (cardinality(attachments) <= 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_status ON public.reports(status);
+CREATE INDEX IF NOT EXISTS idx_reports_created_at ON public.reports(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_reservation_id ON public.reports(reservation_id) WHERE reservation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reports_updated_by ON public.reports(updated_by);
+
+COMMENT ON TABLE public.reports IS 'Issue reports submitted by users (bugs, damage, cleanliness, other)';
+COMMENT ON COLUMN public.reports.attachments IS 'Object paths inside the report-attachments Storage bucket';
+COMMENT ON COLUMN public.reports.admin_reply IS 'Latest reply sent to the reporter by an admin';
+
+DROP TRIGGER IF EXISTS update_reports_updated_at ON public.reports;
+CREATE TRIGGER update_reports_updated_at
+    BEFORE UPDATE ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =============================================================================
+-- 2) RLS POLICIES
+-- =============================================================================
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reports_insert_all" ON public.reports;
+DROP POLICY IF EXISTS "reports_select_admins" ON public.reports;
+DROP POLICY IF EXISTS "reports_update_admins" ON public.reports;
+
+-- INSERT: Anyone can submit a new (open, unanswered) report
+CREATE POLICY "reports_insert_all"
+ON public.reports
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (status = 'open' AND admin_reply IS NULL);
+
+-- SELECT: Only admins (reports contain personal data)
+CREATE POLICY "reports_select_admins"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+-- UPDATE: Only admins
+CREATE POLICY "reports_update_admins"
+ON public.reports
+FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT INSERT ON public.reports TO anon, authenticated;
+GRANT SELECT, UPDATE ON public.reports TO authenticated;
+
+-- =============================================================================
+-- 3) STORAGE BUCKET FOR PHOTO ATTACHMENTS
+-- =============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('report-attachments', 'report-attachments', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "report_attachments_insert_all" ON storage.objects;
+DROP POLICY IF EXISTS "report_attachments_select_admins" ON storage.objects;
+
+-- Anyone submitting a report can upload photos to the bucket
+CREATE POLICY "report_attachments_insert_all"
+ON storage.objects
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (bucket_id = 'report-attachments');
+
+-- Only admins can read the photos (through signed URLs)
+CREATE POLICY "report_attachments_select_admins"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'report-attachments'
+    AND EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+-- =============================================================================
+-- 4) REALTIME
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+           AND schemaname = 'public'
+           AND tablename = 'reports'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.reports;
+    END IF;
+END $$;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Open reports, newest first:
+-- SELECT id, category, name, email, created_at FROM public.reports
+-- WHERE status <> 'resolved' ORDER BY created_at DESC;
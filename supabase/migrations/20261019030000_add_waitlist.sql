@@ -0,0 +1,425 @@
+-- =============================================================================
+-- ADD WAITLIST FOR FULLY BOOKED SLOTS
+-- Created: October 19, 2026
+-- Description:
+--   1. public.waitlist_entries: people waiting for a specific date/time range
+--   2. notify_next_waitlist_entry(): offers a released slot to the first person
+--      in line with a time-limited claim link (email via send-email)
+--   3. Trigger on reservations: a cancelled, rejected or deleted (expired
+--      unconfirmed) reservation releases its slot to the waitlist
+--   4. claim_waitlist_spot(): turns a valid claim link into a pending reservation
+--   5. expire_waitlist_claims(): passes unclaimed offers to the next person
+--      (called by cleanup-unconfirmed-reservations)
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: WAITLIST TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    responsable TEXT NOT NULL,
+    email TEXT NOT NULL,
+    motivo TEXT NOT NULL,
+    personas INTEGER NOT NULL,
+    affiliation TEXT,
+    fecha DATE NOT NULL,
+    inicio TIME WITHOUT TIME ZONE NOT NULL,
+    fin TIME WITHOUT TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'waiting',
+    claim_token UUID,
+    claim_expires_at TIMESTAMP WITH TIME ZONE,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    claimed_reservation_id UUID REFERENCES public.reservations(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT waitlist_entries_status_check CHECK (status IN ('waiting', 'notified', 'claimed', 'expired', 'cancelled')),
+    CONSTRAINT waitlist_entries_time_order_check CHECK (fin > inicio),
+    CONSTRAINT waitlist_entries_personas_check CHECK (personas > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_fecha_status ON public.waitlist_entries(fecha, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_claim_token
+ON public.waitlist_entries(claim_token)
+WHERE claim_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_claimed_reservation_id
+ON public.waitlist_entries(claimed_reservation_id)
+WHERE claimed_reservation_id IS NOT NULL;
+
+-- One active entry per person and range
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_active_unique
+ON public.waitlist_entries(lower(email), fecha, inicio, fin)
+WHERE status IN ('waiting', 'notified');
+
+COMMENT ON TABLE public.waitlist_entries IS 'People waiting for a booked date/time range to be released';
+COMMENT ON COLUMN public.waitlist_entries.claim_token IS 'Token of the claim link sent when the slot is offered';
+COMMENT ON COLUMN public.waitlist_entries.claim_expires_at IS 'The offer passes to the next person after this moment';
+
+-- =============================================================================
+-- PART 2: RLS POLICIES
+-- =============================================================================
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "waitlist_entries_insert_all" ON public.waitlist_entries;
+DROP POLICY IF EXISTS "waitlist_entries_select_admins" ON public.waitlist_entries;
+DROP POLICY IF EXISTS "waitlist_entries_update_admins" ON public.waitlist_entries;
+
+-- INSERT: Anyone can join the waitlist (claim fields are set by the server only)
+CREATE POLICY "waitlist_entries_insert_all"
+ON public.waitlist_entries
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (status = 'waiting' AND claim_token IS NULL AND claimed_reservation_id IS NULL);
+
+-- SELECT: Only admins (entries contain personal data)
+CREATE POLICY "waitlist_entries_select_admins"
+ON public.waitlist_entries
+FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+-- UPDATE: Only admins (e.g. remove someone from the list)
+CREATE POLICY "waitlist_entries_update_admins"
+ON public.waitlist_entries
+FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT INSERT ON public.waitlist_entries TO anon, authenticated;
+GRANT SELECT, UPDATE ON public.waitlist_entries TO authenticated;
+
+-- =============================================================================
+-- PART 3: OFFER A RELEASED SLOT TO THE NEXT PERSON IN LINE
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_next_waitlist_entry(p_fecha DATE, p_inicio TIME, p_fin TIME)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog, extensions
+AS $$
+DECLARE
+    candidate RECORD;
+    v_token UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+    email_response_id BIGINT;
+    function_url TEXT := 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1';
+    service_role_key TEXT;
+BEGIN
+    -- Someone else already holds an open offer for an overlapping range
+    IF EXISTS (
+        SELECT 1 FROM public.waitlist_entries w
+        WHERE w.fecha = p_fecha
+          AND w.status = 'notified'
+          AND w.claim_expires_at > now()
+          AND w.inicio < p_fin
+          AND w.fin > p_inicio
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    FOR candidate IN
+        SELECT w.*
+        FROM public.waitlist_entries w
+        WHERE w.fecha = p_fecha
+          AND w.status = 'waiting'
+          AND w.inicio < p_fin
+          AND w.fin > p_inicio
+          AND (w.fecha + w.inicio) > (now() AT TIME ZONE 'America/Asuncion')
+        ORDER BY w.created_at ASC
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- The whole range this person asked for must be free now
+        IF EXISTS (
+            SELECT 1 FROM public.reservations r
+            WHERE r.fecha = candidate.fecha
+              AND r.status NOT IN ('cancelled', 'rejected')
+              AND r.inicio < candidate.fin
+              AND r.fin > candidate.inicio
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM public.blocked_dates b
+            WHERE b.fecha = candidate.fecha
+              AND (
+                  b.start_time IS NULL OR b.end_time IS NULL
+                  OR (b.start_time < candidate.fin AND b.end_time > candidate.inicio)
+              )
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        -- 12 hours to claim, but never past the start of the slot
+        v_expires_at := LEAST(
+            now() + interval '12 hours',
+            (candidate.fecha + candidate.inicio) AT TIME ZONE 'America/Asuncion'
+        );
+
+        UPDATE public.waitlist_entries
+        SET status = 'notified',
+            claim_token = gen_random_uuid(),
+            claim_expires_at = v_expires_at,
+            notified_at = now()
+        WHERE id = candidate.id
+        RETURNING claim_token INTO v_token;
+
+        SELECT decrypted_secret INTO service_role_key
+        FROM vault.decrypted_secrets
+        WHERE name = 'service_role_key'
+        LIMIT 1;
+
+        IF service_role_key IS NOT NULL THEN
+            BEGIN
+                SELECT extensions.http_post(
+                    url := function_url || '/send-email',
+                    headers := jsonb_build_object(
+                        'Content-Type', 'application/json',
+                        'Authorization', 'Bearer ' || service_role_key
+                    ),
+                    body := jsonb_build_object(
+                        'type', 'waitlist-available',
+                        'recipient', candidate.email,
+                        'reservation', jsonb_build_object(
+                            'id', candidate.id,
+                            'responsable', candidate.responsable,
+                            'email', candidate.email,
+                            'motivo', candidate.motivo,
+                            'fecha', candidate.fecha,
+                            'inicio', to_char(candidate.inicio, 'HH24:MI'),
+                            'fin', to_char(candidate.fin, 'HH24:MI'),
+                            'personas', candidate.personas
+                        ),
+                        'claimToken', v_token,
+                        'claimExpiresAt', v_expires_at
+                    )::text
+                ) INTO email_response_id;
+            EXCEPTION WHEN OTHERS THEN
+                RAISE WARNING 'Failed to send waitlist email to %: %', candidate.email, SQLERRM;
+            END;
+        ELSE
+            RAISE WARNING 'Waitlist email not sent: service_role_key not configured';
+        END IF;
+
+        RETURN candidate.id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_next_waitlist_entry(DATE, TIME, TIME) IS
+'Offers a released date/time range to the first waiting person whose range is now free';
+
+REVOKE ALL ON FUNCTION public.notify_next_waitlist_entry(DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 4: RELEASE SLOTS WHEN RESERVATIONS ARE CANCELLED, REJECTED OR DELETED
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.release_slot_to_waitlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status NOT IN ('cancelled', 'rejected') THEN
+            PERFORM public.notify_next_waitlist_entry(OLD.fecha, OLD.inicio, OLD.fin);
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status NOT IN ('cancelled', 'rejected') AND NEW.status IN ('cancelled', 'rejected') THEN
+        PERFORM public.notify_next_waitlist_entry(OLD.fecha, OLD.inicio, OLD.fin);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_release_slot_on_status_change ON public.reservations;
+CREATE TRIGGER trigger_release_slot_on_status_change
+    AFTER UPDATE OF status ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.release_slot_to_waitlist();
+
+DROP TRIGGER IF EXISTS trigger_release_slot_on_delete ON public.reservations;
+CREATE TRIGGER trigger_release_slot_on_delete
+    AFTER DELETE ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.release_slot_to_waitlist();
+
+-- =============================================================================
+-- PART 5: CLAIM AN OFFERED SLOT
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_waitlist_spot(p_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    entry RECORD;
+    new_reservation RECORD;
+BEGIN
+    SELECT * INTO entry
+    FROM public.waitlist_entries
+    WHERE claim_token = p_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TOKEN');
+    END IF;
+
+    IF entry.status = 'claimed' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'ALREADY_CLAIMED');
+    END IF;
+
+    IF entry.status <> 'notified' OR entry.claim_expires_at <= now() THEN
+        RETURN jsonb_build_object('success', false, 'error', 'EXPIRED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.blocked_dates b
+        WHERE b.fecha = entry.fecha
+          AND (
+              b.start_time IS NULL OR b.end_time IS NULL
+              OR (b.start_time < entry.fin AND b.end_time > entry.inicio)
+          )
+    ) THEN
+        UPDATE public.waitlist_entries SET status = 'expired' WHERE id = entry.id;
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- The claim link proves the email address, so the reservation skips confirmation
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation, status, confirmed
+        )
+        VALUES (
+            entry.responsable, entry.email, entry.motivo, entry.fecha, entry.inicio, entry.fin,
+            entry.personas, entry.affiliation, 'pending', true
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        UPDATE public.waitlist_entries SET status = 'expired' WHERE id = entry.id;
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    UPDATE public.waitlist_entries
+    SET status = 'claimed',
+        claimed_at = now(),
+        claimed_reservation_id = new_reservation.id
+    WHERE id = entry.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reservation', jsonb_build_object(
+            'id', new_reservation.id,
+            'responsable', new_reservation.responsable,
+            'email', new_reservation.email,
+            'motivo', new_reservation.motivo,
+            'fecha', new_reservation.fecha,
+            'inicio', to_char(new_reservation.inicio, 'HH24:MI'),
+            'fin', to_char(new_reservation.fin, 'HH24:MI'),
+            'personas', new_reservation.personas
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_waitlist_spot(UUID) IS
+'Creates a pending (already confirmed) reservation from a valid waitlist claim token';
+
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_spot(UUID) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 6: EXPIRE UNCLAIMED OFFERS AND PAST ENTRIES
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.expire_waitlist_claims()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    expired RECORD;
+    expired_count INTEGER := 0;
+BEGIN
+    -- Entries whose slot already started can no longer be offered
+    UPDATE public.waitlist_entries
+    SET status = 'expired'
+    WHERE status = 'waiting'
+      AND (fecha + inicio) <= (now() AT TIME ZONE 'America/Asuncion');
+
+    -- Unclaimed offers pass to the next person in line
+    FOR expired IN
+        UPDATE public.waitlist_entries
+        SET status = 'expired'
+        WHERE status = 'notified'
+          AND claim_expires_at <= now()
+        RETURNING fecha, inicio, fin
+    LOOP
+        expired_count := expired_count + 1;
+        PERFORM public.notify_next_waitlist_entry(expired.fecha, expired.inicio, expired.fin);
+    END LOOP;
+
+    RETURN expired_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.expire_waitlist_claims() IS
+'Expires unclaimed waitlist offers and offers the slot to the next person';
+
+REVOKE ALL ON FUNCTION public.expire_waitlist_claims() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_claims() TO service_role;
+
+-- =============================================================================
+-- PART 7: REALTIME
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+           AND schemaname = 'public'
+           AND tablename = 'waitlist_entries'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.waitlist_entries;
+    END IF;
+END $$;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Waitlist for a given day, in order:
+-- SELECT email, inicio, fin, status, claim_expires_at
+-- FROM public.waitlist_entries
+-- WHERE fecha = '2026-11-05'
+-- ORDER BY created_at;
@@ -0,0 +1,259 @@
+-- =============================================================================
+-- SELF-SERVICE ACCESS TO OWN RESERVATIONS
+-- Created: October 19, 2026
+-- Description:
+--   1. reservations.user_id: the authenticated user who made the booking
+--      (filled automatically on insert, backfilled by email)
+--   2. RLS: users can cancel their own pending/approved reservations and
+--      write/read the cancellation audit of their own reservations
+--   3. Guard trigger: non-admin owners can only change the status (to cancelled)
+--   4. public.reservation_change_requests: change requests sent by owners
+-- A reservation belongs to a user when user_id matches auth.uid() or its email
+-- matches the email of the signed-in user.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: RESERVATION OWNER
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'reservations' AND column_name = 'user_id'
+    ) THEN
+        ALTER TABLE public.reservations
+        ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_user_id ON public.reservations(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reservations_email_lower ON public.reservations(lower(email));
+
+COMMENT ON COLUMN public.reservations.user_id IS 'Authenticated user who created the reservation (NULL for anonymous bookings)';
+
+-- Link existing reservations to accounts with the same email
+UPDATE public.reservations r
+SET user_id = u.id
+FROM auth.users u
+WHERE r.user_id IS NULL
+  AND lower(u.email) = lower(r.email);
+
+-- =============================================================================
+-- PART 2: RESERVATIONS - OWNERS CAN CANCEL
+-- =============================================================================
+
+DROP POLICY IF EXISTS "reservations_update_own" ON public.reservations;
+
+-- UPDATE: Owners can move their own pending/approved reservation to cancelled.
+-- Kept separate from "Only admins can update reservations" (self vs admin).
+CREATE POLICY "reservations_update_own"
+ON public.reservations
+FOR UPDATE
+TO authenticated
+USING (
+    status IN ('pending', 'approved')
+    AND (
+        user_id = (SELECT auth.uid())
+        OR lower(email) = lower((SELECT auth.jwt() ->> 'email'))
+    )
+)
+WITH CHECK (
+    status = 'cancelled'
+    AND (
+        user_id = (SELECT auth.uid())
+        OR lower(email) = lower((SELECT auth.jwt() ->> 'email'))
+    )
+);
+
+-- RLS cannot restrict columns, so owners are limited to the status change here
+CREATE OR REPLACE FUNCTION public.guard_own_reservation_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- Server-side updates (no user) and admins are not restricted
+    IF (SELECT auth.uid()) IS NULL OR EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.responsable IS DISTINCT FROM OLD.responsable
+       OR NEW.email IS DISTINCT FROM OLD.email
+       OR NEW.motivo IS DISTINCT FROM OLD.motivo
+       OR NEW.fecha IS DISTINCT FROM OLD.fecha
+       OR NEW.inicio IS DISTINCT FROM OLD.inicio
+       OR NEW.fin IS DISTINCT FROM OLD.fin
+       OR NEW.personas IS DISTINCT FROM OLD.personas
+       OR NEW.affiliation IS DISTINCT FROM OLD.affiliation
+       OR NEW.admin_notes IS DISTINCT FROM OLD.admin_notes
+       OR NEW.approved IS DISTINCT FROM OLD.approved
+       OR NEW.confirmed IS DISTINCT FROM OLD.confirmed
+       OR NEW.series_id IS DISTINCT FROM OLD.series_id
+       OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        RAISE EXCEPTION 'Only the status of your own reservation can be changed'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_own_reservation_update ON public.reservations;
+CREATE TRIGGER trigger_guard_own_reservation_update
+    BEFORE UPDATE ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_own_reservation_update();
+
+-- =============================================================================
+-- PART 3: CANCELLATIONS AUDIT - OWNERS
+-- =============================================================================
+
+DROP POLICY IF EXISTS cancellations_insert_own ON public.cancellations;
+DROP POLICY IF EXISTS cancellations_select_own ON public.cancellations;
+
+-- INSERT: Owners record the cancellation of their own reservation
+CREATE POLICY cancellations_insert_own
+ON public.cancellations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    cancelled_by = (SELECT auth.uid())
+    AND EXISTS (
+        SELECT 1 FROM public.reservations
+        WHERE reservations.id = cancellations.reservation_id
+        AND (
+            reservations.user_id = (SELECT auth.uid())
+            OR lower(reservations.email) = lower((SELECT auth.jwt() ->> 'email'))
+        )
+    )
+);
+
+-- SELECT: Owners can read the cancellation history of their reservations
+CREATE POLICY cancellations_select_own
+ON public.cancellations
+FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.reservations
+        WHERE reservations.id = cancellations.reservation_id
+        AND (
+            reservations.user_id = (SELECT auth.uid())
+            OR lower(reservations.email) = lower((SELECT auth.jwt() ->> 'email'))
+        )
+    )
+);
+
+-- =============================================================================
+-- PART 4: CHANGE REQUESTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reservation_change_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    message TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    admin_response TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT reservation_change_requests_status_check CHECK (status IN ('pending', 'accepted', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_change_requests_reservation_id ON public.reservation_change_requests(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_reservation_change_requests_status ON public.reservation_change_requests(status);
+CREATE INDEX IF NOT EXISTS idx_reservation_change_requests_requested_by ON public.reservation_change_requests(requested_by);
+CREATE INDEX IF NOT EXISTS idx_reservation_change_requests_resolved_by ON public.reservation_change_requests(resolved_by);
+
+COMMENT ON TABLE public.reservation_change_requests IS 'Changes to a reservation requested by its owner, reviewed by admins';
+
+ALTER TABLE public.reservation_change_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reservation_change_requests_insert_own" ON public.reservation_change_requests;
+DROP POLICY IF EXISTS "reservation_change_requests_select_own_or_admins" ON public.reservation_change_requests;
+DROP POLICY IF EXISTS "reservation_change_requests_update_admins" ON public.reservation_change_requests;
+
+-- INSERT: Owners can request a change on their own active reservation
+CREATE POLICY "reservation_change_requests_insert_own"
+ON public.reservation_change_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    requested_by = (SELECT auth.uid())
+    AND status = 'pending'
+    AND admin_response IS NULL
+    AND EXISTS (
+        SELECT 1 FROM public.reservations
+        WHERE reservations.id = reservation_change_requests.reservation_id
+        AND reservations.status IN ('pending', 'approved')
+        AND (
+            reservations.user_id = (SELECT auth.uid())
+            OR lower(reservations.email) = lower((SELECT auth.jwt() ->> 'email'))
+        )
+    )
+);
+
+-- SELECT: Own requests, or any request for admins
+CREATE POLICY "reservation_change_requests_select_own_or_admins"
+ON public.reservation_change_requests
+FOR SELECT
+TO authenticated
+USING (
+    requested_by = (SELECT auth.uid())
+    OR EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+-- UPDATE: Only admins resolve requests
+CREATE POLICY "reservation_change_requests_update_admins"
+ON public.reservation_change_requests
+FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT SELECT, INSERT, UPDATE ON public.reservation_change_requests TO authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+           AND schemaname = 'public'
+           AND tablename = 'reservation_change_requests'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.reservation_change_requests;
+    END IF;
+END $$;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Reservation policies (admin + owner update):
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'reservations';
+
+-- Reservations of a user:
+-- SELECT id, fecha, status FROM public.reservations
+-- WHERE user_id = '<user-id>' OR lower(email) = lower('<email>');
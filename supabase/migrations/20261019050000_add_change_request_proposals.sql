@@ -0,0 +1,198 @@
+-- =============================================================================
+-- RESERVATION CHANGE PROPOSALS
+-- Created: October 19, 2026
+-- Description: Change requests can now propose a new date, time window and/or
+--              headcount. Admins accept them through accept_reservation_change(),
+--              which updates the reservation and resolves the request in one
+--              transaction (the no-overlap constraint still applies).
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: PROPOSED VALUES
+-- =============================================================================
+
+ALTER TABLE public.reservation_change_requests
+    ADD COLUMN IF NOT EXISTS proposed_fecha DATE,
+    ADD COLUMN IF NOT EXISTS proposed_inicio TIME WITHOUT TIME ZONE,
+    ADD COLUMN IF NOT EXISTS proposed_fin TIME WITHOUT TIME ZONE,
+    ADD COLUMN IF NOT EXISTS proposed_personas INTEGER,
+    ADD COLUMN IF NOT EXISTS previous_values JSONB;
+
+-- A request may now consist only of proposed values
+ALTER TABLE public.reservation_change_requests ALTER COLUMN message DROP NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'reservation_change_requests_content_check'
+    ) THEN
+        ALTER TABLE public.reservation_change_requests
+        ADD CONSTRAINT reservation_change_requests_content_check CHECK (
+            message IS NOT NULL
+            OR proposed_fecha IS NOT NULL
+            OR proposed_inicio IS NOT NULL
+            OR proposed_fin IS NOT NULL
+            OR proposed_personas IS NOT NULL
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'reservation_change_requests_time_check'
+    ) THEN
+        ALTER TABLE public.reservation_change_requests
+        ADD CONSTRAINT reservation_change_requests_time_check CHECK (
+            (proposed_inicio IS NULL) = (proposed_fin IS NULL)
+            AND (proposed_fin IS NULL OR proposed_fin > proposed_inicio)
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'reservation_change_requests_personas_check'
+    ) THEN
+        ALTER TABLE public.reservation_change_requests
+        ADD CONSTRAINT reservation_change_requests_personas_check CHECK (
+            proposed_personas IS NULL OR proposed_personas > 0
+        );
+    END IF;
+END $$;
+
+-- Only one open request per reservation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservation_change_requests_one_pending
+ON public.reservation_change_requests(reservation_id)
+WHERE status = 'pending';
+
+COMMENT ON COLUMN public.reservation_change_requests.previous_values IS 'Reservation values replaced when the request was accepted';
+
+-- =============================================================================
+-- PART 2: ACCEPT A CHANGE (ADMINS)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.accept_reservation_change(p_request_id UUID, p_response TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    change_request RECORD;
+    current_reservation RECORD;
+    updated_reservation RECORD;
+    new_fecha DATE;
+    new_inicio TIME;
+    new_fin TIME;
+    new_personas INTEGER;
+    previous JSONB;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can accept reservation changes' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO change_request
+    FROM public.reservation_change_requests
+    WHERE id = p_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR change_request.status <> 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'NOT_PENDING');
+    END IF;
+
+    SELECT * INTO current_reservation
+    FROM public.reservations
+    WHERE id = change_request.reservation_id
+    FOR UPDATE;
+
+    IF current_reservation.status NOT IN ('pending', 'approved') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'RESERVATION_INACTIVE');
+    END IF;
+
+    new_fecha := COALESCE(change_request.proposed_fecha, current_reservation.fecha);
+    new_inicio := COALESCE(change_request.proposed_inicio, current_reservation.inicio);
+    new_fin := COALESCE(change_request.proposed_fin, current_reservation.fin);
+    new_personas := COALESCE(change_request.proposed_personas, current_reservation.personas);
+
+    IF EXISTS (
+        SELECT 1 FROM public.blocked_dates b
+        WHERE b.fecha = new_fecha
+          AND (
+              b.start_time IS NULL OR b.end_time IS NULL
+              OR (b.start_time < new_fin AND b.end_time > new_inicio)
+          )
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_BLOCKED');
+    END IF;
+
+    previous := jsonb_build_object(
+        'fecha', current_reservation.fecha,
+        'inicio', to_char(current_reservation.inicio, 'HH24:MI'),
+        'fin', to_char(current_reservation.fin, 'HH24:MI'),
+        'personas', current_reservation.personas
+    );
+
+    BEGIN
+        UPDATE public.reservations
+        SET fecha = new_fecha,
+            inicio = new_inicio,
+            fin = new_fin,
+            personas = new_personas,
+            updated_by = (SELECT auth.uid())
+        WHERE id = current_reservation.id
+        RETURNING * INTO updated_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    UPDATE public.reservation_change_requests
+    SET status = 'accepted',
+        admin_response = NULLIF(btrim(p_response), ''),
+        previous_values = previous,
+        resolved_at = now(),
+        resolved_by = (SELECT auth.uid())
+    WHERE id = change_request.id;
+
+    -- The old slot may have been freed for someone on the waitlist
+    IF current_reservation.fecha <> new_fecha
+       OR current_reservation.inicio <> new_inicio
+       OR current_reservation.fin <> new_fin THEN
+        PERFORM public.notify_next_waitlist_entry(
+            current_reservation.fecha, current_reservation.inicio, current_reservation.fin
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'previous', previous,
+        'reservation', jsonb_build_object(
+            'id', updated_reservation.id,
+            'responsable', updated_reservation.responsable,
+            'email', updated_reservation.email,
+            'motivo', updated_reservation.motivo,
+            'fecha', updated_reservation.fecha,
+            'inicio', to_char(updated_reservation.inicio, 'HH24:MI'),
+            'fin', to_char(updated_reservation.fin, 'HH24:MI'),
+            'personas', updated_reservation.personas
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.accept_reservation_change(UUID, TEXT) IS
+'Applies a pending change request to its reservation and marks it accepted (admins only)';
+
+REVOKE ALL ON FUNCTION public.accept_reservation_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_reservation_change(UUID, TEXT) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Pending change requests with their proposals:
+-- SELECT reservation_id, proposed_fecha, proposed_inicio, proposed_fin, proposed_personas, message
+-- FROM public.reservation_change_requests WHERE status = 'pending' ORDER BY created_at;
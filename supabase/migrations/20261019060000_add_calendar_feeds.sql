@@ -0,0 +1,152 @@
+-- =============================================================================
+-- ICALENDAR FEEDS
+-- Created: October 19, 2026
+-- Description:
+--   1. ical_sequence on reservations and blocked_dates: bumped whenever an
+--      event visible in a calendar changes, so clients replace their copy
+--   2. public.calendar_feed_tokens: secret token per user for the personal feed
+--      served by the calendar-feed edge function
+--   3. get_calendar_feed_token(): returns (or regenerates) the caller's token
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: EVENT SEQUENCE NUMBERS
+-- =============================================================================
+
+ALTER TABLE public.reservations
+    ADD COLUMN IF NOT EXISTS ical_sequence INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.blocked_dates
+    ADD COLUMN IF NOT EXISTS ical_sequence INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.reservations.ical_sequence IS 'iCalendar SEQUENCE, incremented when date, time, status or description change';
+COMMENT ON COLUMN public.blocked_dates.ical_sequence IS 'iCalendar SEQUENCE, incremented when date, time or reason change';
+
+CREATE OR REPLACE FUNCTION public.bump_reservation_ical_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.fecha IS DISTINCT FROM OLD.fecha
+       OR NEW.inicio IS DISTINCT FROM OLD.inicio
+       OR NEW.fin IS DISTINCT FROM OLD.fin
+       OR NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.motivo IS DISTINCT FROM OLD.motivo
+       OR NEW.personas IS DISTINCT FROM OLD.personas THEN
+        NEW.ical_sequence := OLD.ical_sequence + 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_bump_reservation_ical_sequence ON public.reservations;
+CREATE TRIGGER trigger_bump_reservation_ical_sequence
+    BEFORE UPDATE ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_reservation_ical_sequence();
+
+CREATE OR REPLACE FUNCTION public.bump_blocked_date_ical_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.fecha IS DISTINCT FROM OLD.fecha
+       OR NEW.start_time IS DISTINCT FROM OLD.start_time
+       OR NEW.end_time IS DISTINCT FROM OLD.end_time
+       OR NEW.motivo IS DISTINCT FROM OLD.motivo THEN
+        NEW.ical_sequence := OLD.ical_sequence + 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_bump_blocked_date_ical_sequence ON public.blocked_dates;
+CREATE TRIGGER trigger_bump_blocked_date_ical_sequence
+    BEFORE UPDATE ON public.blocked_dates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_blocked_date_ical_sequence();
+
+-- =============================================================================
+-- PART 2: PERSONAL FEED TOKENS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret tokens for the personal iCalendar feed of each user';
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "calendar_feed_tokens_select_own" ON public.calendar_feed_tokens;
+
+-- SELECT: Users can read their own token. Tokens are created through
+-- get_calendar_feed_token(); the edge function reads them with the service role.
+CREATE POLICY "calendar_feed_tokens_select_own"
+ON public.calendar_feed_tokens
+FOR SELECT
+TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+GRANT SELECT ON public.calendar_feed_tokens TO authenticated;
+
+-- =============================================================================
+-- PART 3: ISSUE / REGENERATE A TOKEN
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(p_regenerate BOOLEAN DEFAULT false)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := (SELECT auth.uid());
+    feed_token UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+    END IF;
+
+    -- Regenerating invalidates the URL already added to calendar apps
+    IF p_regenerate THEN
+        DELETE FROM public.calendar_feed_tokens WHERE user_id = current_user_id;
+    END IF;
+
+    INSERT INTO public.calendar_feed_tokens (user_id)
+    VALUES (current_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT token INTO feed_token
+    FROM public.calendar_feed_tokens
+    WHERE user_id = current_user_id;
+
+    RETURN feed_token;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_calendar_feed_token(BOOLEAN) IS
+'Returns the personal calendar feed token of the caller, creating or regenerating it';
+
+REVOKE ALL ON FUNCTION public.get_calendar_feed_token(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_token(BOOLEAN) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Sequence numbers move when an event changes:
+-- SELECT id, status, ical_sequence, updated_at FROM public.reservations ORDER BY updated_at DESC LIMIT 10;
+
+-- Issued feed tokens:
+-- SELECT user_id, created_at FROM public.calendar_feed_tokens;
@@ -0,0 +1,28 @@
+-- =============================================================================
+-- ADMIN ACCESS TO PROFILES
+-- Created: October 19, 2026
+-- Description: Admins can read every profile so exports and reports show who
+--              approved, edited or cancelled a reservation instead of a user id.
+--              Uses is_admin() (SECURITY DEFINER) to avoid a recursive policy
+--              on public.profiles.
+-- =============================================================================
+
+BEGIN;
+
+DROP POLICY IF EXISTS "profiles_select_admins" ON public.profiles;
+
+-- SELECT: Admins can read all profiles (users keep reading their own)
+CREATE POLICY "profiles_select_admins"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (public.is_admin((SELECT auth.uid())));
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Profile policies:
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'profiles';
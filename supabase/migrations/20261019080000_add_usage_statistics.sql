@@ -0,0 +1,276 @@
+-- =============================================================================
+-- USAGE STATISTICS
+-- Created: October 19, 2026
+-- Description:
+--   1. public.expired_reservation_requests: requests deleted before being
+--      confirmed by email (the hourly cleanup removes them), kept so the
+--      unconfirmed rate can still be measured
+--   2. get_usage_statistics(from, to, period): occupancy, usage by affiliation,
+--      status rates, lead time and weekday/hour heatmap, computed in the
+--      database for the admin "Estadísticas" tab
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: LOG OF EXPIRED (UNCONFIRMED) REQUESTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.expired_reservation_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL,
+    fecha DATE NOT NULL,
+    affiliation TEXT,
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expired_reservation_requests_fecha ON public.expired_reservation_requests(fecha);
+
+COMMENT ON TABLE public.expired_reservation_requests IS 'Reservation requests deleted without email confirmation (for statistics)';
+
+ALTER TABLE public.expired_reservation_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "expired_reservation_requests_select_admins" ON public.expired_reservation_requests;
+
+-- SELECT: Only admins (rows are written by the trigger below)
+CREATE POLICY "expired_reservation_requests_select_admins"
+ON public.expired_reservation_requests
+FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    )
+);
+
+GRANT SELECT ON public.expired_reservation_requests TO authenticated;
+
+-- SECURITY DEFINER so the insert works whoever deletes the reservation
+CREATE OR REPLACE FUNCTION public.log_expired_reservation_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    INSERT INTO public.expired_reservation_requests (reservation_id, fecha, affiliation, requested_at)
+    VALUES (OLD.id, OLD.fecha, OLD.affiliation, OLD.created_at);
+
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_expired_reservation_request ON public.reservations;
+CREATE TRIGGER trigger_log_expired_reservation_request
+    AFTER DELETE ON public.reservations
+    FOR EACH ROW
+    WHEN (OLD.confirmed = false AND OLD.status = 'pending')
+    EXECUTE FUNCTION public.log_expired_reservation_request();
+
+-- =============================================================================
+-- PART 2: STATISTICS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_usage_statistics(
+    p_from DATE,
+    p_to DATE,
+    p_period TEXT DEFAULT 'month'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    schedule JSONB;
+    result JSONB;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can read usage statistics' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_period NOT IN ('week', 'month') THEN
+        RAISE EXCEPTION 'Invalid period: %', p_period USING ERRCODE = '22023';
+    END IF;
+
+    IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+        RAISE EXCEPTION 'Invalid date range' USING ERRCODE = '22023';
+    END IF;
+
+    -- Weekly schedule configured in settings (indexed like EXTRACT(DOW))
+    BEGIN
+        SELECT value::jsonb -> 'days' INTO schedule
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        schedule := NULL;
+    END;
+
+    IF schedule IS NULL OR jsonb_typeof(schedule) <> 'array' OR jsonb_array_length(schedule) <> 7 THEN
+        -- Same defaults as the app: every day 08:00 - 22:00
+        schedule := (
+            SELECT jsonb_agg(jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00'))
+            FROM generate_series(0, 6)
+        );
+    END IF;
+
+    WITH days AS (
+        SELECT d::date AS fecha, EXTRACT(DOW FROM d)::int AS dow
+        FROM generate_series(p_from, p_to, interval '1 day') AS d
+    ),
+    open_hours AS (
+        SELECT
+            days.fecha,
+            CASE
+                WHEN COALESCE((schedule -> days.dow ->> 'closed')::boolean, false) THEN 0
+                -- Whole-day blocks close the quincho
+                WHEN EXISTS (
+                    SELECT 1 FROM public.blocked_dates b
+                    WHERE b.fecha = days.fecha AND (b.start_time IS NULL OR b.end_time IS NULL)
+                ) THEN 0
+                ELSE GREATEST(
+                    0,
+                    EXTRACT(EPOCH FROM (
+                        (schedule -> days.dow ->> 'close')::time - (schedule -> days.dow ->> 'open')::time
+                    )) / 3600
+                    - COALESCE((
+                        SELECT SUM(EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600)
+                        FROM public.blocked_dates b
+                        WHERE b.fecha = days.fecha AND b.start_time IS NOT NULL AND b.end_time IS NOT NULL
+                    ), 0)
+                )
+            END AS hours
+        FROM days
+    ),
+    in_range AS (
+        SELECT
+            r.*,
+            EXTRACT(EPOCH FROM (r.fin - r.inicio)) / 3600 AS hours
+        FROM public.reservations r
+        WHERE r.fecha BETWEEN p_from AND p_to
+    ),
+    approved AS (
+        SELECT * FROM in_range WHERE status = 'approved'
+    ),
+    expired AS (
+        SELECT * FROM public.expired_reservation_requests
+        WHERE fecha BETWEEN p_from AND p_to
+    ),
+    occupancy AS (
+        SELECT
+            date_trunc(p_period, o.fecha)::date AS period_start,
+            SUM(o.hours) AS available_hours,
+            COALESCE((
+                SELECT SUM(a.hours) FROM approved a
+                WHERE date_trunc(p_period, a.fecha) = date_trunc(p_period, o.fecha)
+            ), 0) AS booked_hours
+        FROM open_hours o
+        GROUP BY 1
+    ),
+    heatmap AS (
+        SELECT
+            EXTRACT(DOW FROM a.fecha)::int AS dow,
+            h AS hour,
+            COUNT(*) AS reservations
+        FROM approved a
+        CROSS JOIN LATERAL generate_series(
+            EXTRACT(HOUR FROM a.inicio)::int,
+            (CEIL(EXTRACT(EPOCH FROM a.fin) / 3600) - 1)::int
+        ) AS h
+        GROUP BY 1, 2
+    )
+    SELECT jsonb_build_object(
+        'from', p_from,
+        'to', p_to,
+        'period', p_period,
+        'occupancy', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'period_start', period_start,
+                'booked_hours', ROUND(booked_hours::numeric, 1),
+                'available_hours', ROUND(available_hours::numeric, 1),
+                'rate', CASE WHEN available_hours > 0
+                             THEN ROUND((booked_hours / available_hours)::numeric, 4)
+                             ELSE NULL END
+            ) ORDER BY period_start)
+            FROM occupancy
+        ), '[]'::jsonb),
+        'by_affiliation', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'affiliation', affiliation,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY hours DESC)
+            FROM (
+                SELECT COALESCE(NULLIF(btrim(affiliation), ''), 'Sin especificar') AS affiliation,
+                       COUNT(*) AS reservations,
+                       SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'status_counts', jsonb_build_object(
+            'approved', (SELECT COUNT(*) FROM in_range WHERE status = 'approved'),
+            'pending', (SELECT COUNT(*) FROM in_range WHERE status = 'pending'),
+            'rejected', (SELECT COUNT(*) FROM in_range WHERE status = 'rejected'),
+            'cancelled', (SELECT COUNT(*) FROM in_range WHERE status = 'cancelled'),
+            'unconfirmed', (SELECT COUNT(*) FROM in_range WHERE confirmed = false AND status = 'pending'),
+            'expired', (SELECT COUNT(*) FROM expired),
+            'total', (SELECT COUNT(*) FROM in_range) + (SELECT COUNT(*) FROM expired)
+        ),
+        -- Days between the request and the reservation date (Asunción calendar)
+        'lead_time_days', (
+            SELECT jsonb_build_object(
+                'average', ROUND(AVG(fecha - (created_at AT TIME ZONE 'America/Asuncion')::date)::numeric, 1),
+                'median', percentile_cont(0.5) WITHIN GROUP (
+                    ORDER BY fecha - (created_at AT TIME ZONE 'America/Asuncion')::date
+                )
+            )
+            FROM in_range
+        ),
+        'by_weekday', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'dow', dow,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY dow)
+            FROM (
+                SELECT EXTRACT(DOW FROM fecha)::int AS dow, COUNT(*) AS reservations, SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('dow', dow, 'hour', hour, 'reservations', reservations))
+            FROM heatmap
+        ), '[]'::jsonb),
+        -- Attendance is not recorded yet
+        'no_show', NULL
+    ) INTO result;
+
+    RETURN result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) IS
+'Usage statistics for the admin dashboard (admins only). p_period: week or month';
+
+REVOKE ALL ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Statistics for the current year (run as an admin):
+-- SELECT public.get_usage_statistics(date_trunc('year', now())::date, now()::date, 'month');
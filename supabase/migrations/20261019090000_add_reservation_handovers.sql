@@ -0,0 +1,479 @@
+-- =============================================================================
+-- KEY HANDOVER AND CHECK-IN / CHECK-OUT
+-- Created: October 19, 2026
+-- Description:
+--   1. profiles.is_guard: guards record handovers without being admins
+--   2. public.reservation_handovers: arrival, key handed out, departure, key
+--      returned and the condition checklist (with photos in the private
+--      'handover-photos' bucket) of each approved reservation
+--   3. mark_no_show_reservations(): flags approved reservations that ended
+--      without a check-in (called by cleanup-unconfirmed-reservations)
+--   4. get_usage_statistics() now reports the no-show rate
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: GUARD FLAG
+-- =============================================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_guard BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.profiles.is_guard IS 'Guard on duty: can record key handovers and check-ins';
+
+-- Admins and guards (SECURITY DEFINER to avoid recursive policies on profiles)
+CREATE OR REPLACE FUNCTION public.is_staff(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE id = user_id
+        AND (is_admin = true OR is_guard = true)
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_staff(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_staff(UUID) TO authenticated;
+
+-- Users can edit their own profile, but only admins can make someone a guard
+CREATE OR REPLACE FUNCTION public.guard_profile_guard_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.is_guard IS DISTINCT FROM OLD.is_guard
+       AND (SELECT auth.uid()) IS NOT NULL
+       AND NOT public.is_admin((SELECT auth.uid())) THEN
+        RAISE EXCEPTION 'Only admins can change the guard flag'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_profile_guard_flag ON public.profiles;
+CREATE TRIGGER trigger_guard_profile_guard_flag
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_profile_guard_flag();
+
+-- =============================================================================
+-- PART 2: HANDOVERS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reservation_handovers (
+    reservation_id UUID PRIMARY KEY REFERENCES public.reservations(id) ON DELETE CASCADE,
+    checked_in_at TIMESTAMP WITH TIME ZONE,
+    checked_in_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    key_handed_out_at TIMESTAMP WITH TIME ZONE,
+    checked_out_at TIMESTAMP WITH TIME ZONE,
+    checked_out_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    key_returned_at TIMESTAMP WITH TIME ZONE,
+    grill_clean BOOLEAN,
+    trash_removed BOOLEAN,
+    damage_noted BOOLEAN NOT NULL DEFAULT false,
+    damage_notes TEXT,
+    photos TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    no_show BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    CONSTRAINT reservation_handovers_checkout_order_check
+        CHECK (checked_out_at IS NULL OR (checked_in_at IS NOT NULL AND checked_out_at >= checked_in_at)),
+    CONSTRAINT reservation_handovers_no_show_check CHECK (NOT (no_show AND checked_in_at IS NOT NULL)),
+    CONSTRAINT reservation_handovers_photos_limit_check CHECK (cardinality(photos) <= 10)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_handovers_checked_in_by ON public.reservation_handovers(checked_in_by);
+CREATE INDEX IF NOT EXISTS idx_reservation_handovers_checked_out_by ON public.reservation_handovers(checked_out_by);
+CREATE INDEX IF NOT EXISTS idx_reservation_handovers_updated_by ON public.reservation_handovers(updated_by);
+
+COMMENT ON TABLE public.reservation_handovers IS 'Key handover, check-in/check-out and condition checklist of approved reservations';
+COMMENT ON COLUMN public.reservation_handovers.photos IS 'Object paths inside the handover-photos Storage bucket';
+COMMENT ON COLUMN public.reservation_handovers.no_show IS 'Set by mark_no_show_reservations() when the reservation ended without check-in';
+
+DROP TRIGGER IF EXISTS update_reservation_handovers_updated_at ON public.reservation_handovers;
+CREATE TRIGGER update_reservation_handovers_updated_at
+    BEFORE UPDATE ON public.reservation_handovers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A late check-in clears the no-show flag
+CREATE OR REPLACE FUNCTION public.clear_handover_no_show()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.checked_in_at IS NOT NULL THEN
+        NEW.no_show := false;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_clear_handover_no_show ON public.reservation_handovers;
+CREATE TRIGGER trigger_clear_handover_no_show
+    BEFORE INSERT OR UPDATE ON public.reservation_handovers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.clear_handover_no_show();
+
+-- =============================================================================
+-- PART 3: RLS POLICIES
+-- =============================================================================
+
+ALTER TABLE public.reservation_handovers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reservation_handovers_select_staff" ON public.reservation_handovers;
+DROP POLICY IF EXISTS "reservation_handovers_insert_staff" ON public.reservation_handovers;
+DROP POLICY IF EXISTS "reservation_handovers_update_staff" ON public.reservation_handovers;
+
+-- SELECT: Admins and guards
+CREATE POLICY "reservation_handovers_select_staff"
+ON public.reservation_handovers
+FOR SELECT
+TO authenticated
+USING (public.is_staff((SELECT auth.uid())));
+
+-- INSERT: Admins and guards, only for approved reservations
+CREATE POLICY "reservation_handovers_insert_staff"
+ON public.reservation_handovers
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    public.is_staff((SELECT auth.uid()))
+    AND EXISTS (
+        SELECT 1 FROM public.reservations
+        WHERE reservations.id = reservation_handovers.reservation_id
+        AND reservations.status = 'approved'
+    )
+);
+
+-- UPDATE: Admins and guards
+CREATE POLICY "reservation_handovers_update_staff"
+ON public.reservation_handovers
+FOR UPDATE
+TO authenticated
+USING (public.is_staff((SELECT auth.uid())));
+
+GRANT SELECT, INSERT, UPDATE ON public.reservation_handovers TO authenticated;
+
+-- =============================================================================
+-- PART 4: STORAGE BUCKET FOR CONDITION PHOTOS
+-- =============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('handover-photos', 'handover-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "handover_photos_insert_staff" ON storage.objects;
+DROP POLICY IF EXISTS "handover_photos_select_staff" ON storage.objects;
+
+CREATE POLICY "handover_photos_insert_staff"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'handover-photos'
+    AND public.is_staff((SELECT auth.uid()))
+);
+
+-- Read through signed URLs
+CREATE POLICY "handover_photos_select_staff"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'handover-photos'
+    AND public.is_staff((SELECT auth.uid()))
+);
+
+-- =============================================================================
+-- PART 5: NO-SHOWS
+-- =============================================================================
+
+-- Approved reservations that ended more than two hours ago without a check-in.
+-- Only reservations from October 19, 2026 on: handovers were on paper before.
+CREATE OR REPLACE FUNCTION public.mark_no_show_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    marked_count INTEGER;
+BEGIN
+    WITH missed AS (
+        INSERT INTO public.reservation_handovers (reservation_id, no_show)
+        SELECT r.id, true
+        FROM public.reservations r
+        WHERE r.status = 'approved'
+          AND r.fecha >= DATE '2026-10-19'
+          AND (r.fecha + r.fin) + interval '2 hours' <= (now() AT TIME ZONE 'America/Asuncion')
+        ON CONFLICT (reservation_id) DO UPDATE
+            SET no_show = true
+            WHERE reservation_handovers.checked_in_at IS NULL
+              AND reservation_handovers.no_show = false
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO marked_count FROM missed;
+
+    RETURN marked_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_no_show_reservations() IS
+'Flags approved reservations that ended without check-in as no-shows';
+
+REVOKE ALL ON FUNCTION public.mark_no_show_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_no_show_reservations() TO service_role;
+
+-- =============================================================================
+-- PART 6: NO-SHOW RATE IN USAGE STATISTICS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_usage_statistics(
+    p_from DATE,
+    p_to DATE,
+    p_period TEXT DEFAULT 'month'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    schedule JSONB;
+    result JSONB;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can read usage statistics' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_period NOT IN ('week', 'month') THEN
+        RAISE EXCEPTION 'Invalid period: %', p_period USING ERRCODE = '22023';
+    END IF;
+
+    IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+        RAISE EXCEPTION 'Invalid date range' USING ERRCODE = '22023';
+    END IF;
+
+    -- Weekly schedule configured in settings (indexed like EXTRACT(DOW))
+    BEGIN
+        SELECT value::jsonb -> 'days' INTO schedule
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        schedule := NULL;
+    END;
+
+    IF schedule IS NULL OR jsonb_typeof(schedule) <> 'array' OR jsonb_array_length(schedule) <> 7 THEN
+        -- Same defaults as the app: every day 08:00 - 22:00
+        schedule := (
+            SELECT jsonb_agg(jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00'))
+            FROM generate_series(0, 6)
+        );
+    END IF;
+
+    WITH days AS (
+        SELECT d::date AS fecha, EXTRACT(DOW FROM d)::int AS dow
+        FROM generate_series(p_from, p_to, interval '1 day') AS d
+    ),
+    open_hours AS (
+        SELECT
+            days.fecha,
+            CASE
+                WHEN COALESCE((schedule -> days.dow ->> 'closed')::boolean, false) THEN 0
+                -- Whole-day blocks close the quincho
+                WHEN EXISTS (
+                    SELECT 1 FROM public.blocked_dates b
+                    WHERE b.fecha = days.fecha AND (b.start_time IS NULL OR b.end_time IS NULL)
+                ) THEN 0
+                ELSE GREATEST(
+                    0,
+                    EXTRACT(EPOCH FROM (
+                        (schedule -> days.dow ->> 'close')::time - (schedule -> days.dow ->> 'open')::time
+                    )) / 3600
+                    - COALESCE((
+                        SELECT SUM(EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600)
+                        FROM public.blocked_dates b
+                        WHERE b.fecha = days.fecha AND b.start_time IS NOT NULL AND b.end_time IS NOT NULL
+                    ), 0)
+                )
+            END AS hours
+        FROM days
+    ),
+    in_range AS (
+        SELECT
+            r.*,
+            EXTRACT(EPOCH FROM (r.fin - r.inicio)) / 3600 AS hours
+        FROM public.reservations r
+        WHERE r.fecha BETWEEN p_from AND p_to
+    ),
+    approved AS (
+        SELECT * FROM in_range WHERE status = 'approved'
+    ),
+    expired AS (
+        SELECT * FROM public.expired_reservation_requests
+        WHERE fecha BETWEEN p_from AND p_to
+    ),
+    occupancy AS (
+        SELECT
+            date_trunc(p_period, o.fecha)::date AS period_start,
+            SUM(o.hours) AS available_hours,
+            COALESCE((
+                SELECT SUM(a.hours) FROM approved a
+                WHERE date_trunc(p_period, a.fecha) = date_trunc(p_period, o.fecha)
+            ), 0) AS booked_hours
+        FROM open_hours o
+        GROUP BY 1
+    ),
+    heatmap AS (
+        SELECT
+            EXTRACT(DOW FROM a.fecha)::int AS dow,
+            h AS hour,
+            COUNT(*) AS reservations
+        FROM approved a
+        CROSS JOIN LATERAL generate_series(
+            EXTRACT(HOUR FROM a.inicio)::int,
+            (CEIL(EXTRACT(EPOCH FROM a.fin) / 3600) - 1)::int
+        ) AS h
+        GROUP BY 1, 2
+    )
+    SELECT jsonb_build_object(
+        'from', p_from,
+        'to', p_to,
+        'period', p_period,
+        'occupancy', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'period_start', period_start,
+                'booked_hours', ROUND(booked_hours::numeric, 1),
+                'available_hours', ROUND(available_hours::numeric, 1),
+                'rate', CASE WHEN available_hours > 0
+                             THEN ROUND((booked_hours / available_hours)::numeric, 4)
+                             ELSE NULL END
+            ) ORDER BY period_start)
+            FROM occupancy
+        ), '[]'::jsonb),
+        'by_affiliation', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'affiliation', affiliation,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY hours DESC)
+            FROM (
+                SELECT COALESCE(NULLIF(btrim(affiliation), ''), 'Sin especificar') AS affiliation,
+                       COUNT(*) AS reservations,
+                       SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'status_counts', jsonb_build_object(
+            'approved', (SELECT COUNT(*) FROM in_range WHERE status = 'approved'),
+            'pending', (SELECT COUNT(*) FROM in_range WHERE status = 'pending'),
+            'rejected', (SELECT COUNT(*) FROM in_range WHERE status = 'rejected'),
+            'cancelled', (SELECT COUNT(*) FROM in_range WHERE status = 'cancelled'),
+            'unconfirmed', (SELECT COUNT(*) FROM in_range WHERE confirmed = false AND status = 'pending'),
+            'expired', (SELECT COUNT(*) FROM expired),
+            'total', (SELECT COUNT(*) FROM in_range) + (SELECT COUNT(*) FROM expired)
+        ),
+        -- Days between the request and the reservation date (Asunción calendar)
+        'lead_time_days', (
+            SELECT jsonb_build_object(
+                'average', ROUND(AVG(fecha - (created_at AT TIME ZONE 'America/Asuncion')::date)::numeric, 1),
+                'median', percentile_cont(0.5) WITHIN GROUP (
+                    ORDER BY fecha - (created_at AT TIME ZONE 'America/Asuncion')::date
+                )
+            )
+            FROM in_range
+        ),
+        'by_weekday', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'dow', dow,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY dow)
+            FROM (
+                SELECT EXTRACT(DOW FROM fecha)::int AS dow, COUNT(*) AS reservations, SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('dow', dow, 'hour', hour, 'reservations', reservations))
+            FROM heatmap
+        ), '[]'::jsonb),
+        -- Approved reservations that already ended: attended vs. flagged no-shows
+        'no_show', (
+            SELECT jsonb_build_object(
+                'checked_in', COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL),
+                'no_shows', COUNT(*) FILTER (WHERE h.no_show),
+                'rate', CASE WHEN COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL OR h.no_show) > 0
+                             THEN ROUND(
+                                 (COUNT(*) FILTER (WHERE h.no_show))::numeric
+                                 / COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL OR h.no_show),
+                                 4)
+                             ELSE NULL END
+            )
+            FROM approved a
+            JOIN public.reservation_handovers h ON h.reservation_id = a.id
+        )
+    ) INTO result;
+
+    RETURN result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) IS
+'Usage statistics for the admin dashboard (admins only). p_period: week or month';
+
+REVOKE ALL ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) TO authenticated;
+
+-- =============================================================================
+-- PART 7: REALTIME
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+           AND schemaname = 'public'
+           AND tablename = 'reservation_handovers'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.reservation_handovers;
+    END IF;
+END $$;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Today's handovers:
+-- SELECT r.fecha, r.inicio, r.responsable, h.checked_in_at, h.key_returned_at, h.no_show
+-- FROM public.reservations r
+-- LEFT JOIN public.reservation_handovers h ON h.reservation_id = r.id
+-- WHERE r.status = 'approved' AND r.fecha = current_date
+-- ORDER BY r.inicio;
+
+-- Make someone a guard (as an admin):
+-- UPDATE public.profiles SET is_guard = true WHERE id = '<user id>';
@@ -0,0 +1,799 @@
+-- =============================================================================
+-- ROLES AND PERMISSIONS
+-- Created: October 19, 2026
+-- Description:
+--   Replaces the single is_admin flag with roles (super_admin, approver, guard,
+--   auditor, user) mapped to permissions in public.role_permissions.
+--   1. public.roles / public.role_permissions and profiles.role
+--   2. has_permission() and get_my_access() for policies and the frontend;
+--      is_admin / is_guard are kept in sync with the role for older code
+--   3. Every admin-only policy now checks a specific permission
+--   4. User management: list_users_with_roles(), set_user_role() and the
+--      public.role_audit_log trail (invitations go through the invite-user
+--      Edge Function)
+--   5. New accounts are regular users (handle_new_user no longer grants admin)
+--   Every existing account starts as a regular user: is_admin was set on
+--   every sign-up, so it is not mapped to a role. The first super-admin is
+--   created with bootstrap_super_admin() (next migration).
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: ROLES AND PERMISSIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.roles (
+    role TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT
+);
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+    role TEXT NOT NULL REFERENCES public.roles(role) ON DELETE CASCADE,
+    permission TEXT NOT NULL,
+    PRIMARY KEY (role, permission)
+);
+
+COMMENT ON TABLE public.roles IS 'Application roles assigned through profiles.role';
+COMMENT ON TABLE public.role_permissions IS 'Permissions granted to each role (checked by has_permission())';
+
+INSERT INTO public.roles (role, label, description) VALUES
+    ('super_admin', 'Superadministrador', 'Acceso total, incluida la gestión de usuarios y la configuración'),
+    ('approver', 'Aprobador', 'Aprueba, rechaza y cancela reservas; gestiona bloqueos, lista de espera e incidencias'),
+    ('guard', 'Guardia / Portero', 'Registra la entrega de llaves, llegadas y salidas'),
+    ('auditor', 'Auditor', 'Consulta reservas, estadísticas y registros sin poder modificarlos'),
+    ('user', 'Usuario', 'Solicita y gestiona sus propias reservas')
+ON CONFLICT (role) DO UPDATE
+SET label = EXCLUDED.label, description = EXCLUDED.description;
+
+-- Permissions:
+--   admin.view          read the admin dashboard data (personal data, audits, statistics, exports)
+--   reservations.manage approve/reject/cancel reservations, change requests and the waitlist
+--   blocks.manage       block and unblock dates
+--   reports.manage      triage and reply to issue reports
+--   handovers.record    key handover and check-in/check-out
+--   settings.manage     operating hours and other settings
+--   users.manage        invite users, assign roles and revoke access
+INSERT INTO public.role_permissions (role, permission) VALUES
+    ('super_admin', 'admin.view'),
+    ('super_admin', 'reservations.manage'),
+    ('super_admin', 'blocks.manage'),
+    ('super_admin', 'reports.manage'),
+    ('super_admin', 'handovers.record'),
+    ('super_admin', 'settings.manage'),
+    ('super_admin', 'users.manage'),
+    ('approver', 'admin.view'),
+    ('approver', 'reservations.manage'),
+    ('approver', 'blocks.manage'),
+    ('approver', 'reports.manage'),
+    ('guard', 'handovers.record'),
+    ('auditor', 'admin.view')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "roles_select_authenticated" ON public.roles;
+DROP POLICY IF EXISTS "role_permissions_select_authenticated" ON public.role_permissions;
+
+CREATE POLICY "roles_select_authenticated"
+ON public.roles
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "role_permissions_select_authenticated"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+GRANT SELECT ON public.roles, public.role_permissions TO authenticated;
+
+-- =============================================================================
+-- PART 2: PROFILE ROLE
+-- =============================================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'profiles_role_fkey'
+    ) THEN
+        ALTER TABLE public.profiles
+        ADD CONSTRAINT profiles_role_fkey FOREIGN KEY (role) REFERENCES public.roles(role);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON public.profiles(role) WHERE role <> 'user';
+
+COMMENT ON COLUMN public.profiles.role IS 'Application role (see public.roles); is_admin and is_guard are derived from it';
+
+CREATE TABLE IF NOT EXISTS public.role_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    email TEXT,
+    action TEXT NOT NULL,
+    previous_role TEXT,
+    new_role TEXT,
+    reason TEXT,
+    performed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT role_audit_log_action_check CHECK (action IN ('invited', 'role_changed', 'revoked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_audit_log_user_id ON public.role_audit_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_role_audit_log_performed_by ON public.role_audit_log(performed_by);
+CREATE INDEX IF NOT EXISTS idx_role_audit_log_created_at ON public.role_audit_log(created_at DESC);
+
+COMMENT ON TABLE public.role_audit_log IS 'Invitations, role changes and revoked access';
+
+-- =============================================================================
+-- PART 3: PERMISSION CHECKS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_user_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.profiles p
+        JOIN public.role_permissions rp ON rp.role = p.role
+        WHERE p.id = p_user_id
+        AND rp.permission = p_permission
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_permission(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(UUID, TEXT) TO authenticated;
+
+-- Role and permissions of the signed-in user, loaded by AuthContext
+CREATE OR REPLACE FUNCTION public.get_my_access()
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT jsonb_build_object(
+        'role', COALESCE(p.role, 'user'),
+        'permissions', COALESCE((
+            SELECT jsonb_agg(rp.permission ORDER BY rp.permission)
+            FROM public.role_permissions rp
+            WHERE rp.role = p.role
+        ), '[]'::jsonb)
+    )
+    FROM (SELECT (SELECT auth.uid()) AS id) me
+    LEFT JOIN public.profiles p ON p.id = me.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_access() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_access() TO authenticated;
+
+-- Kept for existing callers: "admin" now means managing reservations
+CREATE OR REPLACE FUNCTION public.is_admin(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT public.has_permission(user_id, 'reservations.manage');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT public.has_permission(user_id, 'handovers.record');
+$$;
+
+-- Only users.manage can change roles; is_admin / is_guard follow the role
+CREATE OR REPLACE FUNCTION public.sync_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF (SELECT auth.uid()) IS NOT NULL
+       AND NOT public.has_permission((SELECT auth.uid()), 'users.manage') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.role := 'user';
+        ELSIF NEW.role IS DISTINCT FROM OLD.role
+              OR NEW.is_admin IS DISTINCT FROM OLD.is_admin
+              OR NEW.is_guard IS DISTINCT FROM OLD.is_guard THEN
+            RAISE EXCEPTION 'Only user managers can change roles'
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    NEW.is_admin := NEW.role IN ('super_admin', 'approver');
+    NEW.is_guard := NEW.role = 'guard';
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_profile_guard_flag ON public.profiles;
+DROP FUNCTION IF EXISTS public.guard_profile_guard_flag();
+
+DROP TRIGGER IF EXISTS trigger_sync_profile_role ON public.profiles;
+CREATE TRIGGER trigger_sync_profile_role
+    BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_profile_role();
+
+-- Align the flags of existing rows (runs the trigger without an auth user).
+-- Everyone is still 'user' here, which clears the is_admin flag the old
+-- handle_new_user() gave every sign-up; staff roles are assigned afterwards.
+UPDATE public.profiles SET role = role;
+
+-- New accounts are regular users; roles are assigned from the admin panel
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $function$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, role)
+  VALUES (
+    new.id,
+    new.raw_user_meta_data->>'full_name',
+    'user'
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN new;
+END;
+$function$;
+
+-- =============================================================================
+-- PART 4: POLICIES BY PERMISSION
+-- =============================================================================
+
+-- Profiles
+DROP POLICY IF EXISTS "profiles_update_self_or_admin" ON public.profiles;
+DROP POLICY IF EXISTS "profiles_select_admins" ON public.profiles;
+
+CREATE POLICY "profiles_update_self_or_admin"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (
+    (SELECT auth.uid()) = id
+    OR public.has_permission((SELECT auth.uid()), 'users.manage')
+);
+
+CREATE POLICY "profiles_select_admins"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'admin.view'));
+
+-- Reservations
+DROP POLICY IF EXISTS "Only admins can update reservations" ON public.reservations;
+DROP POLICY IF EXISTS "Only admins can delete reservations" ON public.reservations;
+
+CREATE POLICY "Only admins can update reservations"
+ON public.reservations
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+CREATE POLICY "Only admins can delete reservations"
+ON public.reservations
+FOR DELETE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+-- Blocked dates
+DROP POLICY IF EXISTS "Admins can manage blocked dates" ON public.blocked_dates;
+DROP POLICY IF EXISTS "blocked_dates_insert_admins" ON public.blocked_dates;
+DROP POLICY IF EXISTS "blocked_dates_update_admins" ON public.blocked_dates;
+DROP POLICY IF EXISTS "blocked_dates_delete_admins" ON public.blocked_dates;
+
+CREATE POLICY "blocked_dates_insert_admins"
+ON public.blocked_dates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+CREATE POLICY "blocked_dates_update_admins"
+ON public.blocked_dates
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+CREATE POLICY "blocked_dates_delete_admins"
+ON public.blocked_dates
+FOR DELETE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+-- Settings
+DROP POLICY IF EXISTS "Only admins can update settings" ON public.settings;
+DROP POLICY IF EXISTS "Only admins can insert settings" ON public.settings;
+
+CREATE POLICY "Only admins can update settings"
+ON public.settings
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'settings.manage'));
+
+CREATE POLICY "Only admins can insert settings"
+ON public.settings
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'settings.manage'));
+
+-- Cancellations audit
+DROP POLICY IF EXISTS "cancellations_insert_by_admins" ON public.cancellations;
+DROP POLICY IF EXISTS "cancellations_select_by_admins" ON public.cancellations;
+
+CREATE POLICY "cancellations_insert_by_admins"
+ON public.cancellations
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+CREATE POLICY "cancellations_select_by_admins"
+ON public.cancellations
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'admin.view'));
+
+-- Reservation series
+DROP POLICY IF EXISTS "reservation_series_update_admins" ON public.reservation_series;
+
+CREATE POLICY "reservation_series_update_admins"
+ON public.reservation_series
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+-- Reports and their photos
+DROP POLICY IF EXISTS "reports_select_admins" ON public.reports;
+DROP POLICY IF EXISTS "reports_update_admins" ON public.reports;
+DROP POLICY IF EXISTS "report_attachments_select_admins" ON storage.objects;
+
+CREATE POLICY "reports_select_admins"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'admin.view'));
+
+CREATE POLICY "reports_update_admins"
+ON public.reports
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reports.manage'));
+
+CREATE POLICY "report_attachments_select_admins"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'report-attachments'
+    AND public.has_permission((SELECT auth.uid()), 'admin.view')
+);
+
+-- Waitlist
+DROP POLICY IF EXISTS "waitlist_entries_select_admins" ON public.waitlist_entries;
+DROP POLICY IF EXISTS "waitlist_entries_update_admins" ON public.waitlist_entries;
+
+CREATE POLICY "waitlist_entries_select_admins"
+ON public.waitlist_entries
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'admin.view'));
+
+CREATE POLICY "waitlist_entries_update_admins"
+ON public.waitlist_entries
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+-- Change requests
+DROP POLICY IF EXISTS "reservation_change_requests_select_own_or_admins" ON public.reservation_change_requests;
+DROP POLICY IF EXISTS "reservation_change_requests_update_admins" ON public.reservation_change_requests;
+
+CREATE POLICY "reservation_change_requests_select_own_or_admins"
+ON public.reservation_change_requests
+FOR SELECT
+TO authenticated
+USING (
+    requested_by = (SELECT auth.uid())
+    OR public.has_permission((SELECT auth.uid()), 'admin.view')
+);
+
+CREATE POLICY "reservation_change_requests_update_admins"
+ON public.reservation_change_requests
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+-- Expired requests
+DROP POLICY IF EXISTS "expired_reservation_requests_select_admins" ON public.expired_reservation_requests;
+
+CREATE POLICY "expired_reservation_requests_select_admins"
+ON public.expired_reservation_requests
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'admin.view'));
+
+-- Handovers and their photos (insert/update keep using is_staff())
+DROP POLICY IF EXISTS "reservation_handovers_select_staff" ON public.reservation_handovers;
+DROP POLICY IF EXISTS "handover_photos_select_staff" ON storage.objects;
+
+CREATE POLICY "reservation_handovers_select_staff"
+ON public.reservation_handovers
+FOR SELECT
+TO authenticated
+USING (
+    public.is_staff((SELECT auth.uid()))
+    OR public.has_permission((SELECT auth.uid()), 'admin.view')
+);
+
+CREATE POLICY "handover_photos_select_staff"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'handover-photos'
+    AND (
+        public.is_staff((SELECT auth.uid()))
+        OR public.has_permission((SELECT auth.uid()), 'admin.view')
+    )
+);
+
+-- =============================================================================
+-- PART 5: USER MANAGEMENT
+-- =============================================================================
+
+ALTER TABLE public.role_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "role_audit_log_select_admins" ON public.role_audit_log;
+
+-- SELECT: User managers and auditors (rows are written by the functions below)
+CREATE POLICY "role_audit_log_select_admins"
+ON public.role_audit_log
+FOR SELECT
+TO authenticated
+USING (
+    public.has_permission((SELECT auth.uid()), 'users.manage')
+    OR public.has_permission((SELECT auth.uid()), 'admin.view')
+);
+
+GRANT SELECT ON public.role_audit_log TO authenticated;
+
+-- Accounts with their role (emails live in auth.users)
+CREATE OR REPLACE FUNCTION public.list_users_with_roles()
+RETURNS TABLE (
+    id UUID,
+    email TEXT,
+    full_name TEXT,
+    role TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    last_sign_in_at TIMESTAMP WITH TIME ZONE,
+    invited_at TIMESTAMP WITH TIME ZONE,
+    email_confirmed BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NOT public.has_permission((SELECT auth.uid()), 'users.manage') THEN
+        RAISE EXCEPTION 'Not allowed to manage users' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        u.id,
+        u.email::TEXT,
+        p.full_name,
+        COALESCE(p.role, 'user'),
+        u.created_at,
+        u.last_sign_in_at,
+        u.invited_at,
+        u.email_confirmed_at IS NOT NULL
+    FROM auth.users u
+    LEFT JOIN public.profiles p ON p.id = u.id
+    ORDER BY (COALESCE(p.role, 'user') = 'user'), u.email;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_users_with_roles() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_users_with_roles() TO authenticated;
+
+-- Assign a role; 'user' revokes any staff access. The last super-admin cannot
+-- be demoted so the panel is never left without a user manager.
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id UUID, p_role TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    old_role TEXT;
+    target_email TEXT;
+BEGIN
+    IF NOT public.has_permission((SELECT auth.uid()), 'users.manage') THEN
+        RAISE EXCEPTION 'Not allowed to manage users' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.roles WHERE role = p_role) THEN
+        RAISE EXCEPTION 'INVALID_ROLE' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT email INTO target_email FROM auth.users WHERE id = p_user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Accounts created before profiles existed
+    INSERT INTO public.profiles (id) VALUES (p_user_id) ON CONFLICT (id) DO NOTHING;
+
+    SELECT role INTO old_role FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    IF old_role = p_role THEN
+        RETURN;
+    END IF;
+
+    IF old_role = 'super_admin' AND (
+        SELECT COUNT(*) FROM public.profiles WHERE role = 'super_admin'
+    ) <= 1 THEN
+        RAISE EXCEPTION 'LAST_SUPER_ADMIN' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.profiles SET role = p_role WHERE id = p_user_id;
+
+    INSERT INTO public.role_audit_log (user_id, email, action, previous_role, new_role, reason, performed_by)
+    VALUES (
+        p_user_id,
+        target_email,
+        CASE WHEN p_role = 'user' THEN 'revoked' ELSE 'role_changed' END,
+        old_role,
+        p_role,
+        NULLIF(btrim(p_reason), ''),
+        (SELECT auth.uid())
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_user_role(UUID, TEXT, TEXT) IS
+'Assigns a role (users.manage). Errors: INVALID_ROLE, USER_NOT_FOUND, LAST_SUPER_ADMIN';
+
+REVOKE ALL ON FUNCTION public.set_user_role(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_role(UUID, TEXT, TEXT) TO authenticated;
+
+-- =============================================================================
+-- PART 6: USAGE STATISTICS FOR AUDITORS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_usage_statistics(
+    p_from DATE,
+    p_to DATE,
+    p_period TEXT DEFAULT 'month'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    schedule JSONB;
+    result JSONB;
+BEGIN
+    IF NOT public.has_permission((SELECT auth.uid()), 'admin.view') THEN
+        RAISE EXCEPTION 'Not allowed to read usage statistics' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_period NOT IN ('week', 'month') THEN
+        RAISE EXCEPTION 'Invalid period: %', p_period USING ERRCODE = '22023';
+    END IF;
+
+    IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+        RAISE EXCEPTION 'Invalid date range' USING ERRCODE = '22023';
+    END IF;
+
+    -- Weekly schedule configured in settings (indexed like EXTRACT(DOW))
+    BEGIN
+        SELECT value::jsonb -> 'days' INTO schedule
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        schedule := NULL;
+    END;
+
+    IF schedule IS NULL OR jsonb_typeof(schedule) <> 'array' OR jsonb_array_length(schedule) <> 7 THEN
+        -- Same defaults as the app: every day 08:00 - 22:00
+        schedule := (
+            SELECT jsonb_agg(jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00'))
+            FROM generate_series(0, 6)
+        );
+    END IF;
+
+    WITH days AS (
+        SELECT d::date AS fecha, EXTRACT(DOW FROM d)::int AS dow
+        FROM generate_series(p_from, p_to, interval '1 day') AS d
+    ),
+    open_hours AS (
+        SELECT
+            days.fecha,
+            CASE
+                WHEN COALESCE((schedule -> days.dow ->> 'closed')::boolean, false) THEN 0
+                -- Whole-day blocks close the quincho
+                WHEN EXISTS (
+                    SELECT 1 FROM public.blocked_dates b
+                    WHERE b.fecha = days.fecha AND (b.start_time IS NULL OR b.end_time IS NULL)
+                ) THEN 0
+                ELSE GREATEST(
+                    0,
+                    EXTRACT(EPOCH FROM (
+                        (schedule -> days.dow ->> 'close')::time - (schedule -> days.dow ->> 'open')::time
+                    )) / 3600
+                    - COALESCE((
+                        SELECT SUM(EXTRACT(EPOCH FROM (b.end_time - b.start_time)) / 3600)
+                        FROM public.blocked_dates b
+                        WHERE b.fecha = days.fecha AND b.start_time IS NOT NULL AND b.end_time IS NOT NULL
+                    ), 0)
+                )
+            END AS hours
+        FROM days
+    ),
+    in_range AS (
+        SELECT
+            r.*,
+            EXTRACT(EPOCH FROM (r.fin - r.inicio)) / 3600 AS hours
+        FROM public.reservations r
+        WHERE r.fecha BETWEEN p_from AND p_to
+    ),
+    approved AS (
+        SELECT * FROM in_range WHERE status = 'approved'
+    ),
+    expired AS (
+        SELECT * FROM public.expired_reservation_requests
+        WHERE fecha BETWEEN p_from AND p_to
+    ),
+    occupancy AS (
+        SELECT
+            date_trunc(p_period, o.fecha)::date AS period_start,
+            SUM(o.hours) AS available_hours,
+            COALESCE((
+                SELECT SUM(a.hours) FROM approved a
+                WHERE date_trunc(p_period, a.fecha) = date_trunc(p_period, o.fecha)
+            ), 0) AS booked_hours
+        FROM open_hours o
+        GROUP BY 1
+    ),
+    heatmap AS (
+        SELECT
+            EXTRACT(DOW FROM a.fecha)::int AS dow,
+            h AS hour,
+            COUNT(*) AS reservations
+        FROM approved a
+        CROSS JOIN LATERAL generate_series(
+            EXTRACT(HOUR FROM a.inicio)::int,
+            (CEIL(EXTRACT(EPOCH FROM a.fin) / 3600) - 1)::int
+        ) AS h
+        GROUP BY 1, 2
+    )
+    SELECT jsonb_build_object(
+        'from', p_from,
+        'to', p_to,
+        'period', p_period,
+        'occupancy', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'period_start', period_start,
+                'booked_hours', ROUND(booked_hours::numeric, 1),
+                'available_hours', ROUND(available_hours::numeric, 1),
+                'rate', CASE WHEN available_hours > 0
+                             THEN ROUND((booked_hours / available_hours)::numeric, 4)
+                             ELSE NULL END
+            ) ORDER BY period_start)
+            FROM occupancy
+        ), '[]'::jsonb),
+        'by_affiliation', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'affiliation', affiliation,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY hours DESC)
+            FROM (
+                SELECT COALESCE(NULLIF(btrim(affiliation), ''), 'Sin especificar') AS affiliation,
+                       COUNT(*) AS reservations,
+                       SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'status_counts', jsonb_build_object(
+            'approved', (SELECT COUNT(*) FROM in_range WHERE status = 'approved'),
+            'pending', (SELECT COUNT(*) FROM in_range WHERE status = 'pending'),
+            'rejected', (SELECT COUNT(*) FROM in_range WHERE status = 'rejected'),
+            'cancelled', (SELECT COUNT(*) FROM in_range WHERE status = 'cancelled'),
+            'unconfirmed', (SELECT COUNT(*) FROM in_range WHERE confirmed = false AND status = 'pending'),
+            'expired', (SELECT COUNT(*) FROM expired),
+            'total', (SELECT COUNT(*) FROM in_range) + (SELECT COUNT(*) FROM expired)
+        ),
+        -- Days between the request and the reservation date (Asunción calendar)
+        'lead_time_days', (
+            SELECT jsonb_build_object(
+                'average', ROUND(AVG(fecha - (created_at AT TIME ZONE 'America/Asuncion')::date)::numeric, 1),
+                'median', percentile_cont(0.5) WITHIN GROUP (
+                    ORDER BY fecha - (created_at AT TIME ZONE 'America/Asuncion')::date
+                )
+            )
+            FROM in_range
+        ),
+        'by_weekday', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'dow', dow,
+                'reservations', reservations,
+                'hours', ROUND(hours::numeric, 1)
+            ) ORDER BY dow)
+            FROM (
+                SELECT EXTRACT(DOW FROM fecha)::int AS dow, COUNT(*) AS reservations, SUM(hours) AS hours
+                FROM approved
+                GROUP BY 1
+            ) grouped
+        ), '[]'::jsonb),
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('dow', dow, 'hour', hour, 'reservations', reservations))
+            FROM heatmap
+        ), '[]'::jsonb),
+        -- Approved reservations that already ended: attended vs. flagged no-shows
+        'no_show', (
+            SELECT jsonb_build_object(
+                'checked_in', COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL),
+                'no_shows', COUNT(*) FILTER (WHERE h.no_show),
+                'rate', CASE WHEN COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL OR h.no_show) > 0
+                             THEN ROUND(
+                                 (COUNT(*) FILTER (WHERE h.no_show))::numeric
+                                 / COUNT(*) FILTER (WHERE h.checked_in_at IS NOT NULL OR h.no_show),
+                                 4)
+                             ELSE NULL END
+            )
+            FROM approved a
+            JOIN public.reservation_handovers h ON h.reservation_id = a.id
+        )
+    ) INTO result;
+
+    RETURN result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) IS
+'Usage statistics for the admin dashboard (admin.view permission). p_period: week or month';
+
+REVOKE ALL ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_usage_statistics(DATE, DATE, TEXT) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Staff accounts:
+-- SELECT id, role, is_admin, is_guard FROM public.profiles WHERE role <> 'user';
+
+-- Permissions of each role:
+-- SELECT role, array_agg(permission ORDER BY permission) FROM public.role_permissions GROUP BY role;
+
+-- Policies still checking the legacy flag directly (should be none):
+-- SELECT tablename, policyname FROM pg_policies
+-- WHERE qual LIKE '%is_admin = true%' OR with_check LIKE '%is_admin = true%';
@@ -0,0 +1,144 @@
+-- =============================================================================
+-- SECURE ADMIN BOOTSTRAP
+-- Created: October 19, 2026
+-- Description:
+--   Removes the last ways of becoming an admin outside of Supabase Auth and
+--   the role assignment of the admin panel.
+--   1. public.admins (legacy admin list) is read-only for user managers; the
+--      browser could previously insert itself into it. Rows without user_id
+--      are linked when the person is invited (invite-user Edge Function).
+--   2. is_admin_email() is dropped: it let anonymous visitors probe which
+--      emails belong to admins.
+--   3. bootstrap_super_admin(): one-time creation of the first super-admin,
+--      callable only with the service role (bootstrap-admin Edge Function or
+--      the SQL editor). It refuses to run once a super-admin exists.
+--   Nothing is seeded: no default accounts, emails or passwords.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: LEGACY ADMIN LIST
+-- =============================================================================
+
+-- Created by hand in older projects; kept only to invite the people listed
+CREATE TABLE IF NOT EXISTS public.admins (
+    email TEXT PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.admins ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE public.admins IS
+'Legacy admin list. Rows without user_id are pending an invitation from the admin panel; roles live in profiles.role';
+
+ALTER TABLE public.admins ENABLE ROW LEVEL SECURITY;
+
+-- Drop whatever policies the table had (including the ones allowing writes
+-- from the browser)
+DO $$
+DECLARE
+    pol RECORD;
+BEGIN
+    FOR pol IN
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public' AND tablename = 'admins'
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.admins', pol.policyname);
+    END LOOP;
+END $$;
+
+CREATE POLICY "admins_select_user_managers"
+ON public.admins
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'users.manage'));
+
+REVOKE ALL ON public.admins FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.admins FROM authenticated;
+GRANT SELECT ON public.admins TO authenticated;
+
+-- People on the list who already have an account only need the link
+UPDATE public.admins a
+SET user_id = u.id
+FROM auth.users u
+WHERE a.user_id IS NULL
+  AND lower(u.email) = lower(a.email);
+
+-- =============================================================================
+-- PART 2: REMOVE INSECURE ADMIN CHECKS
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.is_admin_email(TEXT);
+
+-- =============================================================================
+-- PART 3: FIRST SUPER-ADMIN
+-- =============================================================================
+
+-- Promotes an existing account to super-admin while there is none. Raises
+-- SUPER_ADMIN_EXISTS afterwards, so it cannot be used to take over the panel.
+CREATE OR REPLACE FUNCTION public.bootstrap_super_admin(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    target_id UUID;
+    target_email TEXT;
+    old_role TEXT;
+BEGIN
+    -- Two concurrent calls must not both see "no super-admin yet"
+    PERFORM pg_advisory_xact_lock(hashtext('public.bootstrap_super_admin'));
+
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE role = 'super_admin') THEN
+        RAISE EXCEPTION 'SUPER_ADMIN_EXISTS' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT id, email INTO target_id, target_email
+    FROM auth.users
+    WHERE lower(email) = lower(trim(p_email))
+    LIMIT 1;
+
+    IF target_id IS NULL THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT role INTO old_role FROM public.profiles WHERE id = target_id;
+
+    INSERT INTO public.profiles (id, role)
+    VALUES (target_id, 'super_admin')
+    ON CONFLICT (id) DO UPDATE SET role = 'super_admin';
+
+    UPDATE public.admins SET user_id = target_id
+    WHERE user_id IS NULL AND lower(email) = lower(target_email);
+
+    INSERT INTO public.role_audit_log (user_id, email, action, previous_role, new_role, reason)
+    VALUES (target_id, target_email, 'role_changed', old_role, 'super_admin', 'Superadministrador inicial');
+
+    RETURN target_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.bootstrap_super_admin(TEXT) IS
+'Creates the first super-admin from an existing account. Service role only; fails with SUPER_ADMIN_EXISTS once there is one';
+
+REVOKE ALL ON FUNCTION public.bootstrap_super_admin(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bootstrap_super_admin(TEXT) TO service_role;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Create the first super-admin (SQL editor; or POST to the bootstrap-admin
+-- Edge Function with the service role key to also send the invitation):
+-- SELECT public.bootstrap_super_admin('persona@fiuna.edu.py');
+
+-- Legacy admins still waiting for an invitation:
+-- SELECT email FROM public.admins WHERE user_id IS NULL;
+
+-- Policies on the legacy list (only admins_select_user_managers):
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'admins';
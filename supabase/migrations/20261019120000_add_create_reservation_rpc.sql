@@ -0,0 +1,296 @@
+-- =============================================================================
+-- SERVER-SIDE RESERVATION CREATION
+-- Created: October 19, 2026
+-- Description:
+--   Reservations were validated in the browser and inserted directly, and the
+--   "Anyone can create reservations" policy let anyone skip the checks.
+--   1. public.reservation_request_log: requests per email and IP, used for
+--      rate limiting (a recurring series counts as one request), and
+--      request_client_ip(): the caller's address as seen by the gateway
+--   2. create_reservation(): validates the request and inserts it, returning
+--      { success, reservation } or { success: false, error: CODE }:
+--        MISSING_FIELDS, INVALID_EMAIL, INVALID_HEADCOUNT, TOO_MANY_PEOPLE,
+--        INVALID_TIME_RANGE, PAST_DATE, CLOSED_DAY, OUTSIDE_OPERATING_HOURS,
+--        INVALID_DURATION, DATE_BLOCKED, SLOT_TAKEN, INVALID_SERIES,
+--        RATE_LIMITED
+--   3. Direct inserts into public.reservations are revoked for anon; only
+--      users with reservations.manage may still insert rows themselves
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: REQUEST LOG FOR RATE LIMITING
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reservation_request_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT NOT NULL,
+    ip_address TEXT,
+    series_id UUID REFERENCES public.reservation_series(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_request_log_email
+ON public.reservation_request_log(lower(email), created_at);
+CREATE INDEX IF NOT EXISTS idx_reservation_request_log_ip
+ON public.reservation_request_log(ip_address, created_at)
+WHERE ip_address IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reservation_request_log_series_id
+ON public.reservation_request_log(series_id)
+WHERE series_id IS NOT NULL;
+
+COMMENT ON TABLE public.reservation_request_log IS
+'Reservation requests of the last day, written by create_reservation() for rate limiting';
+
+-- Only create_reservation() (SECURITY DEFINER) reads and writes the log
+ALTER TABLE public.reservation_request_log ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.reservation_request_log FROM anon, authenticated;
+
+-- The first X-Forwarded-For entry comes from the client and can be anything,
+-- so only addresses a proxy writes are trusted: cf-connecting-ip, which
+-- Cloudflare overwrites, or the last X-Forwarded-For hop, which the gateway
+-- appends. NULL when neither is present; the per-email limit still applies.
+CREATE OR REPLACE FUNCTION public.request_client_ip()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT NULLIF(trim(COALESCE(
+        request.headers ->> 'cf-connecting-ip',
+        regexp_replace(request.headers ->> 'x-forwarded-for', '^.*,', '')
+    )), '')
+    FROM (SELECT NULLIF(current_setting('request.headers', true), '')::jsonb AS headers) AS request;
+$$;
+
+COMMENT ON FUNCTION public.request_client_ip() IS
+'Client IP of the current PostgREST request as set by the proxy, used as rate limit key';
+
+REVOKE ALL ON FUNCTION public.request_client_ip() FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 2: create_reservation()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Hard limits; the configurable booking policies build on top of these
+    max_personas CONSTANT INTEGER := 150;
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+    max_series_occurrences CONSTANT INTEGER := 26;
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT;
+    hours JSONB;
+    schedule JSONB;
+    duration_minutes INTEGER;
+    series RECORD;
+    is_new_request BOOLEAN := true;
+    new_reservation RECORD;
+BEGIN
+    -- Field validation
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_personas > max_personas THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PEOPLE', 'max', max_personas);
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    -- Operating hours (same defaults as the app when the setting is missing)
+    BEGIN
+        SELECT value::jsonb INTO hours
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        hours := NULL;
+    END;
+
+    schedule := hours -> 'days' -> EXTRACT(DOW FROM p_fecha)::int;
+    IF schedule IS NULL THEN
+        schedule := jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00');
+    END IF;
+
+    IF COALESCE((schedule ->> 'closed')::boolean, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'CLOSED_DAY');
+    END IF;
+
+    IF p_inicio < COALESCE(schedule ->> 'open', '08:00')::time
+       OR p_fin > COALESCE(schedule ->> 'close', '22:00')::time THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OUTSIDE_OPERATING_HOURS',
+            'open', COALESCE(schedule ->> 'open', '08:00'),
+            'close', COALESCE(schedule ->> 'close', '22:00')
+        );
+    END IF;
+
+    duration_minutes := EXTRACT(EPOCH FROM (p_fin - p_inicio))::int / 60;
+    IF duration_minutes < COALESCE((hours ->> 'minDurationMinutes')::int, 30)
+       OR duration_minutes > COALESCE((hours ->> 'maxDurationMinutes')::int, 14 * 60) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_DURATION');
+    END IF;
+
+    -- Whole-day blocks and partial (start_time/end_time) blocks
+    IF EXISTS (
+        SELECT 1 FROM public.blocked_dates b
+        WHERE b.fecha = p_fecha
+          AND (
+              b.start_time IS NULL OR b.end_time IS NULL
+              OR (b.start_time < p_fin AND b.end_time > p_inicio)
+          )
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DATE_BLOCKED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- Occurrences of a series share the series row and its confirmation token
+    IF p_series_id IS NOT NULL THEN
+        SELECT * INTO series FROM public.reservation_series WHERE id = p_series_id;
+
+        IF NOT FOUND
+           OR lower(series.email) <> normalized_email
+           OR (SELECT COUNT(*) FROM public.reservations WHERE series_id = p_series_id) >= max_series_occurrences
+           OR EXISTS (
+               SELECT 1 FROM public.reservations
+               WHERE confirmation_token = p_confirmation_token
+                 AND series_id IS DISTINCT FROM p_series_id
+           ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+        END IF;
+
+        is_new_request := NOT EXISTS (
+            SELECT 1 FROM public.reservation_request_log WHERE series_id = p_series_id
+        );
+    END IF;
+
+    -- Rate limits per email and per client IP (as seen by the API gateway)
+    IF is_new_request THEN
+        client_ip := public.request_client_ip();
+
+        DELETE FROM public.reservation_request_log WHERE created_at < now() - interval '1 day';
+
+        IF (
+            SELECT COUNT(*) FROM public.reservation_request_log
+            WHERE lower(email) = normalized_email AND created_at > now() - rate_window
+        ) >= max_requests_per_email
+        OR (
+            client_ip IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.reservation_request_log
+                WHERE ip_address = client_ip AND created_at > now() - rate_window
+            ) >= max_requests_per_ip
+        ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+        END IF;
+
+        INSERT INTO public.reservation_request_log (email, ip_address, series_id)
+        VALUES (normalized_email, client_ip, p_series_id);
+    END IF;
+
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation,
+            status, confirmed, confirmation_token, token_expires_at, series_id
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_fecha, p_inicio, p_fin, p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            'pending', false,
+            COALESCE(CASE WHEN p_series_id IS NOT NULL THEN p_confirmation_token END, gen_random_uuid()),
+            now() + interval '24 hours',
+            p_series_id
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        -- Someone booked the slot between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) IS
+'Validates and creates an unconfirmed reservation. Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 3: NO DIRECT INSERTS
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Anyone can create reservations" ON public.reservations;
+DROP POLICY IF EXISTS "reservations_insert_admins" ON public.reservations;
+
+CREATE POLICY "reservations_insert_admins"
+ON public.reservations
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+REVOKE INSERT ON public.reservations FROM anon;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Insert policies on reservations (only reservations_insert_admins):
+-- SELECT policyname, roles FROM pg_policies
+-- WHERE tablename = 'reservations' AND cmd = 'INSERT';
+
+-- Validation errors:
+-- SELECT public.create_reservation('Ana', 'no-es-un-correo', 'Asado', CURRENT_DATE + 7, '12:00', '14:00', 10);
+-- -> {"error": "INVALID_EMAIL", "success": false}
+
+-- Requests counted for rate limiting in the last hour:
+-- SELECT lower(email), ip_address, COUNT(*) FROM public.reservation_request_log
+-- WHERE created_at > now() - interval '1 hour' GROUP BY 1, 2 ORDER BY 3 DESC;
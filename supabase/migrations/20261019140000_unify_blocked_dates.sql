@@ -0,0 +1,201 @@
+-- =============================================================================
+-- UNIFY BLOCKING ON BLOCKED_DATES
+-- Created: October 19, 2026
+-- Description:
+--   Time slots used to be blocked in two ways: rows in public.blocked_dates
+--   and fake reservations (responsable 'Admin', motivo 'BLOQUEADO: ...').
+--   1. The fake reservations are converted into blocked_dates rows and
+--      deleted
+--   2. cancel_reservations_in_blocked_range() now also runs when a block is
+--      moved, skips reservations that already ended, records the
+--      cancellation in public.cancellations and emails the owner
+--   3. blocked_dates.group_id is indexed with fecha so a multi-day block can
+--      be listed and removed as one unit
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: CONVERT "BLOQUEADO" RESERVATIONS
+-- =============================================================================
+
+-- The blocked slots were already cleared when the fake rows were created, so
+-- the conversion must not cancel anything again
+ALTER TABLE public.blocked_dates DISABLE TRIGGER trigger_cancel_reservations_on_block;
+
+INSERT INTO public.blocked_dates (fecha, motivo, start_time, end_time, created_by, created_at)
+SELECT
+    r.fecha,
+    NULLIF(trim(regexp_replace(r.motivo, '^BLOQUEADO:\s*', '')), ''),
+    r.inicio,
+    r.fin,
+    r.updated_by,
+    r.created_at
+FROM public.reservations r
+WHERE r.responsable = 'Admin'
+  AND r.motivo LIKE 'BLOQUEADO:%'
+  AND r.status NOT IN ('cancelled', 'rejected')
+  AND NOT EXISTS (
+      SELECT 1 FROM public.blocked_dates b
+      WHERE b.fecha = r.fecha AND b.start_time = r.inicio AND b.end_time = r.fin
+  );
+
+ALTER TABLE public.blocked_dates ENABLE TRIGGER trigger_cancel_reservations_on_block;
+
+-- Cancelled ones included: they are not reservations of anybody. The waitlist
+-- trigger sees the new blocks and does not offer these slots.
+DELETE FROM public.reservations
+WHERE responsable = 'Admin'
+  AND motivo LIKE 'BLOQUEADO:%';
+
+-- =============================================================================
+-- PART 2: AUTO-CANCEL OVERLAPPING RESERVATIONS
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.cancel_reservations_in_blocked_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog, extensions
+AS $$
+DECLARE
+    affected_reservation RECORD;
+    cancel_reason TEXT;
+    affected_count INTEGER := 0;
+    email_response_id BIGINT;
+    function_url TEXT := 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1';
+    service_role_key TEXT;
+BEGIN
+    -- Nothing to do when an update did not move the block
+    IF TG_OP = 'UPDATE'
+       AND NEW.fecha = OLD.fecha
+       AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+       AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT decrypted_secret INTO service_role_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'service_role_key'
+    LIMIT 1;
+
+    cancel_reason := COALESCE(
+        'Fechas bloqueadas por administración: ' || NULLIF(trim(NEW.motivo), ''),
+        'Fechas bloqueadas por administración'
+    );
+
+    FOR affected_reservation IN
+        SELECT r.*
+        FROM public.reservations r
+        WHERE r.fecha = NEW.fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND (
+              NEW.start_time IS NULL OR NEW.end_time IS NULL
+              OR (r.inicio < NEW.end_time AND r.fin > NEW.start_time)
+          )
+          -- Reservations that already took place stay in the history as they were
+          AND (r.fecha + r.fin) > (now() AT TIME ZONE 'America/Asuncion')
+        FOR UPDATE
+    LOOP
+        UPDATE public.reservations
+        SET
+            status = 'cancelled',
+            admin_notes = COALESCE(admin_notes || E'\n\n', '') || cancel_reason,
+            updated_at = now(),
+            updated_by = NEW.created_by
+        WHERE id = affected_reservation.id;
+
+        INSERT INTO public.cancellations (reservation_id, cancelled_by, reason, previous_status, reservation_snapshot)
+        VALUES (
+            affected_reservation.id,
+            NEW.created_by,
+            cancel_reason,
+            affected_reservation.status,
+            to_jsonb(affected_reservation)
+        );
+
+        affected_count := affected_count + 1;
+
+        IF service_role_key IS NOT NULL THEN
+            BEGIN
+                SELECT extensions.http_post(
+                    url := function_url || '/send-email',
+                    headers := jsonb_build_object(
+                        'Content-Type', 'application/json',
+                        'Authorization', 'Bearer ' || service_role_key
+                    ),
+                    body := jsonb_build_object(
+                        'type', 'reservation-cancelled',
+                        'recipient', affected_reservation.email,
+                        'reservation', jsonb_build_object(
+                            'id', affected_reservation.id,
+                            'responsable', affected_reservation.responsable,
+                            'email', affected_reservation.email,
+                            'motivo', affected_reservation.motivo,
+                            'fecha', affected_reservation.fecha,
+                            'inicio', to_char(affected_reservation.inicio, 'HH24:MI'),
+                            'fin', to_char(affected_reservation.fin, 'HH24:MI'),
+                            'personas', affected_reservation.personas
+                        ),
+                        'reason', cancel_reason
+                    )::text
+                ) INTO email_response_id;
+            EXCEPTION WHEN OTHERS THEN
+                RAISE WARNING 'Failed to send email to %: %',
+                    affected_reservation.email, SQLERRM;
+            END;
+        ELSE
+            RAISE WARNING 'Email not sent: service_role_key not configured';
+        END IF;
+    END LOOP;
+
+    IF affected_count > 0 THEN
+        RAISE NOTICE 'Blocked date % affected % reservation(s)', NEW.fecha, affected_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_reservations_in_blocked_range() IS
+'Cancels upcoming reservations overlapping a new or moved block, records the cancellation and emails the owner';
+
+DROP TRIGGER IF EXISTS trigger_cancel_reservations_on_block ON public.blocked_dates;
+CREATE TRIGGER trigger_cancel_reservations_on_block
+    AFTER INSERT OR UPDATE OF fecha, start_time, end_time ON public.blocked_dates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.cancel_reservations_in_blocked_range();
+
+COMMENT ON TRIGGER trigger_cancel_reservations_on_block ON public.blocked_dates IS
+'Fires after a date is blocked or a block is moved to cancel any conflicting reservations';
+
+-- =============================================================================
+-- PART 3: GROUPED BLOCKS
+-- =============================================================================
+
+DROP INDEX IF EXISTS public.idx_blocked_dates_group_id;
+CREATE INDEX IF NOT EXISTS idx_blocked_dates_group_id_fecha
+ON public.blocked_dates(group_id, fecha)
+WHERE group_id IS NOT NULL;
+
+COMMENT ON COLUMN public.blocked_dates.group_id IS
+'Shared by the rows of a block spanning several days; the admin panel lists and removes them together';
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- No fake blocking reservations left:
+-- SELECT COUNT(*) FROM public.reservations WHERE responsable = 'Admin' AND motivo LIKE 'BLOQUEADO:%';
+
+-- Reservations cancelled by blocks, with their audit row:
+-- SELECT c.created_at, c.reason, c.reservation_snapshot ->> 'email'
+-- FROM public.cancellations c
+-- WHERE c.reason LIKE 'Fechas bloqueadas por administración%'
+-- ORDER BY c.created_at DESC;
+
+-- Multi-day blocks:
+-- SELECT group_id, MIN(fecha), MAX(fecha), COUNT(*) FROM public.blocked_dates
+-- WHERE group_id IS NOT NULL GROUP BY group_id;
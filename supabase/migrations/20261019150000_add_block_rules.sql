@@ -0,0 +1,926 @@
+-- =============================================================================
+-- RECURRING BLOCK RULES
+-- Created: October 19, 2026
+-- Description:
+--   blocked_dates only holds single days. Recurring unavailability (every
+--   Sunday, cleaning on Mondays 08:00-10:00, national holidays, exam periods)
+--   is stored as rules and expanded when it is needed:
+--   1. public.blocked_date_rules: weekly (weekdays), yearly (month/day) or
+--      range (start_date..end_date) rules, whole day or a time window, with
+--      optional validity bounds
+--   2. block_rule_applies() / is_slot_blocked(): the single blocking check,
+--      covering blocked_dates and active rules. create_reservation(),
+--      claim_waitlist_spot(), notify_next_waitlist_entry() and
+--      accept_reservation_change() now use it.
+--   3. expand_block_rules(): the days a rule blocks in a date range, used by
+--      the calendar views and the calendar feed
+--   4. preview_block_rule(): upcoming reservations a rule would cancel, shown
+--      to the admin before saving it
+--   5. Saving or re-enabling a rule cancels the upcoming reservations it
+--      covers, like a new blocked date; cancel_reservation_for_block() holds
+--      the cancellation, audit row and email shared by both triggers
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: RULES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.blocked_date_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    motivo TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'other'
+        CHECK (category IN ('holiday', 'exam', 'maintenance', 'other')),
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'yearly', 'range')),
+    weekdays SMALLINT[],
+    month SMALLINT CHECK (month BETWEEN 1 AND 12),
+    day SMALLINT CHECK (day BETWEEN 1 AND 31),
+    start_date DATE,
+    end_date DATE,
+    start_time TIME WITHOUT TIME ZONE,
+    end_time TIME WITHOUT TIME ZONE,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT blocked_date_rules_frequency_check CHECK (
+        (frequency = 'weekly' AND cardinality(weekdays) > 0
+            AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])
+        OR (frequency = 'yearly' AND month IS NOT NULL AND day IS NOT NULL)
+        OR (frequency = 'range' AND start_date IS NOT NULL AND end_date IS NOT NULL)
+    ),
+    CONSTRAINT blocked_date_rules_date_order_check
+        CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date),
+    CONSTRAINT blocked_date_rules_time_order_check CHECK (
+        (start_time IS NULL AND end_time IS NULL)
+        OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocked_date_rules_active ON public.blocked_date_rules(active) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_blocked_date_rules_created_by ON public.blocked_date_rules(created_by);
+
+COMMENT ON TABLE public.blocked_date_rules IS 'Recurring blocked periods, expanded on read (see expand_block_rules)';
+COMMENT ON COLUMN public.blocked_date_rules.weekdays IS 'weekly rules: days of the week, 0 = Sunday';
+COMMENT ON COLUMN public.blocked_date_rules.start_date IS 'range rules: first blocked day; other rules: first day the rule applies (optional)';
+COMMENT ON COLUMN public.blocked_date_rules.end_date IS 'range rules: last blocked day; other rules: last day the rule applies (optional)';
+COMMENT ON COLUMN public.blocked_date_rules.start_time IS 'Start of the blocked window; NULL with end_time blocks the whole day';
+
+DROP TRIGGER IF EXISTS update_blocked_date_rules_updated_at ON public.blocked_date_rules;
+CREATE TRIGGER update_blocked_date_rules_updated_at
+    BEFORE UPDATE ON public.blocked_date_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.blocked_date_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "blocked_date_rules_select_all" ON public.blocked_date_rules;
+DROP POLICY IF EXISTS "blocked_date_rules_insert_admins" ON public.blocked_date_rules;
+DROP POLICY IF EXISTS "blocked_date_rules_update_admins" ON public.blocked_date_rules;
+DROP POLICY IF EXISTS "blocked_date_rules_delete_admins" ON public.blocked_date_rules;
+
+CREATE POLICY "blocked_date_rules_select_all"
+ON public.blocked_date_rules
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "blocked_date_rules_insert_admins"
+ON public.blocked_date_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+CREATE POLICY "blocked_date_rules_update_admins"
+ON public.blocked_date_rules
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+CREATE POLICY "blocked_date_rules_delete_admins"
+ON public.blocked_date_rules
+FOR DELETE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'blocks.manage'));
+
+GRANT SELECT ON public.blocked_date_rules TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.blocked_date_rules TO authenticated;
+
+-- =============================================================================
+-- PART 2: RULE EXPANSION AND THE SINGLE BLOCKING CHECK
+-- =============================================================================
+
+-- Whether the rule blocks (part of) the given day
+CREATE OR REPLACE FUNCTION public.block_rule_applies(p_rule public.blocked_date_rules, p_fecha DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT (p_rule.start_date IS NULL OR p_fecha >= p_rule.start_date)
+       AND (p_rule.end_date IS NULL OR p_fecha <= p_rule.end_date)
+       AND CASE p_rule.frequency
+               WHEN 'weekly' THEN EXTRACT(DOW FROM p_fecha)::SMALLINT = ANY(p_rule.weekdays)
+               WHEN 'yearly' THEN EXTRACT(MONTH FROM p_fecha)::SMALLINT = p_rule.month
+                              AND EXTRACT(DAY FROM p_fecha)::SMALLINT = p_rule.day
+               WHEN 'range' THEN true
+               ELSE false
+           END;
+$$;
+
+-- Whether the rule blocks a time range of the given day
+CREATE OR REPLACE FUNCTION public.block_rule_blocks_slot(
+    p_rule public.blocked_date_rules,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT public.block_rule_applies(p_rule, p_fecha)
+       AND (
+           p_rule.start_time IS NULL OR p_rule.end_time IS NULL
+           OR (p_rule.start_time < p_fin AND p_rule.end_time > p_inicio)
+       );
+$$;
+
+-- Blocked dates and active rules; every booking path checks this
+CREATE OR REPLACE FUNCTION public.is_slot_blocked(p_fecha DATE, p_inicio TIME, p_fin TIME)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.blocked_dates b
+        WHERE b.fecha = p_fecha
+          AND (
+              b.start_time IS NULL OR b.end_time IS NULL
+              OR (b.start_time < p_fin AND b.end_time > p_inicio)
+          )
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.blocked_date_rules r
+        WHERE r.active
+          AND public.block_rule_blocks_slot(r, p_fecha, p_inicio, p_fin)
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_slot_blocked(DATE, TIME, TIME) IS
+'True when a blocked date or an active block rule overlaps the time range';
+
+REVOKE ALL ON FUNCTION public.is_slot_blocked(DATE, TIME, TIME) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_slot_blocked(DATE, TIME, TIME) TO anon, authenticated;
+
+-- One row per day blocked by an active rule, at most three years at a time
+CREATE OR REPLACE FUNCTION public.expand_block_rules(p_from DATE, p_to DATE)
+RETURNS TABLE (
+    rule_id UUID,
+    fecha DATE,
+    motivo TEXT,
+    category TEXT,
+    start_time TIME,
+    end_time TIME
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT r.id, d::date, r.motivo, r.category, r.start_time, r.end_time
+    FROM public.blocked_date_rules r
+    CROSS JOIN generate_series(p_from, LEAST(p_to, p_from + interval '3 years'), interval '1 day') AS d
+    WHERE r.active
+      AND public.block_rule_applies(r, d::date)
+    ORDER BY d, r.start_time NULLS FIRST;
+$$;
+
+COMMENT ON FUNCTION public.expand_block_rules(DATE, DATE) IS
+'Days blocked by active rules between two dates (capped at three years)';
+
+REVOKE ALL ON FUNCTION public.expand_block_rules(DATE, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expand_block_rules(DATE, DATE) TO anon, authenticated;
+
+-- Upcoming reservations an unsaved rule would cancel (same JSON shape as a
+-- blocked_date_rules row)
+CREATE OR REPLACE FUNCTION public.preview_block_rule(p_rule JSONB)
+RETURNS TABLE (
+    id UUID,
+    responsable TEXT,
+    email TEXT,
+    motivo TEXT,
+    fecha DATE,
+    inicio TIME,
+    fin TIME,
+    status TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    candidate_rule public.blocked_date_rules;
+BEGIN
+    IF NOT public.has_permission((SELECT auth.uid()), 'blocks.manage') THEN
+        RAISE EXCEPTION 'Only admins can preview block rules' USING ERRCODE = '42501';
+    END IF;
+
+    candidate_rule := jsonb_populate_record(NULL::public.blocked_date_rules, p_rule);
+
+    RETURN QUERY
+    SELECT r.id, r.responsable, r.email, r.motivo, r.fecha, r.inicio, r.fin, r.status::text
+    FROM public.reservations r
+    WHERE r.status NOT IN ('cancelled', 'rejected')
+      AND (r.fecha + r.fin) > (now() AT TIME ZONE 'America/Asuncion')
+      AND public.block_rule_blocks_slot(candidate_rule, r.fecha, r.inicio, r.fin)
+    ORDER BY r.fecha, r.inicio;
+END;
+$$;
+
+COMMENT ON FUNCTION public.preview_block_rule(JSONB) IS
+'Upcoming active reservations that saving the given rule would cancel (blocks.manage only)';
+
+REVOKE ALL ON FUNCTION public.preview_block_rule(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_block_rule(JSONB) TO authenticated;
+
+-- =============================================================================
+-- PART 3: CANCEL RESERVATIONS COVERED BY A BLOCK
+-- =============================================================================
+
+-- Cancels one reservation, records it in public.cancellations and emails the owner
+CREATE OR REPLACE FUNCTION public.cancel_reservation_for_block(
+    p_reservation public.reservations,
+    p_reason TEXT,
+    p_cancelled_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog, extensions
+AS $$
+DECLARE
+    email_response_id BIGINT;
+    function_url TEXT := 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1';
+    service_role_key TEXT;
+BEGIN
+    UPDATE public.reservations
+    SET
+        status = 'cancelled',
+        admin_notes = COALESCE(admin_notes || E'\n\n', '') || p_reason,
+        updated_at = now(),
+        updated_by = p_cancelled_by
+    WHERE id = p_reservation.id;
+
+    INSERT INTO public.cancellations (reservation_id, cancelled_by, reason, previous_status, reservation_snapshot)
+    VALUES (p_reservation.id, p_cancelled_by, p_reason, p_reservation.status, to_jsonb(p_reservation));
+
+    SELECT decrypted_secret INTO service_role_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'service_role_key'
+    LIMIT 1;
+
+    IF service_role_key IS NULL THEN
+        RAISE WARNING 'Email not sent: service_role_key not configured';
+        RETURN;
+    END IF;
+
+    BEGIN
+        SELECT extensions.http_post(
+            url := function_url || '/send-email',
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || service_role_key
+            ),
+            body := jsonb_build_object(
+                'type', 'reservation-cancelled',
+                'recipient', p_reservation.email,
+                'reservation', jsonb_build_object(
+                    'id', p_reservation.id,
+                    'responsable', p_reservation.responsable,
+                    'email', p_reservation.email,
+                    'motivo', p_reservation.motivo,
+                    'fecha', p_reservation.fecha,
+                    'inicio', to_char(p_reservation.inicio, 'HH24:MI'),
+                    'fin', to_char(p_reservation.fin, 'HH24:MI'),
+                    'personas', p_reservation.personas
+                ),
+                'reason', p_reason
+            )::text
+        ) INTO email_response_id;
+    EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Failed to send email to %: %', p_reservation.email, SQLERRM;
+    END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_reservation_for_block(public.reservations, TEXT, UUID) IS
+'Cancels a reservation covered by a block or block rule, writes the audit row and emails the owner';
+
+REVOKE ALL ON FUNCTION public.cancel_reservation_for_block(public.reservations, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_reservations_in_blocked_range()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    affected_reservation public.reservations;
+    cancel_reason TEXT;
+    affected_count INTEGER := 0;
+BEGIN
+    -- Nothing to do when an update did not move the block
+    IF TG_OP = 'UPDATE'
+       AND NEW.fecha = OLD.fecha
+       AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+       AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time THEN
+        RETURN NEW;
+    END IF;
+
+    cancel_reason := COALESCE(
+        'Fechas bloqueadas por administración: ' || NULLIF(trim(NEW.motivo), ''),
+        'Fechas bloqueadas por administración'
+    );
+
+    FOR affected_reservation IN
+        SELECT r.*
+        FROM public.reservations r
+        WHERE r.fecha = NEW.fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND (
+              NEW.start_time IS NULL OR NEW.end_time IS NULL
+              OR (r.inicio < NEW.end_time AND r.fin > NEW.start_time)
+          )
+          -- Reservations that already took place stay in the history as they were
+          AND (r.fecha + r.fin) > (now() AT TIME ZONE 'America/Asuncion')
+        FOR UPDATE
+    LOOP
+        PERFORM public.cancel_reservation_for_block(affected_reservation, cancel_reason, NEW.created_by);
+        affected_count := affected_count + 1;
+    END LOOP;
+
+    IF affected_count > 0 THEN
+        RAISE NOTICE 'Blocked date % affected % reservation(s)', NEW.fecha, affected_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_reservations_for_block_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    affected_reservation public.reservations;
+    cancel_reason TEXT;
+    affected_count INTEGER := 0;
+BEGIN
+    IF NOT NEW.active THEN
+        RETURN NEW;
+    END IF;
+
+    cancel_reason := COALESCE(
+        'Fechas bloqueadas por administración: ' || NULLIF(trim(NEW.motivo), ''),
+        'Fechas bloqueadas por administración'
+    );
+
+    FOR affected_reservation IN
+        SELECT r.*
+        FROM public.reservations r
+        WHERE r.status NOT IN ('cancelled', 'rejected')
+          AND (r.fecha + r.fin) > (now() AT TIME ZONE 'America/Asuncion')
+          AND public.block_rule_blocks_slot(NEW, r.fecha, r.inicio, r.fin)
+        FOR UPDATE
+    LOOP
+        PERFORM public.cancel_reservation_for_block(
+            affected_reservation, cancel_reason, COALESCE((SELECT auth.uid()), NEW.created_by)
+        );
+        affected_count := affected_count + 1;
+    END LOOP;
+
+    IF affected_count > 0 THEN
+        RAISE NOTICE 'Block rule % affected % reservation(s)', NEW.id, affected_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_reservations_for_block_rule() IS
+'Cancels upcoming reservations covered by a new, changed or re-enabled block rule and emails the owners';
+
+DROP TRIGGER IF EXISTS trigger_cancel_reservations_on_block_rule ON public.blocked_date_rules;
+CREATE TRIGGER trigger_cancel_reservations_on_block_rule
+    AFTER INSERT OR UPDATE OF frequency, weekdays, month, day, start_date, end_date, start_time, end_time, active
+    ON public.blocked_date_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.cancel_reservations_for_block_rule();
+
+-- =============================================================================
+-- PART 4: BOOKING PATHS USE is_slot_blocked()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Hard limits; the configurable booking policies build on top of these
+    max_personas CONSTANT INTEGER := 150;
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+    max_series_occurrences CONSTANT INTEGER := 26;
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT;
+    hours JSONB;
+    schedule JSONB;
+    duration_minutes INTEGER;
+    series RECORD;
+    is_new_request BOOLEAN := true;
+    new_reservation RECORD;
+BEGIN
+    -- Field validation
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_personas > max_personas THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PEOPLE', 'max', max_personas);
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    -- Operating hours (same defaults as the app when the setting is missing)
+    BEGIN
+        SELECT value::jsonb INTO hours
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        hours := NULL;
+    END;
+
+    schedule := hours -> 'days' -> EXTRACT(DOW FROM p_fecha)::int;
+    IF schedule IS NULL THEN
+        schedule := jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00');
+    END IF;
+
+    IF COALESCE((schedule ->> 'closed')::boolean, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'CLOSED_DAY');
+    END IF;
+
+    IF p_inicio < COALESCE(schedule ->> 'open', '08:00')::time
+       OR p_fin > COALESCE(schedule ->> 'close', '22:00')::time THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OUTSIDE_OPERATING_HOURS',
+            'open', COALESCE(schedule ->> 'open', '08:00'),
+            'close', COALESCE(schedule ->> 'close', '22:00')
+        );
+    END IF;
+
+    duration_minutes := EXTRACT(EPOCH FROM (p_fin - p_inicio))::int / 60;
+    IF duration_minutes < COALESCE((hours ->> 'minDurationMinutes')::int, 30)
+       OR duration_minutes > COALESCE((hours ->> 'maxDurationMinutes')::int, 14 * 60) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_DURATION');
+    END IF;
+
+    -- Blocked dates (whole-day or partial) and recurring block rules
+    IF public.is_slot_blocked(p_fecha, p_inicio, p_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DATE_BLOCKED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- Occurrences of a series share the series row and its confirmation token
+    IF p_series_id IS NOT NULL THEN
+        SELECT * INTO series FROM public.reservation_series WHERE id = p_series_id;
+
+        IF NOT FOUND
+           OR lower(series.email) <> normalized_email
+           OR (SELECT COUNT(*) FROM public.reservations WHERE series_id = p_series_id) >= max_series_occurrences
+           OR EXISTS (
+               SELECT 1 FROM public.reservations
+               WHERE confirmation_token = p_confirmation_token
+                 AND series_id IS DISTINCT FROM p_series_id
+           ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+        END IF;
+
+        is_new_request := NOT EXISTS (
+            SELECT 1 FROM public.reservation_request_log WHERE series_id = p_series_id
+        );
+    END IF;
+
+    -- Rate limits per email and per client IP (as seen by the API gateway)
+    IF is_new_request THEN
+        client_ip := public.request_client_ip();
+
+        DELETE FROM public.reservation_request_log WHERE created_at < now() - interval '1 day';
+
+        IF (
+            SELECT COUNT(*) FROM public.reservation_request_log
+            WHERE lower(email) = normalized_email AND created_at > now() - rate_window
+        ) >= max_requests_per_email
+        OR (
+            client_ip IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.reservation_request_log
+                WHERE ip_address = client_ip AND created_at > now() - rate_window
+            ) >= max_requests_per_ip
+        ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+        END IF;
+
+        INSERT INTO public.reservation_request_log (email, ip_address, series_id)
+        VALUES (normalized_email, client_ip, p_series_id);
+    END IF;
+
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation,
+            status, confirmed, confirmation_token, token_expires_at, series_id
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_fecha, p_inicio, p_fin, p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            'pending', false,
+            COALESCE(CASE WHEN p_series_id IS NOT NULL THEN p_confirmation_token END, gen_random_uuid()),
+            now() + interval '24 hours',
+            p_series_id
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        -- Someone booked the slot between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) IS
+'Validates and creates an unconfirmed reservation. Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_next_waitlist_entry(p_fecha DATE, p_inicio TIME, p_fin TIME)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog, extensions
+AS $$
+DECLARE
+    candidate RECORD;
+    v_token UUID;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+    email_response_id BIGINT;
+    function_url TEXT := 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1';
+    service_role_key TEXT;
+BEGIN
+    -- Someone else already holds an open offer for an overlapping range
+    IF EXISTS (
+        SELECT 1 FROM public.waitlist_entries w
+        WHERE w.fecha = p_fecha
+          AND w.status = 'notified'
+          AND w.claim_expires_at > now()
+          AND w.inicio < p_fin
+          AND w.fin > p_inicio
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    FOR candidate IN
+        SELECT w.*
+        FROM public.waitlist_entries w
+        WHERE w.fecha = p_fecha
+          AND w.status = 'waiting'
+          AND w.inicio < p_fin
+          AND w.fin > p_inicio
+          AND (w.fecha + w.inicio) > (now() AT TIME ZONE 'America/Asuncion')
+        ORDER BY w.created_at ASC
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- The whole range this person asked for must be free now
+        IF EXISTS (
+            SELECT 1 FROM public.reservations r
+            WHERE r.fecha = candidate.fecha
+              AND r.status NOT IN ('cancelled', 'rejected')
+              AND r.inicio < candidate.fin
+              AND r.fin > candidate.inicio
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        IF public.is_slot_blocked(candidate.fecha, candidate.inicio, candidate.fin) THEN
+            CONTINUE;
+        END IF;
+
+        -- 12 hours to claim, but never past the start of the slot
+        v_expires_at := LEAST(
+            now() + interval '12 hours',
+            (candidate.fecha + candidate.inicio) AT TIME ZONE 'America/Asuncion'
+        );
+
+        UPDATE public.waitlist_entries
+        SET status = 'notified',
+            claim_token = gen_random_uuid(),
+            claim_expires_at = v_expires_at,
+            notified_at = now()
+        WHERE id = candidate.id
+        RETURNING claim_token INTO v_token;
+
+        SELECT decrypted_secret INTO service_role_key
+        FROM vault.decrypted_secrets
+        WHERE name = 'service_role_key'
+        LIMIT 1;
+
+        IF service_role_key IS NOT NULL THEN
+            BEGIN
+                SELECT extensions.http_post(
+                    url := function_url || '/send-email',
+                    headers := jsonb_build_object(
+                        'Content-Type', 'application/json',
+                        'Authorization', 'Bearer ' || service_role_key
+                    ),
+                    body := jsonb_build_object(
+                        'type', 'waitlist-available',
+                        'recipient', candidate.email,
+                        'reservation', jsonb_build_object(
+                            'id', candidate.id,
+                            'responsable', candidate.responsable,
+                            'email', candidate.email,
+                            'motivo', candidate.motivo,
+                            'fecha', candidate.fecha,
+                            'inicio', to_char(candidate.inicio, 'HH24:MI'),
+                            'fin', to_char(candidate.fin, 'HH24:MI'),
+                            'personas', candidate.personas
+                        ),
+                        'claimToken', v_token,
+                        'claimExpiresAt', v_expires_at
+                    )::text
+                ) INTO email_response_id;
+            EXCEPTION WHEN OTHERS THEN
+                RAISE WARNING 'Failed to send waitlist email to %: %', candidate.email, SQLERRM;
+            END;
+        ELSE
+            RAISE WARNING 'Waitlist email not sent: service_role_key not configured';
+        END IF;
+
+        RETURN candidate.id;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_next_waitlist_entry(DATE, TIME, TIME) IS
+'Offers a released date/time range to the first waiting person whose range is now free';
+
+REVOKE ALL ON FUNCTION public.notify_next_waitlist_entry(DATE, TIME, TIME) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.claim_waitlist_spot(p_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    entry RECORD;
+    new_reservation RECORD;
+BEGIN
+    SELECT * INTO entry
+    FROM public.waitlist_entries
+    WHERE claim_token = p_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TOKEN');
+    END IF;
+
+    IF entry.status = 'claimed' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'ALREADY_CLAIMED');
+    END IF;
+
+    IF entry.status <> 'notified' OR entry.claim_expires_at <= now() THEN
+        RETURN jsonb_build_object('success', false, 'error', 'EXPIRED');
+    END IF;
+
+    IF public.is_slot_blocked(entry.fecha, entry.inicio, entry.fin) THEN
+        UPDATE public.waitlist_entries SET status = 'expired' WHERE id = entry.id;
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- The claim link proves the email address, so the reservation skips confirmation
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation, status, confirmed
+        )
+        VALUES (
+            entry.responsable, entry.email, entry.motivo, entry.fecha, entry.inicio, entry.fin,
+            entry.personas, entry.affiliation, 'pending', true
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        UPDATE public.waitlist_entries SET status = 'expired' WHERE id = entry.id;
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    UPDATE public.waitlist_entries
+    SET status = 'claimed',
+        claimed_at = now(),
+        claimed_reservation_id = new_reservation.id
+    WHERE id = entry.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reservation', jsonb_build_object(
+            'id', new_reservation.id,
+            'responsable', new_reservation.responsable,
+            'email', new_reservation.email,
+            'motivo', new_reservation.motivo,
+            'fecha', new_reservation.fecha,
+            'inicio', to_char(new_reservation.inicio, 'HH24:MI'),
+            'fin', to_char(new_reservation.fin, 'HH24:MI'),
+            'personas', new_reservation.personas
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_waitlist_spot(UUID) IS
+'Creates a pending (already confirmed) reservation from a valid waitlist claim token';
+
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_spot(UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.accept_reservation_change(p_request_id UUID, p_response TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    change_request RECORD;
+    current_reservation RECORD;
+    updated_reservation RECORD;
+    new_fecha DATE;
+    new_inicio TIME;
+    new_fin TIME;
+    new_personas INTEGER;
+    previous JSONB;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = (SELECT auth.uid())
+        AND profiles.is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Only admins can accept reservation changes' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO change_request
+    FROM public.reservation_change_requests
+    WHERE id = p_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR change_request.status <> 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'NOT_PENDING');
+    END IF;
+
+    SELECT * INTO current_reservation
+    FROM public.reservations
+    WHERE id = change_request.reservation_id
+    FOR UPDATE;
+
+    IF current_reservation.status NOT IN ('pending', 'approved') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'RESERVATION_INACTIVE');
+    END IF;
+
+    new_fecha := COALESCE(change_request.proposed_fecha, current_reservation.fecha);
+    new_inicio := COALESCE(change_request.proposed_inicio, current_reservation.inicio);
+    new_fin := COALESCE(change_request.proposed_fin, current_reservation.fin);
+    new_personas := COALESCE(change_request.proposed_personas, current_reservation.personas);
+
+    IF public.is_slot_blocked(new_fecha, new_inicio, new_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_BLOCKED');
+    END IF;
+
+    previous := jsonb_build_object(
+        'fecha', current_reservation.fecha,
+        'inicio', to_char(current_reservation.inicio, 'HH24:MI'),
+        'fin', to_char(current_reservation.fin, 'HH24:MI'),
+        'personas', current_reservation.personas
+    );
+
+    BEGIN
+        UPDATE public.reservations
+        SET fecha = new_fecha,
+            inicio = new_inicio,
+            fin = new_fin,
+            personas = new_personas,
+            updated_by = (SELECT auth.uid())
+        WHERE id = current_reservation.id
+        RETURNING * INTO updated_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    UPDATE public.reservation_change_requests
+    SET status = 'accepted',
+        admin_response = NULLIF(btrim(p_response), ''),
+        previous_values = previous,
+        resolved_at = now(),
+        resolved_by = (SELECT auth.uid())
+    WHERE id = change_request.id;
+
+    -- The old slot may have been freed for someone on the waitlist
+    IF current_reservation.fecha <> new_fecha
+       OR current_reservation.inicio <> new_inicio
+       OR current_reservation.fin <> new_fin THEN
+        PERFORM public.notify_next_waitlist_entry(
+            current_reservation.fecha, current_reservation.inicio, current_reservation.fin
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'previous', previous,
+        'reservation', jsonb_build_object(
+            'id', updated_reservation.id,
+            'responsable', updated_reservation.responsable,
+            'email', updated_reservation.email,
+            'motivo', updated_reservation.motivo,
+            'fecha', updated_reservation.fecha,
+            'inicio', to_char(updated_reservation.inicio, 'HH24:MI'),
+            'fin', to_char(updated_reservation.fin, 'HH24:MI'),
+            'personas', updated_reservation.personas
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.accept_reservation_change(UUID, TEXT) IS
+'Applies a pending change request to its reservation and marks it accepted (admins only)';
+
+REVOKE ALL ON FUNCTION public.accept_reservation_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_reservation_change(UUID, TEXT) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Days blocked by rules in the next month:
+-- SELECT * FROM public.expand_block_rules(CURRENT_DATE, CURRENT_DATE + 30);
+
+-- Mondays 08:00-10:00 blocked for cleaning:
+-- INSERT INTO public.blocked_date_rules (motivo, category, frequency, weekdays, start_time, end_time)
+-- VALUES ('Limpieza', 'maintenance', 'weekly', '{1}', '08:00', '10:00');
+-- SELECT public.is_slot_blocked(date_trunc('week', CURRENT_DATE + 7)::date, '09:00', '11:00'); -- true
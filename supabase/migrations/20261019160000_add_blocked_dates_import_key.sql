@@ -0,0 +1,51 @@
+-- =============================================================================
+-- IMPORTED BLOCKED DATES
+-- Created: October 19, 2026
+-- Description:
+--   Paraguay's national holidays and the academic calendar (ICS or CSV) can be
+--   imported from the admin panel as blocked_dates groups.
+--   1. blocked_dates.import_key identifies the holiday or calendar event a row
+--      was imported from
+--   2. (import_key, fecha) is unique, so importing the same year or file
+--      again only adds the days that are missing
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: IMPORT KEY
+-- =============================================================================
+
+ALTER TABLE public.blocked_dates
+ADD COLUMN IF NOT EXISTS import_key TEXT;
+
+COMMENT ON COLUMN public.blocked_dates.import_key IS
+'Holiday or calendar event the block was imported from (e.g. py-holiday:2026:viernes-santo, ics:<UID>); NULL for blocks created by hand';
+
+-- =============================================================================
+-- PART 2: IDEMPOTENT IMPORTS
+-- =============================================================================
+
+-- NULL keys never conflict, so manual blocks are not affected. The app
+-- inserts with ON CONFLICT (import_key, fecha) DO NOTHING.
+ALTER TABLE public.blocked_dates
+DROP CONSTRAINT IF EXISTS blocked_dates_import_key_fecha_key;
+
+ALTER TABLE public.blocked_dates
+ADD CONSTRAINT blocked_dates_import_key_fecha_key UNIQUE (import_key, fecha);
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Imported blocks per source:
+-- SELECT split_part(import_key, ':', 1) AS source, COUNT(*)
+-- FROM public.blocked_dates
+-- WHERE import_key IS NOT NULL
+-- GROUP BY 1;
+
+-- No day imported twice (should return no rows):
+-- SELECT import_key, fecha, COUNT(*) FROM public.blocked_dates
+-- WHERE import_key IS NOT NULL GROUP BY 1, 2 HAVING COUNT(*) > 1;
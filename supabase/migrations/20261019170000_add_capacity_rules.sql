@@ -0,0 +1,511 @@
+-- =============================================================================
+-- CAPACITY AND APPROVAL RULES
+-- Created: October 19, 2026
+-- Description:
+--   personas was only checked to be positive and below a fixed 150.
+--   1. settings 'max_personas': capacity of the quincho, read through
+--      get_max_personas() (150 when missing)
+--   2. public.capacity_rules: rules by affiliation and headcount range
+--        documentation   the requester must provide extra information (e.g.
+--                        more than 50 people requires a responsible docente)
+--        auto_approve    confirmed reservations are approved without an admin
+--                        (e.g. Funcionario under 20 people)
+--   3. create_reservation() reads the capacity from the settings, returns
+--      DOCUMENTATION_REQUIRED (with the requirements) when the information is
+--      missing and stores the requirements and the answer on the reservation.
+--      The previous signature is dropped so calls are not ambiguous.
+--   4. apply_auto_approval_rules(): when a reservation becomes confirmed and
+--      needs no documentation, the first matching auto_approve rule approves
+--      it and is recorded on the reservation; the owner is emailed
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: CAPACITY SETTING
+-- =============================================================================
+
+INSERT INTO public.settings (key, value, description)
+VALUES ('max_personas', '150', 'Cantidad máxima de personas por reserva (capacidad del quincho)')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.get_max_personas()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT COALESCE(
+        (SELECT CASE WHEN trim(value) ~ '^[0-9]+$' THEN trim(value)::int END
+         FROM public.settings
+         WHERE key = 'max_personas'),
+        150
+    );
+$$;
+
+COMMENT ON FUNCTION public.get_max_personas() IS
+'Capacity of the quincho from settings.max_personas (150 when missing or invalid)';
+
+GRANT EXECUTE ON FUNCTION public.get_max_personas() TO anon, authenticated;
+
+-- =============================================================================
+-- PART 2: RULES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.capacity_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (trim(name) <> ''),
+    kind TEXT NOT NULL CHECK (kind IN ('documentation', 'auto_approve')),
+    affiliations TEXT[],
+    min_personas INTEGER CHECK (min_personas > 0),
+    max_personas INTEGER CHECK (max_personas > 0),
+    requirement TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT capacity_rules_range_check
+        CHECK (min_personas IS NULL OR max_personas IS NULL OR max_personas >= min_personas),
+    CONSTRAINT capacity_rules_requirement_check
+        CHECK (kind <> 'documentation' OR trim(COALESCE(requirement, '')) <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_capacity_rules_active ON public.capacity_rules(kind, sort_order) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_capacity_rules_created_by ON public.capacity_rules(created_by);
+
+COMMENT ON TABLE public.capacity_rules IS 'Documentation and auto-approval rules by affiliation and headcount';
+COMMENT ON COLUMN public.capacity_rules.affiliations IS 'Affiliations the rule applies to; NULL or empty for everyone';
+COMMENT ON COLUMN public.capacity_rules.min_personas IS 'Smallest headcount the rule applies to (inclusive, optional)';
+COMMENT ON COLUMN public.capacity_rules.max_personas IS 'Largest headcount the rule applies to (inclusive, optional)';
+COMMENT ON COLUMN public.capacity_rules.requirement IS 'documentation rules: what the requester must provide, shown in the form';
+COMMENT ON COLUMN public.capacity_rules.sort_order IS 'Lower first; the first matching auto_approve rule is the one recorded';
+
+DROP TRIGGER IF EXISTS update_capacity_rules_updated_at ON public.capacity_rules;
+CREATE TRIGGER update_capacity_rules_updated_at
+    BEFORE UPDATE ON public.capacity_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.capacity_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "capacity_rules_select_all" ON public.capacity_rules;
+DROP POLICY IF EXISTS "capacity_rules_insert_admins" ON public.capacity_rules;
+DROP POLICY IF EXISTS "capacity_rules_update_admins" ON public.capacity_rules;
+DROP POLICY IF EXISTS "capacity_rules_delete_admins" ON public.capacity_rules;
+
+-- The reservation form shows the documentation requirements before submitting
+CREATE POLICY "capacity_rules_select_all"
+ON public.capacity_rules
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "capacity_rules_insert_admins"
+ON public.capacity_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission((SELECT auth.uid()), 'settings.manage'));
+
+CREATE POLICY "capacity_rules_update_admins"
+ON public.capacity_rules
+FOR UPDATE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'settings.manage'));
+
+CREATE POLICY "capacity_rules_delete_admins"
+ON public.capacity_rules
+FOR DELETE
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'settings.manage'));
+
+GRANT SELECT ON public.capacity_rules TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.capacity_rules TO authenticated;
+
+-- Same matching as capacityRuleMatches() in src/utils/capacityUtils.ts
+CREATE OR REPLACE FUNCTION public.capacity_rule_matches(
+    p_rule public.capacity_rules,
+    p_personas INTEGER,
+    p_affiliation TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT (p_rule.min_personas IS NULL OR p_personas >= p_rule.min_personas)
+       AND (p_rule.max_personas IS NULL OR p_personas <= p_rule.max_personas)
+       AND (
+           COALESCE(cardinality(p_rule.affiliations), 0) = 0
+           OR lower(trim(COALESCE(p_affiliation, ''))) = ANY (
+               SELECT lower(a) FROM unnest(p_rule.affiliations) AS a
+           )
+       );
+$$;
+
+COMMENT ON FUNCTION public.capacity_rule_matches(public.capacity_rules, INTEGER, TEXT) IS
+'Whether a capacity rule applies to a headcount and affiliation';
+
+-- =============================================================================
+-- PART 3: RULE OUTCOME ON RESERVATIONS
+-- =============================================================================
+
+ALTER TABLE public.reservations
+ADD COLUMN IF NOT EXISTS documentation_required TEXT[],
+ADD COLUMN IF NOT EXISTS documentation TEXT,
+ADD COLUMN IF NOT EXISTS auto_approval_rule_id UUID REFERENCES public.capacity_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS auto_approval_rule_name TEXT,
+ADD COLUMN IF NOT EXISTS auto_approved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_auto_approval_rule_id
+ON public.reservations(auto_approval_rule_id)
+WHERE auto_approval_rule_id IS NOT NULL;
+
+COMMENT ON COLUMN public.reservations.documentation_required IS 'Requirements of the documentation rules that matched when the reservation was created';
+COMMENT ON COLUMN public.reservations.documentation IS 'Information provided by the requester for documentation_required';
+COMMENT ON COLUMN public.reservations.auto_approval_rule_name IS 'Name of the auto_approve rule that approved the reservation, kept if the rule is deleted';
+
+-- =============================================================================
+-- PART 4: create_reservation() WITH CAPACITY RULES
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Capacity of the quincho, configured in the admin panel
+    max_personas CONSTANT INTEGER := public.get_max_personas();
+    -- Hard limits; the configurable booking policies build on top of these
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+    max_series_occurrences CONSTANT INTEGER := 26;
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT;
+    hours JSONB;
+    schedule JSONB;
+    duration_minutes INTEGER;
+    series RECORD;
+    is_new_request BOOLEAN := true;
+    new_reservation RECORD;
+    requirements TEXT[];
+BEGIN
+    -- Field validation
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_personas > max_personas THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PEOPLE', 'max', max_personas);
+    END IF;
+
+    -- Documentation rules (e.g. a responsible docente above 50 people)
+    SELECT array_agg(c.requirement ORDER BY c.sort_order, c.created_at) INTO requirements
+    FROM public.capacity_rules c
+    WHERE c.active
+      AND c.kind = 'documentation'
+      AND public.capacity_rule_matches(c, p_personas, p_affiliation);
+
+    IF requirements IS NOT NULL AND trim(COALESCE(p_documentation, '')) = '' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DOCUMENTATION_REQUIRED', 'requirements', to_jsonb(requirements));
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    -- Operating hours (same defaults as the app when the setting is missing)
+    BEGIN
+        SELECT value::jsonb INTO hours
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        hours := NULL;
+    END;
+
+    schedule := hours -> 'days' -> EXTRACT(DOW FROM p_fecha)::int;
+    IF schedule IS NULL THEN
+        schedule := jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00');
+    END IF;
+
+    IF COALESCE((schedule ->> 'closed')::boolean, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'CLOSED_DAY');
+    END IF;
+
+    IF p_inicio < COALESCE(schedule ->> 'open', '08:00')::time
+       OR p_fin > COALESCE(schedule ->> 'close', '22:00')::time THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OUTSIDE_OPERATING_HOURS',
+            'open', COALESCE(schedule ->> 'open', '08:00'),
+            'close', COALESCE(schedule ->> 'close', '22:00')
+        );
+    END IF;
+
+    duration_minutes := EXTRACT(EPOCH FROM (p_fin - p_inicio))::int / 60;
+    IF duration_minutes < COALESCE((hours ->> 'minDurationMinutes')::int, 30)
+       OR duration_minutes > COALESCE((hours ->> 'maxDurationMinutes')::int, 14 * 60) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_DURATION');
+    END IF;
+
+    -- Blocked dates (whole-day or partial) and recurring block rules
+    IF public.is_slot_blocked(p_fecha, p_inicio, p_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DATE_BLOCKED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- Occurrences of a series share the series row and its confirmation token
+    IF p_series_id IS NOT NULL THEN
+        SELECT * INTO series FROM public.reservation_series WHERE id = p_series_id;
+
+        IF NOT FOUND
+           OR lower(series.email) <> normalized_email
+           OR (SELECT COUNT(*) FROM public.reservations WHERE series_id = p_series_id) >= max_series_occurrences
+           OR EXISTS (
+               SELECT 1 FROM public.reservations
+               WHERE confirmation_token = p_confirmation_token
+                 AND series_id IS DISTINCT FROM p_series_id
+           ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+        END IF;
+
+        is_new_request := NOT EXISTS (
+            SELECT 1 FROM public.reservation_request_log WHERE series_id = p_series_id
+        );
+    END IF;
+
+    -- Rate limits per email and per client IP (as seen by the API gateway)
+    IF is_new_request THEN
+        client_ip := public.request_client_ip();
+
+        DELETE FROM public.reservation_request_log WHERE created_at < now() - interval '1 day';
+
+        IF (
+            SELECT COUNT(*) FROM public.reservation_request_log
+            WHERE lower(email) = normalized_email AND created_at > now() - rate_window
+        ) >= max_requests_per_email
+        OR (
+            client_ip IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.reservation_request_log
+                WHERE ip_address = client_ip AND created_at > now() - rate_window
+            ) >= max_requests_per_ip
+        ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+        END IF;
+
+        INSERT INTO public.reservation_request_log (email, ip_address, series_id)
+        VALUES (normalized_email, client_ip, p_series_id);
+    END IF;
+
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation,
+            status, confirmed, confirmation_token, token_expires_at, series_id,
+            documentation_required, documentation
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_fecha, p_inicio, p_fin, p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            'pending', false,
+            COALESCE(CASE WHEN p_series_id IS NOT NULL THEN p_confirmation_token END, gen_random_uuid()),
+            now() + interval '24 hours',
+            p_series_id,
+            requirements,
+            NULLIF(trim(COALESCE(p_documentation, '')), '')
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        -- Someone booked the slot between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT) IS
+'Validates and creates an unconfirmed reservation. Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 5: AUTO-APPROVAL ON CONFIRMATION
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_auto_approval_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    matching_rule RECORD;
+BEGIN
+    -- Only when the reservation becomes confirmed (email link or waitlist claim)
+    IF NOT NEW.confirmed OR NEW.status <> 'pending'
+       OR (TG_OP = 'UPDATE' AND OLD.confirmed) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Extra documentation is always reviewed by an admin
+    IF COALESCE(cardinality(NEW.documentation_required), 0) > 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO matching_rule
+    FROM public.capacity_rules c
+    WHERE c.active
+      AND c.kind = 'auto_approve'
+      AND public.capacity_rule_matches(c, NEW.personas, NEW.affiliation)
+    ORDER BY c.sort_order, c.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+        NEW.status := 'approved';
+        NEW.auto_approval_rule_id := matching_rule.id;
+        NEW.auto_approval_rule_name := matching_rule.name;
+        NEW.auto_approved_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_auto_approval_rules() IS
+'Approves a reservation when it becomes confirmed and an active auto_approve rule matches it';
+
+DROP TRIGGER IF EXISTS trigger_apply_auto_approval_rules ON public.reservations;
+CREATE TRIGGER trigger_apply_auto_approval_rules
+    BEFORE INSERT OR UPDATE OF confirmed ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.apply_auto_approval_rules();
+
+CREATE OR REPLACE FUNCTION public.notify_auto_approved_reservation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog, extensions
+AS $$
+DECLARE
+    email_response_id BIGINT;
+    function_url TEXT := 'https://uhthypiomvxwnayopagt.supabase.co/functions/v1';
+    service_role_key TEXT;
+BEGIN
+    IF NEW.auto_approval_rule_name IS NULL
+       OR (TG_OP = 'UPDATE' AND OLD.auto_approval_rule_name IS NOT NULL) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT decrypted_secret INTO service_role_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'service_role_key'
+    LIMIT 1;
+
+    IF service_role_key IS NULL THEN
+        RAISE WARNING 'Email not sent: service_role_key not configured';
+        RETURN NEW;
+    END IF;
+
+    BEGIN
+        SELECT extensions.http_post(
+            url := function_url || '/send-email',
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || service_role_key
+            ),
+            body := jsonb_build_object(
+                'type', 'reservation-approved',
+                'recipient', NEW.email,
+                'reservation', jsonb_build_object(
+                    'id', NEW.id,
+                    'responsable', NEW.responsable,
+                    'email', NEW.email,
+                    'motivo', NEW.motivo,
+                    'fecha', NEW.fecha,
+                    'inicio', to_char(NEW.inicio, 'HH24:MI'),
+                    'fin', to_char(NEW.fin, 'HH24:MI'),
+                    'personas', NEW.personas
+                )
+            )::text
+        ) INTO email_response_id;
+    EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Failed to send email to %: %', NEW.email, SQLERRM;
+    END;
+
+    RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_auto_approved_reservation() IS
+'Emails the owner of a reservation approved by an auto_approve rule';
+
+DROP TRIGGER IF EXISTS trigger_notify_auto_approved_reservation ON public.reservations;
+CREATE TRIGGER trigger_notify_auto_approved_reservation
+    AFTER INSERT OR UPDATE OF auto_approval_rule_name ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_auto_approved_reservation();
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Capacity and rules:
+-- SELECT public.get_max_personas();
+-- SELECT name, kind, affiliations, min_personas, max_personas, active FROM public.capacity_rules
+-- ORDER BY kind, sort_order;
+
+-- Example rules:
+-- INSERT INTO public.capacity_rules (name, kind, min_personas, requirement)
+-- VALUES ('Grupos grandes', 'documentation', 51, 'Indique el nombre del docente responsable');
+-- INSERT INTO public.capacity_rules (name, kind, affiliations, max_personas)
+-- VALUES ('Funcionarios', 'auto_approve', ARRAY['Funcionario'], 19);
+
+-- Reservations approved by a rule:
+-- SELECT fecha, responsable, auto_approval_rule_name, auto_approved_at
+-- FROM public.reservations WHERE auto_approval_rule_name IS NOT NULL
+-- ORDER BY auto_approved_at DESC;
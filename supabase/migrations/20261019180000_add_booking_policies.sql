@@ -0,0 +1,397 @@
+-- =============================================================================
+-- BOOKING POLICIES
+-- Created: October 19, 2026
+-- Description:
+--   Anyone could book any future date, as often as they wanted.
+--   1. settings 'booking_policies' (JSON, edited in the admin panel):
+--        minLeadHours               hours between booking and start
+--        maxHorizonDays             how far ahead a date can be booked
+--        maxActivePerEmail          upcoming pending/approved reservations; a
+--                                   recurring series counts as one
+--        monthlyHoursByAffiliation  booked hours per calendar month, by affiliation
+--        noShowCooldownDays         days without booking after a no-show
+--      0 means no limit. A missing or unknown affiliation gets the lowest
+--      monthly limit set, so leaving it empty does not avoid the cap. The
+--      horizon and the active reservation limit are seeded off.
+--   2. check_booking_policies(): the first violated policy as
+--      { error: CODE, ... } or NULL:
+--        LEAD_TIME, BEYOND_HORIZON, TOO_MANY_ACTIVE, MONTHLY_HOURS_EXCEEDED,
+--        NO_SHOW_COOLDOWN
+--   3. create_reservation() enforces them unless p_override_policies is set
+--      by a user with reservations.manage (OVERRIDE_NOT_ALLOWED otherwise).
+--      The previous signature is dropped so calls are not ambiguous.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: POLICY SETTINGS
+-- =============================================================================
+
+INSERT INTO public.settings (key, value, description)
+VALUES (
+    'booking_policies',
+    '{"minLeadHours":48,"maxHorizonDays":0,"maxActivePerEmail":0,"monthlyHoursByAffiliation":{},"noShowCooldownDays":30}',
+    'Anticipación mínima, horizonte de reserva, cupos por persona y penalización por inasistencia'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =============================================================================
+-- PART 2: check_booking_policies()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.check_booking_policies(
+    p_email TEXT,
+    p_affiliation TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_user_id UUID DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- The quincho works on Paraguay time
+    local_now TIMESTAMP := now() AT TIME ZONE 'America/Asuncion';
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    policies JSONB;
+    min_lead_hours INTEGER;
+    max_horizon_days INTEGER;
+    max_active INTEGER;
+    monthly_limits JSONB;
+    monthly_limit NUMERIC;
+    cooldown_days INTEGER;
+    active_count INTEGER;
+    used_hours NUMERIC;
+    last_no_show DATE;
+BEGIN
+    BEGIN
+        SELECT value::jsonb INTO policies
+        FROM public.settings
+        WHERE key = 'booking_policies';
+
+        min_lead_hours := COALESCE((policies ->> 'minLeadHours')::int, 0);
+        max_horizon_days := COALESCE((policies ->> 'maxHorizonDays')::int, 0);
+        max_active := COALESCE((policies ->> 'maxActivePerEmail')::int, 0);
+        monthly_limits := COALESCE(policies -> 'monthlyHoursByAffiliation', '{}'::jsonb);
+        -- Same options as the "Vínculo con la facultad" select (AFFILIATIONS)
+        IF trim(COALESCE(p_affiliation, '')) IN ('Estudiante', 'Docente', 'Egresado', 'Funcionario') THEN
+            monthly_limit := COALESCE((monthly_limits ->> trim(p_affiliation))::numeric, 0);
+        ELSE
+            SELECT COALESCE(MIN(value::numeric), 0) INTO monthly_limit
+            FROM jsonb_each_text(monthly_limits)
+            WHERE value::numeric > 0;
+        END IF;
+        cooldown_days := COALESCE((policies ->> 'noShowCooldownDays')::int, 0);
+    EXCEPTION WHEN others THEN
+        -- An unreadable setting must not block every booking
+        RAISE WARNING 'Invalid booking_policies setting: %', SQLERRM;
+        RETURN NULL;
+    END;
+
+    IF min_lead_hours > 0 AND (p_fecha + p_inicio) < local_now + make_interval(hours => min_lead_hours) THEN
+        RETURN jsonb_build_object('error', 'LEAD_TIME', 'minLeadHours', min_lead_hours);
+    END IF;
+
+    IF max_horizon_days > 0 AND p_fecha > local_now::date + max_horizon_days THEN
+        RETURN jsonb_build_object('error', 'BEYOND_HORIZON', 'maxHorizonDays', max_horizon_days);
+    END IF;
+
+    -- A series counts once, and the occurrences of the series being created
+    -- do not count against it
+    IF max_active > 0 THEN
+        SELECT COUNT(DISTINCT COALESCE(r.series_id, r.id)) INTO active_count
+        FROM public.reservations r
+        WHERE (lower(r.email) = normalized_email OR (p_user_id IS NOT NULL AND r.user_id = p_user_id))
+          AND r.status IN ('pending', 'approved')
+          AND (r.fecha + r.fin) > local_now
+          AND r.series_id IS DISTINCT FROM p_series_id;
+
+        IF active_count >= max_active THEN
+            RETURN jsonb_build_object('error', 'TOO_MANY_ACTIVE', 'maxActive', max_active);
+        END IF;
+    END IF;
+
+    IF monthly_limit > 0 THEN
+        SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (r.fin - r.inicio)) / 3600), 0) INTO used_hours
+        FROM public.reservations r
+        WHERE (lower(r.email) = normalized_email OR (p_user_id IS NOT NULL AND r.user_id = p_user_id))
+          AND r.status IN ('pending', 'approved')
+          AND date_trunc('month', r.fecha) = date_trunc('month', p_fecha);
+
+        IF used_hours + EXTRACT(EPOCH FROM (p_fin - p_inicio)) / 3600 > monthly_limit THEN
+            RETURN jsonb_build_object(
+                'error', 'MONTHLY_HOURS_EXCEEDED',
+                'maxHours', monthly_limit,
+                'usedHours', round(used_hours, 1)
+            );
+        END IF;
+    END IF;
+
+    IF cooldown_days > 0 THEN
+        SELECT MAX(r.fecha) INTO last_no_show
+        FROM public.reservations r
+        JOIN public.reservation_handovers h ON h.reservation_id = r.id
+        WHERE h.no_show
+          AND (lower(r.email) = normalized_email OR (p_user_id IS NOT NULL AND r.user_id = p_user_id));
+
+        IF last_no_show IS NOT NULL AND last_no_show + cooldown_days > local_now::date THEN
+            RETURN jsonb_build_object('error', 'NO_SHOW_COOLDOWN', 'until', last_no_show + cooldown_days);
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.check_booking_policies(TEXT, TEXT, DATE, TIME, TIME, UUID, UUID) IS
+'First booking policy a reservation would violate, as { error, ... }, or NULL';
+
+-- Only create_reservation() (SECURITY DEFINER) calls it: it reads other people's reservations
+REVOKE ALL ON FUNCTION public.check_booking_policies(TEXT, TEXT, DATE, TIME, TIME, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 3: create_reservation() WITH POLICIES
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL,
+    p_override_policies BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Capacity of the quincho, configured in the admin panel
+    max_personas CONSTANT INTEGER := public.get_max_personas();
+    -- Hard limits; the configurable booking policies build on top of these
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+    max_series_occurrences CONSTANT INTEGER := 26;
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT;
+    hours JSONB;
+    schedule JSONB;
+    duration_minutes INTEGER;
+    series RECORD;
+    is_new_request BOOLEAN := true;
+    new_reservation RECORD;
+    requirements TEXT[];
+    policy_violation JSONB;
+BEGIN
+    -- Field validation
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_personas > max_personas THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PEOPLE', 'max', max_personas);
+    END IF;
+
+    -- Documentation rules (e.g. a responsible docente above 50 people)
+    SELECT array_agg(c.requirement ORDER BY c.sort_order, c.created_at) INTO requirements
+    FROM public.capacity_rules c
+    WHERE c.active
+      AND c.kind = 'documentation'
+      AND public.capacity_rule_matches(c, p_personas, p_affiliation);
+
+    IF requirements IS NOT NULL AND trim(COALESCE(p_documentation, '')) = '' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DOCUMENTATION_REQUIRED', 'requirements', to_jsonb(requirements));
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    -- Booking policies; admins booking on someone's behalf may skip them
+    IF p_override_policies THEN
+        IF NOT public.has_permission((SELECT auth.uid()), 'reservations.manage') THEN
+            RETURN jsonb_build_object('success', false, 'error', 'OVERRIDE_NOT_ALLOWED');
+        END IF;
+    ELSE
+        policy_violation := public.check_booking_policies(
+            normalized_email, p_affiliation, p_fecha, p_inicio, p_fin, (SELECT auth.uid()), p_series_id
+        );
+        IF policy_violation IS NOT NULL THEN
+            RETURN jsonb_build_object('success', false) || policy_violation;
+        END IF;
+    END IF;
+
+    -- Operating hours (same defaults as the app when the setting is missing)
+    BEGIN
+        SELECT value::jsonb INTO hours
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        hours := NULL;
+    END;
+
+    schedule := hours -> 'days' -> EXTRACT(DOW FROM p_fecha)::int;
+    IF schedule IS NULL THEN
+        schedule := jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00');
+    END IF;
+
+    IF COALESCE((schedule ->> 'closed')::boolean, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'CLOSED_DAY');
+    END IF;
+
+    IF p_inicio < COALESCE(schedule ->> 'open', '08:00')::time
+       OR p_fin > COALESCE(schedule ->> 'close', '22:00')::time THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OUTSIDE_OPERATING_HOURS',
+            'open', COALESCE(schedule ->> 'open', '08:00'),
+            'close', COALESCE(schedule ->> 'close', '22:00')
+        );
+    END IF;
+
+    duration_minutes := EXTRACT(EPOCH FROM (p_fin - p_inicio))::int / 60;
+    IF duration_minutes < COALESCE((hours ->> 'minDurationMinutes')::int, 30)
+       OR duration_minutes > COALESCE((hours ->> 'maxDurationMinutes')::int, 14 * 60) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_DURATION');
+    END IF;
+
+    -- Blocked dates (whole-day or partial) and recurring block rules
+    IF public.is_slot_blocked(p_fecha, p_inicio, p_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DATE_BLOCKED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- Occurrences of a series share the series row and its confirmation token
+    IF p_series_id IS NOT NULL THEN
+        SELECT * INTO series FROM public.reservation_series WHERE id = p_series_id;
+
+        IF NOT FOUND
+           OR lower(series.email) <> normalized_email
+           OR (SELECT COUNT(*) FROM public.reservations WHERE series_id = p_series_id) >= max_series_occurrences
+           OR EXISTS (
+               SELECT 1 FROM public.reservations
+               WHERE confirmation_token = p_confirmation_token
+                 AND series_id IS DISTINCT FROM p_series_id
+           ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+        END IF;
+
+        is_new_request := NOT EXISTS (
+            SELECT 1 FROM public.reservation_request_log WHERE series_id = p_series_id
+        );
+    END IF;
+
+    -- Rate limits per email and per client IP (as seen by the API gateway)
+    IF is_new_request THEN
+        client_ip := public.request_client_ip();
+
+        DELETE FROM public.reservation_request_log WHERE created_at < now() - interval '1 day';
+
+        IF (
+            SELECT COUNT(*) FROM public.reservation_request_log
+            WHERE lower(email) = normalized_email AND created_at > now() - rate_window
+        ) >= max_requests_per_email
+        OR (
+            client_ip IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.reservation_request_log
+                WHERE ip_address = client_ip AND created_at > now() - rate_window
+            ) >= max_requests_per_ip
+        ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+        END IF;
+
+        INSERT INTO public.reservation_request_log (email, ip_address, series_id)
+        VALUES (normalized_email, client_ip, p_series_id);
+    END IF;
+
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation,
+            status, confirmed, confirmation_token, token_expires_at, series_id,
+            documentation_required, documentation
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_fecha, p_inicio, p_fin, p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            'pending', false,
+            COALESCE(CASE WHEN p_series_id IS NOT NULL THEN p_confirmation_token END, gen_random_uuid()),
+            now() + interval '24 hours',
+            p_series_id,
+            requirements,
+            NULLIF(trim(COALESCE(p_documentation, '')), '')
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        -- Someone booked the slot between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) IS
+'Validates and creates an unconfirmed reservation. Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) TO anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Current policies:
+-- SELECT value::jsonb FROM public.settings WHERE key = 'booking_policies';
+
+-- Policy check for a given requester (run as a superuser):
+-- SELECT public.check_booking_policies('ana@fiuna.edu.py', 'Estudiante', CURRENT_DATE + 1, '10:00', '12:00');
+-- -> {"error": "LEAD_TIME", "minLeadHours": 48} with the default policies
+
+-- Anonymous callers cannot skip the policies:
+-- SET ROLE anon;
+-- SELECT public.create_reservation('Ana', 'ana@fiuna.edu.py', 'Asado', CURRENT_DATE + 7, '12:00', '14:00', 10,
+--     p_override_policies => true);
+-- -> {"error": "OVERRIDE_NOT_ALLOWED", "success": false}
+-- RESET ROLE;
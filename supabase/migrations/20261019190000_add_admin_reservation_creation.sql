@@ -0,0 +1,389 @@
+-- =============================================================================
+-- ADMIN RESERVATION CREATION
+-- Created: October 19, 2026
+-- Description:
+--   Admins take phone and in-person requests; until now they had to go through
+--   the public form, which emails a confirmation link to the requester.
+--   1. reservations.created_by_admin / policy_override_reason record who
+--      created a reservation on someone's behalf and why the booking policies
+--      were skipped
+--   2. create_reservation_for(): the body of create_reservation() for a
+--      given requester account, with the rate limits optional.
+--      create_reservation() books for the signed-in user and only rate limits
+--      callers without reservations.manage.
+--   3. admin_create_reservation(): same validation as create_reservation(),
+--      but the reservation belongs to the requester (their account when the
+--      email has one, otherwise nobody), their booking policies apply, no
+--      rate limit applies, and it is confirmed right away and left approved
+--      or pending. Skipping the booking policies requires a justification.
+--      The approval email is sent by the app.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: COLUMNS
+-- =============================================================================
+
+ALTER TABLE public.reservations
+    ADD COLUMN IF NOT EXISTS created_by_admin UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS policy_override_reason TEXT;
+
+COMMENT ON COLUMN public.reservations.created_by_admin IS
+'Admin who created the reservation on the requester''s behalf';
+COMMENT ON COLUMN public.reservations.policy_override_reason IS
+'Why the booking policies were skipped when the reservation was created';
+
+-- =============================================================================
+-- PART 2: create_reservation_for() AND create_reservation()
+-- =============================================================================
+
+-- Internal: p_user_id owns the reservation and is checked against the booking
+-- policies; callers decide whether the request counts against the rate limits
+CREATE OR REPLACE FUNCTION public.create_reservation_for(
+    p_user_id UUID,
+    p_apply_rate_limit BOOLEAN,
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL,
+    p_override_policies BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Capacity of the quincho, configured in the admin panel
+    max_personas CONSTANT INTEGER := public.get_max_personas();
+    -- Hard limits; the configurable booking policies build on top of these
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+    max_series_occurrences CONSTANT INTEGER := 26;
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT;
+    hours JSONB;
+    schedule JSONB;
+    duration_minutes INTEGER;
+    series RECORD;
+    is_new_request BOOLEAN := true;
+    new_reservation RECORD;
+    requirements TEXT[];
+    policy_violation JSONB;
+BEGIN
+    -- Field validation
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_personas > max_personas THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PEOPLE', 'max', max_personas);
+    END IF;
+
+    -- Documentation rules (e.g. a responsible docente above 50 people)
+    SELECT array_agg(c.requirement ORDER BY c.sort_order, c.created_at) INTO requirements
+    FROM public.capacity_rules c
+    WHERE c.active
+      AND c.kind = 'documentation'
+      AND public.capacity_rule_matches(c, p_personas, p_affiliation);
+
+    IF requirements IS NOT NULL AND trim(COALESCE(p_documentation, '')) = '' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DOCUMENTATION_REQUIRED', 'requirements', to_jsonb(requirements));
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    -- Booking policies; admins booking on someone's behalf may skip them
+    IF p_override_policies THEN
+        IF NOT public.has_permission((SELECT auth.uid()), 'reservations.manage') THEN
+            RETURN jsonb_build_object('success', false, 'error', 'OVERRIDE_NOT_ALLOWED');
+        END IF;
+    ELSE
+        policy_violation := public.check_booking_policies(
+            normalized_email, p_affiliation, p_fecha, p_inicio, p_fin, p_user_id, p_series_id
+        );
+        IF policy_violation IS NOT NULL THEN
+            RETURN jsonb_build_object('success', false) || policy_violation;
+        END IF;
+    END IF;
+
+    -- Operating hours (same defaults as the app when the setting is missing)
+    BEGIN
+        SELECT value::jsonb INTO hours
+        FROM public.settings
+        WHERE key = 'operating_hours';
+    EXCEPTION WHEN others THEN
+        hours := NULL;
+    END;
+
+    schedule := hours -> 'days' -> EXTRACT(DOW FROM p_fecha)::int;
+    IF schedule IS NULL THEN
+        schedule := jsonb_build_object('closed', false, 'open', '08:00', 'close', '22:00');
+    END IF;
+
+    IF COALESCE((schedule ->> 'closed')::boolean, false) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'CLOSED_DAY');
+    END IF;
+
+    IF p_inicio < COALESCE(schedule ->> 'open', '08:00')::time
+       OR p_fin > COALESCE(schedule ->> 'close', '22:00')::time THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'OUTSIDE_OPERATING_HOURS',
+            'open', COALESCE(schedule ->> 'open', '08:00'),
+            'close', COALESCE(schedule ->> 'close', '22:00')
+        );
+    END IF;
+
+    duration_minutes := EXTRACT(EPOCH FROM (p_fin - p_inicio))::int / 60;
+    IF duration_minutes < COALESCE((hours ->> 'minDurationMinutes')::int, 30)
+       OR duration_minutes > COALESCE((hours ->> 'maxDurationMinutes')::int, 14 * 60) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_DURATION');
+    END IF;
+
+    -- Blocked dates (whole-day or partial) and recurring block rules
+    IF public.is_slot_blocked(p_fecha, p_inicio, p_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'DATE_BLOCKED');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END IF;
+
+    -- Occurrences of a series share the series row and its confirmation token
+    IF p_series_id IS NOT NULL THEN
+        SELECT * INTO series FROM public.reservation_series WHERE id = p_series_id;
+
+        IF NOT FOUND
+           OR lower(series.email) <> normalized_email
+           OR (SELECT COUNT(*) FROM public.reservations WHERE series_id = p_series_id) >= max_series_occurrences
+           OR EXISTS (
+               SELECT 1 FROM public.reservations
+               WHERE confirmation_token = p_confirmation_token
+                 AND series_id IS DISTINCT FROM p_series_id
+           ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+        END IF;
+
+        is_new_request := NOT EXISTS (
+            SELECT 1 FROM public.reservation_request_log WHERE series_id = p_series_id
+        );
+    END IF;
+
+    -- Rate limits per email and per client IP (as seen by the API gateway)
+    IF is_new_request AND p_apply_rate_limit THEN
+        client_ip := public.request_client_ip();
+
+        DELETE FROM public.reservation_request_log WHERE created_at < now() - interval '1 day';
+
+        IF (
+            SELECT COUNT(*) FROM public.reservation_request_log
+            WHERE lower(email) = normalized_email AND created_at > now() - rate_window
+        ) >= max_requests_per_email
+        OR (
+            client_ip IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.reservation_request_log
+                WHERE ip_address = client_ip AND created_at > now() - rate_window
+            ) >= max_requests_per_ip
+        ) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+        END IF;
+
+        INSERT INTO public.reservation_request_log (email, ip_address, series_id)
+        VALUES (normalized_email, client_ip, p_series_id);
+    END IF;
+
+    BEGIN
+        INSERT INTO public.reservations (
+            responsable, email, motivo, fecha, inicio, fin, personas, affiliation,
+            status, confirmed, confirmation_token, token_expires_at, series_id,
+            documentation_required, documentation, user_id
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_fecha, p_inicio, p_fin, p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            'pending', false,
+            COALESCE(CASE WHEN p_series_id IS NOT NULL THEN p_confirmation_token END, gen_random_uuid()),
+            now() + interval '24 hours',
+            p_series_id,
+            requirements,
+            NULLIF(trim(COALESCE(p_documentation, '')), ''),
+            p_user_id
+        )
+        RETURNING * INTO new_reservation;
+    EXCEPTION WHEN exclusion_violation THEN
+        -- Someone booked the slot between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+    END;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation_for(UUID, BOOLEAN, TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) IS
+'Internal: creates a reservation owned by p_user_id. Used by create_reservation() and admin_create_reservation()';
+
+REVOKE ALL ON FUNCTION public.create_reservation_for(UUID, BOOLEAN, TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_series_id UUID DEFAULT NULL,
+    p_confirmation_token UUID DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL,
+    p_override_policies BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- Staff entering bookings are not rate limited
+    RETURN public.create_reservation_for(
+        (SELECT auth.uid()),
+        NOT public.has_permission((SELECT auth.uid()), 'reservations.manage'),
+        p_responsable, p_email, p_motivo, p_fecha, p_inicio, p_fin, p_personas,
+        p_affiliation, p_series_id, p_confirmation_token, p_documentation, p_override_policies
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) IS
+'Validates and creates an unconfirmed reservation for the signed-in user (or nobody). Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, UUID, UUID, TEXT, BOOLEAN) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 3: admin_create_reservation()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.admin_create_reservation(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL,
+    p_approve BOOLEAN DEFAULT true,
+    p_override_policies BOOLEAN DEFAULT false,
+    p_override_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    admin_id UUID := (SELECT auth.uid());
+    requester_id UUID;
+    result JSONB;
+    new_reservation RECORD;
+BEGIN
+    IF NOT public.has_permission(admin_id, 'reservations.manage') THEN
+        RAISE EXCEPTION 'Only admins can create reservations on behalf of others' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_override_policies AND trim(COALESCE(p_override_reason, '')) = '' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'OVERRIDE_REASON_REQUIRED');
+    END IF;
+
+    -- The reservation belongs to the requester's account, if they have one
+    SELECT u.id INTO requester_id
+    FROM auth.users u
+    WHERE lower(u.email) = lower(trim(COALESCE(p_email, '')))
+    LIMIT 1;
+
+    -- Field, schedule, block and overlap checks (and the requester's policies
+    -- unless skipped), without the public form's rate limits
+    result := public.create_reservation_for(
+        requester_id, false,
+        p_responsable, p_email, p_motivo, p_fecha, p_inicio, p_fin, p_personas, p_affiliation,
+        p_documentation => p_documentation,
+        p_override_policies => p_override_policies
+    );
+
+    IF NOT COALESCE((result ->> 'success')::boolean, false) THEN
+        RETURN result;
+    END IF;
+
+    -- Confirmed on the requester's behalf: no confirmation link is needed.
+    -- Left pending, the auto-approval rules still apply.
+    UPDATE public.reservations
+    SET confirmed = true,
+        status = CASE WHEN p_approve THEN 'approved' ELSE status END,
+        token_expires_at = NULL,
+        created_by_admin = admin_id,
+        policy_override_reason = CASE WHEN p_override_policies THEN trim(p_override_reason) END
+    WHERE id = (result -> 'reservation' ->> 'id')::uuid
+    RETURNING * INTO new_reservation;
+
+    RETURN jsonb_build_object('success', true, 'reservation', to_jsonb(new_reservation));
+END;
+$$;
+
+COMMENT ON FUNCTION public.admin_create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT) IS
+'Creates a confirmed reservation on behalf of a requester (reservations.manage). Returns { success, reservation } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.admin_create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_create_reservation(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT, TEXT, BOOLEAN, BOOLEAN, TEXT) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Reservations created by admins:
+-- SELECT r.fecha, r.inicio, r.responsable, r.status, u.email AS admin, r.policy_override_reason
+-- FROM public.reservations r
+-- JOIN auth.users u ON u.id = r.created_by_admin
+-- ORDER BY r.created_at DESC;
+
+-- Admin-created reservations owned by the admin instead of the requester
+-- (should be none unless the admin booked for themselves):
+-- SELECT r.id, r.email, r.user_id
+-- FROM public.reservations r
+-- WHERE r.created_by_admin IS NOT NULL AND r.user_id = r.created_by_admin;
@@ -0,0 +1,161 @@
+-- =============================================================================
+-- EMAIL OUTBOX
+-- Created: October 19, 2026
+-- Description:
+--   Failed emails were only logged, so requesters silently never got their
+--   confirmation links.
+--   1. email_outbox: every email handled by the send-email function is stored
+--      here before it is delivered, with its attempts, provider message ID and
+--      final status (sent, failed or bounced)
+--   2. claim_outbox_email(): takes a due email for delivery so that the
+--      process-email-outbox worker and send-email never send it twice
+--   3. retry_outbox_email(): admins queue a failed or bounced email again
+--      ("Reenviar" in the admin panel)
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: OUTBOX TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    -- No foreign key: unconfirmed reservations are deleted but their emails stay
+    reservation_id UUID,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'bounced')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    provider TEXT,
+    provider_message_id TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    bounced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+    ON public.email_outbox(next_attempt_at)
+    WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_reservation ON public.email_outbox(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_problems
+    ON public.email_outbox(created_at DESC)
+    WHERE status IN ('failed', 'bounced');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_provider_message
+    ON public.email_outbox(provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+
+COMMENT ON TABLE public.email_outbox IS 'Every email sent by the send-email function, with its delivery attempts';
+COMMENT ON COLUMN public.email_outbox.payload IS 'The send-email request (emailRequestSchema) used to render the email';
+COMMENT ON COLUMN public.email_outbox.status IS 'pending → sending → sent; failed after max_attempts or a permanent error; bounced when the provider reports it';
+COMMENT ON COLUMN public.email_outbox.locked_until IS 'While sending: when the claim expires if the sender died';
+COMMENT ON COLUMN public.email_outbox.provider_message_id IS 'ID returned by the email provider, used to match bounce webhooks';
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at
+    BEFORE UPDATE ON public.email_outbox
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "email_outbox_select_admins" ON public.email_outbox;
+
+-- Written only by the edge functions (service role)
+CREATE POLICY "email_outbox_select_admins"
+ON public.email_outbox
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+GRANT SELECT ON public.email_outbox TO authenticated;
+
+-- =============================================================================
+-- PART 2: claim_outbox_email()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_outbox_email(p_id UUID)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    -- Due pending emails, or emails whose sender stopped before finishing
+    UPDATE public.email_outbox
+    SET status = 'sending',
+        attempts = attempts + 1,
+        locked_until = now() + interval '5 minutes'
+    WHERE id = p_id
+      AND (
+          (status = 'pending' AND next_attempt_at <= now())
+          OR (status = 'sending' AND locked_until < now())
+      )
+    RETURNING *;
+$$;
+
+COMMENT ON FUNCTION public.claim_outbox_email(UUID) IS
+'Marks a due email as sending and returns it; returns nothing when it is not due or already taken';
+
+REVOKE ALL ON FUNCTION public.claim_outbox_email(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_outbox_email(UUID) TO service_role;
+
+-- =============================================================================
+-- PART 3: retry_outbox_email()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.retry_outbox_email(p_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NOT public.has_permission((SELECT auth.uid()), 'reservations.manage') THEN
+        RAISE EXCEPTION 'Only admins can resend emails' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.email_outbox
+    SET status = 'pending',
+        attempts = 0,
+        next_attempt_at = now(),
+        locked_until = NULL,
+        last_error = NULL,
+        bounced_at = NULL
+    WHERE id = p_id
+      AND status IN ('failed', 'bounced');
+
+    RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.retry_outbox_email(UUID) IS
+'Queues a failed or bounced email again with a fresh set of attempts';
+
+REVOKE ALL ON FUNCTION public.retry_outbox_email(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_outbox_email(UUID) TO authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Delivery status of the last emails:
+-- SELECT created_at, type, recipient, status, attempts, next_attempt_at, last_error
+-- FROM public.email_outbox
+-- ORDER BY created_at DESC
+-- LIMIT 20;
+
+-- Emails that need attention, per reservation:
+-- SELECT reservation_id, type, recipient, status, last_error
+-- FROM public.email_outbox
+-- WHERE status IN ('failed', 'bounced')
+-- ORDER BY reservation_id, created_at;
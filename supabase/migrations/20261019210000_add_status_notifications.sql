@@ -0,0 +1,238 @@
+-- =============================================================================
+-- STATUS TRANSITION NOTIFICATIONS
+-- Created: October 19, 2026
+-- Description:
+--   Approval, rejection and cancellation emails were sent by whichever code
+--   path changed the reservation (admin panel, block triggers, auto-approval),
+--   so status changes made directly in SQL notified nobody.
+--   1. enqueue_reservation_email(): stores a reservation email in
+--      public.email_outbox; process-email-outbox delivers it within a minute.
+--      It is part of the same transaction, so a rolled back change sends nothing.
+--   2. Trigger on reservations status transitions:
+--        pending -> approved   reservation-approved
+--        pending -> rejected   reservation-rejected
+--        any     -> cancelled  reservation-cancelled
+--      The reason is the one given for this transition: the cancellations
+--      row written for it, else the note added to admin_notes in the update.
+--      Occurrences of a series changed together get a single email with the
+--      list of dates. Unconfirmed reservations are skipped.
+--   3. Reservations created already approved by an auto_approve rule
+--      (waitlist claims) are enqueued on insert.
+--   4. cancel_reservation_for_block() no longer emails by itself and writes
+--      its cancellations row before the status change
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: enqueue_reservation_email()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_reservation_email(
+    p_type TEXT,
+    p_reservation public.reservations,
+    p_reason TEXT DEFAULT NULL,
+    p_series_summary TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- Same payload the app sends to send-email (emailRequestSchema); null
+    -- values are dropped because the schema only accepts missing fields
+    INSERT INTO public.email_outbox (type, recipient, payload, reservation_id)
+    VALUES (
+        p_type,
+        p_reservation.email,
+        jsonb_strip_nulls(jsonb_build_object(
+            'type', p_type,
+            'recipient', p_reservation.email,
+            'reservation', jsonb_build_object(
+                'id', p_reservation.id,
+                'responsable', p_reservation.responsable,
+                'email', p_reservation.email,
+                'motivo', COALESCE(p_reservation.motivo, ''),
+                'fecha', p_reservation.fecha,
+                'inicio', to_char(p_reservation.inicio, 'HH24:MI'),
+                'fin', to_char(p_reservation.fin, 'HH24:MI'),
+                'personas', p_reservation.personas
+            ),
+            'reason', left(p_reason, 2000),
+            'seriesSummary', p_series_summary
+        )),
+        p_reservation.id
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_reservation_email(TEXT, public.reservations, TEXT, TEXT) IS
+'Stores a reservation email in email_outbox for process-email-outbox to deliver';
+
+REVOKE ALL ON FUNCTION public.enqueue_reservation_email(TEXT, public.reservations, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 2: STATUS TRANSITION TRIGGER
+-- =============================================================================
+
+-- Statement level, so approving or rejecting a whole series in one UPDATE
+-- sends one email instead of one per occurrence
+CREATE OR REPLACE FUNCTION public.notify_reservation_status_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    change RECORD;
+BEGIN
+    FOR change IN
+        SELECT
+            n.status,
+            (array_agg(n ORDER BY n.fecha, n.inicio))[1] AS first_reservation,
+            (array_agg(
+                CASE WHEN n.status <> 'approved' THEN COALESCE(
+                    -- Cancellations record their reason before the status change
+                    (SELECT c.reason FROM public.cancellations c
+                     WHERE n.status = 'cancelled'
+                       AND c.reservation_id = n.id
+                       AND c.created_at >= COALESCE(o.updated_at, o.created_at)
+                     ORDER BY c.created_at DESC
+                     LIMIT 1),
+                    -- Notes are appended to the earlier ones; only the new part counts
+                    CASE WHEN n.admin_notes IS DISTINCT FROM o.admin_notes THEN
+                        CASE WHEN o.admin_notes IS NOT NULL AND starts_with(n.admin_notes, o.admin_notes)
+                            THEN substr(n.admin_notes, length(o.admin_notes) + 1)
+                            ELSE n.admin_notes
+                        END
+                    END
+                ) END
+                ORDER BY n.fecha, n.inicio
+            ))[1] AS reason,
+            count(*) AS occurrences,
+            string_agg(to_char(n.fecha, 'DD/MM/YYYY'), ', ' ORDER BY n.fecha, n.inicio) AS dates
+        FROM new_rows n
+        JOIN old_rows o ON o.id = n.id
+        WHERE n.status IS DISTINCT FROM o.status
+          AND (
+              (o.status = 'pending' AND n.status IN ('approved', 'rejected'))
+              OR n.status = 'cancelled'
+          )
+          -- The requester never confirmed it, so there is nobody to notify
+          AND (n.confirmed OR o.status <> 'pending')
+        GROUP BY n.status, COALESCE(n.series_id, n.id)
+    LOOP
+        PERFORM public.enqueue_reservation_email(
+            CASE change.status
+                WHEN 'approved' THEN 'reservation-approved'
+                WHEN 'rejected' THEN 'reservation-rejected'
+                ELSE 'reservation-cancelled'
+            END,
+            change.first_reservation,
+            -- Same clean-up as the admin panel does for the "Motivo: ..." notes
+            NULLIF(btrim(regexp_replace(btrim(change.reason, E' \n'), '^Motivo:\s*', '', 'i')), ''),
+            CASE WHEN change.occurrences > 1 THEN
+                format('%s fechas (%s)', change.occurrences, change.dates)
+            END
+        );
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_reservation_status_changes() IS
+'Enqueues the approval, rejection or cancellation email of reservations whose status changed';
+
+-- Transition tables cannot be combined with a column list, so the function
+-- filters the rows whose status did not change
+DROP TRIGGER IF EXISTS trigger_notify_reservation_status_changes ON public.reservations;
+CREATE TRIGGER trigger_notify_reservation_status_changes
+    AFTER UPDATE ON public.reservations
+    REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.notify_reservation_status_changes();
+
+-- =============================================================================
+-- PART 3: AUTO-APPROVED ON INSERT
+-- =============================================================================
+
+-- Approvals on confirmation are pending -> approved transitions (PART 2);
+-- only reservations inserted already confirmed are left here
+CREATE OR REPLACE FUNCTION public.notify_auto_approved_reservation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.status = 'approved' AND NEW.auto_approval_rule_name IS NOT NULL THEN
+        PERFORM public.enqueue_reservation_email('reservation-approved', NEW);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.notify_auto_approved_reservation() IS
+'Enqueues the approval email of a reservation inserted already approved by an auto_approve rule';
+
+DROP TRIGGER IF EXISTS trigger_notify_auto_approved_reservation ON public.reservations;
+CREATE TRIGGER trigger_notify_auto_approved_reservation
+    AFTER INSERT ON public.reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_auto_approved_reservation();
+
+-- =============================================================================
+-- PART 4: BLOCK CANCELLATIONS
+-- =============================================================================
+
+-- The cancellation email now comes from the status trigger
+CREATE OR REPLACE FUNCTION public.cancel_reservation_for_block(
+    p_reservation public.reservations,
+    p_reason TEXT,
+    p_cancelled_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- Written first so the status trigger finds the reason
+    INSERT INTO public.cancellations (reservation_id, cancelled_by, reason, previous_status, reservation_snapshot)
+    VALUES (p_reservation.id, p_cancelled_by, p_reason, p_reservation.status, to_jsonb(p_reservation));
+
+    UPDATE public.reservations
+    SET
+        status = 'cancelled',
+        admin_notes = COALESCE(admin_notes || E'\n\n', '') || p_reason,
+        updated_at = now(),
+        updated_by = p_cancelled_by
+    WHERE id = p_reservation.id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cancel_reservation_for_block(public.reservations, TEXT, UUID) IS
+'Cancels a reservation covered by a block or block rule and writes the audit row';
+
+REVOKE ALL ON FUNCTION public.cancel_reservation_for_block(public.reservations, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- A status change made directly in SQL enqueues its email:
+-- UPDATE public.reservations SET status = 'rejected', admin_notes = 'Prueba'
+-- WHERE id = '<reservation id>' AND status = 'pending';
+-- SELECT type, recipient, payload->>'reason', status
+-- FROM public.email_outbox
+-- WHERE reservation_id = '<reservation id>'
+-- ORDER BY created_at DESC;
+
+-- Triggers on reservations:
+-- SELECT tgname FROM pg_trigger
+-- WHERE tgrelid = 'public.reservations'::regclass AND NOT tgisinternal;
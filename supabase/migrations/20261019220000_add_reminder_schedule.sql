@@ -0,0 +1,259 @@
+-- =============================================================================
+-- REMINDER SCHEDULE
+-- Created: October 19, 2026
+-- Description:
+--   send-reminders only looked 60-65 minutes ahead, compared UTC times with
+--   the Paraguay times stored in reservations and kept no record of what it
+--   had sent, so a rerun reminded everyone again.
+--   1. settings 'reminder_schedule' (JSON, edited in the admin panel):
+--        hoursBefore         reminders before the start, e.g. [48, 24, 1]
+--        feedbackHoursAfter  hours after the end to ask for feedback and a
+--                            cleanliness self-report (0 disables it)
+--   2. reminders_sent: one row per reservation and stage ('24h', '1h',
+--      'feedback'), so a stage is never sent twice
+--   3. enqueue_reservation_email() accepts extra payload fields and returns
+--      the outbox ID
+--   4. enqueue_due_reminders(): enqueues the stages that are due, computed on
+--      America/Asuncion time. A reservation approved late only gets the
+--      closest stage, not every stage it missed.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: SCHEDULE SETTINGS
+-- =============================================================================
+
+INSERT INTO public.settings (key, value, description)
+VALUES (
+    'reminder_schedule',
+    '{"hoursBefore":[24,1],"feedbackHoursAfter":2}',
+    'Recordatorios antes de cada reserva y pedido de opinión después'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =============================================================================
+-- PART 2: SENT REMINDERS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reminders_sent (
+    reservation_id UUID NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+    stage TEXT NOT NULL,
+    outbox_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (reservation_id, stage)
+);
+
+COMMENT ON TABLE public.reminders_sent IS 'Reminder and feedback emails already enqueued, per reservation and stage';
+COMMENT ON COLUMN public.reminders_sent.stage IS '''<hours>h'' for reminders before the start, ''feedback'' after the end';
+COMMENT ON COLUMN public.reminders_sent.outbox_id IS 'The email in public.email_outbox';
+
+ALTER TABLE public.reminders_sent ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reminders_sent_select_admins" ON public.reminders_sent;
+
+-- Written only by enqueue_due_reminders()
+CREATE POLICY "reminders_sent_select_admins"
+ON public.reminders_sent
+FOR SELECT
+TO authenticated
+USING (public.has_permission((SELECT auth.uid()), 'reservations.manage'));
+
+GRANT SELECT ON public.reminders_sent TO authenticated;
+
+-- =============================================================================
+-- PART 3: enqueue_reservation_email() WITH EXTRA FIELDS
+-- =============================================================================
+
+-- The return type changes, so the previous version has to go
+DROP FUNCTION IF EXISTS public.enqueue_reservation_email(TEXT, public.reservations, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.enqueue_reservation_email(
+    p_type TEXT,
+    p_reservation public.reservations,
+    p_reason TEXT DEFAULT NULL,
+    p_series_summary TEXT DEFAULT NULL,
+    p_extra JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    new_id UUID;
+BEGIN
+    -- Same payload the app sends to send-email (emailRequestSchema); null
+    -- values are dropped because the schema only accepts missing fields
+    INSERT INTO public.email_outbox (type, recipient, payload, reservation_id)
+    VALUES (
+        p_type,
+        p_reservation.email,
+        jsonb_strip_nulls(jsonb_build_object(
+            'type', p_type,
+            'recipient', p_reservation.email,
+            'reservation', jsonb_build_object(
+                'id', p_reservation.id,
+                'responsable', p_reservation.responsable,
+                'email', p_reservation.email,
+                'motivo', COALESCE(p_reservation.motivo, ''),
+                'fecha', p_reservation.fecha,
+                'inicio', to_char(p_reservation.inicio, 'HH24:MI'),
+                'fin', to_char(p_reservation.fin, 'HH24:MI'),
+                'personas', p_reservation.personas
+            ),
+            'reason', left(p_reason, 2000),
+            'seriesSummary', p_series_summary
+        ) || COALESCE(p_extra, '{}'::jsonb)),
+        p_reservation.id
+    )
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_reservation_email(TEXT, public.reservations, TEXT, TEXT, JSONB) IS
+'Stores a reservation email in email_outbox for process-email-outbox to deliver; returns its ID';
+
+REVOKE ALL ON FUNCTION public.enqueue_reservation_email(TEXT, public.reservations, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 4: enqueue_due_reminders()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_due_reminders()
+RETURNS TABLE (email_id UUID, reminder_stage TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Reservations store Paraguay wall-clock times
+    local_today DATE := (now() AT TIME ZONE 'America/Asuncion')::date;
+    schedule JSONB;
+    stage_hours INTEGER[];
+    feedback_hours INTEGER;
+    stage_name TEXT;
+    due public.reservations;
+BEGIN
+    BEGIN
+        SELECT value::jsonb INTO schedule
+        FROM public.settings
+        WHERE key = 'reminder_schedule';
+    EXCEPTION WHEN OTHERS THEN
+        schedule := NULL;
+    END;
+
+    -- Longest lead first, so each stage is due until the next one starts
+    SELECT array_agg(hours ORDER BY hours DESC) INTO stage_hours
+    FROM (
+        SELECT DISTINCT round(value::numeric)::integer AS hours
+        FROM jsonb_array_elements_text(COALESCE(schedule->'hoursBefore', '[]'::jsonb))
+        WHERE value ~ '^\d+(\.\d+)?$'
+    ) stages
+    WHERE hours > 0;
+
+    FOR i IN 1..COALESCE(array_length(stage_hours, 1), 0) LOOP
+        stage_name := stage_hours[i] || 'h';
+
+        FOR due IN
+            SELECT r.*
+            FROM public.reservations r
+            WHERE r.status = 'approved'
+              AND r.confirmed
+              AND r.fecha BETWEEN local_today AND local_today + (stage_hours[i] / 24 + 1)
+              AND ((r.fecha + r.inicio) AT TIME ZONE 'America/Asuncion') - make_interval(hours => stage_hours[i]) <= now()
+              AND ((r.fecha + r.inicio) AT TIME ZONE 'America/Asuncion') - make_interval(hours => COALESCE(stage_hours[i + 1], 0)) > now()
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.reminders_sent s
+                  WHERE s.reservation_id = r.id AND s.stage = stage_name
+              )
+        LOOP
+            -- The primary key makes concurrent runs skip what another one took
+            INSERT INTO public.reminders_sent (reservation_id, stage)
+            VALUES (due.id, stage_name)
+            ON CONFLICT DO NOTHING;
+
+            IF FOUND THEN
+                email_id := public.enqueue_reservation_email(
+                    'reservation-reminder', due, NULL, NULL,
+                    jsonb_build_object('reminderHours', stage_hours[i])
+                );
+                reminder_stage := stage_name;
+
+                UPDATE public.reminders_sent
+                SET outbox_id = email_id
+                WHERE reservation_id = due.id AND stage = stage_name;
+
+                RETURN NEXT;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    feedback_hours := CASE
+        WHEN schedule->>'feedbackHoursAfter' ~ '^\d+(\.\d+)?$'
+            THEN round((schedule->>'feedbackHoursAfter')::numeric)::integer
+        ELSE 0
+    END;
+
+    IF feedback_hours > 0 THEN
+        FOR due IN
+            SELECT r.*
+            FROM public.reservations r
+            WHERE r.status = 'approved'
+              AND r.confirmed
+              AND r.fecha BETWEEN local_today - (feedback_hours / 24 + 2) AND local_today
+              AND ((r.fecha + r.fin) AT TIME ZONE 'America/Asuncion') + make_interval(hours => feedback_hours) <= now()
+              -- Older reservations (e.g. from before this was enabled) are not asked
+              AND ((r.fecha + r.fin) AT TIME ZONE 'America/Asuncion') + make_interval(hours => feedback_hours) > now() - interval '1 day'
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.reservation_handovers h
+                  WHERE h.reservation_id = r.id AND h.no_show
+              )
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.reminders_sent s
+                  WHERE s.reservation_id = r.id AND s.stage = 'feedback'
+              )
+        LOOP
+            INSERT INTO public.reminders_sent (reservation_id, stage)
+            VALUES (due.id, 'feedback')
+            ON CONFLICT DO NOTHING;
+
+            IF FOUND THEN
+                email_id := public.enqueue_reservation_email('reservation-feedback', due);
+                reminder_stage := 'feedback';
+
+                UPDATE public.reminders_sent
+                SET outbox_id = email_id
+                WHERE reservation_id = due.id AND stage = 'feedback';
+
+                RETURN NEXT;
+            END IF;
+        END LOOP;
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_due_reminders() IS
+'Enqueues the reminder and feedback emails that are due and returns their outbox IDs (used by send-reminders)';
+
+REVOKE ALL ON FUNCTION public.enqueue_due_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_due_reminders() TO service_role;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Current schedule:
+-- SELECT value::jsonb FROM public.settings WHERE key = 'reminder_schedule';
+
+-- Reminders sent for the next reservations:
+-- SELECT r.fecha, r.inicio, r.responsable, s.stage, s.created_at, o.status
+-- FROM public.reminders_sent s
+-- JOIN public.reservations r ON r.id = s.reservation_id
+-- LEFT JOIN public.email_outbox o ON o.id = s.outbox_id
+-- ORDER BY s.created_at DESC
+-- LIMIT 20;
@@ -0,0 +1,168 @@
+-- =============================================================================
+-- CREATE RESERVATION SERIES RPC
+-- Created: October 19, 2026
+-- Description:
+--   The app inserted the reservation_series row from the browser and then
+--   created each occurrence with a separate create_reservation() call, so a
+--   series whose dates were all taken or rejected by a booking policy was
+--   left behind without occurrences.
+--   1. create_reservation_series(): expands the weekly rule on the server
+--      and creates the series row and its occurrences in one transaction
+--      through create_reservation(). Dates
+--      that are taken, blocked or break a booking policy are skipped and
+--      returned with their error code; any other error, or a series without
+--      occurrences, rolls everything back.
+--   2. reservation_series can no longer be inserted directly.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: create_reservation_series()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_reservation_series(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_start_date DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_interval_weeks INTEGER,
+    p_until_date DATE DEFAULT NULL,
+    p_occurrence_count INTEGER DEFAULT NULL,
+    p_affiliation TEXT DEFAULT NULL,
+    p_documentation TEXT DEFAULT NULL,
+    p_override_policies BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Same limit as create_reservation() and reservation_series_count_check
+    max_series_occurrences CONSTANT INTEGER := 26;
+    -- Errors that only affect one date; the rest of the series goes ahead
+    skippable_errors CONSTANT TEXT[] := ARRAY[
+        'SLOT_TAKEN', 'DATE_BLOCKED',
+        'LEAD_TIME', 'BEYOND_HORIZON', 'TOO_MANY_ACTIVE', 'MONTHLY_HOURS_EXCEEDED', 'NO_SHOW_COOLDOWN'
+    ];
+
+    dates DATE[];
+    new_series_id UUID;
+    -- All occurrences share one token so a single email confirms the series
+    confirmation_token UUID := gen_random_uuid();
+    occurrence DATE;
+    result JSONB;
+    created JSONB := '[]'::jsonb;
+    skipped JSONB := '[]'::jsonb;
+    first_policy_violation JSONB;
+    failure JSONB;
+BEGIN
+    IF p_start_date IS NULL
+       OR p_interval_weeks IS NULL OR p_interval_weeks NOT BETWEEN 1 AND 4
+       OR (p_until_date IS NULL AND p_occurrence_count IS NULL)
+       OR p_until_date < p_start_date
+       OR p_occurrence_count NOT BETWEEN 1 AND max_series_occurrences
+       OR p_inicio IS NULL OR p_fin IS NULL OR p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_SERIES');
+    END IF;
+
+    -- The dates come from the rule, never from the client: every
+    -- p_interval_weeks weeks from p_start_date, up to p_occurrence_count
+    -- dates or p_until_date, and never more than max_series_occurrences
+    SELECT array_agg(d::date ORDER BY d) INTO dates
+    FROM generate_series(
+        p_start_date::timestamp,
+        COALESCE(p_until_date, p_start_date + (p_occurrence_count - 1) * 7 * p_interval_weeks)::timestamp,
+        make_interval(weeks => p_interval_weeks)
+    ) WITH ORDINALITY AS g(d, n)
+    WHERE n <= COALESCE(p_occurrence_count, max_series_occurrences);
+
+    -- Anything that aborts the series rolls back the series row, the
+    -- occurrences already created and their rate limit entry
+    BEGIN
+        INSERT INTO public.reservation_series (
+            responsable, email, motivo, frequency, interval_weeks,
+            start_date, until_date, occurrence_count, inicio, fin
+        )
+        VALUES (
+            trim(COALESCE(p_responsable, '')), trim(COALESCE(p_email, '')), trim(COALESCE(p_motivo, '')),
+            'weekly', p_interval_weeks, p_start_date, p_until_date, p_occurrence_count, p_inicio, p_fin
+        )
+        RETURNING id INTO new_series_id;
+
+        FOREACH occurrence IN ARRAY dates LOOP
+            result := public.create_reservation(
+                p_responsable, p_email, p_motivo, occurrence, p_inicio, p_fin, p_personas,
+                p_affiliation, new_series_id, confirmation_token, p_documentation, p_override_policies
+            );
+
+            IF (result ->> 'success')::boolean THEN
+                created := created || jsonb_build_array(result -> 'reservation');
+            ELSIF result ->> 'error' = ANY (skippable_errors) THEN
+                skipped := skipped || jsonb_build_array(
+                    jsonb_build_object('fecha', occurrence, 'error', result ->> 'error')
+                );
+                IF first_policy_violation IS NULL AND result ->> 'error' NOT IN ('SLOT_TAKEN', 'DATE_BLOCKED') THEN
+                    first_policy_violation := result;
+                END IF;
+            ELSE
+                failure := result;
+                RAISE EXCEPTION 'SERIES_ABORTED';
+            END IF;
+        END LOOP;
+
+        IF jsonb_array_length(created) = 0 THEN
+            failure := COALESCE(
+                first_policy_violation,
+                jsonb_build_object('success', false, 'error', 'SERIES_NO_AVAILABLE_DATES')
+            ) || jsonb_build_object('skipped', skipped);
+            RAISE EXCEPTION 'SERIES_ABORTED';
+        END IF;
+    EXCEPTION WHEN raise_exception THEN
+        IF failure IS NULL THEN
+            RAISE;
+        END IF;
+        RETURN failure;
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'series_id', new_series_id,
+        'reservations', created,
+        'skipped', skipped
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_reservation_series(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, INTEGER, DATE, INTEGER, TEXT, TEXT, BOOLEAN) IS
+'Creates a weekly series and its unconfirmed occurrences. Returns { success, series_id, reservations, skipped: [{ fecha, error }] } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_reservation_series(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, INTEGER, DATE, INTEGER, TEXT, TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_reservation_series(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, INTEGER, DATE, INTEGER, TEXT, TEXT, BOOLEAN) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 2: NO DIRECT SERIES INSERTS
+-- =============================================================================
+
+DROP POLICY IF EXISTS "reservation_series_insert_all" ON public.reservation_series;
+
+REVOKE INSERT ON public.reservation_series FROM anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Series without occurrences (should be none created from now on):
+-- SELECT s.id, s.email, s.created_at
+-- FROM public.reservation_series s
+-- WHERE NOT EXISTS (SELECT 1 FROM public.reservations r WHERE r.series_id = s.id);
+
+-- The browser can no longer insert series rows directly:
+-- SELECT has_table_privilege('anon', 'public.reservation_series', 'INSERT');
+-- -> false
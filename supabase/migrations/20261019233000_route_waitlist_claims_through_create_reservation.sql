@@ -0,0 +1,116 @@
+-- =============================================================================
+-- WAITLIST CLAIMS THROUGH create_reservation()
+-- Created: October 19, 2026
+-- Description:
+--   claim_waitlist_spot() inserted the reservation itself, so a claim skipped
+--   the capacity and documentation rules and the booking policies that every
+--   other way of booking enforces.
+--   1. claim_waitlist_spot() creates the reservation with create_reservation()
+--      and then marks it confirmed (the claim link proves the email address).
+--      Errors are returned as create_reservation() reports them, with
+--      DATE_BLOCKED reported as SLOT_TAKEN like before.
+--   2. A claim rejected by a rule or policy expires the offer and passes the
+--      slot to the next person in line; a rate-limited claim can be retried.
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: claim_waitlist_spot()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_waitlist_spot(p_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    entry RECORD;
+    result JSONB;
+    new_reservation RECORD;
+BEGIN
+    SELECT * INTO entry
+    FROM public.waitlist_entries
+    WHERE claim_token = p_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TOKEN');
+    END IF;
+
+    IF entry.status = 'claimed' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'ALREADY_CLAIMED');
+    END IF;
+
+    IF entry.status <> 'notified' OR entry.claim_expires_at <= now() THEN
+        RETURN jsonb_build_object('success', false, 'error', 'EXPIRED');
+    END IF;
+
+    -- Same validation, capacity rules and booking policies as the booking form
+    result := public.create_reservation(
+        entry.responsable, entry.email, entry.motivo, entry.fecha, entry.inicio, entry.fin,
+        entry.personas, entry.affiliation
+    );
+
+    IF NOT COALESCE((result ->> 'success')::boolean, false) THEN
+        IF result ->> 'error' = 'RATE_LIMITED' THEN
+            RETURN result;
+        END IF;
+
+        UPDATE public.waitlist_entries SET status = 'expired' WHERE id = entry.id;
+
+        IF result ->> 'error' IN ('SLOT_TAKEN', 'DATE_BLOCKED') THEN
+            RETURN jsonb_build_object('success', false, 'error', 'SLOT_TAKEN');
+        END IF;
+
+        -- The slot is still free, just not for this person
+        PERFORM public.notify_next_waitlist_entry(entry.fecha, entry.inicio, entry.fin);
+        RETURN result;
+    END IF;
+
+    -- The claim link proves the email address, so the reservation skips confirmation
+    UPDATE public.reservations
+    SET confirmed = true,
+        token_expires_at = NULL
+    WHERE id = (result -> 'reservation' ->> 'id')::uuid
+    RETURNING * INTO new_reservation;
+
+    UPDATE public.waitlist_entries
+    SET status = 'claimed',
+        claimed_at = now(),
+        claimed_reservation_id = new_reservation.id
+    WHERE id = entry.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reservation', jsonb_build_object(
+            'id', new_reservation.id,
+            'responsable', new_reservation.responsable,
+            'email', new_reservation.email,
+            'motivo', new_reservation.motivo,
+            'fecha', new_reservation.fecha,
+            'inicio', to_char(new_reservation.inicio, 'HH24:MI'),
+            'fin', to_char(new_reservation.fin, 'HH24:MI'),
+            'personas', new_reservation.personas
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_waitlist_spot(UUID) IS
+'Creates a pending (already confirmed) reservation from a valid waitlist claim token through create_reservation()';
+
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_spot(UUID) TO anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Claims rejected by a rule or policy (the offer expired without a reservation):
+-- SELECT w.fecha, w.inicio, w.email, w.status
+-- FROM public.waitlist_entries w
+-- WHERE w.status = 'expired' AND w.claimed_reservation_id IS NULL
+-- ORDER BY w.fecha DESC;
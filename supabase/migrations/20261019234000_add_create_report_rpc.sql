@@ -0,0 +1,239 @@
+-- =============================================================================
+-- REPORT SUBMISSION THROUGH create_report()
+-- Created: October 19, 2026
+-- Description:
+--   Anyone could insert reports without a limit and upload any file anywhere
+--   in the report-attachments bucket, which made the bucket free anonymous
+--   storage and the reports table a spam channel.
+--   1. public.submission_log and log_submission(): hourly limits per email and
+--      per client IP for anonymous submissions other than reservations
+--   2. create_report(): validates and rate-limits the report, stores it and
+--      returns the storage paths reserved for its photos:
+--        reports/<report id>/<n>.<extension>
+--      Errors: MISSING_FIELDS, INVALID_EMAIL, INVALID_CATEGORY,
+--      RESERVATION_NOT_FOUND, TOO_MANY_PHOTOS, INVALID_PHOTO, RATE_LIMITED
+--   3. Uploads to report-attachments are only accepted at those paths, for
+--      15 minutes after the report was submitted
+--   4. public.reports can no longer be inserted directly
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: SUBMISSION LOG FOR RATE LIMITING
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.submission_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind TEXT NOT NULL,
+    email TEXT NOT NULL,
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_log_email
+ON public.submission_log(kind, email, created_at);
+CREATE INDEX IF NOT EXISTS idx_submission_log_ip
+ON public.submission_log(kind, ip_address, created_at)
+WHERE ip_address IS NOT NULL;
+
+COMMENT ON TABLE public.submission_log IS
+'Anonymous submissions (reports, waitlist entries) of the last day, written by log_submission() for rate limiting';
+
+-- Only log_submission() (SECURITY DEFINER) reads and writes the log
+ALTER TABLE public.submission_log ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.submission_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_submission(
+    p_kind TEXT,
+    p_email TEXT,
+    p_max_per_email INTEGER,
+    p_max_per_ip INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    rate_window CONSTANT INTERVAL := interval '1 hour';
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    client_ip TEXT := public.request_client_ip();
+BEGIN
+    DELETE FROM public.submission_log WHERE created_at < now() - interval '1 day';
+
+    IF (
+        SELECT COUNT(*) FROM public.submission_log
+        WHERE kind = p_kind AND email = normalized_email AND created_at > now() - rate_window
+    ) >= p_max_per_email
+    OR (
+        client_ip IS NOT NULL AND (
+            SELECT COUNT(*) FROM public.submission_log
+            WHERE kind = p_kind AND ip_address = client_ip AND created_at > now() - rate_window
+        ) >= p_max_per_ip
+    ) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.submission_log (kind, email, ip_address)
+    VALUES (p_kind, normalized_email, client_ip);
+
+    RETURN true;
+END;
+$$;
+
+COMMENT ON FUNCTION public.log_submission(TEXT, TEXT, INTEGER, INTEGER) IS
+'Records a submission of the given kind; false (and nothing recorded) when the email or client IP reached its hourly limit';
+
+REVOKE ALL ON FUNCTION public.log_submission(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- PART 2: create_report()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_report(
+    p_name TEXT,
+    p_email TEXT,
+    p_category TEXT,
+    p_description TEXT,
+    p_reservation_id UUID DEFAULT NULL,
+    p_photo_extensions TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Same limit as reports_attachments_limit_check
+    max_photos CONSTANT INTEGER := 5;
+    max_reports_per_email CONSTANT INTEGER := 3;
+    max_reports_per_ip CONSTANT INTEGER := 10;
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+    new_report_id UUID := gen_random_uuid();
+    attachment_paths TEXT[];
+BEGIN
+    IF trim(COALESCE(p_name, '')) = '' OR trim(COALESCE(p_description, '')) = '' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_category IS NULL OR p_category NOT IN ('bug', 'damage', 'cleanliness', 'other') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_CATEGORY');
+    END IF;
+
+    IF p_reservation_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.reservations WHERE id = p_reservation_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'RESERVATION_NOT_FOUND');
+    END IF;
+
+    IF COALESCE(cardinality(p_photo_extensions), 0) > max_photos THEN
+        RETURN jsonb_build_object('success', false, 'error', 'TOO_MANY_PHOTOS', 'max', max_photos);
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_photo_extensions) AS extension
+        WHERE extension IS NULL OR lower(extension) !~ '^[a-z0-9]{1,5}$'
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_PHOTO');
+    END IF;
+
+    IF NOT public.log_submission('report', normalized_email, max_reports_per_email, max_reports_per_ip) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+    END IF;
+
+    SELECT COALESCE(array_agg(format('reports/%s/%s.%s', new_report_id, n, lower(extension)) ORDER BY n), '{}')
+    INTO attachment_paths
+    FROM unnest(p_photo_extensions) WITH ORDINALITY AS photo(extension, n);
+
+    INSERT INTO public.reports (id, name, email, category, description, reservation_id, attachments)
+    VALUES (
+        new_report_id, trim(p_name), trim(p_email), p_category, trim(p_description),
+        p_reservation_id, attachment_paths
+    );
+
+    RETURN jsonb_build_object('success', true, 'report_id', new_report_id, 'attachments', to_jsonb(attachment_paths));
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_report(TEXT, TEXT, TEXT, TEXT, UUID, TEXT[]) IS
+'Validates and stores an issue report. Returns { success, report_id, attachments: [upload paths] } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.create_report(TEXT, TEXT, TEXT, TEXT, UUID, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_report(TEXT, TEXT, TEXT, TEXT, UUID, TEXT[]) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 3: UPLOADS ONLY TO RESERVED PATHS
+-- =============================================================================
+
+-- The storage policy runs as the uploader, who cannot read public.reports
+CREATE OR REPLACE FUNCTION public.is_pending_report_attachment(p_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.reports
+        WHERE id = (
+            CASE WHEN split_part(p_name, '/', 2) ~ '^[0-9a-f-]{36}$'
+                THEN split_part(p_name, '/', 2)::uuid
+            END
+        )
+          AND p_name = ANY (attachments)
+          AND created_at > now() - interval '15 minutes'
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_pending_report_attachment(TEXT) IS
+'Whether the object path was reserved by create_report() for a report submitted in the last 15 minutes';
+
+REVOKE ALL ON FUNCTION public.is_pending_report_attachment(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_pending_report_attachment(TEXT) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "report_attachments_insert_all" ON storage.objects;
+
+-- Photos can only be uploaded to the paths create_report() returned, once
+-- (uploads do not overwrite)
+CREATE POLICY "report_attachments_insert_all"
+ON storage.objects
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+    bucket_id = 'report-attachments'
+    AND public.is_pending_report_attachment(name)
+);
+
+-- =============================================================================
+-- PART 4: NO DIRECT REPORT INSERTS
+-- =============================================================================
+
+DROP POLICY IF EXISTS "reports_insert_all" ON public.reports;
+
+REVOKE INSERT ON public.reports FROM anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- Insert policies on report-attachments (only report_attachments_insert_all,
+-- limited to reserved paths):
+-- SELECT policyname, with_check FROM pg_policies
+-- WHERE schemaname = 'storage' AND tablename = 'objects' AND cmd = 'INSERT';
+
+-- The browser can no longer insert reports directly:
+-- SELECT has_table_privilege('anon', 'public.reports', 'INSERT');
+-- -> false
+
+-- Reports submitted per email in the last hour:
+-- SELECT email, COUNT(*) FROM public.submission_log
+-- WHERE kind = 'report' AND created_at > now() - interval '1 hour'
+-- GROUP BY 1 ORDER BY 2 DESC;
@@ -0,0 +1,141 @@
+-- =============================================================================
+-- JOIN THE WAITLIST THROUGH join_waitlist()
+-- Created: October 19, 2026
+-- Description:
+--   Anyone could insert waitlist entries for any range, booked or not, without
+--   a limit, and every entry can later trigger a claim email from
+--   notify_next_waitlist_entry().
+--   1. join_waitlist(): validates the entry, checks that the range is taken
+--      and not blocked, and applies the same hourly limits as reservations
+--      (log_submission()). Errors: MISSING_FIELDS, INVALID_EMAIL,
+--      INVALID_HEADCOUNT, INVALID_TIME_RANGE, PAST_DATE, SLOT_BLOCKED,
+--      SLOT_AVAILABLE, ALREADY_WAITLISTED, RATE_LIMITED
+--   2. public.waitlist_entries can no longer be inserted directly
+-- =============================================================================
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: join_waitlist()
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+    p_responsable TEXT,
+    p_email TEXT,
+    p_motivo TEXT,
+    p_fecha DATE,
+    p_inicio TIME,
+    p_fin TIME,
+    p_personas INTEGER,
+    p_affiliation TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- Same limits as create_reservation()
+    max_requests_per_email CONSTANT INTEGER := 5;
+    max_requests_per_ip CONSTANT INTEGER := 20;
+
+    normalized_email TEXT := lower(trim(COALESCE(p_email, '')));
+BEGIN
+    IF trim(COALESCE(p_responsable, '')) = '' OR trim(COALESCE(p_motivo, '')) = ''
+       OR p_fecha IS NULL OR p_inicio IS NULL OR p_fin IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'MISSING_FIELDS');
+    END IF;
+
+    IF normalized_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_EMAIL');
+    END IF;
+
+    IF p_personas IS NULL OR p_personas < 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_HEADCOUNT');
+    END IF;
+
+    IF p_fin <= p_inicio THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_TIME_RANGE');
+    END IF;
+
+    -- The quincho works on Paraguay time
+    IF (p_fecha + p_inicio) < (now() AT TIME ZONE 'America/Asuncion') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'PAST_DATE');
+    END IF;
+
+    IF public.is_slot_blocked(p_fecha, p_inicio, p_fin) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_BLOCKED');
+    END IF;
+
+    -- Only a range someone else holds can be released later; the same
+    -- check create_reservation() reports as SLOT_TAKEN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.reservations r
+        WHERE r.fecha = p_fecha
+          AND r.status NOT IN ('cancelled', 'rejected')
+          AND r.inicio < p_fin
+          AND r.fin > p_inicio
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'SLOT_AVAILABLE');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.waitlist_entries w
+        WHERE lower(w.email) = normalized_email
+          AND w.fecha = p_fecha
+          AND w.inicio = p_inicio
+          AND w.fin = p_fin
+          AND w.status IN ('waiting', 'notified')
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'ALREADY_WAITLISTED');
+    END IF;
+
+    IF NOT public.log_submission('waitlist', normalized_email, max_requests_per_email, max_requests_per_ip) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'RATE_LIMITED');
+    END IF;
+
+    BEGIN
+        INSERT INTO public.waitlist_entries (
+            responsable, email, motivo, personas, affiliation, fecha, inicio, fin
+        )
+        VALUES (
+            trim(p_responsable), trim(p_email), trim(p_motivo), p_personas,
+            NULLIF(trim(COALESCE(p_affiliation, '')), ''),
+            p_fecha, p_inicio, p_fin
+        );
+    EXCEPTION WHEN unique_violation THEN
+        -- The same person joined between the check and the insert
+        RETURN jsonb_build_object('success', false, 'error', 'ALREADY_WAITLISTED');
+    END;
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+COMMENT ON FUNCTION public.join_waitlist(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT) IS
+'Adds someone to the waitlist of a taken range. Returns { success } or { success: false, error }';
+
+REVOKE ALL ON FUNCTION public.join_waitlist(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.join_waitlist(TEXT, TEXT, TEXT, DATE, TIME, TIME, INTEGER, TEXT) TO anon, authenticated;
+
+-- =============================================================================
+-- PART 2: NO DIRECT WAITLIST INSERTS
+-- =============================================================================
+
+DROP POLICY IF EXISTS "waitlist_entries_insert_all" ON public.waitlist_entries;
+
+REVOKE INSERT ON public.waitlist_entries FROM anon, authenticated;
+
+COMMIT;
+
+-- =============================================================================
+-- VERIFICATION
+-- =============================================================================
+
+-- The browser can no longer insert waitlist entries directly:
+-- SELECT has_table_privilege('anon', 'public.waitlist_entries', 'INSERT');
+-- -> false
+
+-- A free range is refused:
+-- SELECT public.join_waitlist('Ana', 'ana@example.com', 'Asado', CURRENT_DATE + 30, '03:00', '04:00', 10);
+-- -> {"error": "SLOT_AVAILABLE", "success": false}